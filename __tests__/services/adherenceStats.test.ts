@@ -0,0 +1,168 @@
+import {
+  summarize,
+  byWeek,
+  dailyTrend,
+  weeklyTrend,
+  getStreaks,
+  getLateness,
+} from '../../app/services/adherenceStats';
+import { DoseRow } from '../../app/services/doseEventService';
+
+const row = (date: string, time: string, status: DoseRow['status'], recordedAt?: string): DoseRow => ({
+  doseKey: `1_${date}_${time}`,
+  medicationName: 'Metformin',
+  containerId: 1,
+  date,
+  time,
+  status,
+  event: recordedAt
+    ? {
+        elderId: 'elder-1',
+        doseKey: `1_${date}_${time}`,
+        containerId: 1,
+        medicationName: 'Metformin',
+        scheduledDate: date,
+        scheduledTime: time,
+        status: status === 'late' ? 'late' : 'taken',
+        recordedAt,
+      }
+    : undefined,
+});
+
+// Local time, so results do not depend on the machine's time zone
+const at = (date: string, time: string) => new Date(`${date}T${time}:00`).toISOString();
+
+describe('summarize', () => {
+  it('reports no rate for empty input', () => {
+    expect(summarize([])).toEqual({ total: 0, taken: 0, late: 0, skipped: 0, missed: 0, pending: 0, rate: null });
+  });
+
+  it('counts late doses as taken and leaves pending doses out of the rate', () => {
+    const summary = summarize([
+      row('2026-10-19', '08:00', 'taken'),
+      row('2026-10-19', '12:00', 'late'),
+      row('2026-10-19', '18:00', 'missed'),
+      row('2026-10-19', '20:00', 'skipped'),
+      row('2026-10-19', '22:00', 'pending'),
+    ]);
+    expect(summary).toMatchObject({ total: 5, taken: 1, late: 1, missed: 1, skipped: 1, pending: 1 });
+    expect(summary.rate).toBe(50);
+  });
+
+  it('has no rate when every dose is still pending', () => {
+    expect(summarize([row('2026-10-19', '08:00', 'pending')]).rate).toBeNull();
+  });
+});
+
+describe('byWeek', () => {
+  it('returns nothing for empty input', () => {
+    expect(byWeek([])).toEqual([]);
+  });
+
+  it('groups doses by the Sunday that starts their week', () => {
+    const groups = byWeek([
+      row('2026-10-17', '08:00', 'missed'), // Saturday
+      row('2026-10-18', '08:00', 'taken'), // Sunday
+      row('2026-10-24', '08:00', 'late'), // Saturday
+    ]);
+    expect(groups.map(group => [group.key, group.total, group.rate])).toEqual([
+      ['2026-10-11', 1, 0],
+      ['2026-10-18', 2, 100],
+    ]);
+    expect(groups[1].label).toBe('Week of 2026-10-18');
+  });
+});
+
+describe('dailyTrend', () => {
+  it('includes days without doses', () => {
+    const points = dailyTrend([], new Date(2026, 9, 19), 3);
+    expect(points.map(point => [point.key, point.rate, point.due])).toEqual([
+      ['2026-10-17', null, 0],
+      ['2026-10-18', null, 0],
+      ['2026-10-19', null, 0],
+    ]);
+  });
+
+  it('rates each day on its due doses', () => {
+    const points = dailyTrend([
+      row('2026-10-18', '08:00', 'taken'),
+      row('2026-10-18', '20:00', 'missed'),
+      row('2026-10-19', '08:00', 'late'),
+      row('2026-10-19', '20:00', 'pending'),
+    ], new Date(2026, 9, 19), 2);
+    expect(points).toEqual([
+      { key: '2026-10-18', label: '10-18', rate: 50, due: 2 },
+      { key: '2026-10-19', label: '10-19', rate: 100, due: 1 },
+    ]);
+  });
+});
+
+describe('weeklyTrend', () => {
+  it('covers every week in the range, empty ones included', () => {
+    const points = weeklyTrend([row('2026-10-05', '08:00', 'missed')], new Date(2026, 9, 19), 14);
+    expect(points.map(point => [point.key, point.rate, point.due])).toEqual([
+      ['2026-10-04', 0, 1],
+      ['2026-10-11', null, 0],
+      ['2026-10-18', null, 0],
+    ]);
+  });
+
+  it('returns a single point for a range inside one week', () => {
+    expect(weeklyTrend([], new Date(2026, 9, 20), 2).map(point => point.key)).toEqual(['2026-10-18']);
+  });
+});
+
+describe('getStreaks', () => {
+  it('is zero for empty input', () => {
+    expect(getStreaks([])).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('carries a streak across midnight into the next day', () => {
+    expect(getStreaks([
+      row('2026-10-18', '23:30', 'taken', at('2026-10-18', '23:35')),
+      row('2026-10-19', '00:15', 'taken', at('2026-10-19', '00:20')),
+    ])).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('counts a late dose taken after midnight for its scheduled day', () => {
+    expect(getStreaks([
+      row('2026-10-18', '23:30', 'late', at('2026-10-19', '01:00')),
+      row('2026-10-19', '08:00', 'taken', at('2026-10-19', '08:05')),
+    ])).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('breaks on a missed dose and ignores pending ones', () => {
+    expect(getStreaks([
+      row('2026-10-15', '08:00', 'taken'),
+      row('2026-10-16', '08:00', 'taken'),
+      row('2026-10-17', '08:00', 'taken'),
+      row('2026-10-18', '08:00', 'taken'),
+      row('2026-10-18', '20:00', 'missed'),
+      row('2026-10-19', '08:00', 'late'),
+      row('2026-10-20', '08:00', 'pending'),
+    ])).toEqual({ current: 1, longest: 3 });
+  });
+});
+
+describe('getLateness', () => {
+  it('has no average for empty input', () => {
+    expect(getLateness([])).toEqual({ averageMinutes: null, lateCount: 0, sampleSize: 0 });
+  });
+
+  it('averages how far taken doses were from their time, across midnight too', () => {
+    const summary = getLateness([
+      row('2026-10-18', '23:30', 'late', at('2026-10-19', '00:30')), // 60 minutes late
+      row('2026-10-19', '08:00', 'taken', at('2026-10-19', '07:50')), // 10 minutes early
+    ]);
+    expect(summary).toEqual({ averageMinutes: 25, lateCount: 1, sampleSize: 2 });
+  });
+
+  it('leaves missed doses and doses without an event out of the average', () => {
+    const summary = getLateness([
+      row('2026-10-19', '08:00', 'missed'),
+      row('2026-10-19', '12:00', 'late'),
+      row('2026-10-19', '18:00', 'taken', at('2026-10-19', '18:20')),
+    ]);
+    expect(summary).toEqual({ averageMinutes: 20, lateCount: 1, sampleSize: 1 });
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  escapeCsvField,
+  toCsv,
+  schedulesToCsv,
+  doseRowsToCsv,
+  toFhirBundle,
+} from '../../app/services/exportService';
+import { Medication, MedicationSchedule } from '../../app/services/api';
+import { DoseHistory, DoseRow } from '../../app/services/doseEventService';
+
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('../../app/services/doseEventService', () => ({ doseEventService: {} }));
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF row ends
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i++;
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+};
+
+const medication = (medId: number, name: string, dosage: string, form: string): Medication => ({
+  _id: `med-${medId}`,
+  name,
+  description: '',
+  dosage,
+  form,
+  manufacturer: 'Generic',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  medId,
+  __v: 0,
+});
+
+const medications = [
+  medication(1, 'Metformin', '500mg', 'Tablet'),
+  medication(2, 'Co-amoxiclav, "Augmentin"', '625mg', 'Tablet'),
+];
+
+const schedules: MedicationSchedule[] = [
+  {
+    _id: 'sched-daily',
+    scheduleId: 1,
+    user: 7,
+    medication: 1,
+    container: 1,
+    date: '2026-10-01',
+    time: '08:00',
+    status: 'Pending',
+    alertSent: false,
+    frequency: 'twice_daily',
+    timeSlots: [{ time: '08:00', isActive: true }, { time: '20:00', isActive: true }],
+    daysOfWeek: [1, 3, 5],
+    startDate: '2026-10-01',
+    endDate: '2026-10-10',
+  },
+  {
+    _id: 'sched-once',
+    scheduleId: 2,
+    user: 7,
+    medication: 2,
+    container: 2,
+    date: '2026-10-05',
+    time: '12:30',
+    status: 'Pending',
+    alertSent: false,
+  },
+];
+
+const row = (date: string, time: string, status: DoseRow['status'], notes?: string): DoseRow => ({
+  doseKey: `sched-daily@${date}T${time}`,
+  medicationName: 'Metformin',
+  containerId: 1,
+  date,
+  time,
+  status,
+  event: status === 'taken' || status === 'late'
+    ? {
+        elderId: 'elder-1',
+        doseKey: `sched-daily@${date}T${time}`,
+        containerId: 1,
+        medicationName: 'Metformin',
+        scheduledDate: date,
+        scheduledTime: time,
+        status,
+        recordedAt: '2026-10-05T08:10:00.000Z',
+        source: 'adherence',
+        notes,
+      }
+    : undefined,
+});
+
+const history: DoseHistory = {
+  rows: [
+    row('2026-10-05', '08:00', 'taken', 'With breakfast, "as usual"'),
+    row('2026-10-05', '20:00', 'missed'),
+    row('2026-10-06', '08:00', 'skipped'),
+    row('2026-10-07', '08:00', 'pending'),
+    row('2026-09-30', '08:00', 'taken'),
+  ],
+  schedules,
+  medications,
+  offlineSince: null,
+};
+
+const options = { elderId: 'elder 1', elderName: 'Rosa Diaz', from: '2026-10-01', to: '2026-10-31' };
+
+describe('escapeCsvField', () => {
+  it('neutralises cells a spreadsheet would run as formulas', () => {
+    expect(['=1+1', '+1', '-1', '@SUM(A1)', '\tx', '\rx'].map(escapeCsvField))
+      .toEqual(["'=1+1", "'+1", "'-1", "'@SUM(A1)", "'\tx", `"'\rx"`]);
+  });
+
+  it('leaves ordinary values alone and blanks null', () => {
+    expect([null, undefined, 'Metformin', 3].map(escapeCsvField)).toEqual(['', '', 'Metformin', '3']);
+  });
+});
+
+describe('toCsv', () => {
+  it('round-trips quotes, commas and line breaks', () => {
+    const rows = [['a,b', 'say "hi"', 'two\r\nlines'], ['', 'plain', 42]];
+    expect(parseCsv(toCsv(['x', 'y', 'z'], rows))).toEqual([
+      ['x', 'y', 'z'],
+      ['a,b', 'say "hi"', 'two\r\nlines'],
+      ['', 'plain', '42'],
+    ]);
+  });
+});
+
+describe('schedulesToCsv', () => {
+  it('writes one parseable row per schedule', () => {
+    const [header, ...rows] = parseCsv(schedulesToCsv(schedules, medications));
+    const records = rows.map(values => Object.fromEntries(header.map((key, i) => [key, values[i]])));
+
+    expect(records).toEqual([
+      {
+        schedule_id: 'sched-daily',
+        container: '1',
+        medication: 'Metformin',
+        dosage: '500mg',
+        form: 'Tablet',
+        frequency: 'twice_daily',
+        times: '08:00 20:00',
+        days_of_week: 'mon wed fri',
+        start_date: '2026-10-01',
+        end_date: '2026-10-10',
+        status: 'Pending',
+      },
+      {
+        schedule_id: 'sched-once',
+        container: '2',
+        medication: 'Co-amoxiclav, "Augmentin"',
+        dosage: '625mg',
+        form: 'Tablet',
+        frequency: 'once',
+        times: '12:30',
+        days_of_week: '',
+        start_date: '2026-10-05',
+        end_date: '2026-10-05',
+        status: 'Pending',
+      },
+    ]);
+  });
+});
+
+describe('doseRowsToCsv', () => {
+  it('keeps notes and leaves event columns blank without an event', () => {
+    const [header, taken, missed] = parseCsv(doseRowsToCsv(history.rows));
+    expect(header).toEqual(['dose_key', 'date', 'time', 'container', 'medication', 'status', 'recorded_at', 'source', 'notes']);
+    expect(taken.slice(5)).toEqual(['taken', '2026-10-05T08:10:00.000Z', 'adherence', 'With breakfast, "as usual"']);
+    expect(missed.slice(5)).toEqual(['missed', '', '', '']);
+  });
+});
+
+describe('toFhirBundle', () => {
+  const bundle = JSON.parse(JSON.stringify(toFhirBundle(options, history, new Date('2026-10-19T12:00:00.000Z'))));
+  const resources = bundle.entry.map((entry: { resource: Record<string, any> }) => entry.resource);
+  const ofType = (type: string) => resources.filter((resource: { resourceType: string }) => resource.resourceType === type);
+
+  it('is a collection bundle with the patient first', () => {
+    expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'collection', timestamp: '2026-10-19T12:00:00.000Z' });
+    expect(resources[0]).toEqual({
+      resourceType: 'Patient',
+      id: 'elder-elder-1',
+      identifier: [{ system: 'urn:pillnow:user', value: 'elder 1' }],
+      name: [{ text: 'Rosa Diaz' }],
+    });
+  });
+
+  it('describes each schedule as a statement about the patient', () => {
+    const [recurring, once] = ofType('MedicationStatement');
+    expect(recurring).toMatchObject({
+      id: 'schedule-sched-daily',
+      status: 'completed',
+      subject: { reference: 'Patient/elder-elder-1' },
+      medicationCodeableConcept: { text: 'Metformin 500mg' },
+      effectivePeriod: { start: '2026-10-01', end: '2026-10-10' },
+    });
+    expect(recurring.dosage[0].timing.repeat).toEqual({
+      frequency: 2,
+      period: 1,
+      periodUnit: 'd',
+      dayOfWeek: ['mon', 'wed', 'fri'],
+      timeOfDay: ['08:00:00', '20:00:00'],
+    });
+    expect(once.dosage[0].timing.repeat).toEqual({ count: 1, timeOfDay: ['12:30:00'] });
+  });
+
+  it('records only doses with an outcome inside the period', () => {
+    const administrations = ofType('MedicationAdministration');
+    expect(administrations.map((resource: { id: string; status: string }) => [resource.id, resource.status])).toEqual([
+      ['dose-sched-daily-2026-10-05T08-00', 'completed'],
+      ['dose-sched-daily-2026-10-05T20-00', 'not-done'],
+      ['dose-sched-daily-2026-10-06T08-00', 'not-done'],
+    ]);
+    expect(administrations[0].effectiveDateTime).toBe('2026-10-05T08:10:00.000Z');
+    expect(administrations[0].note[1]).toEqual({ text: 'With breakfast, "as usual"' });
+    expect(administrations[1].statusReason).toEqual([{ text: 'Missed' }]);
+    expect(administrations[2].statusReason).toEqual([{ text: 'Skipped' }]);
+  });
+});
@@ -0,0 +1,42 @@
+import { inventoryService } from '../../app/services/inventoryService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-notifications', () => ({
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+  cancelScheduledNotificationAsync: jest.fn(async () => {}),
+  scheduleNotificationAsync: jest.fn(async () => 'low-stock'),
+}));
+jest.mock('../../app/services/api', () => ({ schedulesApi: { list: jest.fn(async () => []) } }));
+jest.mock('../../app/services/scheduleCache', () => ({
+  scheduleCache: { fetchWithCache: jest.fn(async (_key: string, fetcher: () => Promise<unknown>) => ({ data: await fetcher() })) },
+}));
+
+const ELDER = '42';
+
+beforeEach(async () => {
+  await inventoryService.setContainer(ELDER, 1, { medicationName: 'Metformin', pillCount: 30, pillsPerDose: 2 });
+});
+
+describe('consume', () => {
+  it('deducts every dose when several are recorded at once', async () => {
+    await Promise.all(['a', 'b', 'c', 'd'].map(doseKey => inventoryService.consume(ELDER, 1, doseKey)));
+
+    const { 1: container } = await inventoryService.getInventory(ELDER);
+    expect(container.pillCount).toBe(22);
+    expect(container.consumedDoseKeys).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('deducts a dose recorded twice at the same time only once', async () => {
+    await Promise.all([inventoryService.consume(ELDER, 1, 'a'), inventoryService.consume(ELDER, 1, 'a')]);
+
+    expect((await inventoryService.getInventory(ELDER))[1].pillCount).toBe(28);
+  });
+
+  it('ignores containers without a count', async () => {
+    await inventoryService.consume(ELDER, 2, 'a');
+
+    expect((await inventoryService.getInventory(ELDER))[2]).toBeUndefined();
+  });
+});
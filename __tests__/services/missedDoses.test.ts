@@ -0,0 +1,115 @@
+import { pushService } from '../../app/services/pushService';
+import { reminderService } from '../../app/services/reminderService';
+import { doseEventService } from '../../app/services/doseEventService';
+import { notificationService } from '../../app/services/notificationService';
+import { apiClient } from '../../app/services/apiClient';
+import { MedicationSchedule } from '../../app/services/api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-notifications', () => ({
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+  AndroidImportance: { MAX: 5 },
+  setNotificationHandler: jest.fn(),
+  setNotificationChannelAsync: jest.fn(async () => null),
+  getPermissionsAsync: jest.fn(async () => ({ granted: true })),
+  scheduleNotificationAsync: jest.fn(async () => `notification-${Math.random()}`),
+  cancelScheduledNotificationAsync: jest.fn(async () => {}),
+}));
+jest.mock('@react-native-firebase/messaging', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { AuthorizationStatus: { AUTHORIZED: 1, PROVISIONAL: 2 } }),
+}));
+jest.mock('../../app/services/sessionManager', () => ({
+  sessionManager: {
+    getToken: jest.fn(async () => 'session-token'),
+    isExpired: jest.fn(() => false),
+    decode: jest.fn(() => ({ userId: '42' })),
+    subscribe: jest.fn(() => () => {}),
+  },
+}));
+jest.mock('../../app/services/notificationService', () => ({
+  notificationService: { reportMissedDose: jest.fn(async () => 1) },
+}));
+jest.mock('../../app/services/apiClient', () => {
+  const actual = jest.requireActual('../../app/services/apiClient');
+  return { ...actual, apiClient: { post: jest.fn(async (_path: string, event: unknown) => ({ event })), get: jest.fn() } };
+});
+jest.mock('../../app/services/inventoryService', () => ({
+  inventoryService: { consume: jest.fn(async () => {}) },
+}));
+
+const schedule = (id: string, time: string): MedicationSchedule => ({
+  _id: id,
+  scheduleId: 1,
+  user: 42,
+  medication: 1,
+  container: 1,
+  date: '2026-10-19',
+  time,
+  status: 'Pending',
+  alertSent: false,
+});
+
+const posted = () => (apiClient.post as jest.Mock).mock.calls.map(([, event]) => event);
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.useFakeTimers({ now: new Date(2026, 9, 19, 7, 0) });
+  await reminderService.scheduleReminder(schedule('sched-adherence', '08:00'), 'Metformin');
+  await reminderService.scheduleReminder(schedule('sched-lid', '08:00'), 'Losartan');
+  await reminderService.scheduleReminder(schedule('sched-forgotten', '08:00'), 'Aspirin');
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('missed dose sweep', () => {
+  it('only reports doses with no recorded outcome', async () => {
+    jest.setSystemTime(new Date(2026, 9, 19, 8, 5));
+    // Marked taken on the Adherence screen
+    await doseEventService.recordTaken({
+      elderId: '42',
+      doseKey: 'sched-adherence',
+      medicationName: 'Metformin',
+      containerId: 1,
+      scheduledDate: '2026-10-19',
+      scheduledTime: '08:00',
+      source: 'adherence',
+    });
+    // Taken by opening the pillbox lid
+    await doseEventService.record({
+      elderId: '42',
+      doseKey: 'sched-lid',
+      medicationName: 'Losartan',
+      containerId: 1,
+      scheduledDate: '2026-10-19',
+      scheduledTime: '08:00',
+      status: 'taken',
+      source: 'device',
+    });
+
+    jest.setSystemTime(new Date(2026, 9, 19, 10, 0));
+    await expect(pushService.reportMissedDoses()).resolves.toBe(1);
+
+    const missed = posted().filter(event => event.status === 'missed');
+    expect(missed.map(event => event.doseKey)).toEqual(['sched-forgotten']);
+    expect(notificationService.reportMissedDose).toHaveBeenCalledTimes(1);
+    expect(notificationService.reportMissedDose).toHaveBeenCalledWith(expect.objectContaining({ medicationName: 'Aspirin' }));
+  });
+
+  it('keeps reminders scheduled and acknowledged at the same time', async () => {
+    await Promise.all([
+      reminderService.acknowledgeReminder('sched-adherence'),
+      reminderService.scheduleReminder(schedule('sched-added', '08:30'), 'Atorvastatin'),
+      reminderService.acknowledgeReminder('sched-lid'),
+    ]);
+
+    jest.setSystemTime(new Date(2026, 9, 19, 10, 0));
+    const missed = await reminderService.collectMissed(30 * 60 * 1000);
+
+    expect(missed.map(reminder => reminder.reminderKey).sort()).toEqual(['sched-added', 'sched-forgotten']);
+  });
+});
@@ -0,0 +1,167 @@
+import { usersApi } from '../../app/services/api';
+import { ApiError } from '../../app/services/apiClient';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const CONTACT_NUMBER = '09171234567';
+const TTL_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+// In-memory stand-in for /users/password-reset, answering the way backend/routes/users.js does
+const createResetApi = () => {
+  const state = {
+    code: null as string | null,
+    expiresAt: 0,
+    attempts: 0,
+    locked: false,
+    password: 'old-password',
+    sent: [] as string[],
+  };
+
+  const reply = (status: number, body: object) =>
+    Promise.resolve({ ok: status < 400, status, text: async () => JSON.stringify(body) } as Response);
+
+  const invalidCode = { success: false, message: 'Invalid or expired code. Request a new one.' };
+
+  const fetchMock = jest.fn((url: string, init: RequestInit) => {
+    const body = JSON.parse(String(init.body));
+
+    if (url.endsWith('/users/password-reset/request')) {
+      if (body.contactNumber === CONTACT_NUMBER && !state.locked) {
+        state.code = String(100000 + state.sent.length);
+        state.expiresAt = Date.now() + TTL_MS;
+        state.attempts = 0;
+        state.sent.push(state.code);
+      }
+      return reply(200, {
+        success: true,
+        message: 'If an account uses this number, a reset code has been sent to it.',
+        expiresInSeconds: TTL_MS / 1000,
+        resendAfterSeconds: 60,
+      });
+    }
+
+    if (body.contactNumber !== CONTACT_NUMBER) return reply(400, invalidCode);
+    if (state.locked) return reply(429, { success: false, message: 'Too many attempts. Please try again later.' });
+    if (!state.code || state.expiresAt <= Date.now()) return reply(400, invalidCode);
+
+    if (body.code !== state.code) {
+      state.attempts += 1;
+      if (state.attempts >= MAX_ATTEMPTS) {
+        state.locked = true;
+        state.code = null;
+      }
+      return reply(state.locked ? 429 : 400, {
+        success: false,
+        message: state.locked
+          ? 'Too many incorrect codes. Please try again later.'
+          : `Incorrect code. ${MAX_ATTEMPTS - state.attempts} attempt(s) left.`,
+        attemptsLeft: MAX_ATTEMPTS - state.attempts,
+      });
+    }
+
+    state.password = body.newPassword;
+    state.code = null;
+    return reply(200, { success: true, message: 'Password reset successfully. You can now log in.' });
+  });
+
+  return { state, fetchMock };
+};
+
+let api: ReturnType<typeof createResetApi>;
+
+beforeEach(() => {
+  api = createResetApi();
+  global.fetch = api.fetchMock as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const confirm = (code: string) =>
+  usersApi.confirmPasswordReset({ contactNumber: CONTACT_NUMBER, code, newPassword: 'new-password' });
+
+const rejection = async (promise: Promise<unknown>): Promise<ApiError> => {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof ApiError) return error;
+    throw error;
+  }
+  throw new Error('Expected the request to fail');
+};
+
+describe('password reset', () => {
+  it('requests a code without sending a session token', async () => {
+    const response = await usersApi.requestPasswordReset(`  ${CONTACT_NUMBER} `);
+
+    expect(response).toMatchObject({ expiresInSeconds: 600, resendAfterSeconds: 60 });
+    expect(api.state.sent).toHaveLength(1);
+    const [url, init] = api.fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/users\/password-reset\/request$/);
+    expect(JSON.parse(String(init.body))).toEqual({ contactNumber: CONTACT_NUMBER });
+    expect(init.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('answers the same for a number without an account', async () => {
+    const response = await usersApi.requestPasswordReset('09990000000');
+
+    expect(response.message).toBe('If an account uses this number, a reset code has been sent to it.');
+    expect(api.state.sent).toHaveLength(0);
+  });
+
+  it('rejects a wrong code and says how many attempts are left', async () => {
+    await usersApi.requestPasswordReset(CONTACT_NUMBER);
+
+    const error = await rejection(confirm('999999'));
+
+    expect(error.status).toBe(400);
+    expect(error.message).toBe('Incorrect code. 4 attempt(s) left.');
+    expect(error.data.attemptsLeft).toBe(4);
+    expect(api.state.password).toBe('old-password');
+  });
+
+  it('rejects a code once it has expired', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T08:00:00.000Z') });
+    await usersApi.requestPasswordReset(CONTACT_NUMBER);
+    jest.setSystemTime(new Date('2026-10-19T08:10:01.000Z'));
+
+    const error = await rejection(confirm(api.state.sent[0]));
+
+    expect(error.status).toBe(400);
+    expect(error.message).toBe('Invalid or expired code. Request a new one.');
+    expect(api.state.password).toBe('old-password');
+  });
+
+  it('locks the reset after too many wrong codes, even for the right one', async () => {
+    await usersApi.requestPasswordReset(CONTACT_NUMBER);
+    const code = api.state.sent[0];
+
+    for (let attempt = 1; attempt < MAX_ATTEMPTS; attempt++) {
+      expect((await rejection(confirm('999999'))).status).toBe(400);
+    }
+    const lockout = await rejection(confirm('999999'));
+    expect(lockout.status).toBe(429);
+    expect(lockout.message).toBe('Too many incorrect codes. Please try again later.');
+
+    const afterLock = await rejection(confirm(code));
+    expect(afterLock.status).toBe(429);
+    expect(api.state.password).toBe('old-password');
+  });
+
+  it('sets the new password with the code from the SMS', async () => {
+    await usersApi.requestPasswordReset(CONTACT_NUMBER);
+
+    const result = await usersApi.confirmPasswordReset({
+      contactNumber: CONTACT_NUMBER,
+      code: ` ${api.state.sent[0]} `,
+      newPassword: 'new-password',
+    });
+
+    expect(result.message).toBe('Password reset successfully. You can now log in.');
+    expect(api.state.password).toBe('new-password');
+  });
+});
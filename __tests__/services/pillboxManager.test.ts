@@ -0,0 +1,137 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { pillboxManager } from '../../app/services/pillboxManager';
+import { MockPillboxTransport } from '../../app/services/mockPillboxTransport';
+import { PillboxMessage, ScheduleMessage } from '../../app/services/pillboxProtocol';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const DEVICE = { id: 'mock-pillbox-1', name: 'PillNow Box (Simulated)', rssi: -60 };
+
+// Let the simulated box answer (it replies on a zero-delay timer)
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const isSchedule = (reply: PillboxMessage): reply is ScheduleMessage => reply.type === 'schedule';
+
+let transport: MockPillboxTransport;
+
+beforeEach(async () => {
+  transport = new MockPillboxTransport();
+  pillboxManager.setTransport(transport);
+  await pillboxManager.forget();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('connect', () => {
+  it('pairs, remembers the box and asks for its state', async () => {
+    await pillboxManager.pair(DEVICE);
+    await settle();
+
+    const state = pillboxManager.getState();
+    expect(state.status).toBe('connected');
+    expect(JSON.parse((await AsyncStorage.getItem('paired_pillbox'))!)).toEqual(DEVICE);
+    expect(transport.written.map(frame => frame.message.type)).toEqual(['requestState', 'requestBattery']);
+    expect(Object.keys(state.containers)).toEqual(['1', '2', '3']);
+    expect(state.battery).toMatchObject({ level: 85, charging: false });
+  });
+
+  it('gives up on a box that cannot be reached while pairing', async () => {
+    transport.failConnects(1);
+
+    await expect(pillboxManager.pair(DEVICE)).rejects.toThrow('Simulated connection failure');
+    expect(pillboxManager.getState()).toMatchObject({ status: 'unpaired', device: null });
+    expect(await AsyncStorage.getItem('paired_pillbox')).toBeNull();
+  });
+});
+
+describe('scan', () => {
+  it('returns to the connected status when a scan ends', async () => {
+    await pillboxManager.pair(DEVICE);
+    await settle();
+
+    await pillboxManager.scan(10);
+
+    expect(pillboxManager.getState().status).toBe('connected');
+  });
+});
+
+describe('commands', () => {
+  beforeEach(async () => {
+    await pillboxManager.pair(DEVICE);
+    await settle();
+  });
+
+  it('resolves once the box acknowledges the command', async () => {
+    await pillboxManager.buzz(5);
+
+    expect(transport.written[transport.written.length - 1].message).toEqual({ type: 'buzz', seconds: 5 });
+    expect(transport.isBuzzing).toBe(true);
+  });
+
+  it('stores a schedule at minute precision and reads it back', async () => {
+    const alarm = Date.UTC(2026, 9, 19, 8, 0, 42);
+    await pillboxManager.request(
+      { type: 'setSchedule', containerId: 2, pillName: 'Metformin', alarms: [alarm] },
+      (reply: PillboxMessage, seq: number): reply is PillboxMessage => reply.type === 'ack' && reply.ackSeq === seq,
+    );
+
+    const schedule = await pillboxManager.request({ type: 'getSchedule', containerId: 2 }, isSchedule);
+    expect(schedule).toEqual({ type: 'schedule', containerId: 2, pillName: 'Metformin', alarms: [Date.UTC(2026, 9, 19, 8, 0)] });
+  });
+
+  it('rejects when the box does not answer in time', async () => {
+    jest.useFakeTimers();
+    const slowBox = new MockPillboxTransport({ latencyMs: 10000 });
+    pillboxManager.setTransport(slowBox);
+    const paired = pillboxManager.reconnect();
+    await jest.advanceTimersByTimeAsync(10000);
+    await paired;
+
+    const reply = pillboxManager.request({ type: 'getSchedule', containerId: 1 }, isSchedule, 1000);
+    const assertion = expect(reply).rejects.toThrow('Pillbox did not respond');
+    await jest.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it('refuses to send while disconnected', async () => {
+    await pillboxManager.disconnect();
+
+    await expect(pillboxManager.buzz()).rejects.toThrow('Pillbox is not connected');
+  });
+});
+
+describe('disconnect', () => {
+  beforeEach(async () => {
+    await pillboxManager.pair(DEVICE);
+    await settle();
+  });
+
+  it('reconnects after the box drops the link', async () => {
+    jest.useFakeTimers();
+    transport.dropConnection();
+    expect(pillboxManager.getState().status).toBe('reconnecting');
+
+    // First backoff step, then the simulated box accepts the connection
+    await jest.advanceTimersByTimeAsync(1000);
+    await jest.runOnlyPendingTimersAsync();
+    expect(pillboxManager.getState().status).toBe('connected');
+    expect(transport.isConnected).toBe(true);
+  });
+
+  it('stays disconnected after a manual disconnect', async () => {
+    jest.useFakeTimers();
+    await pillboxManager.disconnect();
+    transport.dropConnection();
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(pillboxManager.getState().status).toBe('disconnected');
+    expect(transport.isConnected).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+import { pushService, toNotificationData, PushMessagingModule, RemoteMessage } from '../../app/services/pushService';
+import { NotificationData, notificationService } from '../../app/services/notificationService';
+import { sessionManager } from '../../app/services/sessionManager';
+import { reminderService } from '../../app/services/reminderService';
+import { doseEventService } from '../../app/services/doseEventService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-firebase/messaging', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { AuthorizationStatus: { AUTHORIZED: 1, PROVISIONAL: 2 } }),
+}));
+jest.mock('../../app/services/sessionManager', () => ({
+  sessionManager: {
+    getToken: jest.fn(),
+    isExpired: jest.fn(() => false),
+    subscribe: jest.fn(() => () => {}),
+  },
+}));
+jest.mock('../../app/services/notificationService', () => ({
+  notificationService: {
+    registerDevice: jest.fn(),
+    reportMissedDose: jest.fn(),
+  },
+}));
+jest.mock('../../app/services/reminderService', () => ({
+  reminderService: { collectMissed: jest.fn() },
+}));
+jest.mock('../../app/services/doseEventService', () => ({
+  doseEventService: { record: jest.fn() },
+  MISSED_AFTER_MS: 30 * 60 * 1000,
+}));
+
+const mocked = <T extends (...args: any[]) => any>(fn: T) => fn as unknown as jest.Mock;
+
+// Stands in for @react-native-firebase/messaging and lets a test fire its events
+const createMessagingStub = () => {
+  const handlers: {
+    message?: (message: RemoteMessage) => any;
+    opened?: (message: RemoteMessage) => any;
+    background?: (message: RemoteMessage) => Promise<any>;
+  } = {};
+  const stub: PushMessagingModule = {
+    requestPermission: jest.fn(async () => 1),
+    getToken: jest.fn(async () => 'fcm-token'),
+    deleteToken: jest.fn(async () => {}),
+    onMessage: jest.fn(listener => { handlers.message = listener; return () => {}; }),
+    onNotificationOpenedApp: jest.fn(listener => { handlers.opened = listener; return () => {}; }),
+    onTokenRefresh: jest.fn(() => () => {}),
+    getInitialNotification: jest.fn(async () => null),
+    setBackgroundMessageHandler: jest.fn(handler => { handlers.background = handler; }),
+  };
+  return { stub, handlers };
+};
+
+const push = (id: string, data: Record<string, string> = {}): RemoteMessage => ({
+  messageId: `fcm-${id}`,
+  data: { id, type: 'missed_dose', medicineName: 'Metformin', containerId: '2', ...data },
+  notification: { title: 'Missed dose', body: 'Rosa missed Metformin' },
+  sentTime: Date.parse('2026-10-19T08:00:00.000Z'),
+});
+
+// Let the promise chains started by start() settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mocked(sessionManager.getToken).mockResolvedValue('session-token');
+  mocked(sessionManager.isExpired).mockReturnValue(false);
+  mocked(reminderService.collectMissed).mockResolvedValue([]);
+});
+
+describe('toNotificationData', () => {
+  it('reads the data payload and falls back to the notification block', () => {
+    expect(toNotificationData(push('n-1', { elderId: 'elder-1' }))).toMatchObject({
+      id: 'n-1',
+      type: 'missed_dose',
+      title: 'Missed dose',
+      message: 'Rosa missed Metformin',
+      medicineName: 'Metformin',
+      containerId: 2,
+      elderId: 'elder-1',
+      createdAt: '2026-10-19T08:00:00.000Z',
+    });
+  });
+
+  it('ignores unknown types and invalid containers', () => {
+    const data = toNotificationData(push('n-2', { type: 'unknown', containerId: 'x' }));
+    expect(data.type).toBe('medication');
+    expect(data.containerId).toBeUndefined();
+  });
+});
+
+describe('pushService with a stubbed messaging module', () => {
+  it('registers the device token and delivers foreground pushes once', async () => {
+    const { stub, handlers } = createMessagingStub();
+    pushService.setMessagingModule(stub);
+    const received: NotificationData[] = [];
+    const unsubscribe = pushService.subscribe(notification => received.push(notification));
+
+    const stop = pushService.start();
+    await settle();
+    handlers.message!(push('fg-1'));
+    handlers.opened!(push('fg-1'));
+
+    expect(notificationService.registerDevice).toHaveBeenCalledWith('fcm-token', expect.any(String));
+    expect(received.map(notification => notification.id)).toEqual(['fg-1']);
+    stop();
+    unsubscribe();
+  });
+
+  it('replays pushes received in the background on the next start', async () => {
+    const { stub, handlers } = createMessagingStub();
+    pushService.setMessagingModule(stub);
+    pushService.registerBackgroundHandler();
+    await handlers.background!(push('bg-1'));
+
+    const received: NotificationData[] = [];
+    const unsubscribe = pushService.subscribe(notification => received.push(notification));
+    const stop = pushService.start();
+    await settle();
+
+    expect(received.map(notification => notification.id)).toEqual(['bg-1']);
+    stop();
+    unsubscribe();
+  });
+
+  it('skips registration when permission is denied', async () => {
+    const { stub } = createMessagingStub();
+    mocked(stub.requestPermission).mockResolvedValue(0);
+    pushService.setMessagingModule(stub);
+    jest.spyOn(console, 'warn').mockImplementationOnce(() => {});
+
+    await expect(pushService.registerDevice()).resolves.toBeNull();
+    expect(notificationService.registerDevice).not.toHaveBeenCalled();
+  });
+});
+
+describe('reportMissedDoses', () => {
+  it('records and reports each missed dose against the elder it was scheduled for', async () => {
+    mocked(reminderService.collectMissed).mockResolvedValue([
+      { reminderKey: 'sched-1@2026-10-19T08:00', elderId: '42', medicineName: 'Metformin', container: 1, date: '2026-10-19', time: '08:00' },
+      { reminderKey: 'sched-2', elderId: '43', medicineName: 'Losartan', container: 3, date: '2026-10-19', time: '09:00' },
+    ]);
+    mocked(notificationService.reportMissedDose).mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+
+    await expect(pushService.reportMissedDoses()).resolves.toBe(3);
+
+    expect(doseEventService.record).toHaveBeenCalledWith(expect.objectContaining({
+      elderId: '42',
+      doseKey: 'sched-1@2026-10-19T08:00',
+      status: 'missed',
+      source: 'system',
+    }));
+    expect(doseEventService.record).toHaveBeenCalledWith(expect.objectContaining({ elderId: '43', doseKey: 'sched-2' }));
+    expect(notificationService.reportMissedDose).toHaveBeenCalledWith({
+      elderId: '42',
+      medicationName: 'Metformin',
+      containerId: 1,
+      scheduledTime: '08:00',
+      date: '2026-10-19',
+    });
+  });
+
+  it('does nothing without a live session', async () => {
+    mocked(sessionManager.getToken).mockResolvedValue(null);
+
+    await expect(pushService.reportMissedDoses()).resolves.toBe(0);
+    expect(reminderService.collectMissed).not.toHaveBeenCalled();
+  });
+
+  it('reports nothing when the server cannot be reached', async () => {
+    mocked(reminderService.collectMissed).mockResolvedValue([
+      { reminderKey: 'sched-3', elderId: '42', medicineName: 'Metformin', container: 1, date: '2026-10-19', time: '08:00' },
+    ]);
+    mocked(doseEventService.record).mockRejectedValueOnce(new Error('Network request failed'));
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    await expect(pushService.reportMissedDoses()).resolves.toBe(0);
+    expect(notificationService.reportMissedDose).not.toHaveBeenCalled();
+  });
+});
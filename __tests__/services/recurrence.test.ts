@@ -0,0 +1,42 @@
+import { parseDateKey, combineDateTime, toDateKey, getRecurrenceRule, validateRule, describeRule } from '../../app/services/recurrence';
+
+describe('parseDateKey', () => {
+  it('reads a date key as local midnight', () => {
+    expect(parseDateKey('2026-10-19')).toEqual(new Date(2026, 9, 19));
+  });
+
+  it('keeps the date part of an ISO datetime', () => {
+    expect(parseDateKey('2026-10-19T00:00:00.000Z')).toEqual(new Date(2026, 9, 19));
+    expect(toDateKey(parseDateKey('2026-10-19T23:30:00.000+08:00')!)).toBe('2026-10-19');
+  });
+
+  it('rejects values that are not dates', () => {
+    expect(parseDateKey('')).toBeNull();
+    expect(parseDateKey('next week')).toBeNull();
+  });
+});
+
+describe('combineDateTime', () => {
+  it('sets the time on an ISO datetime date', () => {
+    expect(combineDateTime('2026-10-19T00:00:00.000Z', '08:30')).toEqual(new Date(2026, 9, 19, 8, 30));
+  });
+});
+
+describe('getRecurrenceRule', () => {
+  const serverRecord = {
+    frequency: 'daily' as const,
+    timeSlots: [{ time: '08:00' }],
+    startDate: '2026-10-19T00:00:00.000Z',
+    endDate: '2026-10-19',
+  };
+
+  it('reads server datetimes as date keys', () => {
+    expect(getRecurrenceRule(serverRecord)).toMatchObject({ startDate: '2026-10-19', endDate: '2026-10-19' });
+  });
+
+  it('accepts an end date on the start day and shows plain dates', () => {
+    const rule = getRecurrenceRule(serverRecord)!;
+    expect(validateRule(rule)).toBeNull();
+    expect(describeRule(rule)).toContain('2026-10-19 to 2026-10-19');
+  });
+});
@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { snoozeService, escalationTime } from '../../app/services/snoozeService';
+import { doseEventService } from '../../app/services/doseEventService';
+import { notificationService } from '../../app/services/notificationService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-notifications', () => ({
+  cancelScheduledNotificationAsync: jest.fn(async () => {}),
+}));
+jest.mock('../../app/services/reminderService', () => ({
+  reminderService: {
+    acknowledgeReminder: jest.fn(async () => {}),
+    scheduleSnoozedReminder: jest.fn(async () => 'snoozed-notification'),
+  },
+}));
+jest.mock('../../app/services/notificationService', () => ({
+  notificationService: { reportEscalation: jest.fn(async () => 1) },
+}));
+jest.mock('../../app/services/doseEventService', () => ({
+  doseEventService: { record: jest.fn(async () => ({})), subscribe: jest.fn(() => () => {}) },
+}));
+
+const mocked = <T extends (...args: any[]) => any>(fn: T) => fn as unknown as jest.Mock;
+
+const dose = {
+  reminderKey: 'sched-1@2026-10-19T08:00',
+  medicineName: 'Metformin',
+  containerId: 1,
+  date: '2026-10-19',
+  time: '08:00',
+  elderId: '42',
+};
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.useFakeTimers({ now: new Date(2026, 9, 19, 8, 10) });
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('escalationTime', () => {
+  it('is the scheduled time plus the allowed delay', () => {
+    expect(escalationTime(dose, { maxSnoozes: 3, maxDelayMinutes: 45 })).toEqual(new Date(2026, 9, 19, 8, 45));
+  });
+});
+
+describe('snooze', () => {
+  it('hands the server the time to alert caregivers if the dose stays snoozed', async () => {
+    const state = await snoozeService.snooze(dose, 10);
+
+    expect(state).toMatchObject({ snoozeCount: 1, escalatedAt: null, notificationId: 'snoozed-notification' });
+    expect(notificationService.reportEscalation).not.toHaveBeenCalled();
+    expect(doseEventService.record).toHaveBeenCalledTimes(1);
+    expect(doseEventService.record).toHaveBeenCalledWith(expect.objectContaining({
+      elderId: '42',
+      status: 'snoozed',
+      snoozeCount: 1,
+      escalatedAt: null,
+      escalateAt: new Date(2026, 9, 19, 9, 0).toISOString(),
+    }));
+  });
+
+  it('alerts caregivers itself once the snooze limit is reached and records the dose once', async () => {
+    await snoozeService.snooze(dose, 5);
+    await snoozeService.snooze(dose, 5);
+    mocked(doseEventService.record).mockClear();
+
+    const state = await snoozeService.snooze(dose, 5);
+
+    expect(state.escalatedAt).not.toBeNull();
+    expect(notificationService.reportEscalation).toHaveBeenCalledWith(expect.objectContaining({ elderId: '42', snoozeCount: 3 }));
+    expect(doseEventService.record).toHaveBeenCalledTimes(1);
+    expect(doseEventService.record).toHaveBeenCalledWith(expect.objectContaining({
+      escalatedAt: state.escalatedAt,
+      escalateAt: null,
+    }));
+  });
+
+  it('leaves the escalation to the server when caregivers cannot be reached', async () => {
+    await snoozeService.snooze(dose, 5);
+    await snoozeService.snooze(dose, 5);
+    mocked(doseEventService.record).mockClear();
+    mocked(notificationService.reportEscalation).mockRejectedValueOnce(new Error('Network request failed'));
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    const state = await snoozeService.snooze(dose, 5);
+
+    expect(state.escalatedAt).toBeNull();
+    expect(doseEventService.record).toHaveBeenCalledTimes(1);
+    expect(doseEventService.record).toHaveBeenCalledWith(expect.objectContaining({
+      snoozeCount: 3,
+      escalateAt: new Date(2026, 9, 19, 9, 0).toISOString(),
+    }));
+  });
+});
@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { syncQueue } from '../../app/services/syncQueue';
+import { schedulesApi, ScheduleRecord } from '../../app/services/api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => () => {}),
+}));
+jest.mock('../../app/services/sessionManager', () => ({
+  sessionManager: {
+    getUserId: jest.fn(async () => '42'),
+    subscribe: jest.fn(() => () => {}),
+  },
+}));
+jest.mock('../../app/services/api', () => ({
+  schedulesApi: {
+    list: jest.fn(async () => []),
+    create: jest.fn(async () => ({})),
+    update: jest.fn(async () => ({})),
+  },
+}));
+
+const mocked = <T extends (...args: any[]) => any>(fn: T) => fn as unknown as jest.Mock;
+
+const record = (scheduleId: number, time: string): ScheduleRecord => ({
+  scheduleId,
+  user: 42,
+  medication: 7,
+  container: 1,
+  date: '2026-10-19',
+  time,
+  status: 'Pending',
+  alertSent: false,
+});
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await AsyncStorage.clear();
+});
+
+describe('syncQueue.flush', () => {
+  it('keeps an entry queued while the flush is sending', async () => {
+    await syncQueue.enqueue({ operation: 'create', record: record(1, '08:00') });
+
+    // Queue a second edit while the first one is on its way to the server
+    let queuedMeanwhile: Promise<void> = Promise.resolve();
+    mocked(schedulesApi.create).mockImplementationOnce(async () => {
+      queuedMeanwhile = syncQueue.enqueue({ operation: 'create', record: record(2, '20:00') });
+      await queuedMeanwhile;
+      return {};
+    });
+
+    const result = await syncQueue.flush();
+    await queuedMeanwhile;
+
+    expect(result.synced).toBe(1);
+    const pending = await syncQueue.getPending();
+    expect(pending.map(entry => entry.record.scheduleId)).toEqual([2]);
+  });
+
+  it('drops only the entries it sent', async () => {
+    await syncQueue.enqueue({ operation: 'create', record: record(1, '08:00') });
+    await syncQueue.enqueue({ operation: 'create', record: record(2, '20:00') });
+
+    await syncQueue.flush();
+
+    expect(schedulesApi.create).toHaveBeenCalledTimes(2);
+    expect(await syncQueue.getPending()).toEqual([]);
+  });
+});
@@ -1,99 +1,346 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { 
   View, Text, StyleSheet, ScrollView, TouchableOpacity, 
-  Modal, FlatList
+  Modal, ActivityIndicator, Alert
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import { useTheme } from './context/ThemeContext';
+import { useActiveElder } from './context/ActiveElderContext';
 import { lightTheme, darkTheme } from './styles/theme';
+import { doseEventService, DoseRow } from './services/doseEventService';
+import { addDays, toDateKey, parseDateKey } from './services/recurrence';
+import { isTakenStatus, summarize } from './services/adherenceStats';
+import AdherenceStats, { STATS_RANGES } from './components/AdherenceStats';
+import { lidEventService, describeLidEvent, LidEventRecord } from './services/lidEventService';
+import ElderSwitcher from './components/ElderSwitcher';
 
-interface Medication {
-  containerId: number;
-  medicineName: string;
-  scheduledTime: string;
-  date: string;
-  taken: boolean;
+// How many days of history the day strip covers, today included
+const HISTORY_DAYS = 7;
+// Load enough history for the longest statistics range
+const LOAD_DAYS = Math.max(HISTORY_DAYS, ...STATS_RANGES);
+
+const STATUS_LABELS: Record<DoseRow['status'], string> = {
+  taken: 'Taken',
+  late: 'Taken late',
+  skipped: 'Skipped',
+  missed: 'Missed',
+  pending: 'Pending',
+};
+
+const STATUS_ICONS: Record<DoseRow['status'], keyof typeof Ionicons.glyphMap> = {
+  taken: 'checkmark-circle',
+  late: 'alert-circle',
+  skipped: 'remove-circle',
+  missed: 'close-circle',
+  pending: 'time',
+};
+
+interface ElderTarget {
+  id: string;
+  name: string | null;
 }
 
 const Adherence = () => {
   const router = useRouter();
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
-  
-  // Example data
-  const exampleMedications: Medication[] = [
-    {
-      containerId: 1,
-      medicineName: "Paracetamol",
-      scheduledTime: "08:00 AM",
-      date: "2024-04-20",
-      taken: true
-    },
-    {
-      containerId: 2,
-      medicineName: "Vitamin C",
-      scheduledTime: "12:00 PM",
-      date: "2024-04-20",
-      taken: false
-    },
-    {
-      containerId: 3,
-      medicineName: "Multivitamin",
-      scheduledTime: "06:00 PM",
-      date: "2024-04-20",
-      taken: false
-    }
-  ];
+  const { activeElder, isLoading: isElderLoading } = useActiveElder();
 
-  const [medications] = useState<Medication[]>(exampleMedications);
-  const [selectedMedication, setSelectedMedication] = useState<Medication | null>(null);
+  const [elder, setElder] = useState<ElderTarget | null>(null);
+  const [needsElder, setNeedsElder] = useState(false);
+  const [rows, setRows] = useState<DoseRow[]>([]);
+  const [selectedDate, setSelectedDate] = useState(toDateKey(new Date()));
+  const [view, setView] = useState<'history' | 'statistics'>('history');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [offlineSince, setOfflineSince] = useState<string | null>(null);
+  const [selectedDose, setSelectedDose] = useState<DoseRow | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [lidEvents, setLidEvents] = useState<LidEventRecord[]>([]);
+  const latestLidEvent = useRef<string | null>(null);
+
+  const statusColor = (status: DoseRow['status']) => ({
+    taken: theme.success,
+    late: theme.warning,
+    skipped: theme.textSecondary,
+    missed: theme.error,
+    pending: theme.primary,
+  })[status];
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Caregivers view the active elder; elders view themselves
+      const target: ElderTarget | null = activeElder;
+      setElder(target);
+      setNeedsElder(!target);
+      if (!target) {
+        setRows([]);
+        return;
+      }
+
+      const today = new Date();
+      const from = addDays(new Date(today.getFullYear(), today.getMonth(), today.getDate()), -(LOAD_DAYS - 1));
+      const to = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59);
+
+      const history = await doseEventService.loadHistory(target.id, from, to);
+      setRows(history.rows);
+      setOfflineSince(history.offlineSince);
+    } catch (err) {
+      console.error('Error loading adherence history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load adherence history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload whenever the screen regains focus or the active elder changes
+  useFocusEffect(
+    useCallback(() => {
+      if (!isElderLoading) loadHistory();
+    }, [isElderLoading, activeElder?.id])
+  );
+
+  // A lid opening on the box may have just recorded a dose
+  useEffect(() => lidEventService.subscribe(log => {
+    setLidEvents(log);
+    const latest = log[0]?.id ?? null;
+    if (latestLidEvent.current !== null && latest !== latestLidEvent.current) {
+      loadHistory();
+    }
+    latestLidEvent.current = latest ?? '';
+  }), [activeElder?.id]);
+
+  const days = useMemo(() => {
+    const today = new Date();
+    return Array.from({ length: HISTORY_DAYS }, (_, index) => {
+      const date = toDateKey(addDays(today, index - (HISTORY_DAYS - 1)));
+      const dayRows = rows.filter(row => row.date === date);
+      return {
+        date,
+        total: dayRows.length,
+        percentage: summarize(dayRows).rate,
+      };
+    });
+  }, [rows]);
+
+  const selectedRows = rows.filter(row => row.date === selectedDate);
+
+  // Openings the box reported that did not settle a dose of this elder on the selected day
+  const selectedLidAlerts = lidEvents.filter(record =>
+    record.elderId === elder?.id &&
+    (record.outcome === 'wrong_container' || record.outcome === 'unmatched') &&
+    toDateKey(new Date(record.openedAt)) === selectedDate
+  );
 
-  const handleMarkAsTaken = (medication: Medication) => {
-    // This is just for example, in real app this would update the API
-    console.log(`Marking medication ${medication.medicineName} as taken`);
-    setModalVisible(false);
+  const recordOutcome = async (dose: DoseRow, outcome: 'taken' | 'skipped') => {
+    if (!elder) return;
+    try {
+      setSaving(true);
+      const input = {
+        elderId: elder.id,
+        doseKey: dose.doseKey,
+        medicationName: dose.medicationName,
+        containerId: dose.containerId,
+        scheduledDate: dose.date,
+        scheduledTime: dose.time,
+        source: 'adherence' as const,
+      };
+      if (outcome === 'taken') {
+        await doseEventService.recordTaken(input);
+      } else {
+        await doseEventService.record({ ...input, status: 'skipped' });
+      }
+      setModalVisible(false);
+      await loadHistory();
+    } catch (err) {
+      console.error('Error recording dose:', err);
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to record dose');
+    } finally {
+      setSaving(false);
+    }
   };
 
   const handleGenerateReport = () => {
+    if (!elder) return;
     router.push({
       pathname: '/Generate',
-      params: { adherenceData: JSON.stringify(medications) }
+      params: { elderId: elder.id, elderName: elder.name ?? '' }
     });
   };
 
-  const renderMedicationCard = ({ item }: { item: Medication }) => (
+  const formatDay = (date: string) => {
+    const parsed = parseDateKey(date);
+    return parsed ? parsed.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' }) : date;
+  };
+
+  const renderDoseCard = (item: DoseRow) => (
     <TouchableOpacity 
+      key={item.doseKey}
       style={[styles.card, { backgroundColor: theme.card }]}
       onPress={() => {
-        setSelectedMedication(item);
+        setSelectedDose(item);
         setModalVisible(true);
       }}
     >
       <View style={styles.cardHeader}>
         <Text style={[styles.containerText, { color: theme.primary }]}>Container {item.containerId}</Text>
-        <Ionicons 
-          name={item.taken ? "checkmark-circle" : "time"} 
-          size={24} 
-          color={item.taken ? theme.success : theme.warning} 
-        />
+        <View style={styles.statusRow}>
+          <Text style={[styles.statusText, { color: statusColor(item.status) }]}>{STATUS_LABELS[item.status]}</Text>
+          <Ionicons name={STATUS_ICONS[item.status]} size={24} color={statusColor(item.status)} />
+        </View>
       </View>
-      <Text style={[styles.medicineName, { color: theme.text }]}>{item.medicineName}</Text>
+      <Text style={[styles.medicineName, { color: theme.text }]}>{item.medicationName}</Text>
       <View style={styles.detailsContainer}>
         <View style={styles.detailRow}>
           <Ionicons name="time-outline" size={16} color={theme.textSecondary} />
-          <Text style={[styles.detailText, { color: theme.textSecondary }]}>{item.scheduledTime}</Text>
-        </View>
-        <View style={styles.detailRow}>
-          <Ionicons name="calendar-outline" size={16} color={theme.textSecondary} />
-          <Text style={[styles.detailText, { color: theme.textSecondary }]}>{item.date}</Text>
+          <Text style={[styles.detailText, { color: theme.textSecondary }]}>{item.time}</Text>
         </View>
+        {item.event && (
+          <View style={styles.detailRow}>
+            <Ionicons
+              name={item.event.source === 'device' ? 'cube-outline' : 'create-outline'}
+              size={16}
+              color={theme.textSecondary}
+            />
+            <Text style={[styles.detailText, { color: theme.textSecondary }]}>
+              {item.event.source === 'device' ? 'Lid opened' : item.event.status === 'snoozed' ? 'Last snoozed' : 'Recorded'} {new Date(item.event.recordedAt).toLocaleString()}
+              {item.event.pending ? ' (waiting to sync)' : ''}
+            </Text>
+          </View>
+        )}
+        {!!item.event?.snoozeCount && (
+          <View style={styles.detailRow}>
+            <Ionicons name="alarm-outline" size={16} color={item.event.escalatedAt ? theme.error : theme.textSecondary} />
+            <Text style={[styles.detailText, { color: item.event.escalatedAt ? theme.error : theme.textSecondary }]}>
+              Snoozed {item.event.snoozeCount} time(s)
+              {item.event.escalatedAt ? `, caregivers alerted ${new Date(item.event.escalatedAt).toLocaleTimeString()}` : ''}
+            </Text>
+          </View>
+        )}
+        {!!item.event?.notes && (
+          <View style={styles.detailRow}>
+            <Ionicons name="information-circle-outline" size={16} color={theme.warning} />
+            <Text style={[styles.detailText, { color: theme.warning }]}>{item.event.notes}</Text>
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
 
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.primary} />
+          <Text style={[styles.detailText, { color: theme.textSecondary }]}>Loading adherence history...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centered}>
+          <Text style={[styles.detailText, { color: theme.error }]}>{error}</Text>
+          <TouchableOpacity style={[styles.retryButton, { backgroundColor: theme.primary }]} onPress={loadHistory}>
+            <Text style={[styles.markButtonText, { color: theme.card }]}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (needsElder) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="people-outline" size={48} color={theme.textSecondary} />
+          <Text style={[styles.detailText, { color: theme.textSecondary }]}>
+            Select an elder to view their adherence.
+          </Text>
+          <ElderSwitcher />
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.listContainer} showsVerticalScrollIndicator={false}>
+        <ElderSwitcher />
+
+        {offlineSince && (
+          <View style={[styles.offlineBanner, { backgroundColor: theme.card, borderColor: theme.warning }]}>
+            <Text style={[styles.offlineText, { color: theme.text }]}>
+              Offline: showing data saved {new Date(offlineSince).toLocaleString()}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.viewToggle}>
+          {(['history', 'statistics'] as const).map(option => {
+            const selected = option === view;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[styles.toggleButton, { backgroundColor: selected ? theme.primary : theme.card }]}
+                onPress={() => setView(option)}
+              >
+                <Text style={[styles.toggleText, { color: selected ? theme.card : theme.primary }]}>
+                  {option === 'history' ? 'History' : 'Statistics'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {view === 'statistics' ? (
+          <AdherenceStats rows={rows} />
+        ) : (
+          <>
+            <View style={styles.dayStrip}>
+              {days.map(day => {
+                const selected = day.date === selectedDate;
+                return (
+                  <TouchableOpacity
+                    key={day.date}
+                    style={[styles.dayButton, { backgroundColor: selected ? theme.primary : theme.card }]}
+                    onPress={() => setSelectedDate(day.date)}
+                  >
+                    <Text style={[styles.dayLabel, { color: selected ? theme.card : theme.text }]}>{formatDay(day.date)}</Text>
+                    <Text style={[styles.dayPercent, { color: selected ? theme.card : theme.textSecondary }]}>
+                      {day.percentage === null ? '-' : `${day.percentage}%`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {selectedLidAlerts.map(record => {
+              const { title, message } = describeLidEvent(record);
+              return (
+                <View key={record.id} style={[styles.lidAlert, { backgroundColor: theme.card, borderColor: theme.error }]}>
+                  <Ionicons name="warning" size={20} color={theme.error} />
+                  <View style={styles.lidAlertText}>
+                    <Text style={[styles.statusText, { color: theme.error }]}>{title}</Text>
+                    <Text style={[styles.detailText, { color: theme.text }]}>{message}</Text>
+                  </View>
+                </View>
+              );
+            })}
+
+            {selectedRows.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No doses scheduled for this day.</Text>
+            ) : (
+              selectedRows.map(renderDoseCard)
+            )}
+          </>
+        )}
+      </ScrollView>
+    );
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: theme.background }]}>
       <View style={[styles.header, { backgroundColor: theme.card }]}>
@@ -108,19 +355,14 @@ const Adherence = () => {
       </View>
 
       <View style={styles.contentContainer}>
-        <FlatList
-          data={medications}
-          renderItem={renderMedicationCard}
-          keyExtractor={(item) => item.containerId.toString()}
-          contentContainerStyle={styles.listContainer}
-          showsVerticalScrollIndicator={false}
-        />
+        {renderContent()}
       </View>
 
       <View style={[styles.bottomContainer, { backgroundColor: theme.card, borderTopColor: theme.border }]}>
         <TouchableOpacity 
           style={[styles.generateButton, { backgroundColor: theme.primary }]}
           onPress={handleGenerateReport}
+          disabled={!elder}
         >
           <Ionicons name="document-text-outline" size={20} color={theme.card} />
           <Text style={[styles.generateButtonText, { color: theme.card }]}>Generate Report</Text>
@@ -135,7 +377,7 @@ const Adherence = () => {
       >
         <View style={styles.modalOverlay}>
           <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
-            {selectedMedication && (
+            {selectedDose && (
               <>
                 <View style={styles.modalHeader}>
                   <Text style={[styles.modalTitle, { color: theme.secondary }]}>Medication Details</Text>
@@ -144,21 +386,33 @@ const Adherence = () => {
                   </TouchableOpacity>
                 </View>
                 <View style={styles.modalBody}>
-                  <Text style={[styles.modalText, { color: theme.text }]}>Container: {selectedMedication.containerId}</Text>
-                  <Text style={[styles.modalText, { color: theme.text }]}>Medicine: {selectedMedication.medicineName}</Text>
-                  <Text style={[styles.modalText, { color: theme.text }]}>Scheduled Time: {selectedMedication.scheduledTime}</Text>
-                  <Text style={[styles.modalText, { color: theme.text }]}>Date: {selectedMedication.date}</Text>
+                  <Text style={[styles.modalText, { color: theme.text }]}>Container: {selectedDose.containerId}</Text>
+                  <Text style={[styles.modalText, { color: theme.text }]}>Medicine: {selectedDose.medicationName}</Text>
+                  <Text style={[styles.modalText, { color: theme.text }]}>Scheduled Time: {selectedDose.time}</Text>
+                  <Text style={[styles.modalText, { color: theme.text }]}>Date: {selectedDose.date}</Text>
                   <Text style={[styles.modalText, { color: theme.text }]}>
-                    Status: {selectedMedication.taken ? 'Taken' : 'Pending'}
+                    Status: {STATUS_LABELS[selectedDose.status]}
                   </Text>
                 </View>
-                {!selectedMedication.taken && (
-                  <TouchableOpacity 
-                    style={[styles.markButton, { backgroundColor: theme.success }]}
-                    onPress={() => handleMarkAsTaken(selectedMedication)}
-                  >
-                    <Text style={[styles.markButtonText, { color: theme.card }]}>Mark as Taken</Text>
-                  </TouchableOpacity>
+                {!isTakenStatus(selectedDose.status) && (
+                  <View style={styles.modalActions}>
+                    <TouchableOpacity 
+                      style={[styles.markButton, { backgroundColor: theme.success }]}
+                      onPress={() => recordOutcome(selectedDose, 'taken')}
+                      disabled={saving}
+                    >
+                      <Text style={[styles.markButtonText, { color: theme.card }]}>Mark as Taken</Text>
+                    </TouchableOpacity>
+                    {selectedDose.status !== 'skipped' && (
+                      <TouchableOpacity 
+                        style={[styles.markButton, { backgroundColor: theme.textSecondary }]}
+                        onPress={() => recordOutcome(selectedDose, 'skipped')}
+                        disabled={saving}
+                      >
+                        <Text style={[styles.markButtonText, { color: theme.card }]}>Skip</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
                 )}
               </>
             )}
@@ -173,6 +427,18 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  lidAlert: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  lidAlertText: {
+    flex: 1,
+  },
   header: {
     position: 'absolute',
     top: 50,
@@ -208,6 +474,71 @@ const styles = StyleSheet.create({
     padding: 15,
     paddingBottom: 80,
   },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    gap: 12,
+  },
+  retryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  offlineBanner: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  offlineText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    borderRadius: 10,
+    overflow: 'hidden',
+    marginBottom: 15,
+    elevation: 2,
+  },
+  toggleButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  dayStrip: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 4,
+    marginBottom: 15,
+  },
+  dayButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 10,
+    elevation: 2,
+  },
+  dayLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  dayPercent: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 20,
+  },
   card: {
     borderRadius: 12,
     padding: 15,
@@ -220,6 +551,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 10,
   },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   containerText: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -267,10 +607,13 @@ const styles = StyleSheet.create({
   modalText: {
     fontSize: 16,
   },
+  modalActions: {
+    marginTop: 20,
+    gap: 10,
+  },
   markButton: {
     padding: 15,
     borderRadius: 10,
-    marginTop: 20,
     alignItems: 'center',
   },
   markButtonText: {
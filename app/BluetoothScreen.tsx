@@ -1,27 +1,87 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 
-import { View, Text, TouchableOpacity, StyleSheet, Image } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, ActivityIndicator, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useTheme } from './context/ThemeContext';
 import { lightTheme, darkTheme } from './styles/theme';
+import { usePillbox } from './hooks/usePillbox';
+import { PillboxStatus } from './services/pillboxManager';
+import { PillboxDevice } from './services/pillboxTransport';
+import { pillboxLocationService } from './services/pillboxLocationService';
+import { lidEventService, DEFAULT_LID_MATCH_SETTINGS, LID_WINDOW_OPTIONS } from './services/lidEventService';
+
+const STATUS_LABELS: Record<PillboxStatus, string> = {
+  unpaired: 'Not paired',
+  scanning: 'Searching...',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting...',
+  disconnected: 'Disconnected',
+  unavailable: 'Bluetooth unavailable',
+};
 
 const BluetoothScreen = () => {
   const router = useRouter();
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
-  const [isConnected, setIsConnected] = useState(false);
+  const {
+    status, device, discovered, battery, containers, error,
+    scan, stopScan, pair, forget, disconnect, reconnect,
+    isPaired, isConnected, isScanning,
+  } = usePillbox();
+
+  const [windowMinutes, setWindowMinutes] = useState(DEFAULT_LID_MATCH_SETTINGS.windowMinutes);
+
+  useEffect(() => {
+    lidEventService.getSettings().then(settings => setWindowMinutes(settings.windowMinutes));
+  }, []);
+
+  const isBusy = status === 'connecting' || status === 'reconnecting';
+
+  const handleWindowChange = async (minutes: number) => {
+    setWindowMinutes(minutes);
+    await lidEventService.setSettings({ windowMinutes: minutes });
+  };
+
+  const handlePair = async (candidate: PillboxDevice) => {
+    try {
+      await pair(candidate);
+    } catch (err) {
+      Alert.alert('Pairing Failed', err instanceof Error ? err.message : 'Could not connect to the pillbox');
+    }
+  };
+
+  const handleForget = () => {
+    Alert.alert('Forget Pillbox', `Unpair ${device?.name ?? 'this pillbox'}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Forget',
+        style: 'destructive',
+        onPress: async () => {
+          await forget();
+          await pillboxLocationService.clear();
+        },
+      },
+    ]);
+  };
 
   const handleConnect = () => {
-    setIsConnected(!isConnected);
+    if (isConnected) {
+      disconnect();
+    } else {
+      reconnect();
+    }
   };
 
+  const statusColor = isConnected ? theme.success : error ? theme.error : theme.textSecondary;
+
   return (
     <View style={[styles.container, { backgroundColor: theme.background }]}>
       {/* Header */}
       <View style={[styles.header, { backgroundColor: theme.card }]}>
-        <TouchableOpacity 
-          style={styles.backButton} 
+        <TouchableOpacity
+          style={styles.backButton}
           onPress={() => router.back()}
         >
           <Ionicons name="arrow-back" size={30} color={theme.text} />
@@ -31,30 +91,140 @@ const BluetoothScreen = () => {
         </Text>
       </View>
 
-      {/* Bluetooth Icon */}
-      <View style={[styles.iconContainer, { backgroundColor: theme.card }]}>
-        <Ionicons 
-          name="bluetooth" 
-          size={100} 
-          color={isConnected ? theme.success : theme.textSecondary} 
-        />
-        <Text style={[styles.statusText, { color: theme.text }]}>
-          {isConnected ? 'Connected' : 'Disconnected'}
-        </Text>
-      </View>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Bluetooth Icon */}
+        <View style={[styles.iconContainer, { backgroundColor: theme.card }]}>
+          {isBusy || isScanning ? (
+            <ActivityIndicator size="large" color={theme.primary} />
+          ) : (
+            <Ionicons name="bluetooth" size={100} color={statusColor} />
+          )}
+          <Text style={[styles.statusText, { color: theme.text }]}>{STATUS_LABELS[status]}</Text>
+          {device && (
+            <Text style={[styles.deviceName, { color: theme.textSecondary }]}>{device.name}</Text>
+          )}
+        </View>
 
-      {/* Connect Button */}
-      <TouchableOpacity 
-        style={[
-          styles.connectButton, 
-          { backgroundColor: isConnected ? theme.warning : theme.primary }
-        ]}
-        onPress={handleConnect}
-      >
-        <Text style={[styles.buttonText, { color: theme.card }]}>
-          {isConnected ? 'DISCONNECT' : 'CONNECT'}
-        </Text>
-      </TouchableOpacity>
+        {error && (
+          <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text>
+        )}
+
+        {isPaired ? (
+          <>
+            {isConnected && (
+              <View style={[styles.infoCard, { backgroundColor: theme.card }]}>
+                <View style={styles.infoRow}>
+                  <Ionicons
+                    name={battery?.charging ? 'battery-charging' : 'battery-half'}
+                    size={22}
+                    color={battery && battery.level < 20 ? theme.error : theme.success}
+                  />
+                  <Text style={[styles.infoText, { color: theme.text }]}>
+                    Battery: {battery ? `${battery.level}%${battery.charging ? ' (charging)' : ''}` : 'Unknown'}
+                  </Text>
+                </View>
+                {[1, 2, 3].map(containerId => {
+                  const container = containers[containerId];
+                  return (
+                    <View key={containerId} style={styles.infoRow}>
+                      <Ionicons
+                        name={container?.lidOpen ? 'cube-outline' : 'cube'}
+                        size={22}
+                        color={container?.lidOpen ? theme.warning : theme.primary}
+                      />
+                      <Text style={[styles.infoText, { color: theme.text }]}>
+                        Container {containerId}: {container
+                          ? `${container.lidOpen ? 'Lid open' : 'Closed'}, ${container.pillCount} pill(s)`
+                          : 'Waiting for box'}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Lid-open matching window */}
+            <View style={[styles.infoCard, { backgroundColor: theme.card }]}>
+              <Text style={[styles.sectionTitle, { color: theme.secondary }]}>Dose Matching Window</Text>
+              <Text style={[styles.deviceMeta, { color: theme.textSecondary }]}>
+                Opening a container this close to a scheduled dose marks it as taken on time.
+              </Text>
+              <View style={styles.infoRow}>
+                {LID_WINDOW_OPTIONS.map(minutes => {
+                  const selected = minutes === windowMinutes;
+                  return (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={[styles.windowChip, { borderColor: theme.primary, backgroundColor: selected ? theme.primary : 'transparent' }]}
+                      onPress={() => handleWindowChange(minutes)}
+                    >
+                      <Text style={[styles.linkText, { color: selected ? theme.card : theme.primary }]}>±{minutes} min</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Connect Button */}
+            <TouchableOpacity
+              style={[
+                styles.connectButton,
+                { backgroundColor: isConnected ? theme.warning : theme.primary }
+              ]}
+              onPress={handleConnect}
+              disabled={isBusy}
+            >
+              <Text style={[styles.buttonText, { color: theme.card }]}>
+                {isConnected ? 'DISCONNECT' : 'CONNECT'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.linkButton} onPress={handleForget}>
+              <Text style={[styles.linkText, { color: theme.error }]}>Forget this pillbox</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <TouchableOpacity
+              style={[styles.connectButton, { backgroundColor: isScanning ? theme.warning : theme.primary }]}
+              onPress={() => (isScanning ? stopScan() : scan())}
+            >
+              <Text style={[styles.buttonText, { color: theme.card }]}>
+                {isScanning ? 'STOP SEARCHING' : 'SEARCH FOR PILLBOX'}
+              </Text>
+            </TouchableOpacity>
+
+            {discovered.length > 0 && (
+              <View style={[styles.infoCard, { backgroundColor: theme.card }]}>
+                <Text style={[styles.sectionTitle, { color: theme.secondary }]}>Nearby Pillboxes</Text>
+                {discovered.map(candidate => (
+                  <TouchableOpacity
+                    key={candidate.id}
+                    style={[styles.deviceRow, { borderBottomColor: theme.border }]}
+                    onPress={() => handlePair(candidate)}
+                    disabled={isBusy}
+                  >
+                    <Ionicons name="medical" size={22} color={theme.primary} />
+                    <View style={styles.deviceInfo}>
+                      <Text style={[styles.infoText, { color: theme.text }]}>{candidate.name}</Text>
+                      {candidate.rssi !== null && (
+                        <Text style={[styles.deviceMeta, { color: theme.textSecondary }]}>Signal {candidate.rssi} dBm</Text>
+                      )}
+                    </View>
+                    <Text style={[styles.linkText, { color: theme.primary }]}>PAIR</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {!isScanning && discovered.length === 0 && (
+              <Text style={[styles.helperText, { color: theme.textSecondary }]}>
+                Turn on your pillbox and keep it close to your phone, then search.
+              </Text>
+            )}
+          </>
+        )}
+      </ScrollView>
     </View>
   );
 };
@@ -86,6 +256,10 @@ const styles = StyleSheet.create({
   highlight: {
     color: '#4A90E2',
   },
+  content: {
+    alignItems: 'center',
+    paddingBottom: 40,
+  },
   iconContainer: {
     width: 200,
     height: 200,
@@ -100,17 +274,78 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginTop: 10,
   },
+  deviceName: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  infoCard: {
+    width: '100%',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 20,
+    elevation: 3,
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  infoText: {
+    fontSize: 15,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 10,
+  },
+  deviceInfo: {
+    flex: 1,
+  },
+  deviceMeta: {
+    fontSize: 12,
+  },
+  windowChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
   connectButton: {
     padding: 15,
     borderRadius: 12,
     width: '80%',
     alignItems: 'center',
     elevation: 3,
+    marginBottom: 20,
   },
   buttonText: {
     fontSize: 16,
     fontWeight: 'bold',
   },
+  linkButton: {
+    padding: 10,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  helperText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
 });
 
-export default BluetoothScreen;
\ No newline at end of file
+export default BluetoothScreen;
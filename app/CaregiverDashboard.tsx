@@ -1,12 +1,15 @@
-import React, { useState } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, Image } from 'react-native';
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Image, ScrollView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import NotificationManager from './components/NotificationManager';
+import UpcomingDoses from './components/UpcomingDoses';
+import ElderSwitcher from './components/ElderSwitcher';
 import { useNotifications } from './hooks/useNotifications';
 import { useTheme } from './context/ThemeContext';
+import { useActiveElder } from './context/ActiveElderContext';
 import { lightTheme, darkTheme } from './styles/theme';
+import { sessionManager } from './services/sessionManager';
 
 const CaregiverDashboard: React.FC = () => {
   const router = useRouter();
@@ -19,6 +22,7 @@ const CaregiverDashboard: React.FC = () => {
     currentNotification,
     isLoading 
   } = useNotifications();
+  const { activeElder } = useActiveElder();
 
   const handleShowNotification = () => {
     showTestAlarm({
@@ -34,7 +38,7 @@ const CaregiverDashboard: React.FC = () => {
 
   const handleLogout = async () => {
     try {
-      await AsyncStorage.removeItem('token');
+      await sessionManager.endSession();
       router.push('/LoginScreen');
     } catch (error) {
       console.error('Logout error:', error);
@@ -42,7 +46,11 @@ const CaregiverDashboard: React.FC = () => {
   };
 
   return (
-    <View style={[styles.container, { backgroundColor: theme.background }]}>
+    <ScrollView
+      style={{ backgroundColor: theme.background }}
+      contentContainerStyle={styles.container}
+      showsVerticalScrollIndicator={false}
+    >
       <NotificationManager
         visible={isModalVisible}
         onClose={handleDismissNotification}
@@ -69,6 +77,9 @@ const CaregiverDashboard: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Elder currently being cared for */}
+      <ElderSwitcher />
+
       {/* Logo */}
       <Image source={require('@/assets/images/pill.png')} style={styles.pillImage} />
 
@@ -111,6 +122,9 @@ const CaregiverDashboard: React.FC = () => {
       {/* Dashboard Title */}
       <Text style={[styles.subtitle, { color: theme.secondary }]}>CAREGIVER'S DASHBOARD</Text>
 
+      {/* Selected elder's next doses */}
+      <UpcomingDoses elderId={activeElder?.id ?? null} noElderMessage="Select an elder to see their next doses" />
+
       {/* Dashboard Buttons */}
       <View style={styles.buttonColumn}>
         <TouchableOpacity 
@@ -128,13 +142,13 @@ const CaregiverDashboard: React.FC = () => {
           <Text style={[styles.buttonText, { color: theme.card }]}>MONITOR & MANAGE</Text>
         </TouchableOpacity>
       </View>
-    </View>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     alignItems: 'center',
     padding: 20,
   },
@@ -3,11 +3,12 @@ import {
   View, Text, TextInput, TouchableOpacity, Alert, StyleSheet, ScrollView, ActivityIndicator 
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import axios from "axios";
 import { useNavigation } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from "./context/ThemeContext";
 import themeColors from "./styles/theme";
+import { usersApi } from "./services/api";
+import { ApiError } from "./services/apiClient";
 
 const CreateScreen = () => {
   const navigation = useNavigation(); // Ensure navigation is available
@@ -37,7 +38,7 @@ const CreateScreen = () => {
       setLoading(true);
       await AsyncStorage.removeItem("token"); // Clear old token before registration
 
-      const response = await axios.post("https://pillnow-database.onrender.com/api/users/register", {
+      await usersApi.register({
         name,
         email,
         contactNumber,
@@ -48,8 +49,8 @@ const CreateScreen = () => {
       Alert.alert("Success", "Account created successfully!");
       // Navigate to login screen after successful registration
       navigation.navigate("LoginScreen" as never);
-    } catch (error: any) {
-      Alert.alert("Registration Failed", error.response?.data?.message || "Something went wrong.");
+    } catch (error) {
+      Alert.alert("Registration Failed", error instanceof ApiError ? error.message : "Something went wrong.");
     } finally {
       setLoading(false);
     }
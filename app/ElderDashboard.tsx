@@ -1,17 +1,23 @@
-import React, { useState } from "react";
-import { View, Text, TouchableOpacity, Image, StyleSheet, Modal } from "react-native";
+import React, { useState, useEffect } from "react";
+import { View, Text, TouchableOpacity, Image, StyleSheet, Modal, ScrollView } from "react-native";
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import MedicationNotification from './components/MedicationNotification';
+import UpcomingDoses from './components/UpcomingDoses';
 import { useTheme } from './context/ThemeContext';
 import { lightTheme, darkTheme } from './styles/theme';
+import { sessionManager } from './services/sessionManager';
 
 const ElderDashboard = () => {
   const router = useRouter();
   const [showNotification, setShowNotification] = useState(false);
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    sessionManager.getUserId().then(setUserId);
+  }, []);
 
   const handleShowNotification = () => {
     setShowNotification(true);
@@ -23,7 +29,7 @@ const ElderDashboard = () => {
 
   const handleLogout = async () => {
     try {
-      await AsyncStorage.removeItem('token');
+      await sessionManager.endSession();
       router.push('/LoginScreen');
     } catch (error) {
       console.error('Logout error:', error);
@@ -31,7 +37,11 @@ const ElderDashboard = () => {
   };
 
   return (
-    <View style={[styles.container, { backgroundColor: theme.background }]}>
+    <ScrollView
+      style={{ backgroundColor: theme.background }}
+      contentContainerStyle={styles.container}
+      showsVerticalScrollIndicator={false}
+    >
       <Modal
         visible={showNotification}
         transparent={true}
@@ -78,6 +88,9 @@ const ElderDashboard = () => {
       {/* Elder's Dashboard */}
       <Text style={[styles.dashboardTitle, { color: theme.secondary }]}>ELDER'S DASHBOARD</Text>
 
+      {/* Next Doses */}
+      <UpcomingDoses elderId={userId} />
+
       <View style={[styles.iconRow, { backgroundColor: theme.card }]}>
         <View style={styles.iconGrid}>
           <TouchableOpacity 
@@ -121,13 +134,13 @@ const ElderDashboard = () => {
         <Ionicons name="desktop" size={24} color={theme.card} />
         <Text style={[styles.buttonText, { color: theme.card }]}>MONITOR & MANAGE</Text>
       </TouchableOpacity>
-    </View>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     alignItems: 'center',
     padding: 20,
   },
@@ -13,8 +13,8 @@ type NavigationProp = StackNavigationProp<RootStackParamList>;
 export default function EldersProf() {
   const navigation = useNavigation<NavigationProp>();
 
-  const handleElderSelected = (elderId: string, elderName: string) => {
-    // Navigate back to dashboard after elder selection
+  // Elder Profile has already made the elder active app-wide; head back to the dashboard
+  const handleElderSelected = () => {
     navigation.navigate('CaregiverDashboard');
   };
 
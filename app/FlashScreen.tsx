@@ -3,6 +3,8 @@ import { View, Text, StyleSheet, Animated, Easing } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useTheme } from './context/ThemeContext';
 import { lightTheme, darkTheme } from './styles/theme';
+import { sessionManager } from './services/sessionManager';
+import { getHomeRoute } from './services/routeAccess';
 
 const FlashScreen = () => {
   const router = useRouter();
@@ -21,9 +23,16 @@ const FlashScreen = () => {
       })
     ).start();
 
-    // Navigate to the main screen after 3 seconds
-    const timer = setTimeout(() => {
-      router.replace('/LoginScreen');
+    // After 3 seconds, resume a still-valid session on its dashboard, otherwise go to login
+    const timer = setTimeout(async () => {
+      try {
+        const [token, role] = await Promise.all([sessionManager.getToken(), sessionManager.getRole()]);
+        const home = token && !sessionManager.isExpired(token) ? getHomeRoute(role) : null;
+        router.replace(home ?? '/LoginScreen');
+      } catch (error) {
+        console.error('Error reading session on launch:', error);
+        router.replace('/LoginScreen');
+      }
     }, 3000);
 
     return () => clearTimeout(timer);
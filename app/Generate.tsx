@@ -1,95 +1,318 @@
-import React, { useEffect } from 'react';
-
-import { View, Text, StyleSheet, Alert } from 'react-native';
-import { useRoute, useNavigation } from '@react-navigation/native';
-import * as Print from 'expo-print';
-import * as Sharing from 'expo-sharing';
-
-interface Medication {
-  containerId: number;
-  medicineName: string;
-  scheduledTime: string;
-  date: string;
-  taken: boolean;
+import React, { useEffect, useState } from 'react';
+
+import {
+  View, Text, StyleSheet, Alert, ScrollView, TouchableOpacity,
+  ActivityIndicator, Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useTheme } from './context/ThemeContext';
+import { lightTheme, darkTheme } from './styles/theme';
+import { sessionManager } from './services/sessionManager';
+import { connectionService } from './services/connectionService';
+import { reportService, ReportRecord, ReportSection, REPORT_SECTIONS } from './services/reportService';
+import { exportService, ExportFormat } from './services/exportService';
+import { addDays, parseDateKey, toDateKey } from './services/recurrence';
+
+interface ElderOption {
+  id: string;
+  name: string;
 }
 
+const RANGE_PRESETS = [7, 30, 90];
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { format: 'schedules_csv', label: 'Schedules (CSV)', icon: 'calendar-outline' },
+  { format: 'doses_csv', label: 'Dose history (CSV)', icon: 'list-outline' },
+  { format: 'fhir', label: 'FHIR R4 Bundle', icon: 'medkit-outline' },
+];
+
 const Generate = () => {
-  const route = useRoute();
-  const navigation = useNavigation();
-  const { adherenceData } = route.params as { adherenceData: Medication[] };
+  const router = useRouter();
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const params = useLocalSearchParams<{ elderId?: string; elderName?: string }>();
+
+  const [elders, setElders] = useState<ElderOption[]>([]);
+  const [elderId, setElderId] = useState<string | null>(params.elderId || null);
+  const [from, setFrom] = useState(toDateKey(addDays(new Date(), -29)));
+  const [to, setTo] = useState(toDateKey(new Date()));
+  const [sections, setSections] = useState<ReportSection[]>(REPORT_SECTIONS.map(section => section.key));
+  const [picker, setPicker] = useState<'from' | 'to' | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [history, setHistory] = useState<ReportRecord[]>([]);
 
   useEffect(() => {
-    generatePDF();
+    loadElders();
+    reportService.getHistory().then(setHistory);
   }, []);
 
-  const generatePDF = async () => {
+  // Caregivers can report on any connected elder; elders only on themselves
+  const loadElders = async () => {
     try {
-      const html = `
-        <html>
-          <head>
-            <style>
-              body {
-                font-family: Arial, sans-serif;
-                padding: 20px;
-              }
-              h1 {
-                color: #D14A99;
-                text-align: center;
-              }
-              .container {
-                margin-bottom: 20px;
-                padding: 15px;
-                border: 1px solid #ddd;
-                border-radius: 5px;
-              }
-              .header {
-                color: #4A90E2;
-                font-weight: bold;
-              }
-              .status {
-                color: #4CAF50;
-              }
-              .pending {
-                color: #FFA500;
-              }
-            </style>
-          </head>
-          <body>
-            <h1>Medication Adherence Report</h1>
-            <p>Generated on: ${new Date().toLocaleDateString()}</p>
-            ${adherenceData.map(med => `
-              <div class="container">
-                <h2 class="header">Container ${med.containerId}</h2>
-                <p><strong>Medicine:</strong> ${med.medicineName}</p>
-                <p><strong>Scheduled Time:</strong> ${med.scheduledTime}</p>
-                <p><strong>Date:</strong> ${med.date}</p>
-                <p><strong>Status:</strong> 
-                  <span class="${med.taken ? 'status' : 'pending'}">
-                    ${med.taken ? 'Taken' : 'Pending'}
-                  </span>
-                </p>
-              </div>
-            `).join('')}
-          </body>
-        </html>
-      `;
-
-      const { uri } = await Print.printToFileAsync({ html });
-      await Sharing.shareAsync(uri, {
-        mimeType: 'application/pdf',
-        dialogTitle: 'Medication Adherence Report',
+      const token = await sessionManager.getToken();
+      const decoded = sessionManager.decode(token);
+      const userId = String(decoded?.userId ?? decoded?.id ?? '');
+      const role = await sessionManager.getRole();
+
+      let options: ElderOption[] = [];
+      if (role === 3) {
+        const connections = await connectionService.getConnections('active');
+        options = connections.map(connection => ({ id: connection.elderId, name: connection.elderName }));
+      } else if (userId) {
+        options = [{ id: userId, name: params.elderName || 'Me' }];
+      }
+
+      // Keep the elder passed in even if it is not in the connection list
+      if (params.elderId && !options.some(option => option.id === params.elderId)) {
+        options = [{ id: params.elderId, name: params.elderName || 'Selected elder' }, ...options];
+      }
+
+      setElders(options);
+      setElderId(current => current ?? options[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading elders for report:', error);
+    }
+  };
+
+  const applyPreset = (days: number) => {
+    setFrom(toDateKey(addDays(new Date(), -(days - 1))));
+    setTo(toDateKey(new Date()));
+  };
+
+  const toggleSection = (section: ReportSection) => {
+    setSections(current =>
+      current.includes(section) ? current.filter(existing => existing !== section) : [...current, section]
+    );
+  };
+
+  const onPickerChange = (event: any, selected?: Date) => {
+    const target = picker;
+    setPicker(null);
+    if (!target || !selected || (Platform.OS === 'android' && event?.type !== 'set')) return;
+    if (target === 'from') {
+      setFrom(toDateKey(selected));
+    } else {
+      setTo(toDateKey(selected));
+    }
+  };
+
+  const shareReport = async (record: ReportRecord) => {
+    try {
+      await reportService.share(record);
+    } catch (error) {
+      console.error('Error sharing report:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to share report');
+    }
+  };
+
+  const handleGenerate = async () => {
+    const elder = elders.find(option => option.id === elderId);
+    if (!elder) {
+      Alert.alert('Error', 'Please select an elder');
+      return;
+    }
+
+    try {
+      setGenerating(true);
+      const record = await reportService.generate({
+        elderId: elder.id,
+        elderName: elder.name,
+        from,
+        to,
+        sections: REPORT_SECTIONS.map(section => section.key).filter(key => sections.includes(key)),
       });
+      setHistory(await reportService.getHistory());
+      await shareReport(record);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to generate PDF report');
+    } finally {
+      setGenerating(false);
+    }
+  };
 
-      navigation.goBack();
+  const handleExport = async (format: ExportFormat) => {
+    const elder = elders.find(option => option.id === elderId);
+    if (!elder) {
+      Alert.alert('Error', 'Please select an elder');
+      return;
+    }
+
+    try {
+      setExporting(format);
+      await exportService.exportAndShare(format, { elderId: elder.id, elderName: elder.name, from, to });
     } catch (error) {
-      Alert.alert('Error', 'Failed to generate PDF report');
-      navigation.goBack();
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export medication history');
+    } finally {
+      setExporting(null);
     }
   };
 
+  const handleDelete = (record: ReportRecord) => {
+    Alert.alert('Delete Report', `Delete "${record.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => setHistory(await reportService.remove(record.id)),
+      },
+    ]);
+  };
+
   return (
-    <View style={styles.container}>
-      <Text style={styles.text}>Generating PDF report...</Text>
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={[styles.header, { backgroundColor: theme.card }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.secondary }]}>
+          ADHERENCE <Text style={{ color: theme.primary }}>REPORT</Text>
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.secondary }]}>Elder</Text>
+          {elders.length === 0 ? (
+            <Text style={[styles.helperText, { color: theme.textSecondary }]}>
+              No elders available. Connect an elder in Elder Profile first.
+            </Text>
+          ) : (
+            <View style={styles.chipRow}>
+              {elders.map(elder => {
+                const selected = elder.id === elderId;
+                return (
+                  <TouchableOpacity
+                    key={elder.id}
+                    style={[styles.chip, { borderColor: theme.primary }, selected && { backgroundColor: theme.primary }]}
+                    onPress={() => setElderId(elder.id)}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? theme.card : theme.primary }]}>{elder.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.secondary }]}>Date Range</Text>
+          <View style={styles.chipRow}>
+            {RANGE_PRESETS.map(days => (
+              <TouchableOpacity
+                key={days}
+                style={[styles.chip, { borderColor: theme.primary }]}
+                onPress={() => applyPreset(days)}
+              >
+                <Text style={[styles.chipText, { color: theme.primary }]}>Last {days} days</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.dateRow}>
+            <TouchableOpacity style={[styles.dateField, { backgroundColor: theme.background }]} onPress={() => setPicker('from')}>
+              <Text style={[styles.dateLabel, { color: theme.textSecondary }]}>From</Text>
+              <Text style={[styles.dateValue, { color: theme.text }]}>{from}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.dateField, { backgroundColor: theme.background }]} onPress={() => setPicker('to')}>
+              <Text style={[styles.dateLabel, { color: theme.textSecondary }]}>To</Text>
+              <Text style={[styles.dateValue, { color: theme.text }]}>{to}</Text>
+            </TouchableOpacity>
+          </View>
+          {from > to && (
+            <Text style={[styles.helperText, { color: theme.error }]}>The start date must be before the end date.</Text>
+          )}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.secondary }]}>Sections</Text>
+          {REPORT_SECTIONS.map(section => {
+            const included = sections.includes(section.key);
+            return (
+              <TouchableOpacity key={section.key} style={styles.sectionToggle} onPress={() => toggleSection(section.key)}>
+                <Ionicons
+                  name={included ? 'checkbox' : 'square-outline'}
+                  size={22}
+                  color={included ? theme.primary : theme.textSecondary}
+                />
+                <Text style={[styles.toggleText, { color: theme.text }]}>{section.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.generateButton, { backgroundColor: theme.primary }, generating && styles.disabled]}
+          onPress={handleGenerate}
+          disabled={generating || !elderId || sections.length === 0 || from > to}
+        >
+          {generating ? (
+            <ActivityIndicator color={theme.card} />
+          ) : (
+            <>
+              <Ionicons name="document-text-outline" size={20} color={theme.card} />
+              <Text style={[styles.generateButtonText, { color: theme.card }]}>Generate & Share PDF</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.secondary }]}>Export Data</Text>
+          <Text style={[styles.helperText, { color: theme.textSecondary }]}>
+            Share the selected elder and date range with a clinic.
+          </Text>
+          {EXPORT_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.format}
+              style={[styles.exportButton, { borderColor: theme.primary }]}
+              onPress={() => handleExport(option.format)}
+              disabled={exporting !== null || !elderId || from > to}
+            >
+              {exporting === option.format ? (
+                <ActivityIndicator color={theme.primary} />
+              ) : (
+                <Ionicons name={option.icon} size={20} color={theme.primary} />
+              )}
+              <Text style={[styles.exportButtonText, { color: theme.primary }]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <Text style={[styles.sectionTitle, { color: theme.secondary }]}>Previous Reports</Text>
+          {history.length === 0 ? (
+            <Text style={[styles.helperText, { color: theme.textSecondary }]}>No reports generated yet.</Text>
+          ) : (
+            history.map(record => (
+              <View key={record.id} style={[styles.historyRow, { borderBottomColor: theme.border }]}>
+                <View style={styles.historyInfo}>
+                  <Text style={[styles.historyTitle, { color: theme.text }]}>{record.title}</Text>
+                  <Text style={[styles.helperText, { color: theme.textSecondary }]}>
+                    {new Date(record.createdAt).toLocaleString()}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.iconButton} onPress={() => shareReport(record)}>
+                  <Ionicons name="share-outline" size={22} color={theme.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(record)}>
+                  <Ionicons name="trash-outline" size={22} color={theme.error} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+
+      {picker && (
+        <DateTimePicker
+          value={parseDateKey(picker === 'from' ? from : to) ?? new Date()}
+          mode="date"
+          display="default"
+          maximumDate={new Date()}
+          onChange={onPickerChange}
+        />
+      )}
     </View>
   );
 };
@@ -97,13 +320,133 @@ const Generate = () => {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    justifyContent: 'center',
+  },
+  header: {
+    position: 'absolute',
+    top: 50,
+    left: 15,
+    right: 15,
+    flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#F3F4F6',
+    padding: 12,
+    borderRadius: 12,
+    elevation: 4,
+    zIndex: 1,
+  },
+  backButton: {
+    padding: 8,
   },
-  text: {
+  title: {
     fontSize: 18,
-    color: '#666666',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  content: {
+    padding: 15,
+    paddingTop: 120,
+    paddingBottom: 40,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  helperText: {
+    fontSize: 13,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  dateField: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 10,
+  },
+  dateLabel: {
+    fontSize: 12,
+  },
+  dateValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  sectionToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 10,
+  },
+  toggleText: {
+    fontSize: 15,
+  },
+  generateButton: {
+    flexDirection: 'row',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  generateButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 10,
+    gap: 10,
+  },
+  exportButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  iconButton: {
+    padding: 6,
   },
 });
 
@@ -1,116 +1,295 @@
-import React, { useState, useEffect } from "react";
-import { View, Text, ActivityIndicator, StyleSheet, TouchableOpacity } from "react-native";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { useNavigation } from "@react-navigation/native";
-import { jwtDecode } from "jwt-decode";
-
-interface DecodedToken {
-  id: string;
-}
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View, Text, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, Alert, StyleSheet
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "./context/ThemeContext";
+import { lightTheme, darkTheme } from "./styles/theme";
+import { RoleId } from "./services/api";
+import { ApiError } from "./services/apiClient";
+import { adminService, AdminUser, AdminConnection, AdminUserUpdate, ROLE_LABELS } from "./services/adminService";
+import { AdminConnectionCard } from "./components/AdminConnectionList";
+
+const ROLES: RoleId[] = [1, 2, 3];
+
+// Prefer the first field error over the generic "Validation failed"
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const fieldError = Array.isArray(error.data?.errors) ? error.data.errors[0]?.msg : undefined;
+    return typeof fieldError === "string" && fieldError ? fieldError : error.message;
+  }
+  return fallback;
+};
 
-interface UserData {
-  fullname: string;
-  username: string;
+interface UserForm {
+  name: string;
+  email: string;
+  contactNumber: string;
+  age: string;
+  role: RoleId;
 }
 
-const UserProfile: React.FC = () => {
-  const navigation = useNavigation();
-  const [userData, setUserData] = useState<UserData | null>(null);
+const toForm = (user: AdminUser): UserForm => ({
+  name: user.name ?? "",
+  email: user.email ?? "",
+  contactNumber: user.contactNumber ?? "",
+  age: user.age != null ? String(user.age) : "",
+  role: user.role,
+});
+
+// Admin view of one account: edit its profile, deactivate it and see its connections
+const UserDetailScreen: React.FC = () => {
+  const router = useRouter();
+  const { userId } = useLocalSearchParams<{ userId?: string }>();
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [user, setUser] = useState<AdminUser | null>(null);
+  const [form, setForm] = useState<UserForm | null>(null);
+  const [connections, setConnections] = useState<AdminConnection[]>([]);
+  const [totalConnections, setTotalConnections] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isToggling, setIsToggling] = useState(false);
 
-  useEffect(() => {
-    fetchUserProfile();
-  }, []);
+  const loadUser = useCallback(async () => {
+    if (!userId) {
+      setError("No user selected.");
+      setLoading(false);
+      return;
+    }
 
-  const fetchUserProfile = async () => {
     try {
-      const token = await AsyncStorage.getItem("token");
-      if (!token) {
-        console.warn("Session expired. Redirecting to login.");
-        navigation.reset({ index: 0, routes: [{ name: "LoginScreen" }] });
-        return;
-      }
-      
-      const decodedToken = jwtDecode<DecodedToken>(token.trim());
-      const userId = decodedToken.id;
-      
-      const response = await fetch(`https://devapi-618v.onrender.com/api/user/${userId}`, {
-        method: "GET",
-        headers: {
-          Authorization: token,
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-      });
-      
-      const data = await response.json();
-      if (response.ok) {
-        setUserData(data);
-      } else {
-        console.error("Failed to fetch user data:", data);
-        if (data.error === "Invalid token") {
-          await AsyncStorage.removeItem("token");
-          navigation.reset({ index: 0, routes: [{ name: "LoginScreen" }] });
-        }
-      }
-    } catch (error) {
-      console.error("Error fetching profile:", error);
+      setLoading(true);
+      setError(null);
+      const [account, linked] = await Promise.all([
+        adminService.getUser(userId),
+        adminService.listConnections({ userId, limit: 50 }),
+      ]);
+      setUser(account);
+      setForm(toForm(account));
+      setConnections(linked.items);
+      setTotalConnections(linked.total);
+    } catch (err) {
+      setError(errorMessage(err, "Could not load this account."));
     } finally {
       setLoading(false);
     }
+  }, [userId]);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  const updateForm = (changes: Partial<UserForm>) => {
+    setForm(prev => (prev ? { ...prev, ...changes } : prev));
   };
-  const fetchAllUsers = async () => {
+
+  const handleSave = async () => {
+    if (!user || !form) return;
+
+    if (form.name.trim().length < 2) {
+      Alert.alert("Error", "Name must be at least 2 characters");
+      return;
+    }
+    const age = form.age.trim() ? Number(form.age) : undefined;
+    if (age !== undefined && (!Number.isInteger(age) || age < 0 || age > 150)) {
+      Alert.alert("Error", "Please enter a valid age");
+      return;
+    }
+
+    // Only send what changed, so an untouched field never trips validation
+    const original = toForm(user);
+    const updates: AdminUserUpdate = {};
+    if (form.name.trim() !== original.name) updates.name = form.name.trim();
+    if (form.email.trim() !== original.email) updates.email = form.email.trim();
+    if (form.contactNumber.trim() !== original.contactNumber) updates.contactNumber = form.contactNumber.trim();
+    if (form.role !== original.role) updates.role = form.role;
+    if (age !== undefined && form.age.trim() !== original.age) updates.age = age;
+
+    if (!Object.keys(updates).length) {
+      Alert.alert("No Changes", "There is nothing to save.");
+      return;
+    }
+
     try {
-      const token = await AsyncStorage.getItem("token");
-      if (!token) {
-        console.warn("Session expired. Redirecting to login.");
-        navigation.reset({ index: 0, routes: [{ name: "LoginScreen" }] });
-        return;
-      }
-
-      const response = await fetch("https://devapi-618v.onrender.com/api/user", {
-        method: "GET",
-        headers: {
-          Authorization: token,
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-      });
-
-      const data = await response.json();
-      if (response.ok) {
-        setUsers(data);
-      } else {
-        console.error("Failed to fetch user data:", data);
-        if (data.error === "Invalid token") {
-          await AsyncStorage.removeItem("token");
-          navigation.reset({ index: 0, routes: [{ name: "LoginScreen" }] });
-        }
-      }
-    } catch (error) {
-      console.error("Error fetching users:", error);
+      setIsSaving(true);
+      const updated = await adminService.updateUser(user.userId, updates);
+      setUser(updated);
+      setForm(toForm(updated));
+      Alert.alert("Saved", "The account has been updated.");
+    } catch (err) {
+      Alert.alert("Error", errorMessage(err, "Failed to update the account."));
     } finally {
-      setLoading(false);
+      setIsSaving(false);
+    }
+  };
+
+  const setActive = async (isActive: boolean) => {
+    if (!user) return;
+    try {
+      setIsToggling(true);
+      const updated = isActive
+        ? await adminService.reactivateUser(user.userId)
+        : await adminService.deactivateUser(user.userId);
+      setUser(updated);
+    } catch (err) {
+      Alert.alert("Error", errorMessage(err, "Failed to update the account."));
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const handleToggleActive = () => {
+    if (!user) return;
+    if (!user.isActive) {
+      setActive(true);
+      return;
     }
+    Alert.alert(
+      "Deactivate Account",
+      `${user.name} will no longer be able to log in. Their data is kept and the account can be reactivated.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Deactivate", style: "destructive", onPress: () => setActive(false) },
+      ]
+    );
   };
 
-  
+  const inputStyle = [styles.input, {
+    backgroundColor: theme.background,
+    borderColor: theme.border,
+    color: theme.text
+  }];
 
-  return (
-    <View style={styles.container}>
-      {loading ? (
-        <ActivityIndicator size="large" color="#007BFF" />
-      ) : userData ? (
-        <View style={styles.profileCard}>
-          <Text style={styles.greeting}>👋 Hello, {userData.fullname}!</Text>
-          <Text style={styles.info}>Username: {userData.username}</Text>
-          <TouchableOpacity style={styles.button} onPress={() => navigation.goBack()}>
-            <Text style={styles.buttonText}>⬅ Go Back</Text>
+  const renderBody = () => {
+    if (loading) {
+      return <ActivityIndicator size="large" color={theme.primary} style={styles.loader} />;
+    }
+
+    if (error || !user || !form) {
+      return (
+        <View style={styles.centered}>
+          <Text style={[styles.errorText, { color: theme.error }]}>{error ?? "Could not load this account."}</Text>
+          <TouchableOpacity style={[styles.button, { backgroundColor: theme.primary }]} onPress={loadUser}>
+            <Text style={styles.buttonText}>Retry</Text>
           </TouchableOpacity>
         </View>
-      ) : (
-        <Text style={styles.errorText}>⚠️ Oops! We couldn't load your profile.</Text>
-      )}
+      );
+    }
+
+    return (
+      <>
+        <View style={[styles.card, { backgroundColor: theme.card, ...theme.elevation }]}>
+          <View style={styles.statusRow}>
+            <View style={[styles.statusDot, { backgroundColor: user.isActive ? theme.success : theme.error }]} />
+            <Text style={[styles.statusText, { color: theme.text }]}>
+              {user.isActive ? "Active" : "Deactivated"}
+            </Text>
+          </View>
+          <Text style={[styles.meta, { color: theme.textSecondary }]}>
+            Joined {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : "—"} · Last login{" "}
+            {user.lastLogin ? new Date(user.lastLogin).toLocaleString() : "never"}
+          </Text>
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Name</Text>
+          <TextInput style={inputStyle} value={form.name} onChangeText={name => updateForm({ name })} />
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Email</Text>
+          <TextInput
+            style={inputStyle}
+            value={form.email}
+            onChangeText={email => updateForm({ email })}
+            keyboardType="email-address"
+            autoCapitalize="none"
+          />
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Contact Number</Text>
+          <TextInput
+            style={inputStyle}
+            value={form.contactNumber}
+            onChangeText={contactNumber => updateForm({ contactNumber })}
+            keyboardType="phone-pad"
+          />
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Age</Text>
+          <TextInput
+            style={inputStyle}
+            value={form.age}
+            onChangeText={text => updateForm({ age: text.replace(/\D/g, "") })}
+            keyboardType="number-pad"
+            maxLength={3}
+          />
+
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Role</Text>
+          <View style={styles.roleRow}>
+            {ROLES.map(role => {
+              const isSelected = form.role === role;
+              return (
+                <TouchableOpacity
+                  key={role}
+                  style={[styles.roleOption, {
+                    backgroundColor: isSelected ? theme.primary : theme.background,
+                    borderColor: isSelected ? theme.primary : theme.border,
+                  }]}
+                  onPress={() => updateForm({ role })}
+                >
+                  <Text style={[styles.roleText, { color: isSelected ? "#fff" : theme.text }]}>{ROLE_LABELS[role]}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: isSaving ? theme.textSecondary : theme.primary }]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Save Changes</Text>}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, styles.outlineButton, { borderColor: user.isActive ? theme.error : theme.success }]}
+            onPress={handleToggleActive}
+            disabled={isToggling}
+          >
+            {isToggling ? (
+              <ActivityIndicator color={theme.primary} />
+            ) : (
+              <Text style={[styles.buttonText, { color: user.isActive ? theme.error : theme.success }]}>
+                {user.isActive ? "Deactivate Account" : "Reactivate Account"}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <Text style={[styles.sectionTitle, { color: theme.secondary }]}>
+          Connections ({totalConnections})
+        </Text>
+        {connections.length ? (
+          connections.map(connection => <AdminConnectionCard key={connection.id} connection={connection} />)
+        ) : (
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No caregiver–elder connections</Text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={[styles.header, { backgroundColor: theme.card }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.secondary }]} numberOfLines={1}>
+          {user?.name ?? "User Details"}
+        </Text>
+      </View>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {renderBody()}
+      </ScrollView>
     </View>
   );
 };
@@ -118,46 +297,116 @@ const UserProfile: React.FC = () => {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-    backgroundColor: "#E3F2FD",
+    paddingHorizontal: 20,
   },
-  profileCard: {
-    backgroundColor: "#FFFFFF",
-    padding: 20,
-    borderRadius: 10,
-    shadowColor: "#000",
-    shadowOpacity: 0.1,
-    shadowOffset: { width: 0, height: 4 },
-    elevation: 5,
+  header: {
+    flexDirection: "row",
     alignItems: "center",
+    marginTop: 60,
+    padding: 15,
+    borderRadius: 15,
+    elevation: 8,
+  },
+  backButton: {
+    marginRight: 10,
   },
-  greeting: {
+  title: {
+    flex: 1,
     fontSize: 22,
     fontWeight: "bold",
-    color: "#007BFF",
-    marginBottom: 10,
   },
-  info: {
+  scrollContent: {
+    paddingVertical: 20,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  centered: {
+    alignItems: "center",
+    marginTop: 40,
+  },
+  errorText: {
     fontSize: 16,
-    color: "#333",
+    textAlign: "center",
   },
-  button: {
-    marginTop: 15,
-    backgroundColor: "#007BFF",
-    paddingVertical: 10,
-    paddingHorizontal: 20,
+  card: {
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 20,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
     borderRadius: 5,
+    marginRight: 8,
+  },
+  statusText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    marginBottom: 14,
+    fontSize: 16,
+  },
+  roleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  roleOption: {
+    flex: 1,
+    borderWidth: 1.5,
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: "center",
+    marginHorizontal: 3,
+  },
+  roleText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    width: "100%",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  outlineButton: {
+    backgroundColor: "transparent",
+    borderWidth: 1.5,
   },
   buttonText: {
     fontSize: 16,
-    color: "#FFFFFF",
+    color: "white",
     fontWeight: "bold",
   },
-  errorText: {
-    fontSize: 16,
-    color: "red",
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: "center",
   },
 });
 
-export default UserProfile;
+export default UserDetailScreen;
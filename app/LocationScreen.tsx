@@ -1,15 +1,54 @@
 import React from 'react';
 
-import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Image, Alert, Linking } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { useTheme } from './context/ThemeContext';
 import { lightTheme, darkTheme } from './styles/theme';
+import { usePillboxLocator } from './hooks/usePillboxLocator';
+import { describeProximity, SignalTrend } from './services/pillboxLocationService';
+
+const TREND_LABELS: Record<SignalTrend, string> = {
+  warmer: 'Getting warmer',
+  colder: 'Getting colder',
+  steady: 'Keep moving to find it',
+};
+
+const TREND_ICONS: Record<SignalTrend, keyof typeof Ionicons.glyphMap> = {
+  warmer: 'flame',
+  colder: 'snow',
+  steady: 'walk',
+};
 
 export default function LocationScreen() {
   const navigation = useNavigation();
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
+  const {
+    device, status, isPaired, isConnected, lastSeen, signal, trend, isBuzzing,
+    buzz, stopBuzz, reconnect, requestLocation,
+  } = usePillboxLocator();
+
+  const isReconnecting = status === 'connecting' || status === 'reconnecting';
+
+  const handlePlaySound = async () => {
+    try {
+      if (isBuzzing) {
+        await stopBuzz();
+      } else {
+        await buzz();
+      }
+    } catch (err) {
+      Alert.alert('Play Sound Failed', err instanceof Error ? err.message : 'Could not reach the pillbox');
+    }
+  };
+
+  const openInMaps = () => {
+    if (lastSeen?.latitude == null || lastSeen.longitude == null) return;
+    Linking.openURL(`https://maps.google.com/?q=${lastSeen.latitude},${lastSeen.longitude}`);
+  };
+
+  const trendColor = trend === 'warmer' ? theme.error : trend === 'colder' ? theme.primary : theme.textSecondary;
 
   return (
     <View style={[styles.container, { backgroundColor: theme.background }]}>
@@ -23,21 +62,103 @@ export default function LocationScreen() {
         </Text>
       </View>
 
-      {/* Sound Icon */}
-      <View style={[styles.soundContainer, { backgroundColor: theme.card }]}>
-        <Image source={require('@/assets/images/soundwave.png')} style={styles.soundIcon} />
-      </View>
+      {!isPaired ? (
+        <>
+          <View style={[styles.soundContainer, styles.disabled, { backgroundColor: theme.card }]}>
+            <Image source={require('@/assets/images/soundwave.png')} style={styles.soundIcon} />
+          </View>
+          <Text style={[styles.helperText, { color: theme.textSecondary }]}>
+            No pillbox is paired with this phone yet.
+          </Text>
+          <TouchableOpacity
+            style={[styles.doneButton, { backgroundColor: theme.primary }]}
+            onPress={() => navigation.navigate("BluetoothScreen" as never)}
+          >
+            <Text style={[styles.doneButtonText, { color: theme.card }]}>PAIR A PILLBOX</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          {/* Sound Icon */}
+          <TouchableOpacity
+            style={[
+              styles.soundContainer,
+              !isConnected && styles.disabled,
+              { backgroundColor: theme.card, borderColor: isBuzzing ? theme.primary : 'transparent' },
+            ]}
+            onPress={handlePlaySound}
+            disabled={!isConnected}
+          >
+            <Image source={require('@/assets/images/soundwave.png')} style={styles.soundIcon} />
+          </TouchableOpacity>
 
-      {/* Play Sound Label */}
-      <Text style={[styles.playSoundText, { color: theme.primary }]}>PLAY SOUND</Text>
+          {/* Play Sound Label */}
+          <Text style={[styles.playSoundText, { color: isConnected ? theme.primary : theme.textSecondary }]}>
+            {isBuzzing ? 'STOP SOUND' : 'PLAY SOUND'}
+          </Text>
 
-      {/* Done Button */}
-      <TouchableOpacity 
-        style={[styles.doneButton, { backgroundColor: theme.primary }]} 
-        onPress={() => navigation.goBack()}
-      >
-        <Text style={[styles.doneButtonText, { color: theme.card }]}>DONE</Text>
-      </TouchableOpacity>
+          {/* Proximity */}
+          <View style={[styles.infoCard, { backgroundColor: theme.card }]}>
+            {isConnected ? (
+              <>
+                <View style={styles.infoRow}>
+                  <Ionicons name={TREND_ICONS[trend]} size={24} color={trendColor} />
+                  <Text style={[styles.trendText, { color: trendColor }]}>{TREND_LABELS[trend]}</Text>
+                </View>
+                <Text style={[styles.infoText, { color: theme.text }]}>
+                  {describeProximity(signal)}{signal !== null ? ` (${signal} dBm)` : ''}
+                </Text>
+              </>
+            ) : (
+              <>
+                <Text style={[styles.infoText, { color: theme.text }]}>
+                  {isReconnecting ? 'Looking for your pillbox...' : `${device?.name ?? 'Pillbox'} is out of range`}
+                </Text>
+                {!isReconnecting && (
+                  <TouchableOpacity onPress={reconnect}>
+                    <Text style={[styles.linkText, { color: theme.primary }]}>Try to reconnect</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+          </View>
+
+          {/* Last Seen */}
+          <View style={[styles.infoCard, { backgroundColor: theme.card }]}>
+            <Text style={[styles.cardTitle, { color: theme.secondary }]}>Last Seen</Text>
+            {lastSeen ? (
+              <>
+                <Text style={[styles.infoText, { color: theme.text }]}>
+                  {isConnected ? 'Connected now' : new Date(lastSeen.seenAt).toLocaleString()}
+                </Text>
+                {lastSeen.latitude !== null && lastSeen.longitude !== null ? (
+                  <TouchableOpacity onPress={openInMaps}>
+                    <Text style={[styles.linkText, { color: theme.primary }]}>
+                      {lastSeen.place ?? `${lastSeen.latitude.toFixed(5)}, ${lastSeen.longitude.toFixed(5)}`} (open map)
+                    </Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity onPress={requestLocation}>
+                    <Text style={[styles.linkText, { color: theme.primary }]}>Allow location to remember the place</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            ) : (
+              <Text style={[styles.infoText, { color: theme.textSecondary }]}>
+                Not seen yet. The place is recorded the next time the box connects.
+              </Text>
+            )}
+          </View>
+
+          {/* Done Button */}
+          <TouchableOpacity 
+            style={[styles.doneButton, { backgroundColor: theme.primary }]} 
+            onPress={() => navigation.goBack()}
+          >
+            <Text style={[styles.doneButtonText, { color: theme.card }]}>DONE</Text>
+          </TouchableOpacity>
+        </>
+      )}
     </View>
   );
 }
@@ -82,6 +203,10 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     elevation: 3,
     alignSelf: 'center',
+    borderWidth: 3,
+  },
+  disabled: {
+    opacity: 0.5,
   },
   soundIcon: {
     width: 100,
@@ -94,6 +219,39 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: 'center',
   },
+  infoCard: {
+    width: '100%',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    elevation: 3,
+    gap: 6,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  trendText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  infoText: {
+    fontSize: 15,
+  },
+  helperText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   doneButton: {
     paddingVertical: 12,
     paddingHorizontal: 40,
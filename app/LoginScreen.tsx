@@ -3,14 +3,17 @@ import {
   View, Text, TextInput, TouchableOpacity, Alert, StyleSheet, ScrollView, Modal, ActivityIndicator
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import axios from "axios";
-import { useRouter } from "expo-router";
+import { useRouter, useLocalSearchParams } from "expo-router";
 import { useTheme } from "./context/ThemeContext";
 import { lightTheme, darkTheme } from "./styles/theme";
-import * as SMS from "expo-sms";
+import { usersApi } from "./services/api";
+import { ApiError } from "./services/apiClient";
+import { sessionManager } from "./services/sessionManager";
+import { getHomeRoute } from "./services/routeAccess";
 
 const LoginScreen = () => {
   const router = useRouter();
+  const { sessionExpired } = useLocalSearchParams<{ sessionExpired?: string }>();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
@@ -26,54 +29,38 @@ const LoginScreen = () => {
       setLoading(true);
       await AsyncStorage.removeItem("token"); // Clear previous token
 
-      const response = await axios.post("https://pillnow-database.onrender.com/api/users/login", {
-        email,
-        password,
-      });
+      const data = await usersApi.login(email, password);
 
-      if (response.data?.token) {
-        await AsyncStorage.setItem("token", response.data.token);
-        console.log("Login successful. Token saved:", response.data.token);
-        console.log("Full response data:", JSON.stringify(response.data, null, 2));
-        
+      if (data?.token) {
         // Check user role and navigate accordingly
-        const userRole = response.data.user?.role || response.data.role;
-        console.log("User role:", userRole);
-        console.log("Response data.user:", response.data.user);
-        console.log("Response data.role:", response.data.role);
-        
+        const userRole = data.user?.role || data.role;
+
         // Handle numeric role IDs: 1=Admin, 2=Elder, 3=Caregiver
-        const roleId = parseInt(userRole);
-        console.log("Role ID:", roleId);
-        
-        if (roleId === 3) {
-          console.log("Navigating to CaregiverDashboard (Role ID: 3)");
-          router.push("/CaregiverDashboard");
-        } else if (roleId === 2) {
-          console.log("Navigating to ElderDashboard (Role ID: 2)");
-          router.push("/ElderDashboard");
-        } else if (roleId === 1) {
-          console.log("Admin role detected (Role ID: 1) - showing alert");
-          Alert.alert("Login Failed", "Admin access not supported in this app.");
-        } else {
-          console.log("Unknown role, showing alert");
+        const roleId = parseInt(String(userRole));
+
+        // Check the role before starting a session the route guard would act on
+        const home = getHomeRoute(roleId);
+        if (!home) {
           // If role is not recognized, show an alert
           Alert.alert("Login Failed", "Invalid user role. Please contact support.");
+          return;
         }
+
+        await sessionManager.startSession(data.token, roleId);
+
+        // Replace so back does not return to the login screen
+        router.replace(home);
       } else {
         Alert.alert("Login Failed", "Invalid username or password");
       }
-    } catch (error: any) {
-      Alert.alert("Login Failed", error.response?.data?.message || "Invalid credentials");
+    } catch (error) {
+      Alert.alert("Login Failed", error instanceof ApiError ? error.message : "Invalid credentials");
     } finally {
       setLoading(false);
     }
   };
 
-  const generateSixDigitCode = (): string => {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  };
-
+  // The server texts the code, then the reset screen checks it and sets the new password
   const handleSendResetCode = async () => {
     const trimmed = phoneNumber.trim();
     if (!trimmed) {
@@ -83,28 +70,19 @@ const LoginScreen = () => {
 
     setIsSendingCode(true);
     try {
-      const isAvailable = await SMS.isAvailableAsync();
-      const code = generateSixDigitCode();
-      const message = `PILLNOW reset code: ${code}`;
-
-      if (!isAvailable) {
-        Alert.alert(
-          "SMS Unavailable",
-          "SMS is not available on this device. Please contact support or try another method."
-        );
-        return;
-      }
-
-      const result = await SMS.sendSMSAsync([trimmed], message);
-      if (result.result === "sent") {
-        Alert.alert("Code Sent", "A reset code has been sent to your number.");
-        setIsForgotOpen(false);
-        setPhoneNumber("");
-      } else {
-        Alert.alert("Not Sent", "The SMS was not sent. Please try again.");
-      }
+      const response = await usersApi.requestPasswordReset(trimmed);
+      setIsForgotOpen(false);
+      setPhoneNumber("");
+      router.push({
+        pathname: "/ResetPasswordScreen",
+        params: {
+          contactNumber: trimmed,
+          expiresIn: String(response.expiresInSeconds),
+          resendAfter: String(response.resendAfterSeconds),
+        },
+      });
     } catch (err) {
-      Alert.alert("Error", "Failed to send SMS. Please try again.");
+      Alert.alert("Error", err instanceof ApiError ? err.message : "Failed to send the reset code. Please try again.");
     } finally {
       setIsSendingCode(false);
     }
@@ -115,6 +93,11 @@ const LoginScreen = () => {
       <ScrollView contentContainerStyle={styles.scrollContent}>
         <View style={[styles.card, { backgroundColor: theme.card, ...theme.elevation }]}>
           <Text style={[styles.title, { color: theme.secondary }]}>Welcome to PILLNOW</Text>
+          {sessionExpired === "1" && (
+            <View style={[styles.sessionBanner, { backgroundColor: theme.warning }]}>
+              <Text style={styles.sessionBannerText}>Your session has expired. Please log in again.</Text>
+            </View>
+          )}
           <TextInput
             style={[styles.input, { 
               backgroundColor: theme.background,
@@ -238,6 +221,18 @@ const styles = StyleSheet.create({
     marginBottom: 25,
     textAlign: "center",
   },
+  sessionBanner: {
+    width: "100%",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 18,
+  },
+  sessionBannerText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+    textAlign: "center",
+  },
   input: { 
     width: "100%",
     height: 55,
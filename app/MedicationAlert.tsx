@@ -0,0 +1,94 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useTheme } from "./context/ThemeContext";
+import { lightTheme, darkTheme } from "./styles/theme";
+import MedicationNotification from "./components/MedicationNotification";
+import { reminderService } from "./services/reminderService";
+import { doseEventService } from "./services/doseEventService";
+import { snoozeService } from "./services/snoozeService";
+
+// Shown when the user taps a scheduled medication reminder
+const MedicationAlert = () => {
+  const router = useRouter();
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const { medicineName, containerId, scheduledTime, date, reminderKey } = useLocalSearchParams<{
+    medicineName?: string;
+    containerId?: string;
+    scheduledTime?: string;
+    date?: string;
+    reminderKey?: string;
+  }>();
+
+  const handleDismiss = async () => {
+    // "Done" confirms the dose so it is not reported to caregivers as missed
+    if (reminderKey) {
+      await reminderService.acknowledgeReminder(reminderKey);
+      if (date && scheduledTime) {
+        try {
+          await doseEventService.recordTaken({
+            doseKey: reminderKey,
+            medicationName: medicineName || "Medication",
+            containerId: Number(containerId) || 1,
+            scheduledDate: date,
+            scheduledTime,
+            source: "notification",
+          });
+        } catch (error) {
+          console.error("Error recording dose:", error);
+        }
+      }
+    }
+
+    close();
+  };
+
+  // Remind again in a few minutes; repeated snoozes alert caregivers
+  const handleSnooze = async (minutes: number) => {
+    if (reminderKey && date && scheduledTime) {
+      try {
+        await snoozeService.snooze({
+          reminderKey,
+          medicineName: medicineName || "Medication",
+          containerId: Number(containerId) || 1,
+          date,
+          time: scheduledTime,
+        }, minutes);
+      } catch (error) {
+        console.error("Error snoozing reminder:", error);
+      }
+    }
+    close();
+  };
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace("/ElderDashboard");
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <MedicationNotification
+        medicineName={medicineName || "Medication"}
+        containerId={Number(containerId) || 1}
+        scheduledTime={scheduledTime || ""}
+        onDismiss={handleDismiss}
+        onSnooze={reminderKey ? handleSnooze : undefined}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    padding: 20,
+  },
+});
+
+export default MedicationAlert;
@@ -4,7 +4,6 @@ import {
   Text,
   TouchableOpacity,
   Modal,
-  FlatList,
   ScrollView,
   StyleSheet,
   ActivityIndicator,
@@ -15,23 +14,23 @@ import DateTimePicker from "@react-native-community/datetimepicker";
 import { useNavigation } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from './context/ThemeContext';
+import { useActiveElder } from './context/ActiveElderContext';
 import { lightTheme, darkTheme } from './styles/theme';
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { jwtDecode } from "jwt-decode";
-
-// Type for medication data from API
-interface Medication {
-  _id: string;
-  name: string;
-  description: string;
-  dosage: string;
-  form: string;
-  manufacturer: string;
-  createdAt: string;
-  updatedAt: string;
-  medId: number;
-  __v: number;
-}
+import { medicationsApi, schedulesApi, Medication, ScheduleRecord } from "./services/api";
+import { SessionExpiredError } from "./services/apiClient";
+import { scheduleCache } from "./services/scheduleCache";
+import { syncQueue, SyncConflict } from "./services/syncQueue";
+import { useSyncQueue } from "./hooks/useSyncQueue";
+import { reminderService } from "./services/reminderService";
+import { pillboxScheduleSync } from "./services/pillboxScheduleSync";
+import { RecurrenceRule, describeRule, getNextOccurrence, getRecurrenceRule, toRecordFields, validateRule } from "./services/recurrence";
+import RecurrenceEditor from "./components/RecurrenceEditor";
+import InventoryFields, { EMPTY_INVENTORY_DRAFT, InventoryDraft, parseInventoryDraft } from "./components/InventoryFields";
+import { inventoryService, RunOutProjection } from "./services/inventoryService";
+import ElderSwitcher from "./components/ElderSwitcher";
+import MedicationPicker from "./components/MedicationPicker";
 
 // Type for saved schedule data
 interface SavedSchedule {
@@ -50,6 +49,7 @@ const ModifyButton = () => {
   const navigation = useNavigation();
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
+  const { activeElder, isCaregiver, isLoading: isElderLoading } = useActiveElder();
   const [pillModalVisible, setPillModalVisible] = useState(false);
   const [alarmModalVisible, setAlarmModalVisible] = useState(false);
   const [confirmModalVisible, setConfirmModalVisible] = useState(false);
@@ -68,10 +68,22 @@ const ModifyButton = () => {
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<any>(null);
   const [editMedication, setEditMedication] = useState<string>('');
+  const [editPickerVisible, setEditPickerVisible] = useState(false);
   const [editDate, setEditDate] = useState<string>('');
   const [editTime, setEditTime] = useState<string>('');
+  const [editRule, setEditRule] = useState<RecurrenceRule | null>(null);
   const [showEditDatePicker, setShowEditDatePicker] = useState(false);
   const [showEditTimePicker, setShowEditTimePicker] = useState(false);
+  // Set when schedules are shown from the offline cache
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const { pending, conflicts, hasPending, hasConflicts, resolveConflict } = useSyncQueue();
+  // Pill stock per container, as typed and as last saved
+  const [inventoryDrafts, setInventoryDrafts] = useState<Record<number, InventoryDraft>>({
+    1: EMPTY_INVENTORY_DRAFT, 2: EMPTY_INVENTORY_DRAFT, 3: EMPTY_INVENTORY_DRAFT
+  });
+  const [inventoryNames, setInventoryNames] = useState<Record<number, string>>({});
+  const [projections, setProjections] = useState<RunOutProjection[]>([]);
+  const [savingInventory, setSavingInventory] = useState(false);
 
   // Get current user ID from JWT token
   const getCurrentUserId = async (): Promise<number> => {
@@ -96,25 +108,39 @@ const ModifyButton = () => {
     }
   };
 
-  // Load saved data and fetch medications on component mount
+  // Caregivers work on the active elder's schedule; elders on their own
+  const getTargetUserId = async (): Promise<number> => {
+    if (!isCaregiver) return getCurrentUserId();
+    const elderId = activeElder ? parseInt(activeElder.id) : NaN;
+    if (isNaN(elderId)) {
+      throw new Error(activeElder
+        ? `${activeElder.name ?? 'This elder'} does not have a PillNow account yet`
+        : 'Select an elder first');
+    }
+    return elderId;
+  };
+
+  // Load saved data and fetch medications once the active elder is known, and again when it changes
   useEffect(() => {
+    if (isElderLoading) return;
     const loadData = async () => {
       try {
         setLoading(true);
         setError(null);
+
+        if (isCaregiver && !activeElder) {
+          setError('Select an elder to modify their schedule.');
+          return;
+        }
         
         // First fetch medications
-        const medicationsResponse = await fetch('https://pillnow-database.onrender.com/api/medications');
-        if (!medicationsResponse.ok) {
-          throw new Error(`Failed to fetch medications: ${medicationsResponse.status}`);
-        }
-        const medicationsData = await medicationsResponse.json();
-        const medsArray = Array.isArray(medicationsData) ? medicationsData : (medicationsData?.data || []);
+        const { data: medsArray } = await scheduleCache.fetchWithCache('medications', () => medicationsApi.list());
         setMedications(medsArray);
         
         // Then load saved data and fetch schedules
         await loadSavedData();
         await loadScheduleData();
+        await loadInventory();
       } catch (err) {
         console.error('Error in loadData:', err);
         setError(err instanceof Error ? err.message : 'Failed to load data');
@@ -123,25 +149,77 @@ const ModifyButton = () => {
       }
     };
     loadData();
-  }, []);
+  }, [isElderLoading, activeElder?.id]);
+
+  // Load pill counts and run-out projections for this user's containers
+  const loadInventory = async () => {
+    try {
+      const elderId = String(await getTargetUserId());
+      const [stored, projected] = await Promise.all([
+        inventoryService.getInventory(elderId),
+        inventoryService.getProjections(elderId),
+      ]);
+      setInventoryDrafts(prev => {
+        const next = { ...prev };
+        Object.values(stored).forEach(container => {
+          next[container.containerId] = {
+            pillCount: String(container.pillCount),
+            pillsPerDose: String(container.pillsPerDose),
+          };
+        });
+        return next;
+      });
+      setInventoryNames(Object.fromEntries(Object.values(stored).map(container => [container.containerId, container.medicationName])));
+      setProjections(projected);
+    } catch (error) {
+      console.error('Error loading pill inventory:', error);
+    }
+  };
+
+  // Save refilled pill counts for containers that hold a medication
+  const saveInventory = async () => {
+    try {
+      setSavingInventory(true);
+      const elderId = String(await getTargetUserId());
+      let saved = 0;
+      for (let containerNum = 1; containerNum <= 3; containerNum++) {
+        const counts = parseInventoryDraft(inventoryDrafts[containerNum]);
+        const medicationName = selectedPills[containerNum] ?? inventoryNames[containerNum];
+        if (counts && medicationName) {
+          await inventoryService.setContainer(elderId, containerNum, { medicationName, ...counts });
+          saved++;
+        }
+      }
+      await loadInventory();
+      if (saved > 0) {
+        Alert.alert('Success', 'Pill inventory updated.');
+      } else {
+        Alert.alert('Nothing to Save', 'Enter the pills loaded for a container that has a medication.');
+      }
+    } catch (error) {
+      console.error('Error saving pill inventory:', error);
+      Alert.alert('Error', `Failed to save inventory: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSavingInventory(false);
+    }
+  };
 
   // Load schedule data from database (same as Monitor & Manage)
   const loadScheduleData = async () => {
     try {
-      const schedulesResponse = await fetch('https://pillnow-database.onrender.com/api/medication_schedules', {
-        headers: {
-          'Cache-Control': 'no-cache',
-          'Pragma': 'no-cache',
-          'If-Modified-Since': '0'
-        }
-      });
-      const schedulesData = await schedulesResponse.json();
-      
       // Get all schedules and show the latest ones (no user/status filtering) - same as Monitor & Manage
-      const allSchedules = schedulesData.data || [];
+      const { data: allSchedules, fromCache, cachedAt } = await scheduleCache.fetchWithCache(
+        'schedules',
+        () => schedulesApi.list({ noCache: true })
+      );
+      setCachedAt(fromCache ? cachedAt : null);
       
+      // Only the schedules of the elder being edited
+      const currentUserId = await getTargetUserId();
+
       // Sort by schedule ID (highest first) and take top 3, then arrange by container number - same as Monitor & Manage
       const sortedSchedules = allSchedules
+        .filter((schedule: any) => schedule.user === currentUserId)
         .sort((a: any, b: any) => b.scheduleId - a.scheduleId) // Sort by highest schedule ID first
         .slice(0, 3) // Take top 3 highest schedule IDs
         .sort((a: any, b: any) => {
@@ -160,19 +238,10 @@ const ModifyButton = () => {
   // Load saved schedule data from database
   const loadSavedData = async () => {
     try {
-      const response = await fetch('https://pillnow-database.onrender.com/api/medication_schedules');
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const responseData = await response.json();
-      
-      // Extract the actual schedules array from the response
-      const schedules = responseData.data || [];
+      const { data: schedules } = await scheduleCache.fetchWithCache('schedules', () => schedulesApi.list());
       
       if (schedules && schedules.length > 0) {
-        const currentUserId = await getCurrentUserId();
+        const currentUserId = await getTargetUserId();
         const userSchedules = schedules.filter((s: any) => s.user === currentUserId);
         
         // Group schedules by container and reconstruct our app format
@@ -258,24 +327,13 @@ const ModifyButton = () => {
     try {
       setSaving(true);
       
-      const currentUserId = await getCurrentUserId();
+      const currentUserId = await getTargetUserId();
       
       // First, get existing schedules to determine which ones to update vs create
-      const existingSchedulesResponse = await fetch('https://pillnow-database.onrender.com/api/medication_schedules');
-      const existingSchedulesData = await existingSchedulesResponse.json();
-      const existingSchedules = existingSchedulesData.data || [];
+      const { data: existingSchedules } = await scheduleCache.fetchWithCache('schedules', () => schedulesApi.list());
       
       // Create schedule records for each pill and alarm combination
-      const scheduleRecords: Array<{
-        scheduleId: number;
-        user: number;
-        medication: number;
-        container: number;
-        date: string;
-        time: string;
-        status: string;
-        alertSent: boolean;
-      }> = [];
+      const scheduleRecords: ScheduleRecord[] = [];
       let scheduleId = 1;
       
       // Process each container
@@ -291,7 +349,7 @@ const ModifyButton = () => {
             containerAlarms.forEach(alarmDate => {
               const scheduleRecord = {
                 scheduleId: scheduleId++,
-                user: currentUserId, // Use current user ID from token
+                user: currentUserId, // The elder the schedule is for
                 medication: medication.medId, // Use medication ID (number) as required by backend
                 container: containerNum, // Add container number
                 date: alarmDate.toISOString().split('T')[0], // YYYY-MM-DD format
@@ -306,54 +364,56 @@ const ModifyButton = () => {
       }
       
       // Process each schedule record - update existing or create new
-      const promises = scheduleRecords.map(async (record, index) => {
+      const promises = scheduleRecords.map(async (record) => {
         // Check if there's an existing schedule for this container and time slot
-        const existingSchedule = existingSchedules.find((existing: any) => 
+        const existingSchedule = existingSchedules.find((existing) => 
           existing.container === record.container && 
           existing.user === record.user &&
           existing.medication === record.medication
         );
         
+        const medicineName = medications.find(med => med.medId === record.medication)?.name ?? 'Medication';
+
         if (existingSchedule) {
           // Update existing schedule using PUT
-          return fetch(`https://pillnow-database.onrender.com/api/medication_schedules/${existingSchedule._id}`, {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              ...record,
-              scheduleId: existingSchedule.scheduleId // Keep the existing scheduleId
-            }),
-          });
+          const updatedRecord = {
+            ...record,
+            scheduleId: existingSchedule.scheduleId // Keep the existing scheduleId
+          };
+          const result = await syncQueue.submitUpdate(existingSchedule._id, updatedRecord, existingSchedule.updatedAt);
+          await reminderService.rescheduleReminder(existingSchedule, { ...updatedRecord, _id: existingSchedule._id }, medicineName);
+          return result;
         } else {
           // Create new schedule using POST
-          return fetch('https://pillnow-database.onrender.com/api/medication_schedules', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(record),
-          });
+          const result = await syncQueue.submitCreate(record);
+          await reminderService.scheduleReminder(result.schedule ?? record, medicineName);
+          return result;
         }
       });
       
-      const responses = await Promise.all(promises);
-      
-      // Check if all requests were successful
-      const failedResponses = responses.filter(response => !response.ok);
-      if (failedResponses.length > 0) {
-        const errorText = await failedResponses[0].text();
-        console.error('API Error Response:', errorText);
-        throw new Error(`HTTP error! status: ${failedResponses[0].status} - ${errorText}`);
+      const results = await Promise.all(promises);
+      const queuedCount = results.filter(result => result.queued).length;
+
+      // Program the pillbox in the background; it is queued until the box connects
+      pillboxScheduleSync.syncSchedules(
+        results.map((result, index) => result.schedule ?? scheduleRecords[index]),
+        schedule => medications.find(med => med.medId === schedule.medication)?.name ?? null
+      );
+      if (queuedCount > 0) {
+        Alert.alert('Saved Offline', `You appear to be offline. ${queuedCount} change(s) will be synced when the connection returns.`);
+      } else {
+        Alert.alert('Success', 'Schedule updated successfully!');
       }
       
-      const results = await Promise.all(responses.map(response => response.json()));
-      Alert.alert('Success', 'Schedule updated successfully!');
-      
       // Refresh the schedule data to show the updated schedules
       await loadScheduleData();
+
+      // New schedules change when each container runs out
+      await inventoryService.refreshAlerts(String(currentUserId));
+      await loadInventory();
     } catch (err) {
+      // The session handler already redirected to login
+      if (err instanceof SessionExpiredError) return;
       console.error('Error saving schedule:', err);
       Alert.alert('Error', `Failed to save schedule: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
@@ -426,6 +486,7 @@ const ModifyButton = () => {
     setEditMedication(medicationName);
     setEditDate(schedule.date);
     setEditTime(schedule.time);
+    setEditRule(getRecurrenceRule(schedule));
     setEditModalVisible(true);
   };
 
@@ -468,49 +529,60 @@ const ModifyButton = () => {
         return;
       }
 
+      const ruleError = editRule ? validateRule(editRule) : null;
+      if (ruleError) {
+        Alert.alert('Invalid Schedule', ruleError);
+        return;
+      }
+
       // Get current user ID
-      const currentUserId = await getCurrentUserId();
+      const currentUserId = await getTargetUserId();
 
       // Create updated schedule data using the existing schedule ID
-      const updatedSchedule = {
+      const updatedSchedule: ScheduleRecord = {
         scheduleId: editingSchedule.scheduleId, // Use existing schedule ID
         user: currentUserId,
         medication: medication.medId,
         container: editingSchedule.container,
-        date: editDate,
-        time: editTime,
+        // A recurring rule sets date/time to its first dose; empty timeSlots turns a rule back into a single dose
+        ...(editRule ? toRecordFields(editRule) : { date: editDate, time: editTime, timeSlots: [] }),
         status: 'Pending',
         alertSent: false
       };
 
-      // Send PUT request to update the existing schedule using MongoDB _id
-      const response = await fetch(`https://pillnow-database.onrender.com/api/medication_schedules/${editingSchedule._id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updatedSchedule),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
-      }
+      // Send PUT request to update the existing schedule using MongoDB _id (queued when offline)
+      const { queued } = await syncQueue.submitUpdate(editingSchedule._id, updatedSchedule, editingSchedule.updatedAt);
+      await reminderService.rescheduleReminder(
+        editingSchedule,
+        { ...updatedSchedule, _id: editingSchedule._id },
+        medication.name
+      );
 
       // Update the schedule in the local state
-      setSchedules(prevSchedules => 
-        prevSchedules.map(schedule => 
-          schedule._id === editingSchedule._id 
-            ? updatedSchedule 
-            : schedule
-        )
+      const updatedSchedules = schedules.map(schedule =>
+        schedule._id === editingSchedule._id
+          ? updatedSchedule
+          : schedule
+      );
+      setSchedules(updatedSchedules);
+
+      // Reprogram the pillbox with the edited container contents
+      pillboxScheduleSync.syncSchedules(
+        updatedSchedules,
+        schedule => medications.find(med => med.medId === schedule.medication)?.name ?? null
       );
 
-      Alert.alert('Success', 'Schedule updated successfully!');
+      // The edited schedule changes when its container runs out
+      inventoryService.refreshAlerts(String(currentUserId)).then(loadInventory);
+
+      Alert.alert(
+        queued ? 'Saved Offline' : 'Success',
+        queued ? 'You appear to be offline. This change will be synced when the connection returns.' : 'Schedule updated successfully!'
+      );
       setEditModalVisible(false);
       setEditingSchedule(null);
     } catch (error) {
+      if (error instanceof SessionExpiredError) return;
       console.error('Error updating schedule:', error);
       Alert.alert('Error', `Failed to update schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -530,6 +602,8 @@ const ModifyButton = () => {
               // Since backend doesn't support DELETE, we'll filter out this schedule from display
               // In a real implementation, you'd want to add a DELETE endpoint
               setSchedules(prevSchedules => prevSchedules.filter(schedule => schedule._id !== scheduleId));
+              const deleted = schedules.find(schedule => schedule._id === scheduleId);
+              await reminderService.cancelReminder(deleted ?? scheduleId);
               Alert.alert('Success', 'Schedule removed from display! Note: Backend DELETE endpoint needed for permanent removal.');
             } catch (err) {
               console.error('Error deleting schedule:', err);
@@ -541,6 +615,69 @@ const ModifyButton = () => {
     );
   };
 
+  // Let the user pick which version wins when a queued edit clashes with the server
+  const handleConflict = (conflict: SyncConflict) => {
+    const { record } = conflict.entry;
+    if (conflict.reason === 'rejected') {
+      handleRejected(conflict);
+      return;
+    }
+    const reasonText = conflict.reason === 'deleted'
+      ? 'This schedule was removed on the server while you were offline.'
+      : conflict.reason === 'duplicate'
+        ? 'The same dose is already scheduled on the server.'
+        : 'This schedule was changed on the server while you were offline.';
+
+    Alert.alert(
+      'Sync Conflict',
+      `${reasonText}\n\nYour version: Container ${record.container}, ${record.date} ${record.time}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Keep Server',
+          onPress: async () => {
+            await resolveConflict(conflict.entry.id, 'keepServer');
+            await loadScheduleData();
+          }
+        },
+        {
+          text: 'Keep Mine',
+          onPress: async () => {
+            await resolveConflict(conflict.entry.id, 'keepLocal');
+            await loadScheduleData();
+          }
+        }
+      ]
+    );
+  };
+
+  // A queued change the server refused: send it again or throw it away
+  const handleRejected = (conflict: SyncConflict) => {
+    const { record, lastError } = conflict.entry;
+    Alert.alert(
+      'Change Not Saved',
+      `The server did not accept this change${lastError ? `: ${lastError}` : '.'}\n\nContainer ${record.container}, ${record.date} ${record.time}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await resolveConflict(conflict.entry.id, 'keepServer');
+            await loadScheduleData();
+          }
+        },
+        {
+          text: 'Try Again',
+          onPress: async () => {
+            await resolveConflict(conflict.entry.id, 'keepLocal');
+            await loadScheduleData();
+          }
+        }
+      ]
+    );
+  };
+
   const clearAllData = () => {
     Alert.alert(
       'Clear All Data',
@@ -579,6 +716,7 @@ const ModifyButton = () => {
           MODIFY <Text style={[styles.headerHighlight, { color: theme.primary }]}>SCHEDULE</Text>
         </Text>
       </View>
+      <ElderSwitcher />
 
       {loading ? (
         <View style={styles.loadingContainer}>
@@ -597,11 +735,7 @@ const ModifyButton = () => {
                    setError(null);
                    
                    // First fetch medications
-                   const medicationsResponse = await fetch('https://pillnow-database.onrender.com/api/medications');
-                   if (!medicationsResponse.ok) {
-                     throw new Error(`Failed to fetch medications: ${medicationsResponse.status}`);
-                   }
-                   const medicationsData = await medicationsResponse.json();
+                   const { data: medicationsData } = await scheduleCache.fetchWithCache('medications', () => medicationsApi.list());
                    setMedications(medicationsData);
                    
                    // Then load saved data
@@ -621,6 +755,29 @@ const ModifyButton = () => {
         </View>
       ) : (
         <>
+          {/* Offline / Sync Status */}
+          {(cachedAt || hasPending || hasConflicts) && (
+            <View style={[styles.syncBanner, { backgroundColor: theme.card, borderColor: theme.warning }]}>
+              {cachedAt && (
+                <Text style={[styles.syncText, { color: theme.text }]}>
+                  Offline: showing schedules saved {new Date(cachedAt).toLocaleString()}
+                </Text>
+              )}
+              {hasPending && (
+                <Text style={[styles.syncText, { color: theme.text }]}>
+                  {pending.length} change(s) waiting to sync
+                </Text>
+              )}
+              {conflicts.map((conflict) => (
+                <TouchableOpacity key={conflict.entry.id} onPress={() => handleConflict(conflict)}>
+                  <Text style={[styles.syncText, { color: theme.error }]}>
+                    {conflict.reason === 'rejected' ? 'Not saved' : 'Conflict'}: Container {conflict.entry.record.container} ({conflict.entry.record.date} {conflict.entry.record.time}) - tap to resolve
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
           {/* Current Schedule Display Section */}
           <View style={[styles.scheduleSection, { backgroundColor: theme.card }]}>
             <Text style={[styles.sectionTitle, { color: theme.secondary }]}>
@@ -639,6 +796,8 @@ const ModifyButton = () => {
                     // Find medication name from ID
                     const medication = medications.find(med => med.medId === schedule.medication);
                     const medicationName = medication ? medication.name : `ID: ${schedule.medication}`;
+                    const rule = getRecurrenceRule(schedule);
+                    const nextDose = rule ? getNextOccurrence(rule) : null;
                     
                     return (
     <View key={schedule._id || index} style={[styles.scheduleItem, { borderColor: theme.border }]}>
@@ -674,12 +833,25 @@ const ModifyButton = () => {
                           <Text style={[styles.detailText, { color: theme.text }]}>
                             <Text style={styles.label}>Medication:</Text> {medicationName}
                           </Text>
-                          <Text style={[styles.detailText, { color: theme.text }]}>
-                            <Text style={styles.label}>Date:</Text> {schedule.date}
-                          </Text>
-                          <Text style={[styles.detailText, { color: theme.text }]}>
-                            <Text style={styles.label}>Time:</Text> {schedule.time}
-                          </Text>
+                          {rule ? (
+                            <>
+                              <Text style={[styles.detailText, { color: theme.text }]}>
+                                <Text style={styles.label}>Repeats:</Text> {describeRule(rule)}
+                              </Text>
+                              <Text style={[styles.detailText, { color: theme.text }]}>
+                                <Text style={styles.label}>Next dose:</Text> {nextDose ? `${nextDose.date} ${nextDose.time}` : 'None (schedule ended)'}
+                              </Text>
+                            </>
+                          ) : (
+                            <>
+                              <Text style={[styles.detailText, { color: theme.text }]}>
+                                <Text style={styles.label}>Date:</Text> {schedule.date}
+                              </Text>
+                              <Text style={[styles.detailText, { color: theme.text }]}>
+                                <Text style={styles.label}>Time:</Text> {schedule.time}
+                              </Text>
+                            </>
+                          )}
                         </View>
                       </View>
                     );
@@ -688,6 +860,41 @@ const ModifyButton = () => {
               )}
           </View>
           
+          {/* Pill Inventory Section */}
+          <View style={[styles.scheduleSection, { backgroundColor: theme.card }]}>
+            <Text style={[styles.sectionTitle, { color: theme.secondary }]}>
+              Pill Inventory
+            </Text>
+            {[1, 2, 3].map(containerNum => {
+              const medicationName = selectedPills[containerNum] ?? inventoryNames[containerNum];
+              return (
+                <View key={containerNum} style={[styles.scheduleItem, { borderColor: theme.border }]}>
+                  <Text style={[styles.scheduleTitle, { color: theme.primary }]}>
+                    Container {containerNum}: {medicationName ?? 'Empty'}
+                  </Text>
+                  {medicationName && (
+                    <InventoryFields
+                      value={inventoryDrafts[containerNum]}
+                      onChange={(draft) => setInventoryDrafts(prev => ({ ...prev, [containerNum]: draft }))}
+                      projection={projections.find(projection => projection.containerId === containerNum)}
+                    />
+                  )}
+                </View>
+              );
+            })}
+            <TouchableOpacity
+              style={[styles.updateCurrentButton, { backgroundColor: theme.primary }]}
+              onPress={saveInventory}
+              disabled={savingInventory}
+            >
+              {savingInventory ? (
+                <ActivityIndicator size="small" color={theme.card} />
+              ) : (
+                <Text style={[styles.updateCurrentButtonText, { color: theme.card }]}>Save Inventory</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
           {/* Action Buttons */}
           <View style={styles.actionButtonsContainer}>
             <TouchableOpacity 
@@ -713,41 +920,14 @@ const ModifyButton = () => {
       )}
 
       {/* Pill Selection Modal */}
-      <Modal visible={pillModalVisible} transparent animationType="slide">
-        <View style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.5)' }]}>
-          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
-            <Text style={[styles.modalTitle, { color: theme.secondary }]}>Select a Medication</Text>
-
-            <FlatList
-              data={medications}
-              keyExtractor={(item) => item._id}
-              style={{ maxHeight: 300, width: '100%' }}
-              renderItem={({ item }) => (
-                <TouchableOpacity 
-                  onPress={() => handlePillSelection(item.name)} 
-                  style={[styles.modalItem, { borderBottomColor: theme.border }]}
-                >
-                  <View style={styles.medicationItem}>
-                    <Text style={[styles.medicationName, { color: theme.primary }]}>{item.name}</Text>
-                    <Text style={[styles.medicationStrength, { color: theme.text }]}>
-                      {item.dosage} {item.form}
-                    </Text>
-                    <Text style={[styles.medicationDescription, { color: theme.text }]} numberOfLines={2}>
-                      {item.description}
-                    </Text>
-                  </View>
-                </TouchableOpacity>
-              )}
-            />
-            <TouchableOpacity 
-              onPress={() => setPillModalVisible(false)} 
-              style={[styles.cancelButton, { backgroundColor: theme.error }]}
-            >
-              <Text style={[styles.cancelButtonText, { color: theme.card }]}>Cancel</Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-      </Modal>
+      <MedicationPicker
+        visible={pillModalVisible}
+        medications={medications}
+        selectedName={currentPillSlot !== null ? selectedPills[currentPillSlot] : null}
+        onSelect={(medication) => handlePillSelection(medication.name)}
+        onProposed={(medication) => setMedications((prev) => [...prev, medication])}
+        onClose={() => setPillModalVisible(false)}
+      />
 
       {/* Alarm Modal */}
       <Modal visible={alarmModalVisible} transparent animationType="slide">
@@ -780,74 +960,79 @@ const ModifyButton = () => {
         <View style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.5)' }]}>
           <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
             <Text style={[styles.modalTitle, { color: theme.secondary }]}>Edit Schedule</Text>
+            <ScrollView style={styles.editScroll} contentContainerStyle={styles.editScrollContent}>
             
-            {/* Container Info */}
-            <Text style={[styles.editLabel, { color: theme.text }]}>
-              Container: {editingSchedule?.container}
-            </Text>
+              {/* Container Info */}
+              <Text style={[styles.editLabel, { color: theme.text }]}>
+                Container: {editingSchedule?.container}
+              </Text>
             
-            {/* Medication Selection */}
-            <Text style={[styles.editLabel, { color: theme.text }]}>Medication:</Text>
-            <FlatList
-              data={medications}
-              keyExtractor={(item) => item._id}
-              style={{ maxHeight: 150, width: '100%', marginBottom: 10 }}
-              renderItem={({ item }) => (
-                <TouchableOpacity 
-                  onPress={() => setEditMedication(item.name)} 
-                  style={[
-                    styles.editMedicationItem, 
-                    { 
-                      borderBottomColor: theme.border,
-                      backgroundColor: editMedication === item.name ? theme.primary : 'transparent'
-                    }
-                  ]}
-                >
-                  <Text style={[
-                    styles.editMedicationText, 
-                    { color: editMedication === item.name ? theme.card : theme.text }
-                  ]}>
-                    {item.name} - {item.dosage} {item.form}
-                  </Text>
-                </TouchableOpacity>
-              )}
-            />
+              {/* Medication Selection */}
+              <Text style={[styles.editLabel, { color: theme.text }]}>Medication:</Text>
+              <TouchableOpacity
+                onPress={() => setEditPickerVisible(true)}
+                style={[styles.editMedicationItem, { borderColor: theme.border }]}
+              >
+                <Text style={[styles.editMedicationText, { color: theme.text }]}>
+                  {editMedication || 'Select a medication'}
+                </Text>
+                <Ionicons name="chevron-forward" size={18} color={theme.textSecondary} />
+              </TouchableOpacity>
+              <MedicationPicker
+                visible={editPickerVisible}
+                medications={medications}
+                selectedName={editMedication}
+                onSelect={(medication) => {
+                  setEditMedication(medication.name);
+                  setEditPickerVisible(false);
+                }}
+                onProposed={(medication) => setMedications((prev) => [...prev, medication])}
+                onClose={() => setEditPickerVisible(false)}
+              />
             
-            {/* Date Selection */}
-            <Text style={[styles.editLabel, { color: theme.text }]}>Date: {editDate}</Text>
-            <TouchableOpacity 
-              onPress={() => setShowEditDatePicker(true)}
-              style={[styles.editPickerButton, { backgroundColor: theme.primary }]}
-            >
-              <Text style={[styles.editPickerText, { color: theme.card }]}>Change Date</Text>
-            </TouchableOpacity>
+              {/* Recurrence */}
+              <RecurrenceEditor value={editRule} onChange={setEditRule} />
+
+              {!editRule && (
+                <>
+                  {/* Date Selection */}
+                  <Text style={[styles.editLabel, { color: theme.text }]}>Date: {editDate}</Text>
+                  <TouchableOpacity 
+                    onPress={() => setShowEditDatePicker(true)}
+                    style={[styles.editPickerButton, { backgroundColor: theme.primary }]}
+                  >
+                    <Text style={[styles.editPickerText, { color: theme.card }]}>Change Date</Text>
+                  </TouchableOpacity>
             
-            {/* Time Selection */}
-            <Text style={[styles.editLabel, { color: theme.text }]}>Time: {editTime}</Text>
-            <TouchableOpacity 
-              onPress={() => setShowEditTimePicker(true)}
-              style={[styles.editPickerButton, { backgroundColor: theme.primary }]}
-            >
-              <Text style={[styles.editPickerText, { color: theme.card }]}>Change Time</Text>
-            </TouchableOpacity>
+                  {/* Time Selection */}
+                  <Text style={[styles.editLabel, { color: theme.text }]}>Time: {editTime}</Text>
+                  <TouchableOpacity 
+                    onPress={() => setShowEditTimePicker(true)}
+                    style={[styles.editPickerButton, { backgroundColor: theme.primary }]}
+                  >
+                    <Text style={[styles.editPickerText, { color: theme.card }]}>Change Time</Text>
+                  </TouchableOpacity>
             
-            {/* Date/Time Pickers */}
-            {showEditDatePicker && (
-              <DateTimePicker
-                value={new Date(editDate)}
-                mode="date"
-                display="default"
-                onChange={handleEditDateChange}
-              />
-            )}
-            {showEditTimePicker && (
-              <DateTimePicker
-                value={new Date(`2000-01-01T${editTime}`)}
-                mode="time"
-                display="default"
-                onChange={handleEditTimeChange}
-              />
-            )}
+                  {/* Date/Time Pickers */}
+                  {showEditDatePicker && (
+                    <DateTimePicker
+                      value={new Date(editDate)}
+                      mode="date"
+                      display="default"
+                      onChange={handleEditDateChange}
+                    />
+                  )}
+                  {showEditTimePicker && (
+                    <DateTimePicker
+                      value={new Date(`2000-01-01T${editTime}`)}
+                      mode="time"
+                      display="default"
+                      onChange={handleEditTimeChange}
+                    />
+                  )}
+                </>
+              )}
+            </ScrollView>
             
             {/* Action Buttons */}
             <View style={styles.editModalActions}>
@@ -976,6 +1161,16 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  syncBanner: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 4,
+  },
+  syncText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   scheduleSection: {
     marginTop: 20,
     padding: 15,
@@ -1105,37 +1300,20 @@ const styles = StyleSheet.create({
     maxHeight: 500,
     alignItems: 'center',
   },
+  editScroll: {
+    width: '100%',
+  },
+  editScrollContent: {
+    alignItems: 'center',
+  },
   modalTitle: {
     fontSize: 20,
     fontWeight: 'bold',
     marginBottom: 15,
   },
-  modalItem: {
-    paddingVertical: 10,
-    borderBottomWidth: 1,
-    width: '100%',
-  },
   modalItemText: {
     fontSize: 16,
   },
-  medicationItem: {
-    paddingVertical: 8,
-  },
-  medicationName: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    marginBottom: 4,
-  },
-  medicationStrength: {
-    fontSize: 14,
-    marginBottom: 4,
-    opacity: 0.8,
-  },
-  medicationDescription: {
-    fontSize: 12,
-    opacity: 0.7,
-    lineHeight: 16,
-  },
   cancelButton: {
     marginTop: 15,
     padding: 10,
@@ -1168,13 +1346,18 @@ const styles = StyleSheet.create({
     marginTop: 10,
   },
   editMedicationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    width: '100%',
     paddingVertical: 10,
     paddingHorizontal: 15,
-    borderBottomWidth: 1,
+    borderWidth: 1,
     borderRadius: 8,
-    marginBottom: 5,
+    marginBottom: 10,
   },
   editMedicationText: {
+    flex: 1,
     fontSize: 16,
   },
   editPickerButton: {
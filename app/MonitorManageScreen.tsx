@@ -5,57 +5,86 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { useTheme } from './context/ThemeContext';
+import { useActiveElder } from './context/ActiveElderContext';
 import { lightTheme, darkTheme } from './styles/theme';
-import monitorService from './services/monitorService';
+import monitorService, { ContainerSchedules } from './services/monitorService';
+import { SessionExpiredError } from './services/apiClient';
+import { scheduleCache } from './services/scheduleCache';
+import { useSyncQueue } from './hooks/useSyncQueue';
+import { usePillbox } from './hooks/usePillbox';
+import { usePillboxSync } from './hooks/usePillboxSync';
+import { buildContainerSchedules, ContainerSyncStatus } from './services/pillboxScheduleSync';
+import ElderSwitcher from './components/ElderSwitcher';
+
+interface MonitorData {
+  schedules: any[];
+  containerSchedules: ContainerSchedules;
+}
 
 const MonitorManageScreen = () => {
   const navigation = useNavigation();
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
+  const { activeElder, isCaregiver, isLoading: isElderLoading } = useActiveElder();
   
   // State for schedule data
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [schedules, setSchedules] = useState<any[]>([]);
-  const [containerSchedules, setContainerSchedules] = useState<Record<number, { pill: string | null, alarms: Date[] }>>({
+  // Set when the data shown comes from the offline cache
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const { pending } = useSyncQueue();
+  const { isPaired, isConnected } = usePillbox();
+  const { statuses: boxStatuses, sync: syncToBox, isSyncing } = usePillboxSync();
+  const [containerSchedules, setContainerSchedules] = useState<ContainerSchedules>({
     1: { pill: null, alarms: [] },
     2: { pill: null, alarms: [] },
     3: { pill: null, alarms: [] }
   });
 
-  // Load schedule data on component mount and when screen comes into focus
+  // Load schedule data once the active elder is known, and again whenever it changes
   useEffect(() => {
-    loadScheduleData();
-  }, []);
+    if (!isElderLoading) loadScheduleData();
+  }, [isElderLoading, activeElder?.id]);
 
   // Refresh data when screen comes into focus
   useEffect(() => {
     const unsubscribe = navigation.addListener('focus', () => {
-      loadScheduleData();
+      if (!isElderLoading) loadScheduleData();
     });
 
     return unsubscribe;
-  }, [navigation]);
+  }, [navigation, isElderLoading, activeElder?.id]);
 
   // Load schedule data using API service
   const loadScheduleData = async () => {
     try {
       setLoading(true);
       setError(null);
+
+      // Caregivers see the active elder's schedules; elders see their own
+      const selectedElderId = isCaregiver ? activeElder?.id : undefined;
+      if (isCaregiver && !selectedElderId) {
+        setError('Select an elder to monitor their schedules.');
+        return;
+      }
       
-      // Get current user ID and validate role
-      const currentUserId = await monitorService.getCurrentUserId();
-      
-      // Get selected elder ID for caregivers (if any)
-      const selectedElderId = await monitorService.getSelectedElderId(currentUserId.toString());
-      
-      // Load schedule data from API
-      const data = await monitorService.loadScheduleData(currentUserId, selectedElderId || undefined);
+      const cacheKey = selectedElderId ? `monitor_${selectedElderId}` as const : 'monitor';
+      const result = await scheduleCache.fetchWithCache<MonitorData>(cacheKey, async () => {
+        // Get current user ID and validate role
+        const currentUserId = await monitorService.getCurrentUserId();
+        
+        // Load schedule data from API
+        return monitorService.loadScheduleData(currentUserId, selectedElderId);
+      });
       
-      setSchedules(data.schedules);
-      setContainerSchedules(data.containerSchedules);
+      setSchedules(result.data.schedules);
+      setContainerSchedules(result.data.containerSchedules);
+      setCachedAt(result.fromCache ? result.cachedAt : null);
       
     } catch (err) {
+      // The session handler already redirected to login
+      if (err instanceof SessionExpiredError) return;
       console.error('Error loading schedule data:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to load schedule data';
       setError(errorMessage);
@@ -69,6 +98,33 @@ const MonitorManageScreen = () => {
     await loadScheduleData();
   };
 
+  // Write the current container schedules to the pillbox and verify them
+  const handleSyncToBox = async () => {
+    // Expand recurring schedules so the box gets every upcoming alarm, not just the first dose
+    const boxSchedules = buildContainerSchedules(
+      schedules,
+      (schedule: any) => schedule.medicationName ?? containerSchedules[schedule.container]?.pill ?? null
+    );
+    const result = await syncToBox(boxSchedules);
+    if (Object.values(result).some(status => status.state === 'failed')) {
+      Alert.alert('Sync Failed', 'Some containers could not be written to the pillbox. Check the connection and try again.');
+    }
+  };
+
+  const describeBoxStatus = (status: ContainerSyncStatus | undefined): { label: string; color: string } => {
+    if (!status) return { label: 'Not synced yet', color: theme.textSecondary };
+    switch (status.state) {
+      case 'synced':
+        return { label: `Synced ${new Date(status.syncedAt!).toLocaleString()}`, color: theme.success };
+      case 'syncing':
+        return { label: 'Syncing...', color: theme.primary };
+      case 'pending':
+        return { label: 'Waiting for pillbox', color: theme.warning };
+      case 'failed':
+        return { label: status.error ?? 'Sync failed', color: theme.error };
+    }
+  };
+
   if (loading) {
     return (
     <View style={[styles.container, { backgroundColor: theme.background }]}>
@@ -84,6 +140,7 @@ const MonitorManageScreen = () => {
     return (
       <View style={[styles.container, { backgroundColor: theme.background }]}>
         <View style={styles.errorContainer}>
+          <ElderSwitcher />
           <Text style={[styles.errorText, { color: theme.text }]}>{error}</Text>
           <TouchableOpacity 
             style={[styles.retryButton, { backgroundColor: theme.primary }]}
@@ -116,6 +173,73 @@ const MonitorManageScreen = () => {
           <Ionicons name="refresh" size={20} color={theme.card} />
         </TouchableOpacity>
       </View>
+      <ElderSwitcher />
+
+      {/* Offline / Sync Status */}
+      {(cachedAt || pending.length > 0) && (
+        <View style={[styles.syncBanner, { backgroundColor: theme.card, borderColor: theme.warning }]}>
+          {cachedAt && (
+            <Text style={[styles.syncText, { color: theme.text }]}>
+              Offline: showing schedules saved {new Date(cachedAt).toLocaleString()}
+            </Text>
+          )}
+          {pending.length > 0 && (
+            <Text style={[styles.syncText, { color: theme.text }]}>
+              {pending.length} change(s) waiting to sync
+            </Text>
+          )}
+        </View>
+      )}
+
+      {/* Pillbox Sync Section */}
+      <View style={[styles.scheduleSection, { backgroundColor: theme.card }]}>
+        <Text style={[styles.sectionTitle, { color: theme.secondary }]}>
+          Pillbox Sync
+        </Text>
+
+        {!isPaired ? (
+          <TouchableOpacity onPress={() => navigation.navigate("BluetoothScreen" as never)}>
+            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+              No pillbox paired. Tap to pair one.
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            {[1, 2, 3].map(containerId => {
+              const status = boxStatuses[containerId];
+              const { label, color } = describeBoxStatus(status);
+              return (
+                <View key={containerId} style={[styles.boxRow, { borderColor: theme.border }]}>
+                  <View style={styles.boxInfo}>
+                    <Text style={[styles.detailText, { color: theme.text }]}>
+                      <Text style={styles.label}>Container {containerId}:</Text> {status?.pillName || 'Empty'}
+                      {status ? ` (${status.alarmCount} alarm${status.alarmCount === 1 ? '' : 's'})` : ''}
+                    </Text>
+                    <Text style={[styles.boxStatusText, { color }]}>{label}</Text>
+                  </View>
+                  {status?.state === 'syncing' && <ActivityIndicator size="small" color={theme.primary} />}
+                </View>
+              );
+            })}
+
+            {!isConnected && (
+              <Text style={[styles.boxStatusText, { color: theme.textSecondary }]}>
+                Pillbox is not connected. Changes will be sent when it reconnects.
+              </Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.syncButton, { backgroundColor: isSyncing ? theme.textSecondary : theme.primary }]}
+              onPress={handleSyncToBox}
+              disabled={isSyncing}
+            >
+              <Text style={[styles.buttonText, { color: theme.card }]}>
+                {isSyncing ? 'SYNCING...' : 'SYNC TO PILLBOX'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
 
       {/* Current Scheduled Section */}
       <View style={[styles.scheduleSection, { backgroundColor: theme.card }]}>
@@ -272,6 +396,36 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     textAlign: 'center',
   },
+  syncBanner: {
+    marginTop: 20,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 4,
+  },
+  syncText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  boxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  boxInfo: {
+    flex: 1,
+  },
+  boxStatusText: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  syncButton: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
   scheduleSection: {
     marginTop: 20,
     padding: 15,
@@ -1,32 +1,211 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 
-import { View, Text, StyleSheet, TouchableOpacity, FlatList, Image } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, SectionList, Image, RefreshControl, ActivityIndicator } from 'react-native';
+import Swipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useTheme } from './context/ThemeContext';
 import { lightTheme, darkTheme } from './styles/theme';
+import { useNotifications } from './hooks/useNotifications';
+import { NotificationData, NotificationType } from './services/notificationService';
+import { lidEventService, describeLidEvent, LidEventRecord } from './services/lidEventService';
+import { inventoryService, describeLowStock, RunOutProjection } from './services/inventoryService';
+import { sessionManager } from './services/sessionManager';
 
 interface Notification {
   id: string;
   title: string;
   message: string;
+  // Set for notifications loaded from the server
+  remote?: NotificationData;
+  // Set for pillbox lid events
+  lidEvent?: LidEventRecord;
+  // Set for containers projected to run out soon
+  lowStock?: RunOutProjection;
 }
 
-const initialNotifications: Notification[] = [
-  { id: '1', title: 'MEDICINE RUNOUT', message: 'Please refill your medication supply soon.' },
-  { id: '3', title: 'MEDICINE IDENTIFIED', message: 'Your medicine has been successfully identified.' },
+interface NotificationSection {
+  key: string;
+  title: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  data: Notification[];
+}
+
+// Server notifications are grouped by type, in this order
+const TYPE_GROUPS: { type: NotificationType; title: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { type: 'escalation', title: 'Escalations', icon: 'warning' },
+  { type: 'connection_request', title: 'Connection Requests', icon: 'people' },
+  { type: 'missed_dose', title: 'Missed Doses', icon: 'alert-circle' },
+  { type: 'medication', title: 'Medications', icon: 'medkit' },
+  { type: 'reminder', title: 'Reminders', icon: 'alarm' },
+  { type: 'test_alarm', title: 'Test Alarms', icon: 'notifications' },
 ];
 
 export default function NotificationScreen() {
   const router = useRouter();
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
-  const [notifications, setNotifications] = useState(initialNotifications);
+  const {
+    notifications,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    error,
+    unreadCount,
+    fetchNotifications,
+    refreshNotifications,
+    loadMoreNotifications,
+    dismissNotification,
+    markAsRead,
+    markAllAsRead,
+  } = useNotifications();
+  const [lidEvents, setLidEvents] = useState<LidEventRecord[]>([]);
+  const [lowStock, setLowStock] = useState<RunOutProjection[]>([]);
+  const [hiddenLowStock, setHiddenLowStock] = useState<number[]>([]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useEffect(() => lidEventService.subscribe(setLidEvents), []);
 
-  const removeNotification = useCallback((id: string) => {
-    setNotifications((prev) => prev.filter((notif) => notif.id !== id));
+  // Containers inside the low-stock window for the elder being looked after
+  const loadLowStock = useCallback(async () => {
+    try {
+      const elderId = await sessionManager.getActiveElderId();
+      if (!elderId) return;
+      const projections = await inventoryService.getProjections(elderId);
+      setLowStock(projections.filter(projection => projection.lowStock));
+    } catch (err) {
+      console.error('Error loading low-stock alerts:', err);
+    }
   }, []);
 
+  useEffect(() => {
+    loadLowStock();
+  }, [loadLowStock]);
+
+  const handleRefresh = useCallback(() => {
+    refreshNotifications();
+    loadLowStock();
+  }, [refreshNotifications, loadLowStock]);
+
+  const removeNotification = useCallback((item: Notification) => {
+    if (item.lidEvent) {
+      lidEventService.dismiss(item.lidEvent.id);
+      return;
+    }
+    if (item.lowStock) {
+      const { containerId } = item.lowStock;
+      setHiddenLowStock((prev) => [...prev, containerId]);
+      return;
+    }
+    if (item.remote) {
+      dismissNotification(item.remote.id);
+    }
+  }, [dismissNotification]);
+
+  const lowStockNotifications: Notification[] = lowStock
+    .filter(projection => !hiddenLowStock.includes(projection.containerId))
+    .map(projection => ({ id: `low-stock-${projection.containerId}`, ...describeLowStock(projection), lowStock: projection }));
+
+  const lidNotifications: Notification[] = lidEvents
+    .filter(record => !record.dismissed)
+    .map(record => ({ id: record.id, ...describeLidEvent(record), lidEvent: record }));
+
+  const pillboxSection: NotificationSection = {
+    key: 'pillbox',
+    title: 'Pillbox',
+    icon: 'cube',
+    data: [...lowStockNotifications, ...lidNotifications],
+  };
+
+  const sections: NotificationSection[] = [
+    pillboxSection,
+    ...TYPE_GROUPS.map(group => ({
+      key: group.type,
+      title: group.title,
+      icon: group.icon,
+      data: notifications
+        .filter(notification => notification.type === group.type)
+        .map(notification => ({
+          id: notification.id,
+          title: notification.title,
+          message: notification.message,
+          remote: notification,
+        })),
+    })),
+  ].filter(section => section.data.length > 0);
+
+  const lidEventColor = (record: LidEventRecord) => ({
+    taken: theme.success,
+    early: theme.warning,
+    late: theme.warning,
+    wrong_container: theme.error,
+    unmatched: theme.textSecondary,
+  })[record.outcome];
+
+  const titleColor = (item: Notification) => {
+    if (item.lidEvent) return lidEventColor(item.lidEvent);
+    if (item.lowStock || item.remote?.type === 'missed_dose' || item.remote?.type === 'escalation') return theme.error;
+    return theme.text;
+  };
+
+  const isUnread = (item: Notification) => !!item.remote && !item.remote.isRead;
+
+  const renderDismissAction = () => (
+    <View style={[styles.dismissAction, { backgroundColor: theme.error }]}>
+      <Ionicons name="trash" size={22} color={theme.card} />
+      <Text style={[styles.dismissText, { color: theme.card }]}>Dismiss</Text>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: Notification }) => (
+    <Swipeable
+      renderRightActions={renderDismissAction}
+      rightThreshold={80}
+      overshootRight={false}
+      onSwipeableOpen={() => removeNotification(item)}
+    >
+      <TouchableOpacity
+        activeOpacity={0.8}
+        style={[styles.notificationCard, { backgroundColor: theme.card }]}
+        onPress={() => item.remote && markAsRead(item.remote.id)}
+      >
+        {isUnread(item) && <View style={[styles.unreadDot, { backgroundColor: theme.primary }]} />}
+        {item.lidEvent && (
+          <Ionicons name="cube" size={22} color={lidEventColor(item.lidEvent)} style={styles.leadingIcon} />
+        )}
+        {item.lowStock && (
+          <Ionicons name="medkit" size={22} color={theme.error} style={styles.leadingIcon} />
+        )}
+        <View style={styles.textContainer}>
+          <Text style={[
+            styles.notificationTitle,
+            { color: titleColor(item) },
+            item.remote?.isRead && styles.readTitle,
+          ]}>
+            {item.title}
+          </Text>
+          <Text style={[styles.notificationMessage, { color: theme.textSecondary }]}>{item.message}</Text>
+          {item.lidEvent && (
+            <Text style={[styles.notificationTime, { color: theme.textSecondary }]}>
+              {new Date(item.lidEvent.openedAt).toLocaleString()}
+            </Text>
+          )}
+          {item.remote && (
+            <Text style={[styles.notificationTime, { color: theme.textSecondary }]}>
+              {new Date(item.remote.createdAt).toLocaleString()}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity onPress={() => removeNotification(item)}>
+          <Ionicons name="close" size={20} color={theme.textSecondary} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Swipeable>
+  );
+
   return (
     <View style={[styles.container, { backgroundColor: theme.background }]}>
       {/* Header */}
@@ -45,29 +224,60 @@ export default function NotificationScreen() {
       {/* Bell Icon */}
       <View style={[styles.bellContainer, { backgroundColor: theme.card }]}>
         <Image source={require('@/assets/images/bell.png')} style={styles.bellIcon} />
+        {unreadCount > 0 && (
+          <View style={[styles.unreadBadge, { backgroundColor: theme.error }]}>
+            <Text style={[styles.unreadBadgeText, { color: theme.card }]}>{unreadCount}</Text>
+          </View>
+        )}
       </View>
 
+      {unreadCount > 0 && (
+        <TouchableOpacity style={styles.markAllButton} onPress={markAllAsRead}>
+          <Text style={[styles.markAllText, { color: theme.primary }]}>Mark all as read</Text>
+        </TouchableOpacity>
+      )}
+
+      {error && (
+        <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text>
+      )}
+
       {/* Notification List */}
-      <FlatList
-        data={notifications}
+      <SectionList
+        sections={sections}
         keyExtractor={(item) => item.id}
-        renderItem={({ item }) => (
-          <View style={[styles.notificationCard, { backgroundColor: theme.card }]}>
-            <View style={styles.textContainer}>
-              <Text style={[styles.notificationTitle, { color: theme.text }]}>{item.title}</Text>
-              <Text style={[styles.notificationMessage, { color: theme.textSecondary }]}>{item.message}</Text>
-            </View>
-            <TouchableOpacity onPress={() => removeNotification(item.id)}>
-              <Ionicons name="close" size={20} color={theme.textSecondary} />
-            </TouchableOpacity>
+        renderItem={renderItem}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <Ionicons name={section.icon} size={18} color={theme.secondary} />
+            <Text style={[styles.sectionTitle, { color: theme.secondary }]}>
+              {section.title} ({section.data.length})
+            </Text>
           </View>
         )}
+        stickySectionHeadersEnabled={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[theme.primary]}
+            tintColor={theme.primary}
+          />
+        }
+        onEndReached={loadMoreNotifications}
+        onEndReachedThreshold={0.3}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator style={styles.footerLoader} color={theme.primary} /> : null
+        }
         contentContainerStyle={styles.listContainer}
         showsVerticalScrollIndicator={false}
         ListEmptyComponent={
-          <Text style={[styles.emptyMessage, { color: theme.textSecondary }]}>
-            No notifications available
-          </Text>
+          isLoading ? (
+            <ActivityIndicator style={styles.footerLoader} size="large" color={theme.primary} />
+          ) : (
+            <Text style={[styles.emptyMessage, { color: theme.textSecondary }]}>
+              No notifications available
+            </Text>
+          )
         }
       />
     </View>
@@ -116,6 +326,46 @@ const styles = StyleSheet.create({
     width: 80,
     height: 80,
   },
+  unreadBadge: {
+    position: 'absolute',
+    top: 15,
+    right: '38%',
+    minWidth: 24,
+    height: 24,
+    borderRadius: 12,
+    paddingHorizontal: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadBadgeText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  markAllButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 4,
+    marginBottom: 10,
+  },
+  markAllText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  errorText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   listContainer: {
     paddingBottom: 20,
   },
@@ -127,6 +377,27 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     elevation: 2,
   },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  dismissAction: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 90,
+    borderRadius: 10,
+    marginBottom: 10,
+  },
+  dismissText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  leadingIcon: {
+    marginRight: 10,
+  },
   textContainer: {
     flex: 1,
     marginRight: 10,
@@ -135,10 +406,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  readTitle: {
+    fontWeight: 'normal',
+  },
   notificationMessage: {
     fontSize: 12,
     marginTop: 5,
   },
+  notificationTime: {
+    fontSize: 11,
+    marginTop: 4,
+  },
+  footerLoader: {
+    marginVertical: 20,
+  },
   emptyMessage: {
     textAlign: 'center',
     fontSize: 14,
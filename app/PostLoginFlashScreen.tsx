@@ -1,74 +0,0 @@
-import React, { useEffect } from 'react';
-import { View, Text, StyleSheet, Animated, Easing } from 'react-native';
-import { useRouter } from 'expo-router';
-import { useTheme } from './context/ThemeContext';
-import { lightTheme, darkTheme } from './styles/theme';
-
-const PostLoginFlashScreen = () => {
-  const router = useRouter();
-  const fadeAnim = new Animated.Value(0);
-  const scaleAnim = new Animated.Value(0.5);
-  const { isDarkMode } = useTheme();
-  const theme = isDarkMode ? darkTheme : lightTheme;
-
-  useEffect(() => {
-    // Start the fade and scale animation
-    Animated.parallel([
-      Animated.timing(fadeAnim, {
-        toValue: 1,
-        duration: 1000,
-        easing: Easing.ease,
-        useNativeDriver: true,
-      }),
-      Animated.spring(scaleAnim, {
-        toValue: 1,
-        friction: 5,
-        tension: 40,
-        useNativeDriver: true,
-      })
-    ]).start();
-
-    // Navigate to the roles screen after 2 seconds (fallback for unrecognized roles)
-    const timer = setTimeout(() => {
-      router.replace('/Roles');
-    }, 2000);
-
-    return () => clearTimeout(timer);
-  }, []);
-
-  return (
-    <View style={[styles.container, { backgroundColor: theme.background }]}>
-      <Animated.View style={[
-        styles.content,
-        {
-          opacity: fadeAnim,
-          transform: [{ scale: scaleAnim }]
-        }
-      ]}>
-        <Text style={[styles.welcomeText, { color: theme.primary }]}>Welcome Back!</Text>
-        <Text style={[styles.message, { color: theme.textSecondary }]}>Redirecting to role selection...</Text>
-      </Animated.View>
-    </View>
-  );
-};
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  content: {
-    alignItems: 'center',
-  },
-  welcomeText: {
-    fontSize: 32,
-    fontWeight: 'bold',
-    marginBottom: 10,
-  },
-  message: {
-    fontSize: 16,
-  },
-});
-
-export default PostLoginFlashScreen;
\ No newline at end of file
@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from "react";
+import {
+  View, Text, TextInput, TouchableOpacity, Alert, StyleSheet, ScrollView, ActivityIndicator
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "./context/ThemeContext";
+import { lightTheme, darkTheme } from "./styles/theme";
+import { usersApi } from "./services/api";
+import { ApiError } from "./services/apiClient";
+
+const CODE_LENGTH = 6;
+const MIN_PASSWORD_LENGTH = 6;
+
+// Prefer the first field error over the generic "Validation failed"
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const fieldError = Array.isArray(error.data?.errors) ? error.data.errors[0]?.msg : undefined;
+    return typeof fieldError === "string" && fieldError ? fieldError : error.message;
+  }
+  return fallback;
+};
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+const ResetPasswordScreen = () => {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ contactNumber?: string; expiresIn?: string; resendAfter?: string }>();
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const contactNumber = params.contactNumber ?? "";
+  const [code, setCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Countdowns from when the code was sent
+  const [expiresAt, setExpiresAt] = useState(() => Date.now() + Number(params.expiresIn || 600) * 1000);
+  const [resendAt, setResendAt] = useState(() => Date.now() + Number(params.resendAfter || 60) * 1000);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((expiresAt - now) / 1000));
+  const resendIn = Math.max(0, Math.ceil((resendAt - now) / 1000));
+
+  const handleReset = async () => {
+    if (code.length !== CODE_LENGTH) {
+      setError(`Enter the ${CODE_LENGTH}-digit code from the SMS.`);
+      return;
+    }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const { message } = await usersApi.confirmPasswordReset({ contactNumber, code, newPassword });
+      Alert.alert("Password Reset", message || "You can now log in with your new password.");
+      router.replace("/LoginScreen");
+    } catch (err) {
+      setCode("");
+      setError(errorMessage(err, "Could not reset your password. Check your connection and try again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      setIsResending(true);
+      setError(null);
+      const response = await usersApi.requestPasswordReset(contactNumber);
+      setExpiresAt(Date.now() + response.expiresInSeconds * 1000);
+      setResendAt(Date.now() + response.resendAfterSeconds * 1000);
+      setCode("");
+      Alert.alert("Code Sent", response.message);
+    } catch (err) {
+      setError(errorMessage(err, "Could not send a new code. Check your connection and try again."));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const inputStyle = [styles.input, {
+    backgroundColor: theme.background,
+    borderColor: theme.border,
+    color: theme.text
+  }];
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.card, { backgroundColor: theme.card, ...theme.elevation }]}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Ionicons name="arrow-back" size={24} color={theme.text} />
+          </TouchableOpacity>
+
+          <Text style={[styles.title, { color: theme.secondary }]}>Reset Password</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Enter the code sent to {contactNumber} and choose a new password.
+          </Text>
+
+          {!!error && (
+            <View style={[styles.errorBanner, { backgroundColor: theme.error }]}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          <TextInput
+            style={[...inputStyle, styles.codeInput]}
+            placeholder="Reset Code"
+            placeholderTextColor={theme.textSecondary}
+            value={code}
+            onChangeText={text => setCode(text.replace(/\D/g, ""))}
+            keyboardType="number-pad"
+            maxLength={CODE_LENGTH}
+          />
+          <Text style={[styles.hint, { color: secondsLeft > 0 ? theme.textSecondary : theme.error }]}>
+            {secondsLeft > 0 ? `Code expires in ${formatSeconds(secondsLeft)}` : "This code has expired. Request a new one."}
+          </Text>
+
+          <TextInput
+            style={inputStyle}
+            placeholder="New Password"
+            placeholderTextColor={theme.textSecondary}
+            value={newPassword}
+            onChangeText={setNewPassword}
+            secureTextEntry
+          />
+          <TextInput
+            style={inputStyle}
+            placeholder="Confirm New Password"
+            placeholderTextColor={theme.textSecondary}
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            secureTextEntry
+          />
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: isSubmitting ? theme.textSecondary : theme.primary }]}
+            onPress={handleReset}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Reset Password</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.resendButton}
+            onPress={handleResend}
+            disabled={resendIn > 0 || isResending}
+          >
+            <Text style={[styles.resendText, { color: resendIn > 0 || isResending ? theme.textSecondary : theme.primary }]}>
+              {isResending ? "Sending..." : resendIn > 0 ? `Resend code in ${formatSeconds(resendIn)}` : "Resend code"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: "center",
+    padding: 20,
+  },
+  card: {
+    borderRadius: 30,
+    padding: 40,
+    elevation: 8,
+    alignItems: "center",
+    width: "100%",
+  },
+  backButton: {
+    alignSelf: "flex-start",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: "bold",
+    marginBottom: 10,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  errorBanner: {
+    width: "100%",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 18,
+  },
+  errorText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fff",
+    textAlign: "center",
+  },
+  input: {
+    width: "100%",
+    height: 55,
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingLeft: 18,
+    marginBottom: 18,
+    fontSize: 16,
+  },
+  codeInput: {
+    paddingLeft: 0,
+    marginBottom: 6,
+    fontSize: 22,
+    letterSpacing: 8,
+    textAlign: "center",
+  },
+  hint: {
+    fontSize: 12,
+    marginBottom: 18,
+  },
+  button: {
+    paddingVertical: 15,
+    borderRadius: 12,
+    width: "100%",
+    alignItems: "center",
+    marginTop: 15,
+  },
+  buttonText: {
+    fontSize: 18,
+    color: "white",
+    fontWeight: "bold",
+  },
+  resendButton: {
+    marginTop: 20,
+  },
+  resendText: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
+
+export default ResetPasswordScreen;
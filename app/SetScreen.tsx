@@ -1,12 +1,25 @@
 import React, { useState, useEffect } from "react";
-import { View, Text, Image, TouchableOpacity, Modal, FlatList, ScrollView, StyleSheet, Platform, ActivityIndicator, Alert } from "react-native";
+import { View, Text, Image, TouchableOpacity, Modal, ScrollView, StyleSheet, Platform, ActivityIndicator, Alert } from "react-native";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import { useNavigation } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from './context/ThemeContext';
+import { useActiveElder } from './context/ActiveElderContext';
 import { lightTheme, darkTheme } from './styles/theme';
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { jwtDecode } from "jwt-decode";
+import { medicationsApi, Medication, ScheduleRecord } from "./services/api";
+import { SessionExpiredError } from "./services/apiClient";
+import { scheduleCache } from "./services/scheduleCache";
+import { syncQueue } from "./services/syncQueue";
+import { reminderService } from "./services/reminderService";
+import { pillboxScheduleSync } from "./services/pillboxScheduleSync";
+import { RecurrenceRule, describeRule, toDateKey, toRecordFields, toTimeKey, validateRule } from "./services/recurrence";
+import RecurrenceEditor from "./components/RecurrenceEditor";
+import InventoryFields, { EMPTY_INVENTORY_DRAFT, InventoryDraft, parseInventoryDraft } from "./components/InventoryFields";
+import { inventoryService } from "./services/inventoryService";
+import ElderSwitcher from "./components/ElderSwitcher";
+import MedicationPicker from "./components/MedicationPicker";
 
 // Interface for decoded JWT token
 interface DecodedToken {
@@ -22,30 +35,26 @@ type SelectedPillsState = Record<PillSlot, string | null>;
 
 type AlarmsState = Record<number, Date[]>;
 
-// Type for medication data from API
-interface Medication {
-  _id: string;
-  name: string;
-  description: string;
-  dosage: string;
-  form: string;
-  manufacturer: string;
-  createdAt: string;
-  updatedAt: string;
-  medId: number;
-  __v: number;
-}
+type RulesState = Record<PillSlot, RecurrenceRule | null>;
+
+type InventoryState = Record<PillSlot, InventoryDraft>;
+
+const EMPTY_INVENTORY: InventoryState = { 1: EMPTY_INVENTORY_DRAFT, 2: EMPTY_INVENTORY_DRAFT, 3: EMPTY_INVENTORY_DRAFT };
 
 const SetScreen = () => {
   const navigation = useNavigation();
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
+  const { activeElder, isCaregiver } = useActiveElder();
   const [pillModalVisible, setPillModalVisible] = useState(false);
   const [alarmModalVisible, setAlarmModalVisible] = useState(false);
   const [confirmModalVisible, setConfirmModalVisible] = useState(false);
   const [warningModalVisible, setWarningModalVisible] = useState(false);
   const [selectedPills, setSelectedPills] = useState<SelectedPillsState>({ 1: null, 2: null, 3: null });
   const [alarms, setAlarms] = useState<AlarmsState>({ 1: [], 2: [], 3: [] });
+  const [rules, setRules] = useState<RulesState>({ 1: null, 2: null, 3: null });
+  const [inventory, setInventory] = useState<InventoryState>(EMPTY_INVENTORY);
+  const [draftRule, setDraftRule] = useState<RecurrenceRule | null>(null);
   const [currentPillSlot, setCurrentPillSlot] = useState<PillSlot | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [showDatePicker, setShowDatePicker] = useState<boolean>(false);
@@ -62,6 +71,8 @@ const SetScreen = () => {
     // Clear any existing data to start fresh
     setSelectedPills({ 1: null, 2: null, 3: null });
     setAlarms({ 1: [], 2: [], 3: [] });
+    setRules({ 1: null, 2: null, 3: null });
+    setInventory(EMPTY_INVENTORY);
     setCurrentPillSlot(null);
     setSelectedDate(new Date());
     setShowDatePicker(false);
@@ -78,6 +89,8 @@ const SetScreen = () => {
       // Clear any existing data to start fresh
       setSelectedPills({ 1: null, 2: null, 3: null });
       setAlarms({ 1: [], 2: [], 3: [] });
+      setRules({ 1: null, 2: null, 3: null });
+      setInventory(EMPTY_INVENTORY);
       setCurrentPillSlot(null);
       setSelectedDate(new Date());
       setShowDatePicker(false);
@@ -94,6 +107,8 @@ const SetScreen = () => {
   const resetAllData = () => {
     setSelectedPills({ 1: null, 2: null, 3: null });
     setAlarms({ 1: [], 2: [], 3: [] });
+    setRules({ 1: null, 2: null, 3: null });
+    setInventory(EMPTY_INVENTORY);
     setCurrentPillSlot(null);
     setSelectedDate(new Date());
     setShowDatePicker(false);
@@ -108,14 +123,7 @@ const SetScreen = () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch('https://pillnow-database.onrender.com/api/medications');
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const medsArray = Array.isArray(data) ? data : (data?.data || []);
+      const { data: medsArray } = await scheduleCache.fetchWithCache('medications', () => medicationsApi.list());
       setMedications(medsArray);
     } catch (err) {
       console.error('Error fetching medications:', err);
@@ -128,6 +136,7 @@ const SetScreen = () => {
   const handlePillSelection = (pill: string) => {
     if (currentPillSlot === null) return;
     setSelectedPills((prev) => ({ ...prev, [currentPillSlot]: pill }));
+    setDraftRule(rules[currentPillSlot]);
     setPillModalVisible(false);
     setAlarmModalVisible(true);
   };
@@ -179,10 +188,22 @@ const SetScreen = () => {
 
   const confirmAlarm = () => {
     if (currentPillSlot === null) return;
-    setAlarms((prev) => ({
-      ...prev,
-      [currentPillSlot]: [...prev[currentPillSlot], selectedDate],
-    }));
+    if (draftRule) {
+      // A recurring rule replaces the container's one-off alarms
+      const ruleError = validateRule(draftRule);
+      if (ruleError) {
+        Alert.alert('Invalid Schedule', ruleError);
+        return;
+      }
+      setRules((prev) => ({ ...prev, [currentPillSlot]: draftRule }));
+      setAlarms((prev) => ({ ...prev, [currentPillSlot]: [] }));
+    } else {
+      setRules((prev) => ({ ...prev, [currentPillSlot]: null }));
+      setAlarms((prev) => ({
+        ...prev,
+        [currentPillSlot]: [...prev[currentPillSlot], selectedDate],
+      }));
+    }
     setConfirmModalVisible(false);
     setAlarmModalVisible(false);
   };
@@ -212,43 +233,60 @@ const SetScreen = () => {
     }
   };
 
+  // Caregivers work on the active elder's schedule; elders on their own
+  const getTargetUserId = async (): Promise<number> => {
+    if (!isCaregiver) return getCurrentUserId();
+    const elderId = activeElder ? parseInt(activeElder.id) : NaN;
+    if (isNaN(elderId)) {
+      throw new Error(activeElder
+        ? `${activeElder.name ?? 'This elder'} does not have a PillNow account yet`
+        : 'Select an elder first');
+    }
+    return elderId;
+  };
+
   // Save schedule data to database
   const saveScheduleData = async () => {
     try {
-      // Get current user ID
-      const currentUserId = await getCurrentUserId();
+      // Get the user the schedule belongs to
+      const currentUserId = await getTargetUserId();
       
       // Create schedule records for each pill and alarm combination
-      const scheduleRecords: Array<{
-        scheduleId: number;
-        user: number;
-        medication: number;
-        container: number;
-        date: string;
-        time: string;
-        status: string;
-        alertSent: boolean;
-      }> = [];
+      const scheduleRecords: ScheduleRecord[] = [];
       let scheduleId = 1;
       
       // Process each container
       for (let containerNum = 1; containerNum <= 3; containerNum++) {
         const pillName = selectedPills[containerNum as PillSlot];
         const containerAlarms = alarms[containerNum];
+        const rule = rules[containerNum as PillSlot];
         
-        if (pillName && containerAlarms.length > 0) {
+        if (pillName && (containerAlarms.length > 0 || rule)) {
           // Find the medication ID from the medications array
           const medication = medications.find(med => med.name === pillName);
           if (medication) {
+            // A recurring rule is saved as one record carrying the rule fields
+            if (rule) {
+              scheduleRecords.push({
+                scheduleId: scheduleId++,
+                user: currentUserId,
+                medication: medication.medId,
+                container: containerNum,
+                ...toRecordFields(rule),
+                status: 'Pending',
+                alertSent: false
+              });
+            }
+
             // Create a schedule record for each alarm time using medication ID
             containerAlarms.forEach(alarmDate => {
               const scheduleRecord = {
                 scheduleId: scheduleId++,
-                user: currentUserId, // Use current user ID from token
+                user: currentUserId, // The elder the schedule is for
                 medication: medication.medId, // Use medication ID (number) as required by backend
                 container: containerNum, // Add container number
-                date: alarmDate.toISOString().split('T')[0], // YYYY-MM-DD format
-                time: alarmDate.toTimeString().split(' ')[0].substring(0, 5), // HH:MM format
+                date: toDateKey(alarmDate), // YYYY-MM-DD format (local day)
+                time: toTimeKey(alarmDate), // HH:MM format
                 status: 'Pending',
                 alertSent: false
               };
@@ -258,32 +296,44 @@ const SetScreen = () => {
         }
       }
       
-      // Send each schedule record individually
-      const promises = scheduleRecords.map(record => 
-        fetch('https://pillnow-database.onrender.com/api/medication_schedules', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(record),
-        })
+      // Send each schedule record individually (queued for later when offline)
+      const results = await Promise.all(scheduleRecords.map(record => syncQueue.submitCreate(record)));
+      const queuedCount = results.filter(result => result.queued).length;
+
+      // Remind the user on this device at each dose time, even while offline
+      const savedRecords = results.map((result, index) => result.schedule ?? scheduleRecords[index]);
+      await reminderService.scheduleReminders(
+        savedRecords,
+        schedule => medications.find(med => med.medId === schedule.medication)?.name ?? 'Medication'
       );
-      
-      const responses = await Promise.all(promises);
-      
-      // Check if all requests were successful
-      const failedResponses = responses.filter(response => !response.ok);
-      if (failedResponses.length > 0) {
-        const errorText = await failedResponses[0].text();
-        console.error('API Error Response:', errorText);
-        throw new Error(`HTTP error! status: ${failedResponses[0].status} - ${errorText}`);
+
+      // Track the pills loaded into each container for refill predictions
+      for (const slot of [1, 2, 3] as const) {
+        const counts = parseInventoryDraft(inventory[slot]);
+        const pillName = selectedPills[slot];
+        if (pillName && counts) {
+          await inventoryService.setContainer(String(currentUserId), slot, { medicationName: pillName, ...counts });
+        }
       }
-      
-      const results = await Promise.all(responses.map(response => response.json()));
-      Alert.alert('Success', 'Schedule saved successfully!', [
-        { text: 'OK', onPress: () => navigation.navigate("ElderDashboard" as never) }
-      ]);
+
+      // Program the pillbox in the background; it is queued until the box connects
+      pillboxScheduleSync.syncSchedules(
+        savedRecords,
+        schedule => medications.find(med => med.medId === schedule.medication)?.name ?? null
+      );
+
+      Alert.alert(
+        queuedCount > 0 ? 'Saved Offline' : 'Success',
+        queuedCount > 0
+          ? `You appear to be offline. ${queuedCount} schedule(s) will be synced when the connection returns.`
+          : 'Schedule saved successfully!',
+        [
+          { text: 'OK', onPress: () => navigation.navigate((isCaregiver ? "CaregiverDashboard" : "ElderDashboard") as never) }
+        ]
+      );
     } catch (err) {
+      // The session handler already redirected to login
+      if (err instanceof SessionExpiredError) return;
       console.error('Error saving schedule:', err);
       Alert.alert('Error', `Failed to save schedule: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
@@ -303,6 +353,7 @@ const SetScreen = () => {
           SET-UP <Text style={[styles.headerHighlight, { color: theme.primary }]}>SCHEDULE</Text>
         </Text>
       </View>
+      <ElderSwitcher />
 
       <Image source={require("@/assets/images/pillnow.png")} style={styles.pillImage} />
       
@@ -325,11 +376,20 @@ const SetScreen = () => {
       ) : (
         ([1, 2, 3] as const).map((num) => (
           <View key={num} style={[styles.pillContainer, { backgroundColor: theme.card }]}>
-            <View>
+            <View style={styles.pillDetails}>
               <Text style={[styles.pillText, { color: theme.primary }]}>Container {num}: {selectedPills[num] || "ADD PILL"}</Text>
+              {rules[num] && (
+                <Text style={[styles.alarmText, { color: theme.text }]}>{describeRule(rules[num]!)}</Text>
+              )}
               {alarms[num].map((alarm: Date, index: number) => (
                 <Text key={index} style={[styles.alarmText, { color: theme.text }]}>{alarm.toLocaleString()}</Text>
               ))}
+              {selectedPills[num] && (
+                <InventoryFields
+                  value={inventory[num]}
+                  onChange={(draft) => setInventory((prev) => ({ ...prev, [num]: draft }))}
+                />
+              )}
             </View>
             <TouchableOpacity onPress={() => handleAddPill(num)}>
               <Ionicons name="add-circle-outline" size={24} color={theme.primary} />
@@ -370,51 +430,27 @@ const SetScreen = () => {
       </Modal>
 
       {/* Pill Selection Modal */}
-      <Modal visible={pillModalVisible} transparent animationType="slide">
-        <View style={styles.modalOverlay}>
-          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
-            <Text style={[styles.modalTitle, { color: theme.secondary }]}>Select a Medication</Text>
-
-            <FlatList 
-              data={medications} 
-              keyExtractor={(item) => item._id} 
-              style={{ maxHeight: 300, width: '100%' }}
-              renderItem={({ item }) => (
-                <TouchableOpacity 
-                  onPress={() => handlePillSelection(item.name)} 
-                  style={[styles.modalItem, { borderBottomColor: theme.background }]}
-                >
-                  <View style={styles.medicationItem}>
-                    <Text style={[styles.medicationName, { color: theme.primary }]}>{item.name}</Text>
-                    <Text style={[styles.medicationStrength, { color: theme.text }]}>
-                      {item.dosage} {item.form}
-                    </Text>
-                    <Text style={[styles.medicationDescription, { color: theme.text }]} numberOfLines={2}>
-                      {item.description}
-                    </Text>
-                  </View>
-                </TouchableOpacity>
-              )} 
-            />
-            <TouchableOpacity 
-              onPress={() => setPillModalVisible(false)} 
-              style={[styles.cancelButton, { backgroundColor: theme.secondary }]}
-            >
-              <Text style={[styles.cancelButtonText, { color: theme.card }]}>Cancel</Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-      </Modal>
+      <MedicationPicker
+        visible={pillModalVisible}
+        medications={medications}
+        selectedName={currentPillSlot !== null ? selectedPills[currentPillSlot] : null}
+        onSelect={(medication) => handlePillSelection(medication.name)}
+        onProposed={(medication) => setMedications((prev) => [...prev, medication])}
+        onClose={() => setPillModalVisible(false)}
+      />
 
       {/* Alarm & Date Selection Modal */}
       <Modal visible={alarmModalVisible} transparent animationType="slide">
         <View style={styles.modalOverlay}>
           <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
             <Text style={[styles.modalTitle, { color: theme.secondary }]}>Set Alarm</Text>
-            <TouchableOpacity onPress={() => setShowDatePicker(true)}>
-              <Text style={[styles.datePickerText, { color: theme.primary }]}>Pick Date & Time</Text>
-            </TouchableOpacity>
-            {showDatePicker && (
+            <RecurrenceEditor value={draftRule} onChange={setDraftRule} />
+            {!draftRule && (
+              <TouchableOpacity onPress={() => setShowDatePicker(true)}>
+                <Text style={[styles.datePickerText, { color: theme.primary }]}>Pick Date & Time</Text>
+              </TouchableOpacity>
+            )}
+            {!draftRule && showDatePicker && (
               <DateTimePicker 
                 value={selectedDate} 
                 mode={Platform.OS === 'ios' ? 'datetime' : 'date'} 
@@ -422,7 +458,7 @@ const SetScreen = () => {
                 onChange={onChangeDate} 
               />
             )}
-            {Platform.OS === 'android' && showTimePicker && (
+            {!draftRule && Platform.OS === 'android' && showTimePicker && (
               <DateTimePicker 
                 value={selectedDate} 
                 mode="time" 
@@ -492,6 +528,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     elevation: 3,
   },
+  pillDetails: {
+    flex: 1,
+    marginRight: 10,
+  },
   pillText: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -538,25 +578,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 15,
   },
-  modalItem: {
-    padding: 15,
-    borderBottomWidth: 1,
-    width: '100%',
-  },
   modalItemText: {
     fontSize: 16,
   },
-  cancelButton: {
-    marginTop: 20,
-    padding: 15,
-    borderRadius: 12,
-    width: '100%',
-    alignItems: 'center',
-  },
-  cancelButtonText: {
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
   datePickerText: {
     fontSize: 16,
     marginBottom: 15,
@@ -614,24 +638,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
-  medicationItem: {
-    paddingVertical: 8,
-  },
-  medicationName: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    marginBottom: 4,
-  },
-  medicationStrength: {
-    fontSize: 14,
-    marginBottom: 4,
-    opacity: 0.8,
-  },
-  medicationDescription: {
-    fontSize: 12,
-    opacity: 0.7,
-    lineHeight: 16,
-  },
   debugText: {
     fontSize: 14,
     marginBottom: 10,
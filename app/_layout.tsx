@@ -1,10 +1,57 @@
+import { useEffect } from "react";
 import { Stack } from "expo-router";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { ThemeProvider } from "./context/ThemeContext";
+import { ActiveElderProvider } from "./context/ActiveElderContext";
+import { useSessionExpiry } from "./hooks/useSessionExpiry";
+import { useRouteGuard } from "./hooks/useRouteGuard";
+import { useReminderResponses } from "./hooks/useReminderResponses";
+import { syncQueue } from "./services/syncQueue";
+import { pushService } from "./services/pushService";
+import { pillboxManager } from "./services/pillboxManager";
+import { pillboxScheduleSync } from "./services/pillboxScheduleSync";
+import { lidEventService } from "./services/lidEventService";
+import { pillboxLocationService } from "./services/pillboxLocationService";
+import { snoozeService } from "./services/snoozeService";
+import PushNotificationHost from "./components/PushNotificationHost";
+
+// FCM needs its background handler registered before any component mounts
+pushService.registerBackgroundHandler();
 
 export default function RootLayout() {
+  useSessionExpiry();
+  useRouteGuard();
+  useReminderResponses();
+
+  // Replay offline schedule edits whenever connectivity returns
+  useEffect(() => syncQueue.start(), []);
+
+  // Register for pushes after login and route incoming ones to the notification modal
+  useEffect(() => pushService.start(), []);
+
+  // Reconnect to the paired pillbox and keep the link alive
+  useEffect(() => pillboxManager.start(), []);
+
+  // Push saved schedules that could not reach the box while it was away
+  useEffect(() => pillboxScheduleSync.start(), []);
+
+  // Turn lid openings on the box into taken doses and wrong-container alerts
+  useEffect(() => lidEventService.start(), []);
+
+  // Remember where and when the box was last connected, for Pillbox Tracking
+  useEffect(() => pillboxLocationService.start(), []);
+
+  // Alert caregivers when a snoozed dose is still not taken
+  useEffect(() => snoozeService.start(), []);
+
   return (
-    <ThemeProvider>
-      <Stack screenOptions={{ headerShown: false }} />
-    </ThemeProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ThemeProvider>
+        <ActiveElderProvider>
+          <Stack screenOptions={{ headerShown: false }} />
+          <PushNotificationHost />
+        </ActiveElderProvider>
+      </ThemeProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { DoseRow } from '../services/doseEventService';
+import {
+  GroupSummary,
+  summarize,
+  byMedication,
+  byContainer,
+  byWeek,
+  dailyTrend,
+  weeklyTrend,
+  getStreaks,
+  getLateness,
+  withinDays,
+} from '../services/adherenceStats';
+import TrendChart from './TrendChart';
+
+export const STATS_RANGES = [7, 30, 90] as const;
+export type StatsRange = typeof STATS_RANGES[number];
+
+interface AdherenceStatsProps {
+  rows: DoseRow[];
+}
+
+const formatRate = (rate: number | null) => (rate === null ? '-' : `${rate}%`);
+
+const formatLateness = (minutes: number | null) => {
+  if (minutes === null) return '-';
+  if (minutes < 0) return `${Math.abs(minutes)} min early`;
+  return `${minutes} min`;
+};
+
+const AdherenceStats: React.FC<AdherenceStatsProps> = ({ rows }) => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const [range, setRange] = useState<StatsRange>(7);
+
+  const stats = useMemo(() => {
+    const today = new Date();
+    const inRange = withinDays(rows, today, range);
+    return {
+      summary: summarize(inRange),
+      streaks: getStreaks(inRange),
+      lateness: getLateness(inRange),
+      // Daily bars get too thin past a month, so 90 days is shown per week
+      trend: range > 30 ? weeklyTrend(inRange, today, range) : dailyTrend(inRange, today, range),
+      medications: byMedication(inRange),
+      containers: byContainer(inRange),
+      weeks: byWeek(inRange),
+    };
+  }, [rows, range]);
+
+  const renderGroup = (title: string, groups: GroupSummary[]) => (
+    <View style={[styles.section, { backgroundColor: theme.card }]}>
+      <Text style={[styles.sectionTitle, { color: theme.secondary }]}>{title}</Text>
+      {groups.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No doses in this period.</Text>
+      ) : (
+        groups.map(group => (
+          <View key={group.key} style={styles.groupRow}>
+            <View style={styles.groupHeader}>
+              <Text style={[styles.groupLabel, { color: theme.text }]} numberOfLines={1}>{group.label}</Text>
+              <Text style={[styles.groupRate, { color: theme.primary }]}>{formatRate(group.rate)}</Text>
+            </View>
+            <View style={[styles.progressTrack, { backgroundColor: theme.background }]}>
+              <View style={[styles.progressFill, { width: `${group.rate ?? 0}%`, backgroundColor: theme.primary }]} />
+            </View>
+            <Text style={[styles.groupDetail, { color: theme.textSecondary }]}>
+              {group.taken + group.late} taken ({group.late} late), {group.missed} missed, {group.skipped} skipped
+            </Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.rangeRow}>
+        {STATS_RANGES.map(days => {
+          const selected = days === range;
+          return (
+            <TouchableOpacity
+              key={days}
+              style={[styles.rangeChip, { borderColor: theme.primary }, selected && { backgroundColor: theme.primary }]}
+              onPress={() => setRange(days)}
+            >
+              <Text style={[styles.rangeText, { color: selected ? theme.card : theme.primary }]}>{days} days</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.tileRow}>
+        <View style={[styles.tile, { backgroundColor: theme.card }]}>
+          <Text style={[styles.tileValue, { color: theme.primary }]}>{formatRate(stats.summary.rate)}</Text>
+          <Text style={[styles.tileLabel, { color: theme.textSecondary }]}>Adherence</Text>
+        </View>
+        <View style={[styles.tile, { backgroundColor: theme.card }]}>
+          <Text style={[styles.tileValue, { color: theme.success }]}>{stats.streaks.current}</Text>
+          <Text style={[styles.tileLabel, { color: theme.textSecondary }]}>Day streak (best {stats.streaks.longest})</Text>
+        </View>
+        <View style={[styles.tile, { backgroundColor: theme.card }]}>
+          <Text style={[styles.tileValue, { color: theme.warning }]}>{formatLateness(stats.lateness.averageMinutes)}</Text>
+          <Text style={[styles.tileLabel, { color: theme.textSecondary }]}>Avg. delay</Text>
+        </View>
+      </View>
+
+      <View style={[styles.section, { backgroundColor: theme.card }]}>
+        <Text style={[styles.sectionTitle, { color: theme.secondary }]}>
+          {range > 30 ? 'Weekly trend' : 'Daily trend'}
+        </Text>
+        <TrendChart points={stats.trend} />
+      </View>
+
+      {renderGroup('By medication', stats.medications)}
+      {renderGroup('By container', stats.containers)}
+      {renderGroup('By week', stats.weeks)}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  rangeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  rangeChip: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  rangeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tileRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  tile: {
+    flex: 1,
+    borderRadius: 12,
+    padding: 12,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  tileValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  tileLabel: {
+    fontSize: 11,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  section: {
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  groupRow: {
+    marginBottom: 12,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  groupLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  groupRate: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  groupDetail: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
+
+export default AdherenceStats;
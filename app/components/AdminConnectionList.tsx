@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { adminService, AdminConnection, ConnectionQuery } from '../services/adminService';
+import { usePagedList } from '../hooks/usePagedList';
+
+const SEARCH_DELAY_MS = 400;
+
+type StatusFilter = NonNullable<ConnectionQuery['status']>;
+
+const STATUS_FILTERS: { label: string; value: StatusFilter }[] = [
+  { label: 'All', value: 'all' },
+  { label: 'Active', value: 'active' },
+  { label: 'Pending', value: 'pending' },
+  { label: 'Paused', value: 'inactive' },
+];
+
+const STATUS_LABELS: Record<AdminConnection['connectionStatus'], string> = {
+  active: 'Active',
+  pending: 'Pending',
+  inactive: 'Paused',
+};
+
+const fetchConnections = (query: ConnectionQuery, page: number) => adminService.listConnections({ ...query, page });
+const connectionKey = (connection: AdminConnection) => connection.id;
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '—');
+
+// One caregiver → elder link; also used on the user detail screen
+export const AdminConnectionCard: React.FC<{ connection: AdminConnection }> = ({ connection }) => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const statusColor = connection.connectionStatus === 'active'
+    ? theme.success
+    : connection.connectionStatus === 'pending' ? theme.warning : theme.textSecondary;
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.card }]}>
+      <View style={styles.people}>
+        <View style={styles.person}>
+          <Text style={[styles.personRole, { color: theme.textSecondary }]}>Caregiver</Text>
+          <Text style={[styles.personName, { color: theme.text }]} numberOfLines={1}>
+            {connection.caregiverName ?? 'Unknown caregiver'}
+          </Text>
+          <Text style={[styles.detail, { color: theme.textSecondary }]}>{connection.caregiverContactNumber ?? ''}</Text>
+        </View>
+        <Ionicons name="arrow-forward" size={20} color={theme.textSecondary} style={styles.arrow} />
+        <View style={styles.person}>
+          <Text style={[styles.personRole, { color: theme.textSecondary }]}>Elder</Text>
+          <Text style={[styles.personName, { color: theme.text }]} numberOfLines={1}>{connection.elderName}</Text>
+          <Text style={[styles.detail, { color: theme.textSecondary }]}>{connection.elderContactNumber}</Text>
+        </View>
+      </View>
+      <View style={styles.metaRow}>
+        <View style={[styles.badge, { borderColor: statusColor }]}>
+          <Text style={[styles.badgeText, { color: statusColor }]}>{STATUS_LABELS[connection.connectionStatus]}</Text>
+        </View>
+        <Text style={[styles.detail, { color: theme.textSecondary }]}>
+          Since {formatDate(connection.connectedAt)} · Last active {formatDate(connection.lastInteraction)}
+        </Text>
+      </View>
+      {!!connection.notes && (
+        <Text style={[styles.notes, { color: theme.textSecondary }]} numberOfLines={2}>{connection.notes}</Text>
+      )}
+    </View>
+  );
+};
+
+// Read-only view of every caregiver–elder connection for the admin console
+const AdminConnectionList: React.FC = () => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+
+  // Wait for typing to settle before querying the server
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchText.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const connections = usePagedList(fetchConnections, { search, status }, connectionKey);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.searchBar, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }]}
+          placeholder="Search elder or caregiver"
+          placeholderTextColor={theme.textSecondary}
+          value={searchText}
+          onChangeText={setSearchText}
+          autoCapitalize="none"
+        />
+      </View>
+
+      <View style={styles.chipRow}>
+        {STATUS_FILTERS.map(option => {
+          const isSelected = option.value === status;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, {
+                backgroundColor: isSelected ? theme.primary : theme.card,
+                borderColor: isSelected ? theme.primary : theme.border,
+              }]}
+              onPress={() => setStatus(option.value)}
+            >
+              <Text style={[styles.chipText, { color: isSelected ? '#fff' : theme.text }]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={[styles.count, { color: theme.textSecondary }]}>
+        {connections.isLoading
+          ? 'Loading...'
+          : `${connections.total} connection${connections.total === 1 ? '' : 's'}`}
+      </Text>
+
+      {connections.error && !connections.items.length ? (
+        <View style={styles.centered}>
+          <Text style={[styles.errorText, { color: theme.error }]}>{connections.error}</Text>
+          <TouchableOpacity style={[styles.retryButton, { backgroundColor: theme.primary }]} onPress={connections.reload}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={connections.items}
+          keyExtractor={connectionKey}
+          renderItem={({ item }) => <AdminConnectionCard connection={item} />}
+          onEndReached={connections.loadMore}
+          onEndReachedThreshold={0.5}
+          refreshing={connections.isRefreshing}
+          onRefresh={connections.refresh}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            connections.isLoading ? (
+              <ActivityIndicator size="large" color={theme.primary} style={styles.loader} />
+            ) : (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No connections match these filters</Text>
+            )
+          }
+          ListFooterComponent={
+            connections.isLoadingMore ? <ActivityIndicator color={theme.primary} style={styles.loader} /> : null
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 48,
+    marginBottom: 10,
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  count: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  card: {
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  people: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  person: {
+    flex: 1,
+  },
+  personRole: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+  },
+  personName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  arrow: {
+    marginHorizontal: 10,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  badge: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 8,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  notes: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  centered: {
+    alignItems: 'center',
+    marginTop: 30,
+  },
+  errorText: {
+    fontSize: 15,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 30,
+    fontSize: 15,
+  },
+});
+
+export default AdminConnectionList;
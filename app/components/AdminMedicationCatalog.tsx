@@ -0,0 +1,480 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, FlatList, ActivityIndicator, Alert, Modal, ScrollView, StyleSheet
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { Medication } from '../services/api';
+import { adminService, MedicationInput } from '../services/adminService';
+import { describeMedication } from '../services/medicationSearch';
+
+type FormField = 'name' | 'description' | 'dosage' | 'form' | 'manufacturer';
+
+const FORM_FIELDS: { key: FormField; label: string; placeholder: string }[] = [
+  { key: 'name', label: 'Name', placeholder: 'e.g. Metformin' },
+  { key: 'dosage', label: 'Dosage', placeholder: 'e.g. 500mg' },
+  { key: 'form', label: 'Form', placeholder: 'e.g. Tablet' },
+  { key: 'manufacturer', label: 'Manufacturer', placeholder: 'e.g. Generic' },
+  { key: 'description', label: 'Description', placeholder: 'What it is used for' },
+];
+
+const EMPTY_FORM: Record<FormField, string> = {
+  name: '',
+  description: '',
+  dosage: '',
+  form: '',
+  manufacturer: '',
+};
+
+// Proposals awaiting review first, then by name
+const sortCatalog = (medications: Medication[]) =>
+  [...medications].sort((a, b) =>
+    Number(b.status === 'pending') - Number(a.status === 'pending') || a.name.localeCompare(b.name)
+  );
+
+// Medications catalog for the admin console: add, edit, retire and restore entries, review caregiver proposals
+const AdminMedicationCatalog: React.FC = () => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [showRetired, setShowRetired] = useState(false);
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editing, setEditing] = useState<Medication | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadMedications = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setMedications(sortCatalog(await adminService.listMedications()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load medications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMedications();
+  }, [loadMedications]);
+
+  // The catalog is small, so it is searched on the device
+  const visibleMedications = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return medications.filter(medication => {
+      if (!showRetired && medication.isActive === false) return false;
+      if (!term) return true;
+      return [medication.name, medication.dosage, medication.form, medication.manufacturer]
+        .some(value => value?.toLowerCase().includes(term));
+    });
+  }, [medications, search, showRetired]);
+
+  const pendingCount = medications.filter(medication => medication.status === 'pending').length;
+
+  const showMedication = (medication: Medication) => {
+    setMedications(prev => sortCatalog([
+      ...prev.filter(existing => existing._id !== medication._id),
+      medication,
+    ]));
+  };
+
+  const openForm = (medication: Medication | null) => {
+    setEditing(medication);
+    setForm(medication ? {
+      name: medication.name ?? '',
+      description: medication.description ?? '',
+      dosage: medication.dosage ?? '',
+      form: medication.form ?? '',
+      manufacturer: medication.manufacturer ?? '',
+    } : EMPTY_FORM);
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      Alert.alert('Error', 'Please enter the medication name');
+      return;
+    }
+
+    const input: MedicationInput = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      dosage: form.dosage.trim(),
+      form: form.form.trim(),
+      manufacturer: form.manufacturer.trim(),
+    };
+
+    try {
+      setIsSaving(true);
+      const saved = editing
+        ? await adminService.updateMedication(editing._id, input)
+        : await adminService.createMedication(input);
+      showMedication(saved);
+      setModalVisible(false);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to save medication');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setRetired = async (medication: Medication, retire: boolean) => {
+    try {
+      setBusyId(medication._id);
+      const updated = retire
+        ? await adminService.retireMedication(medication._id)
+        // Restoring a rejected proposal approves it
+        : await adminService.updateMedication(medication._id, {
+          isActive: true,
+          ...(medication.status === 'rejected' ? { status: 'approved' as const } : {}),
+        });
+      showMedication(updated);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update medication');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const reviewProposal = async (medication: Medication, approve: boolean) => {
+    try {
+      setBusyId(medication._id);
+      showMedication(await adminService.reviewProposal(medication._id, approve));
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to review proposal');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmReject = (medication: Medication) => {
+    Alert.alert(
+      'Reject Proposal',
+      `${medication.name} will no longer be offered, including to the caregiver who proposed it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reject', style: 'destructive', onPress: () => reviewProposal(medication, false) },
+      ]
+    );
+  };
+
+  const confirmRetire = (medication: Medication) => {
+    Alert.alert(
+      'Retire Medication',
+      `${medication.name} will no longer be offered for new schedules. Existing schedules keep it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Retire', style: 'destructive', onPress: () => setRetired(medication, true) },
+      ]
+    );
+  };
+
+  const renderMedication = ({ item }: { item: Medication }) => {
+    const isRetired = item.isActive === false;
+    const isPending = item.status === 'pending';
+    const details = describeMedication(item);
+    return (
+      <View style={[styles.card, { backgroundColor: theme.card, opacity: isRetired ? 0.7 : 1 }]}>
+        <TouchableOpacity style={styles.cardInfo} onPress={() => openForm(item)}>
+          <Text style={[styles.name, { color: theme.text }]}>
+            {item.name} <Text style={[styles.medId, { color: theme.textSecondary }]}>#{item.medId}</Text>
+          </Text>
+          {!!details && <Text style={[styles.detail, { color: theme.textSecondary }]}>{details}</Text>}
+          {!!item.description && (
+            <Text style={[styles.detail, { color: theme.textSecondary }]} numberOfLines={2}>{item.description}</Text>
+          )}
+          {isPending && <Text style={[styles.detail, { color: theme.warning }]}>Proposed by a caregiver</Text>}
+          {isRetired && (
+            <Text style={[styles.detail, { color: theme.error }]}>
+              {item.status === 'rejected' ? 'Rejected' : 'Retired'}
+            </Text>
+          )}
+        </TouchableOpacity>
+        {busyId === item._id ? (
+          <ActivityIndicator size="small" color={theme.primary} style={styles.actionButton} />
+        ) : isPending ? (
+          <>
+            <TouchableOpacity style={styles.actionButton} onPress={() => reviewProposal(item, true)}>
+              <Ionicons name="checkmark-circle-outline" size={24} color={theme.success} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => confirmReject(item)}>
+              <Ionicons name="close-circle-outline" size={24} color={theme.error} />
+            </TouchableOpacity>
+          </>
+        ) : (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => (isRetired ? setRetired(item, false) : confirmRetire(item))}
+          >
+            <Ionicons
+              name={isRetired ? 'refresh-outline' : 'archive-outline'}
+              size={22}
+              color={isRetired ? theme.success : theme.error}
+            />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <View style={[styles.searchBar, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="search" size={20} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: theme.text }]}
+            placeholder="Search medications"
+            placeholderTextColor={theme.textSecondary}
+            value={search}
+            onChangeText={setSearch}
+          />
+        </View>
+        <TouchableOpacity style={[styles.addButton, { backgroundColor: theme.primary }]} onPress={() => openForm(null)}>
+          <Ionicons name="add" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity style={styles.toggleRow} onPress={() => setShowRetired(prev => !prev)}>
+        <Ionicons
+          name={showRetired ? 'checkbox' : 'square-outline'}
+          size={20}
+          color={showRetired ? theme.primary : theme.textSecondary}
+        />
+        <Text style={[styles.toggleText, { color: theme.text }]}>Show retired medications</Text>
+      </TouchableOpacity>
+
+      {pendingCount > 0 && (
+        <Text style={[styles.pendingText, { color: theme.warning }]}>
+          {pendingCount} proposal{pendingCount === 1 ? '' : 's'} awaiting review
+        </Text>
+      )}
+
+      {error && !medications.length ? (
+        <View style={styles.centered}>
+          <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text>
+          <TouchableOpacity style={[styles.retryButton, { backgroundColor: theme.primary }]} onPress={loadMedications}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={visibleMedications}
+          keyExtractor={item => item._id}
+          renderItem={renderMedication}
+          refreshing={isLoading && medications.length > 0}
+          onRefresh={loadMedications}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            isLoading ? (
+              <ActivityIndicator size="large" color={theme.primary} style={styles.loader} />
+            ) : (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                {medications.length ? 'No medications match your search' : 'The catalog is empty'}
+              </Text>
+            )
+          }
+        />
+      )}
+
+      <Modal visible={modalVisible} transparent animationType="slide" onRequestClose={() => setModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+            <Text style={[styles.modalTitle, { color: theme.secondary }]}>
+              {editing ? 'Edit Medication' : 'Add Medication'}
+            </Text>
+            <ScrollView keyboardShouldPersistTaps="handled">
+              {FORM_FIELDS.map(field => (
+                <View key={field.key}>
+                  <Text style={[styles.label, { color: theme.textSecondary }]}>{field.label}</Text>
+                  <TextInput
+                    style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+                    placeholder={field.placeholder}
+                    placeholderTextColor={theme.textSecondary}
+                    value={form[field.key]}
+                    onChangeText={text => setForm(prev => ({ ...prev, [field.key]: text }))}
+                    multiline={field.key === 'description'}
+                  />
+                </View>
+              ))}
+            </ScrollView>
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.background }]}
+                onPress={() => setModalVisible(false)}
+                disabled={isSaving}
+              >
+                <Text style={[styles.modalButtonText, { color: theme.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: isSaving ? theme.textSecondary : theme.primary }]}
+                onPress={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={[styles.modalButtonText, { color: '#fff' }]}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 48,
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 16,
+  },
+  addButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 10,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  toggleText: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  pendingText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  medId: {
+    fontSize: 13,
+    fontWeight: 'normal',
+  },
+  detail: {
+    fontSize: 14,
+    marginTop: 3,
+  },
+  actionButton: {
+    padding: 10,
+  },
+  centered: {
+    alignItems: 'center',
+    marginTop: 30,
+  },
+  errorText: {
+    fontSize: 15,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 30,
+    fontSize: 15,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    padding: 20,
+  },
+  modalContent: {
+    borderRadius: 20,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginHorizontal: 5,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default AdminMedicationCatalog;
@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, FlatList, ActivityIndicator, Alert, StyleSheet
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useTheme } from '../context/ThemeContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { RoleId } from '../services/api';
+import { adminService, AdminUser, AccountStatus, UserQuery, ROLE_LABELS } from '../services/adminService';
+import { usePagedList } from '../hooks/usePagedList';
+
+const SEARCH_DELAY_MS = 400;
+
+const ROLE_FILTERS: { label: string; value: RoleId | undefined }[] = [
+  { label: 'All', value: undefined },
+  { label: 'Admins', value: 1 },
+  { label: 'Elders', value: 2 },
+  { label: 'Caregivers', value: 3 },
+];
+
+const STATUS_FILTERS: { label: string; value: AccountStatus }[] = [
+  { label: 'Active', value: 'active' },
+  { label: 'Deactivated', value: 'inactive' },
+  { label: 'All', value: 'all' },
+];
+
+const fetchUsers = (query: UserQuery, page: number) => adminService.listUsers({ ...query, page });
+const userKey = (user: AdminUser) => user.userId;
+
+// Accounts list for the admin console: search, role and status filters, quick deactivate
+const AdminUserList: React.FC = () => {
+  const router = useRouter();
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState<RoleId | undefined>(undefined);
+  const [status, setStatus] = useState<AccountStatus>('active');
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  // Wait for typing to settle before querying the server
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchText.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const users = usePagedList(fetchUsers, { search, role, status }, userKey);
+  const { reload } = users;
+
+  // Pick up edits made on the user detail screen
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (hasFocusedRef.current) reload();
+      hasFocusedRef.current = true;
+    }, [reload])
+  );
+
+  const setActive = async (user: AdminUser, isActive: boolean) => {
+    try {
+      setBusyUserId(user.userId);
+      const updated = isActive
+        ? await adminService.reactivateUser(user.userId)
+        : await adminService.deactivateUser(user.userId);
+      // A status filter no longer matching the user drops them from the list
+      if (status === 'all') {
+        users.replaceItem(updated);
+      } else {
+        reload();
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update account');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const confirmToggle = (user: AdminUser) => {
+    if (user.isActive) {
+      Alert.alert(
+        'Deactivate Account',
+        `${user.name} will no longer be able to log in. Their data is kept and the account can be reactivated.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Deactivate', style: 'destructive', onPress: () => setActive(user, false) },
+        ]
+      );
+    } else {
+      setActive(user, true);
+    }
+  };
+
+  const renderChips = <T,>(options: { label: string; value: T }[], selected: T, onSelect: (value: T) => void) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, {
+              backgroundColor: isSelected ? theme.primary : theme.card,
+              borderColor: isSelected ? theme.primary : theme.border,
+            }]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.chipText, { color: isSelected ? '#fff' : theme.text }]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderUser = ({ item }: { item: AdminUser }) => (
+    <TouchableOpacity
+      style={[styles.card, { backgroundColor: theme.card, opacity: item.isActive ? 1 : 0.7 }]}
+      onPress={() => router.push({ pathname: '/Getone', params: { userId: item.userId } })}
+    >
+      <View style={styles.cardInfo}>
+        <View style={styles.nameRow}>
+          <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>{item.name}</Text>
+          <View style={[styles.badge, { backgroundColor: theme.background }]}>
+            <Text style={[styles.badgeText, { color: theme.secondary }]}>{ROLE_LABELS[item.role] ?? 'Unknown'}</Text>
+          </View>
+        </View>
+        <Text style={[styles.detail, { color: theme.textSecondary }]} numberOfLines={1}>{item.email}</Text>
+        <Text style={[styles.detail, { color: theme.textSecondary }]}>{item.contactNumber}</Text>
+        {!item.isActive && (
+          <Text style={[styles.detail, { color: theme.error }]}>Deactivated</Text>
+        )}
+      </View>
+      <TouchableOpacity
+        style={styles.actionButton}
+        onPress={() => confirmToggle(item)}
+        disabled={busyUserId === item.userId}
+      >
+        {busyUserId === item.userId ? (
+          <ActivityIndicator size="small" color={theme.primary} />
+        ) : (
+          <Ionicons
+            name={item.isActive ? 'person-remove-outline' : 'person-add-outline'}
+            size={22}
+            color={item.isActive ? theme.error : theme.success}
+          />
+        )}
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.searchBar, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }]}
+          placeholder="Search name, email or phone"
+          placeholderTextColor={theme.textSecondary}
+          value={searchText}
+          onChangeText={setSearchText}
+          autoCapitalize="none"
+        />
+        {!!searchText && (
+          <TouchableOpacity onPress={() => setSearchText('')}>
+            <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {renderChips(ROLE_FILTERS, role, setRole)}
+      {renderChips(STATUS_FILTERS, status, setStatus)}
+
+      <Text style={[styles.count, { color: theme.textSecondary }]}>
+        {users.isLoading ? 'Loading...' : `${users.total} account${users.total === 1 ? '' : 's'}`}
+      </Text>
+
+      {users.error && !users.items.length ? (
+        <View style={styles.centered}>
+          <Text style={[styles.errorText, { color: theme.error }]}>{users.error}</Text>
+          <TouchableOpacity style={[styles.retryButton, { backgroundColor: theme.primary }]} onPress={reload}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={users.items}
+          keyExtractor={userKey}
+          renderItem={renderUser}
+          onEndReached={users.loadMore}
+          onEndReachedThreshold={0.5}
+          refreshing={users.isRefreshing}
+          onRefresh={users.refresh}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            users.isLoading ? (
+              <ActivityIndicator size="large" color={theme.primary} style={styles.loader} />
+            ) : (
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>No accounts match these filters</Text>
+            )
+          }
+          ListFooterComponent={
+            users.isLoadingMore ? <ActivityIndicator color={theme.primary} style={styles.loader} /> : null
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 48,
+    marginBottom: 10,
+  },
+  searchInput: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  count: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  name: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    flexShrink: 1,
+  },
+  badge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  actionButton: {
+    padding: 10,
+  },
+  centered: {
+    alignItems: 'center',
+    marginTop: 30,
+  },
+  errorText: {
+    fontSize: 15,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  retryText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 30,
+    fontSize: 15,
+  },
+});
+
+export default AdminUserList;
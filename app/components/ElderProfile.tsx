@@ -1,32 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   View, Text, TextInput, TouchableOpacity, StyleSheet, Image, 
-  Alert, ActivityIndicator, FlatList 
+  Alert, ActivityIndicator, ScrollView, Modal
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../context/ThemeContext';
+import { useActiveElder } from '../context/ActiveElderContext';
 import { lightTheme, darkTheme } from '../styles/theme';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { jwtDecode } from 'jwt-decode';
-
-// Interface for decoded JWT token
-interface DecodedToken {
-  id: string;
-  userId: string;
-  role?: string;
-}
+import { sessionManager } from '../services/sessionManager';
+import {
+  connectionService, ConnectionCodeError, ElderConnection, ElderSearchResult, LocalElderProfile
+} from '../services/connectionService';
 
-// Interface for elder user data
-interface ElderUser {
-  userId?: string;
-  _id?: string;
-  id?: string;
-  name: string;
-  email: string;
-  contactNumber: string;
-  profileImage?: string;
-  role: number;
-}
+const CODE_LENGTH = 6;
+
+// m:ss until the given time, never negative
+const formatRemaining = (until: string, now: number) => {
+  const seconds = Math.max(0, Math.ceil((new Date(until).getTime() - now) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const isPast = (time: string | null | undefined, now: number) => !!time && new Date(time).getTime() <= now;
 
 interface ElderProfileProps {
   onElderSelected?: (elderId: string, elderName: string) => void;
@@ -36,171 +30,231 @@ interface ElderProfileProps {
 export default function ElderProfile({ onElderSelected, onBack }: ElderProfileProps) {
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
+  const { activeElder, selectElder: setActiveElder, clearElder, reload: reloadActiveElder } = useActiveElder();
 
   // State for elder connection
-  const [elderName, setElderName] = useState('');
   const [elderPhone, setElderPhone] = useState('');
   const [otp, setOtp] = useState('');
+  const [searchResult, setSearchResult] = useState<ElderSearchResult | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [connectedElders, setConnectedElders] = useState<ElderUser[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [connections, setConnections] = useState<ElderConnection[]>([]);
+  // Profiles created on this phone whose number matches no elder account yet
+  const [localProfiles, setLocalProfiles] = useState<LocalElderProfile[]>([]);
   const [loading, setLoading] = useState(false);
-  const [showOtpField, setShowOtpField] = useState(false);
+  const scrollRef = useRef<ScrollView>(null);
 
-  // Get current caregiver ID from JWT token
-  const getCurrentCaregiverId = async (): Promise<string> => {
-    try {
-      const token = await AsyncStorage.getItem('token');
-      if (!token) {
-        throw new Error('No token found');
-      }
+  // State for the code sent to the elder; the connection stays pending until it is verified
+  const [pendingConnection, setPendingConnection] = useState<ElderConnection | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
-      const decodedToken = jwtDecode<DecodedToken>(token.trim());
-      const caregiverId = decodedToken.userId ?? decodedToken.id;
-      
-      if (!caregiverId) {
-        throw new Error('Invalid token structure');
-      }
+  // State for editing a connection
+  const [editingConnection, setEditingConnection] = useState<ElderConnection | null>(null);
+  const [editNotes, setEditNotes] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
 
-      return caregiverId;
-    } catch (error) {
-      console.error('Error getting caregiver ID:', error);
-      throw error;
+  // Get current caregiver ID from the session
+  const getCurrentCaregiverId = async (): Promise<string> => {
+    const caregiverId = await sessionManager.getUserId();
+    if (!caregiverId) {
+      throw new Error('No token found');
     }
+    return caregiverId;
   };
 
-  // Load connected elders from local storage on mount
+  // Load connections on mount
   useEffect(() => {
-    loadConnectedElders();
+    loadConnections();
   }, []);
 
-  // Load connected elders from local storage
-  const loadConnectedElders = async () => {
+  // Tick the expiry and resend countdowns while a code is being entered
+  useEffect(() => {
+    if (!pendingConnection) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pendingConnection]);
+
+  // Load connections from the server and the profiles still kept on this phone
+  const loadConnections = async () => {
     try {
       setLoading(true);
       const caregiverId = await getCurrentCaregiverId();
-      
-      // Get connected elders from local storage
-      const storedConnections = await AsyncStorage.getItem(`caregiver_connections_${caregiverId}`);
-      const connections = storedConnections ? JSON.parse(storedConnections) : [];
-      
-      setConnectedElders(connections);
+
+      // Reloading the active elder also drops local profiles that are now connected
+      await reloadActiveElder();
+      const [serverConnections, remaining] = await Promise.all([
+        connectionService.getConnections('all'),
+        connectionService.getLocalProfiles(caregiverId),
+      ]);
+
+      setConnections(serverConnections);
+      setLocalProfiles(remaining);
     } catch (error) {
       console.error('Error loading connected elders:', error);
-      setConnectedElders([]);
+      Alert.alert('Error', 'Failed to load connected elders. Please check your connection.');
     } finally {
       setLoading(false);
     }
   };
 
-  // Save connected elders to local storage
-  const saveConnectedElders = async (connections: ElderUser[]) => {
+  // Look up the elder's account by phone number
+  const findElder = async () => {
+    if (elderPhone.trim().length < 10) {
+      Alert.alert('Error', 'Please enter the elder\'s full phone number');
+      return;
+    }
+
     try {
-      console.log('Saving connected elders:', connections);
-      const caregiverId = await getCurrentCaregiverId();
-      const storageKey = `caregiver_connections_${caregiverId}`;
-      console.log('Storage key:', storageKey);
-      await AsyncStorage.setItem(storageKey, JSON.stringify(connections));
-      console.log('Connected elders saved successfully');
+      setIsSearching(true);
+      setSearchResult(null);
+
+      const result = await connectionService.searchElder(elderPhone);
+      if (!result) {
+        Alert.alert(
+          'No Account Found',
+          `No elder account uses ${elderPhone.trim()}. Ask them to register in PillNow first, then try again.`
+        );
+        return;
+      }
+
+      setSearchResult(result);
     } catch (error) {
-      console.error('Error saving connected elders:', error);
+      console.error('Error finding elder:', error);
+      Alert.alert('Error', `Failed to search for elder: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSearching(false);
     }
   };
 
-    // Add elder profile (simplified - creates local profile)
-  const addElderProfile = async () => {
-    if (!elderPhone.trim()) {
-      Alert.alert('Error', 'Please enter the elder\'s phone number');
+  // Connect to the elder found by phone number
+  const connectToElder = async () => {
+    if (!searchResult) {
+      Alert.alert('Find Elder First', 'Enter the elder\'s phone number and tap FIND.');
       return;
     }
 
-    if (!elderName.trim()) {
-      Alert.alert('Error', 'Please enter the elder\'s name');
+    if (searchResult.alreadyConnected) {
+      Alert.alert('Already Connected', `${searchResult.elder.name} is already in your list.`);
+      return;
+    }
+
+    // A code already on its way is entered rather than requested again
+    const existing = connections.find(
+      connection => connection.elderId === searchResult.elder.userId && connection.connectionStatus === 'pending'
+    );
+    if (existing && !isPast(existing.otp?.expiresAt, Date.now())) {
+      enterCode(existing);
       return;
     }
 
     try {
-      setIsVerifying(true);
-      
-      // Check if elder with this phone number already exists in connected list
-      const existingElder = connectedElders.find(conn => 
-        conn.contactNumber === elderPhone.trim()
+      setIsConnecting(true);
+      const { message, delivered, connection } = await connectionService.connect(searchResult.elder.contactNumber);
+
+      setOtp('');
+      setPendingConnection(connection);
+      Alert.alert(
+        delivered ? 'Code Sent' : 'Code Not Delivered',
+        delivered
+          ? `Ask ${connection.elderName} for the ${CODE_LENGTH}-digit code sent to their PillNow app and phone ${connection.elderContactNumber}.`
+          : message
       );
-      
-      if (existingElder) {
-        Alert.alert('Already Connected', `${existingElder.name} with phone ${elderPhone.trim()} is already in your list.`);
-        return;
+
+      await loadConnections();
+    } catch (error) {
+      console.error('Error connecting to elder:', error);
+      if (error instanceof ConnectionCodeError) {
+        Alert.alert('Please Wait', error.message);
+      } else {
+        Alert.alert('Error', `Failed to connect: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  // Open code entry for a connection waiting on the elder
+  const enterCode = (connection: ElderConnection) => {
+    setOtp('');
+    setPendingConnection(connection);
+    scrollRef.current?.scrollTo({ y: 0, animated: true });
+  };
 
-      // Create a new elder profile locally
-      const newElder: ElderUser = {
-        userId: `local_${Date.now()}`, // Generate local ID
-        name: elderName.trim(),
-        email: '', // Can be empty for local profiles
-        contactNumber: elderPhone.trim(),
-        role: 2, // Elder role
-        profileImage: undefined
-      };
-
-      // Add to connected elders list
-      const updatedElders = [...connectedElders, newElder];
-      await saveConnectedElders(updatedElders);
-      setConnectedElders(updatedElders);
+  // Keep the latest limits from the server so the countdowns stay right
+  const updatePendingOtp = (error: ConnectionCodeError) => {
+    setPendingConnection(prev => (prev ? { ...prev, otp: error.otp ?? prev.otp } : prev));
+  };
 
-      Alert.alert(
-        'Success', 
-        `Successfully added ${newElder.name} to your elder list.\n\nPhone: ${newElder.contactNumber}`
-      );
-      
-      // Reset form
-      setElderName('');
-      setElderPhone('');
-      setOtp('');
-      setShowOtpField(false);
-      
+  // Check the code the elder received; the connection becomes active on success
+  const verifyCode = async () => {
+    if (!pendingConnection) return;
+
+    if (otp.length !== CODE_LENGTH) {
+      Alert.alert('Error', `Please enter the ${CODE_LENGTH}-digit code`);
+      return;
+    }
+
+    try {
+      setIsVerifying(true);
+      const connection = await connectionService.verifyCode(pendingConnection.id, otp);
+
+      Alert.alert('Success', `Successfully connected to ${connection.elderName}.\n\nPhone: ${connection.elderContactNumber}`);
+
+      cancelConnection();
+      await loadConnections();
     } catch (error) {
-      console.error('Error adding elder:', error);
-      Alert.alert('Error', 'Failed to add elder. Please try again.');
+      console.error('Error verifying code:', error);
+      setOtp('');
+      if (error instanceof ConnectionCodeError) {
+        updatePendingOtp(error);
+        Alert.alert('Verification Failed', error.message);
+      } else {
+        Alert.alert('Error', `Failed to verify code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
     } finally {
       setIsVerifying(false);
     }
   };
 
-    // Connect to elder (simplified for testing - no OTP required)
-  const connectToElder = async () => {
-    // This function is now simplified since connection happens in verifyElderPhone
-    // You can use this for manual connection if needed
-    Alert.alert('Info', 'Connection is now automatic after verification. Use the VERIFY button to connect to an elder.');
+  // Send the elder a new code
+  const resendCode = async () => {
+    if (!pendingConnection) return;
+
+    try {
+      setIsResending(true);
+      const { message, connection } = await connectionService.resendCode(pendingConnection.id);
+      setOtp('');
+      setPendingConnection(connection);
+      Alert.alert('Code Sent', message);
+    } catch (error) {
+      console.error('Error resending code:', error);
+      if (error instanceof ConnectionCodeError) {
+        updatePendingOtp(error);
+        Alert.alert('Please Wait', error.message);
+      } else {
+        Alert.alert('Error', `Failed to resend code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    } finally {
+      setIsResending(false);
+    }
   };
 
-  // Cancel connection process
+  // Cancel connection process; a pending connection stays in the list for later
   const cancelConnection = () => {
-    setElderName('');
     setElderPhone('');
     setOtp('');
-    setShowOtpField(false);
+    setSearchResult(null);
+    setPendingConnection(null);
   };
 
   // Remove elder from list
-  const removeElder = async (elderId: string | undefined) => {
-    if (!elderId) {
-      Alert.alert('Error', 'Cannot remove elder: Invalid elder ID');
-      return;
-    }
-    
-    const elderInList = connectedElders.find(elder => {
-      const elderUserId = elder.userId || elder._id || elder.id;
-      return elderUserId === elderId;
-    });
-    
-    if (!elderInList) {
-      Alert.alert('Error', 'Elder not found in connected list');
-      return;
-    }
-    
+  const removeElder = (connection: ElderConnection) => {
     Alert.alert(
       'Disconnect Elder',
-      'Are you sure you want to disconnect from this elder? This will remove them from your monitoring list but will not delete their account.',
+      `Are you sure you want to disconnect from ${connection.elderName}? This will remove them from your monitoring list but will not delete their account.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -208,13 +262,15 @@ export default function ElderProfile({ onElderSelected, onBack }: ElderProfilePr
           style: 'destructive',
           onPress: async () => {
             try {
-              const updatedElders = connectedElders.filter(elder => {
-                const elderUserId = elder.userId || elder._id || elder.id;
-                return elderUserId !== elderId;
-              });
-              
-              await saveConnectedElders(updatedElders);
-              setConnectedElders(updatedElders);
+              await connectionService.removeConnection(connection.id);
+              // Stop acting for an elder who is no longer on the list
+              if (activeElder?.id === connection.elderId) {
+                await clearElder();
+              }
+              if (pendingConnection?.id === connection.id) {
+                cancelConnection();
+              }
+              await loadConnections();
               
               Alert.alert('Success', 'Elder disconnected successfully');
             } catch (error) {
@@ -227,31 +283,130 @@ export default function ElderProfile({ onElderSelected, onBack }: ElderProfilePr
     );
   };
 
+  // Move a phone-only profile to the server; it stays here until the elder's code is verified
+  const connectLocalProfile = async (profile: LocalElderProfile) => {
+    try {
+      setIsConnecting(true);
+      const caregiverId = await getCurrentCaregiverId();
+      const outcome = await connectionService.connectLocalProfile(caregiverId, profile);
+
+      if (outcome.status === 'unmatched') {
+        Alert.alert('Not on PillNow Yet', `No elder account uses ${profile.contactNumber}. Ask ${profile.name} to register with this number, then try again.`);
+      } else if (outcome.status === 'connected') {
+        Alert.alert('Already Connected', `${profile.name} is already in your list.`);
+      } else {
+        enterCode(outcome.connection);
+        if (outcome.sent) {
+          Alert.alert(
+            outcome.sent.delivered ? 'Code Sent' : 'Code Not Delivered',
+            outcome.sent.delivered
+              ? `Ask ${outcome.connection.elderName} for the ${CODE_LENGTH}-digit code sent to their PillNow app and phone ${outcome.connection.elderContactNumber}.`
+              : outcome.sent.message
+          );
+        }
+      }
+
+      await loadConnections();
+    } catch (error) {
+      console.error('Error connecting local profile:', error);
+      if (error instanceof ConnectionCodeError) {
+        Alert.alert('Please Wait', error.message);
+      } else {
+        Alert.alert('Error', `Failed to connect: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  // Forget a phone-only profile
+  const removeLocalProfile = (profile: LocalElderProfile) => {
+    Alert.alert(
+      'Remove Profile',
+      `Remove ${profile.name} from this phone?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const caregiverId = await getCurrentCaregiverId();
+              await connectionService.removeLocalProfile(caregiverId, profile.contactNumber);
+              setLocalProfiles(prev => prev.filter(existing => existing.contactNumber !== profile.contactNumber));
+            } catch (error) {
+              console.error('Error removing local profile:', error);
+              Alert.alert('Error', 'Failed to remove profile');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const openEditor = (connection: ElderConnection) => {
+    setEditingConnection(connection);
+    setEditNotes(connection.notes ?? '');
+  };
+
+  // Save notes, and pause or resume monitoring
+  const saveConnection = async (connectionStatus?: ElderConnection['connectionStatus']) => {
+    if (!editingConnection) return;
+
+    try {
+      setIsSavingEdit(true);
+      await connectionService.updateConnection(editingConnection.id, {
+        notes: editNotes.trim(),
+        ...(connectionStatus ? { connectionStatus } : {}),
+      });
+      // A paused elder cannot stay the one being monitored
+      if (connectionStatus === 'inactive' && activeElder?.id === editingConnection.elderId) {
+        await clearElder();
+      }
+      setEditingConnection(null);
+      await loadConnections();
+    } catch (error) {
+      console.error('Error updating connection:', error);
+      Alert.alert('Error', `Failed to update connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
   // Display elder details
-  const showElderDetails = (elder: ElderUser) => {
-    const elderId = elder.userId;
+  const showElderDetails = (connection: ElderConnection) => {
     Alert.alert(
       'Elder Details',
-      `Name: ${elder.name}\nEmail: ${elder.email}\nPhone: ${elder.contactNumber}\nElder ID: ${elderId || 'Not available'}`,
+      `Name: ${connection.elderName}\nEmail: ${connection.elderEmail}\nPhone: ${connection.elderContactNumber}` +
+        `${connection.elderAge ? `\nAge: ${connection.elderAge}` : ''}` +
+        `\nConnected: ${new Date(connection.connectedAt).toLocaleDateString()}` +
+        `${connection.notes ? `\nNotes: ${connection.notes}` : ''}`,
       [{ text: 'OK', style: 'default' }]
     );
   };
 
+  const isActiveElder = (connection: ElderConnection) => connection.elderId === activeElder?.id;
+
   // Select elder to monitor
-  const selectElder = async (elderId: string | undefined, elderName: string) => {
+  const selectElder = async (connection: ElderConnection) => {
     try {
-      if (!elderId) {
-        Alert.alert('Error', 'Cannot select elder: Invalid elder ID');
+      if (connection.connectionStatus === 'pending') {
+        Alert.alert('Not Verified', `Enter the code sent to ${connection.elderName} before selecting them.`);
+        return;
+      }
+
+      if (connection.connectionStatus !== 'active') {
+        Alert.alert('Monitoring Paused', `Resume monitoring ${connection.elderName} before selecting them.`);
         return;
       }
       
-      await AsyncStorage.setItem('selectedElderId', elderId);
-      await AsyncStorage.setItem('selectedElderName', elderName);
+      // Makes the elder active across the app and remembers the choice
+      await setActiveElder(connection.elderId, connection.elderName);
       
-      Alert.alert('Success', `Now monitoring ${elderName}`);
+      Alert.alert('Success', `Now monitoring ${connection.elderName}`);
       
       if (onElderSelected) {
-        onElderSelected(elderId, elderName);
+        onElderSelected(connection.elderId, connection.elderName);
       }
     } catch (error) {
       console.error('Error selecting elder:', error);
@@ -259,8 +414,21 @@ export default function ElderProfile({ onElderSelected, onBack }: ElderProfilePr
     }
   };
 
+  const otpStatus = pendingConnection?.otp;
+  const isLocked = !!otpStatus?.lockedUntil && !isPast(otpStatus.lockedUntil, now);
+  const isExpired = !otpStatus?.expiresAt || isPast(otpStatus.expiresAt, now);
+  const canResend = !isLocked && (!otpStatus?.resendAvailableAt || isPast(otpStatus.resendAvailableAt, now));
+
+  const otpStatusText = !otpStatus
+    ? ''
+    : isLocked
+      ? `Too many attempts. Try again in ${formatRemaining(otpStatus.lockedUntil!, now)}.`
+      : isExpired
+        ? 'This code has expired. Request a new one.'
+        : `Code expires in ${formatRemaining(otpStatus.expiresAt!, now)} · ${otpStatus.attemptsLeft} attempt(s) left`;
+
   return (
-    <View style={[styles.container, { backgroundColor: '#F5F7FA' }]}>
+    <ScrollView ref={scrollRef} style={[styles.container, { backgroundColor: '#F5F7FA' }]}>
       {/* Header */}
       <View style={styles.header}>
         <TouchableOpacity 
@@ -289,46 +457,79 @@ export default function ElderProfile({ onElderSelected, onBack }: ElderProfilePr
 
         {/* Input Fields */}
         <View style={styles.inputSection}>
-          <TextInput 
-            style={styles.input} 
-            placeholder="Name" 
-            placeholderTextColor="#999"
-            value={elderName}
-            onChangeText={setElderName}
-          />
-          
           <View style={styles.phoneRow}>
             <TextInput 
               style={[styles.input, styles.phoneInput]} 
-              placeholder="Contact No." 
+              placeholder="Elder's Contact No." 
               placeholderTextColor="#999"
               value={elderPhone}
-              onChangeText={setElderPhone}
+              onChangeText={(text) => {
+                setElderPhone(text);
+                setSearchResult(null);
+              }}
               keyboardType="phone-pad"
+              editable={!pendingConnection}
             />
             <TouchableOpacity 
-              style={[styles.verifyButton, { backgroundColor: isVerifying ? '#CCC' : '#4A90E2' }]}
-              onPress={addElderProfile}
-              disabled={isVerifying}
+              style={[styles.verifyButton, { backgroundColor: isSearching || pendingConnection ? '#CCC' : '#4A90E2' }]}
+              onPress={findElder}
+              disabled={isSearching || !!pendingConnection}
             >
-              {isVerifying ? (
+              {isSearching ? (
                 <ActivityIndicator color="#FFF" size="small" />
               ) : (
-                <Text style={styles.verifyButtonText}>ADD</Text>
+                <Text style={styles.verifyButtonText}>FIND</Text>
               )}
             </TouchableOpacity>
           </View>
 
-          {showOtpField && (
-            <TextInput 
-              style={styles.input} 
-              placeholder="OTP" 
-              placeholderTextColor="#999"
-              value={otp}
-              onChangeText={setOtp}
-              keyboardType="numeric"
-              maxLength={4}
-            />
+          {searchResult && !pendingConnection && (
+            <View style={styles.searchResult}>
+              <Ionicons
+                name={searchResult.alreadyConnected ? 'checkmark-circle' : 'person-circle'}
+                size={36}
+                color={searchResult.alreadyConnected ? '#2ECC71' : '#4A90E2'}
+              />
+              <View style={styles.elderDetails}>
+                <Text style={styles.elderName}>{searchResult.elder.name}</Text>
+                <Text style={styles.elderPhone}>{searchResult.elder.contactNumber}</Text>
+                <Text style={styles.elderEmail}>
+                  {searchResult.alreadyConnected ? 'Already connected' : searchResult.elder.email}
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {pendingConnection && (
+            <View style={styles.otpSection}>
+              <Text style={styles.otpHint}>
+                Enter the code sent to {pendingConnection.elderName} ({pendingConnection.elderContactNumber})
+              </Text>
+              <TextInput 
+                style={[styles.input, styles.otpInput]} 
+                placeholder="OTP" 
+                placeholderTextColor="#999"
+                value={otp}
+                onChangeText={text => setOtp(text.replace(/\D/g, ''))}
+                keyboardType="number-pad"
+                maxLength={CODE_LENGTH}
+                editable={!isLocked && !isExpired}
+              />
+              {!!otpStatusText && (
+                <Text style={[styles.otpStatus, (isLocked || isExpired) && styles.otpStatusError]}>
+                  {otpStatusText}
+                </Text>
+              )}
+              <TouchableOpacity onPress={resendCode} disabled={!canResend || isResending}>
+                <Text style={[styles.resendText, (!canResend || isResending) && styles.resendTextDisabled]}>
+                  {isResending
+                    ? 'Sending...'
+                    : canResend || isLocked
+                      ? 'Resend code'
+                      : `Resend code in ${formatRemaining(otpStatus!.resendAvailableAt!, now)}`}
+                </Text>
+              </TouchableOpacity>
+            </View>
           )}
         </View>
 
@@ -341,24 +542,41 @@ export default function ElderProfile({ onElderSelected, onBack }: ElderProfilePr
             <Text style={styles.cancelButtonText}>CANCEL</Text>
           </TouchableOpacity>
           
-          <TouchableOpacity 
-            style={[styles.saveButton, { backgroundColor: isConnecting ? '#CCC' : '#4A90E2' }]}
-            onPress={connectToElder}
-            disabled={isConnecting}
-          >
-            {isConnecting ? (
-              <ActivityIndicator color="#FFF" size="small" />
-            ) : (
-              <Text style={styles.saveButtonText}>SAVE</Text>
-            )}
-          </TouchableOpacity>
+          {pendingConnection ? (
+            <TouchableOpacity 
+              style={[
+                styles.saveButton,
+                { backgroundColor: isVerifying || isLocked || isExpired || otp.length < CODE_LENGTH ? '#CCC' : '#4A90E2' }
+              ]}
+              onPress={verifyCode}
+              disabled={isVerifying || isLocked || isExpired}
+            >
+              {isVerifying ? (
+                <ActivityIndicator color="#FFF" size="small" />
+              ) : (
+                <Text style={styles.saveButtonText}>VERIFY</Text>
+              )}
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity 
+              style={[styles.saveButton, { backgroundColor: isConnecting || !searchResult ? '#CCC' : '#4A90E2' }]}
+              onPress={connectToElder}
+              disabled={isConnecting}
+            >
+              {isConnecting ? (
+                <ActivityIndicator color="#FFF" size="small" />
+              ) : (
+                <Text style={styles.saveButtonText}>CONNECT</Text>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
       {/* Connected Elders Section */}
       <View style={styles.connectedSection}>
         <Text style={styles.connectedTitle}>
-          Connected Elders ({connectedElders.length})
+          Connected Elders ({connections.length})
         </Text>
 
         {loading ? (
@@ -366,72 +584,184 @@ export default function ElderProfile({ onElderSelected, onBack }: ElderProfilePr
             <ActivityIndicator size="large" color="#4A90E2" />
             <Text style={styles.loadingText}>Loading connections...</Text>
           </View>
-        ) : connectedElders.length === 0 ? (
+        ) : connections.length === 0 ? (
           <View style={styles.emptyContainer}>
             <Ionicons name="people-outline" size={50} color="#999" />
             <Text style={styles.emptyText}>No connected elders yet</Text>
             <Text style={styles.emptySubtext}>
-              Add an elder to your monitoring list using the form above
+              Find an elder by phone number using the form above
             </Text>
           </View>
         ) : (
-          <FlatList
-            data={connectedElders}
-            keyExtractor={(item, index) => item.userId || `elder-${index}`}
-            renderItem={({ item }) => (
-              <View style={styles.elderCard}>
-                <View style={styles.elderInfo}>
-                  <Image 
-                    source={item.profileImage ? { uri: item.profileImage } : require('@/assets/images/profile.png')} 
-                    style={styles.elderImage} 
-                  />
-                  <View style={styles.elderDetails}>
-                    <Text style={styles.elderName}>{item.name}</Text>
-                    <Text style={styles.elderPhone}>{item.contactNumber}</Text>
-                    <Text style={styles.elderEmail}>{item.email}</Text>
+          connections.map(item => (
+            <View key={item.id} style={styles.elderCard}>
+              <View style={styles.elderInfo}>
+                <Image 
+                  source={require('@/assets/images/profile.png')} 
+                  style={styles.elderImage} 
+                />
+                <View style={styles.elderDetails}>
+                  <Text style={styles.elderName}>{item.elderName}</Text>
+                  <Text style={styles.elderPhone}>{item.elderContactNumber}</Text>
+                  <Text style={styles.elderEmail}>{item.elderEmail}</Text>
+                  {!!item.notes && <Text style={styles.elderNotes} numberOfLines={2}>{item.notes}</Text>}
+                </View>
+                {item.connectionStatus !== 'active' && (
+                  <View style={styles.statusBadge}>
+                    <Text style={styles.statusBadgeText}>
+                      {item.connectionStatus === 'inactive' ? 'PAUSED' : 'PENDING'}
+                    </Text>
                   </View>
+                )}
+              </View>
+              
+              <View style={styles.elderActions}>
+                <View style={styles.actionRow}>
+                  <TouchableOpacity 
+                    style={styles.actionButton}
+                    onPress={() => showElderDetails(item)}
+                  >
+                    <Ionicons name="information-circle" size={16} color="#FFF" />
+                    <Text style={styles.actionText}>Details</Text>
+                  </TouchableOpacity>
+                  
+                  <TouchableOpacity 
+                    style={[styles.actionButton, { backgroundColor: '#F5A623' }]}
+                    onPress={() => openEditor(item)}
+                  >
+                    <Ionicons name="create" size={16} color="#FFF" />
+                    <Text style={styles.actionText}>Edit</Text>
+                  </TouchableOpacity>
                 </View>
-                
-                <View style={styles.elderActions}>
-                  <View style={styles.actionRow}>
+
+                <View style={styles.actionRow}>
+                  {item.connectionStatus === 'pending' ? (
                     <TouchableOpacity 
-                      style={styles.actionButton}
-                      onPress={() => showElderDetails(item)}
+                      style={[styles.actionButton, { backgroundColor: '#4A90E2' }]}
+                      onPress={() => enterCode(item)}
                     >
-                      <Ionicons name="information-circle" size={16} color="#FFF" />
-                      <Text style={styles.actionText}>Details</Text>
+                      <Ionicons name="key" size={16} color="#FFF" />
+                      <Text style={styles.actionText}>Enter Code</Text>
                     </TouchableOpacity>
-                    
+                  ) : (
                     <TouchableOpacity 
-                      style={[styles.actionButton, { backgroundColor: '#4A90E2' }]}
-                      onPress={() => {
-                        const elderId = item.userId || item._id || item.id;
-                        selectElder(elderId, item.name);
-                      }}
+                      style={[
+                        styles.actionButton,
+                        { backgroundColor: item.connectionStatus !== 'active' ? '#CCC' : isActiveElder(item) ? '#2ECC71' : '#4A90E2' }
+                      ]}
+                      onPress={() => selectElder(item)}
                     >
-                      <Ionicons name="eye" size={16} color="#FFF" />
-                      <Text style={styles.actionText}>Monitor</Text>
+                      <Ionicons name={isActiveElder(item) ? 'checkmark-circle' : 'eye'} size={16} color="#FFF" />
+                      <Text style={styles.actionText}>{isActiveElder(item) ? 'Monitoring' : 'Monitor'}</Text>
                     </TouchableOpacity>
-                  </View>
+                  )}
                   
                   <TouchableOpacity 
                     style={[styles.actionButton, { backgroundColor: '#FF6B6B' }]}
-                    onPress={() => {
-                      const elderId = item.userId || item._id || item.id;
-                      removeElder(elderId);
-                    }}
+                    onPress={() => removeElder(item)}
                   >
                     <Ionicons name="close" size={16} color="#FFF" />
                     <Text style={styles.actionText}>Disconnect</Text>
                   </TouchableOpacity>
                 </View>
               </View>
-            )}
-            scrollEnabled={false}
-          />
+            </View>
+          ))
+        )}
+
+        {/* Profiles from before connections were kept on the server */}
+        {!loading && localProfiles.length > 0 && (
+          <>
+            <Text style={[styles.connectedTitle, styles.localTitle]}>
+              Saved on This Phone ({localProfiles.length})
+            </Text>
+            <Text style={styles.emptySubtext}>
+              These elders were added on this phone only. Tap Connect to send them a code; each profile stays here until the code is confirmed.
+            </Text>
+            {localProfiles.map(profile => (
+              <View key={profile.contactNumber} style={styles.elderCard}>
+                <View style={styles.elderInfo}>
+                  <View style={styles.elderDetails}>
+                    <Text style={styles.elderName}>{profile.name}</Text>
+                    <Text style={styles.elderPhone}>{profile.contactNumber}</Text>
+                  </View>
+                </View>
+                <View style={styles.actionRow}>
+                  <TouchableOpacity 
+                    style={[styles.actionButton, { backgroundColor: isConnecting ? '#CCC' : '#4A90E2' }]}
+                    onPress={() => connectLocalProfile(profile)}
+                    disabled={isConnecting}
+                  >
+                    <Ionicons name="link" size={16} color="#FFF" />
+                    <Text style={styles.actionText}>Connect</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={[styles.actionButton, { backgroundColor: '#FF6B6B' }]}
+                    onPress={() => removeLocalProfile(profile)}
+                  >
+                    <Ionicons name="trash" size={16} color="#FFF" />
+                    <Text style={styles.actionText}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </>
         )}
       </View>
-    </View>
+
+      {/* Edit Connection Modal */}
+      <Modal
+        visible={!!editingConnection}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setEditingConnection(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{editingConnection?.elderName}</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="Notes (e.g. allergies, doctor's contact)"
+              placeholderTextColor="#999"
+              value={editNotes}
+              onChangeText={setEditNotes}
+              multiline
+              maxLength={500}
+            />
+
+            {isSavingEdit ? (
+              <ActivityIndicator size="large" color="#4A90E2" />
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={[styles.saveButton, styles.modalButton, { backgroundColor: '#4A90E2' }]}
+                  onPress={() => saveConnection()}
+                >
+                  <Text style={styles.saveButtonText}>SAVE NOTES</Text>
+                </TouchableOpacity>
+                {/* Pending connections are activated by the elder's code, not resumed */}
+                {editingConnection?.connectionStatus !== 'pending' && (
+                  <TouchableOpacity
+                    style={[styles.saveButton, styles.modalButton, { backgroundColor: '#F5A623' }]}
+                    onPress={() => saveConnection(editingConnection?.connectionStatus === 'active' ? 'inactive' : 'active')}
+                  >
+                    <Text style={styles.saveButtonText}>
+                      {editingConnection?.connectionStatus === 'active' ? 'PAUSE MONITORING' : 'RESUME MONITORING'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={[styles.cancelButton, styles.modalButton]}
+                  onPress={() => setEditingConnection(null)}
+                >
+                  <Text style={styles.cancelButtonText}>CANCEL</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
   );
 }
 
@@ -648,4 +978,92 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFF',
   },
+  searchResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F5F7FA',
+  },
+  elderNotes: {
+    fontSize: 12,
+    marginTop: 4,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#F5A623',
+  },
+  statusBadgeText: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  otpSection: {
+    marginTop: 15,
+  },
+  otpHint: {
+    fontSize: 14,
+    marginBottom: 10,
+    color: '#666',
+  },
+  otpInput: {
+    fontSize: 22,
+    letterSpacing: 8,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  otpStatus: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 8,
+    color: '#666',
+  },
+  otpStatusError: {
+    color: '#FF6B6B',
+  },
+  resendText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: '#4A90E2',
+  },
+  resendTextDisabled: {
+    color: '#999',
+  },
+  localTitle: {
+    marginTop: 20,
+    marginBottom: 5,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: '#FFF',
+    borderRadius: 15,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    color: '#4A90E2',
+  },
+  notesInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  modalButton: {
+    flex: 0,
+    marginBottom: 10,
+  },
 });
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, FlatList, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useTheme } from '../context/ThemeContext';
+import { useActiveElder, ConnectedElder } from '../context/ActiveElderContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+
+// Shows which elder a caregiver is acting for and lets them switch; renders nothing for elders
+const ElderSwitcher: React.FC = () => {
+  const router = useRouter();
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const { activeElder, isCaregiver, connectedElders, isLoading, selectElder, reload } = useActiveElder();
+  const [pickerVisible, setPickerVisible] = useState(false);
+
+  if (!isCaregiver) return null;
+
+  const openPicker = () => {
+    reload();
+    setPickerVisible(true);
+  };
+
+  const handleSelect = async (elder: ConnectedElder) => {
+    try {
+      await selectElder(elder.id, elder.name);
+      setPickerVisible(false);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to switch elder');
+    }
+  };
+
+  const handleManage = () => {
+    setPickerVisible(false);
+    router.push('/EldersProf');
+  };
+
+  const label = isLoading && !activeElder
+    ? 'Loading...'
+    : activeElder?.name ?? (activeElder ? 'Unnamed elder' : 'No elder selected');
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.chip, { backgroundColor: theme.card, borderColor: activeElder ? theme.primary : theme.warning }]}
+        onPress={openPicker}
+      >
+        <Ionicons name="person-circle-outline" size={20} color={activeElder ? theme.primary : theme.warning} />
+        <Text style={[styles.chipLabel, { color: theme.textSecondary }]}>Caring for</Text>
+        <Text style={[styles.chipName, { color: theme.text }]} numberOfLines={1}>{label}</Text>
+        <Ionicons name="chevron-down" size={16} color={theme.textSecondary} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={pickerVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPickerVisible(false)}
+      >
+        <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={() => setPickerVisible(false)}>
+          <View style={[styles.sheet, { backgroundColor: theme.card }]}>
+            <Text style={[styles.sheetTitle, { color: theme.secondary }]}>Switch Elder</Text>
+            <FlatList
+              data={connectedElders}
+              keyExtractor={item => item.id}
+              ListEmptyComponent={
+                <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                  No connected elders yet
+                </Text>
+              }
+              renderItem={({ item }) => {
+                const isActive = item.id === activeElder?.id;
+                return (
+                  <TouchableOpacity
+                    style={[styles.elderRow, { borderColor: isActive ? theme.primary : theme.border }]}
+                    onPress={() => handleSelect(item)}
+                  >
+                    <View style={styles.elderInfo}>
+                      <Text style={[styles.elderName, { color: theme.text }]}>{item.name}</Text>
+                      <Text style={[styles.elderPhone, { color: theme.textSecondary }]}>{item.contactNumber}</Text>
+                    </View>
+                    {isActive && <Ionicons name="checkmark-circle" size={22} color={theme.primary} />}
+                  </TouchableOpacity>
+                );
+              }}
+            />
+            <TouchableOpacity style={[styles.manageButton, { backgroundColor: theme.primary }]} onPress={handleManage}>
+              <Ionicons name="people" size={18} color={theme.card} />
+              <Text style={[styles.manageText, { color: theme.card }]}>Manage Elders</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    maxWidth: '90%',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  chipLabel: {
+    fontSize: 12,
+  },
+  chipName: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  sheet: {
+    maxHeight: '70%',
+    borderRadius: 15,
+    padding: 20,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 15,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginVertical: 15,
+  },
+  elderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  elderInfo: {
+    flex: 1,
+  },
+  elderName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  elderPhone: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  manageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 10,
+    marginTop: 10,
+  },
+  manageText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default ElderSwitcher;
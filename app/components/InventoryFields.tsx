@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { RunOutProjection } from '../services/inventoryService';
+
+// Text values as typed; parsed with parseInventoryDraft on save
+export interface InventoryDraft {
+  pillCount: string;
+  pillsPerDose: string;
+}
+
+export const EMPTY_INVENTORY_DRAFT: InventoryDraft = { pillCount: '', pillsPerDose: '1' };
+
+// Whole numbers from a draft, or null when the pill count was left blank or is invalid
+export const parseInventoryDraft = (draft: InventoryDraft): { pillCount: number; pillsPerDose: number } | null => {
+  const pillCount = parseInt(draft.pillCount, 10);
+  const pillsPerDose = parseInt(draft.pillsPerDose, 10);
+  if (Number.isNaN(pillCount) || pillCount < 0 || Number.isNaN(pillsPerDose) || pillsPerDose < 1) return null;
+  return { pillCount, pillsPerDose };
+};
+
+interface InventoryFieldsProps {
+  value: InventoryDraft;
+  onChange: (draft: InventoryDraft) => void;
+  // Current projection for the container, shown under the inputs
+  projection?: RunOutProjection | null;
+}
+
+const InventoryFields: React.FC<InventoryFieldsProps> = ({ value, onChange, projection }) => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const inputStyle = [styles.input, { color: theme.text, borderColor: theme.border, backgroundColor: theme.background }];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Pills loaded</Text>
+          <TextInput
+            style={inputStyle}
+            value={value.pillCount}
+            onChangeText={pillCount => onChange({ ...value, pillCount: pillCount.replace(/[^0-9]/g, '') })}
+            keyboardType="number-pad"
+            placeholder="e.g. 30"
+            placeholderTextColor={theme.textSecondary}
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Pills per dose</Text>
+          <TextInput
+            style={inputStyle}
+            value={value.pillsPerDose}
+            onChangeText={pillsPerDose => onChange({ ...value, pillsPerDose: pillsPerDose.replace(/[^0-9]/g, '') })}
+            keyboardType="number-pad"
+            placeholder="1"
+            placeholderTextColor={theme.textSecondary}
+          />
+        </View>
+      </View>
+      {projection && (
+        <Text style={[styles.projection, { color: projection.lowStock ? theme.error : theme.textSecondary }]}>
+          {projection.pillCount} pill(s) left
+          {projection.runOutDate
+            ? `, runs out ${projection.runOutDate.toLocaleDateString()}`
+            : ', enough for the current schedule'}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  field: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+  },
+  projection: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+});
+
+export default InventoryFields;
@@ -3,12 +3,15 @@ import { View, Text, TouchableOpacity, StyleSheet, Animated } from 'react-native
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../context/ThemeContext';
 import { lightTheme, darkTheme } from '../styles/theme';
+import { SNOOZE_OPTIONS } from '../services/snoozeService';
 
 interface MedicationNotificationProps {
   medicineName: string;
   containerId: number;
   scheduledTime: string;
   onDismiss: () => void;
+  // Shown as snooze buttons when provided
+  onSnooze?: (minutes: number) => void;
 }
 
 const MedicationNotification: React.FC<MedicationNotificationProps> = ({
@@ -16,23 +19,30 @@ const MedicationNotification: React.FC<MedicationNotificationProps> = ({
   containerId,
   scheduledTime,
   onDismiss,
+  onSnooze,
 }) => {
   const [isVisible, setIsVisible] = useState(true);
   const fadeAnim = new Animated.Value(1);
   const { isDarkMode } = useTheme();
   const theme = isDarkMode ? darkTheme : lightTheme;
 
-  const handleDismiss = () => {
+  const fadeOut = (onDone: () => void) => {
     Animated.timing(fadeAnim, {
       toValue: 0,
       duration: 300,
       useNativeDriver: true,
     }).start(() => {
       setIsVisible(false);
-      onDismiss();
+      onDone();
     });
   };
 
+  const handleDismiss = () => fadeOut(onDismiss);
+
+  const handleSnooze = (minutes: number) => {
+    if (onSnooze) fadeOut(() => onSnooze(minutes));
+  };
+
   if (!isVisible) return null;
 
   return (
@@ -52,6 +62,20 @@ const MedicationNotification: React.FC<MedicationNotificationProps> = ({
         >
           <Text style={[styles.dismissText, { color: theme.card }]}>Done</Text>
         </TouchableOpacity>
+        {onSnooze && (
+          <View style={styles.snoozeRow}>
+            {SNOOZE_OPTIONS.map(minutes => (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.snoozeButton, { borderColor: theme.primary }]}
+                onPress={() => handleSnooze(minutes)}
+              >
+                <Ionicons name="alarm-outline" size={16} color={theme.primary} />
+                <Text style={[styles.snoozeText, { color: theme.primary }]}>{minutes} min</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </View>
     </Animated.View>
   );
@@ -104,6 +128,23 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 18,
   },
+  snoozeRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  snoozeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  snoozeText: {
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
 });
 
 export default MedicationNotification; 
\ No newline at end of file
@@ -0,0 +1,424 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, Modal, SectionList, ScrollView, ActivityIndicator, Alert, StyleSheet
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { useActiveElder } from '../context/ActiveElderContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { Medication, MedicationProposal, medicationsApi } from '../services/api';
+import { ApiError } from '../services/apiClient';
+import { searchMedications, describeMedication, recentMedications } from '../services/medicationSearch';
+
+type ProposalField = keyof MedicationProposal;
+
+const PROPOSAL_FIELDS: { key: ProposalField; label: string; placeholder: string }[] = [
+  { key: 'name', label: 'Name', placeholder: 'e.g. Metformin' },
+  { key: 'dosage', label: 'Dosage', placeholder: 'e.g. 500mg' },
+  { key: 'form', label: 'Form', placeholder: 'e.g. Tablet' },
+  { key: 'manufacturer', label: 'Manufacturer', placeholder: 'e.g. Generic' },
+  { key: 'description', label: 'Description', placeholder: 'What it is used for' },
+];
+
+const EMPTY_PROPOSAL: Required<MedicationProposal> = {
+  name: '',
+  description: '',
+  dosage: '',
+  form: '',
+  manufacturer: '',
+};
+
+// Prefer the first field error over the generic "Validation failed"
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) {
+    const fieldError = Array.isArray(error.data?.errors) ? error.data.errors[0]?.msg : undefined;
+    return typeof fieldError === 'string' && fieldError ? fieldError : error.message;
+  }
+  return fallback;
+};
+
+interface MedicationPickerProps {
+  visible: boolean;
+  medications: Medication[];
+  onSelect: (medication: Medication) => void;
+  onClose: () => void;
+  // Receives a caregiver's newly proposed entry so the screen can add it to its list
+  onProposed?: (medication: Medication) => void;
+  selectedName?: string | null;
+  title?: string;
+}
+
+// Searchable medication list shared by the schedule screens; caregivers can propose missing entries
+const MedicationPicker: React.FC<MedicationPickerProps> = ({
+  visible,
+  medications,
+  onSelect,
+  onClose,
+  onProposed,
+  selectedName,
+  title = 'Select a Medication',
+}) => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const { isCaregiver } = useActiveElder();
+
+  const [query, setQuery] = useState('');
+  const [recentIds, setRecentIds] = useState<number[]>([]);
+  const [isProposing, setIsProposing] = useState(false);
+  const [proposal, setProposal] = useState(EMPTY_PROPOSAL);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start every opening from a clean search with fresh recents
+  useEffect(() => {
+    if (!visible) return;
+    setQuery('');
+    setIsProposing(false);
+    recentMedications.list().then(setRecentIds);
+  }, [visible]);
+
+  const sections = useMemo(() => {
+    if (query.trim()) {
+      const matches = searchMedications(medications, query, recentIds).map(match => match.medication);
+      return matches.length ? [{ title: 'Best matches', data: matches }] : [];
+    }
+
+    const recent = recentIds
+      .map(medId => medications.find(medication => medication.medId === medId))
+      .filter((medication): medication is Medication => !!medication);
+    const all = [...medications].sort((a, b) => a.name.localeCompare(b.name));
+    return [
+      ...(recent.length ? [{ title: 'Recently used', data: recent }] : []),
+      { title: 'All medications', data: all },
+    ];
+  }, [medications, query, recentIds]);
+
+  const handleSelect = (medication: Medication) => {
+    recentMedications.record(medication.medId);
+    onSelect(medication);
+  };
+
+  const openProposal = () => {
+    setProposal({ ...EMPTY_PROPOSAL, name: query.trim() });
+    setIsProposing(true);
+  };
+
+  const handlePropose = async () => {
+    if (proposal.name.trim().length < 2) {
+      Alert.alert('Error', 'Please enter the medication name');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const medication = await medicationsApi.propose({
+        name: proposal.name.trim(),
+        description: proposal.description.trim(),
+        dosage: proposal.dosage.trim(),
+        form: proposal.form.trim(),
+        manufacturer: proposal.manufacturer.trim(),
+      });
+      onProposed?.(medication);
+      Alert.alert(
+        'Medication Proposed',
+        `${medication.name} can be scheduled right away. An admin will review it before it is offered to others.`
+      );
+      handleSelect(medication);
+    } catch (error) {
+      const existing: Medication | undefined = error instanceof ApiError && error.status === 409 ? error.data?.data : undefined;
+      if (existing) {
+        Alert.alert('Already in the Catalog', `${existing.name} ${existing.dosage ?? ''} is already available.`, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Use It', onPress: () => handleSelect(existing) },
+        ]);
+      } else {
+        Alert.alert('Error', errorMessage(error, 'Failed to propose the medication'));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderMedication = ({ item }: { item: Medication }) => {
+    const isSelected = !!selectedName && item.name === selectedName;
+    const details = describeMedication(item);
+    return (
+      <TouchableOpacity
+        onPress={() => handleSelect(item)}
+        style={[styles.item, {
+          borderBottomColor: theme.border,
+          backgroundColor: isSelected ? theme.background : 'transparent',
+        }]}
+      >
+        <View style={styles.itemText}>
+          <View style={styles.nameRow}>
+            <Text style={[styles.name, { color: theme.primary }]}>{item.name}</Text>
+            {item.status === 'pending' && (
+              <Text style={[styles.pendingBadge, { color: theme.warning, borderColor: theme.warning }]}>Pending review</Text>
+            )}
+          </View>
+          {!!details && <Text style={[styles.details, { color: theme.text }]}>{details}</Text>}
+          {!!item.description && (
+            <Text style={[styles.description, { color: theme.textSecondary }]} numberOfLines={2}>
+              {item.description}
+            </Text>
+          )}
+        </View>
+        {isSelected && <Ionicons name="checkmark-circle" size={22} color={theme.primary} />}
+      </TouchableOpacity>
+    );
+  };
+
+  const proposeLink = isCaregiver ? (
+    <TouchableOpacity style={styles.proposeLink} onPress={openProposal}>
+      <Ionicons name="add-circle-outline" size={20} color={theme.primary} />
+      <Text style={[styles.proposeLinkText, { color: theme.primary }]}>Can't find it? Propose a new medication</Text>
+    </TouchableOpacity>
+  ) : null;
+
+  const renderSearch = () => (
+    <>
+      <View style={[styles.searchBar, { backgroundColor: theme.background, borderColor: theme.border }]}>
+        <Ionicons name="search" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }]}
+          placeholder="Search name, dosage, form or maker"
+          placeholderTextColor={theme.textSecondary}
+          value={query}
+          onChangeText={setQuery}
+          autoCorrect={false}
+        />
+        {!!query && (
+          <TouchableOpacity onPress={() => setQuery('')}>
+            <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item._id}
+        renderItem={renderMedication}
+        renderSectionHeader={({ section }) => (
+          <Text style={[styles.sectionHeader, { color: theme.textSecondary, backgroundColor: theme.card }]}>
+            {section.title}
+          </Text>
+        )}
+        stickySectionHeadersEnabled
+        keyboardShouldPersistTaps="handled"
+        style={styles.list}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+            {medications.length ? `No medications match "${query.trim()}"` : 'No medications available'}
+          </Text>
+        }
+        ListFooterComponent={proposeLink}
+      />
+    </>
+  );
+
+  const renderProposal = () => (
+    <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+      <Text style={[styles.hint, { color: theme.textSecondary }]}>
+        You can schedule it right away. An admin reviews it before it is offered to others.
+      </Text>
+      {PROPOSAL_FIELDS.map(field => (
+        <View key={field.key}>
+          <Text style={[styles.label, { color: theme.textSecondary }]}>{field.label}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.background, borderColor: theme.border, color: theme.text }]}
+            placeholder={field.placeholder}
+            placeholderTextColor={theme.textSecondary}
+            value={proposal[field.key]}
+            onChangeText={text => setProposal(prev => ({ ...prev, [field.key]: text }))}
+            multiline={field.key === 'description'}
+          />
+        </View>
+      ))}
+      <TouchableOpacity
+        style={[styles.submitButton, { backgroundColor: isSubmitting ? theme.textSecondary : theme.primary }]}
+        onPress={handlePropose}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.submitButtonText}>Propose & Select</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <View style={styles.header}>
+            {isProposing && (
+              <TouchableOpacity style={styles.backButton} onPress={() => setIsProposing(false)}>
+                <Ionicons name="arrow-back" size={22} color={theme.text} />
+              </TouchableOpacity>
+            )}
+            <Text style={[styles.title, { color: theme.secondary }]}>
+              {isProposing ? 'Propose a Medication' : title}
+            </Text>
+          </View>
+
+          {isProposing ? renderProposal() : renderSearch()}
+
+          <TouchableOpacity
+            onPress={onClose}
+            style={[styles.cancelButton, { backgroundColor: theme.secondary }]}
+          >
+            <Text style={[styles.cancelButtonText, { color: theme.card }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  content: {
+    width: 350,
+    maxHeight: '85%',
+    padding: 20,
+    borderRadius: 15,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  backButton: {
+    position: 'absolute',
+    left: 0,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    height: 44,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 16,
+  },
+  list: {
+    maxHeight: 380,
+    width: '100%',
+  },
+  sectionHeader: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    paddingVertical: 6,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+  },
+  itemText: {
+    flex: 1,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  name: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  pendingBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    marginLeft: 6,
+  },
+  details: {
+    fontSize: 14,
+    marginTop: 2,
+    opacity: 0.8,
+  },
+  description: {
+    fontSize: 12,
+    marginTop: 2,
+    lineHeight: 16,
+  },
+  emptyText: {
+    textAlign: 'center',
+    fontSize: 15,
+    marginVertical: 20,
+  },
+  proposeLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+  },
+  proposeLinkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  hint: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  submitButton: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default MedicationPicker;
@@ -4,6 +4,8 @@ import { useTheme } from '../context/ThemeContext';
 import { lightTheme, darkTheme } from '../styles/theme';
 import MedicationNotification from './MedicationNotification';
 import { notificationService, NotificationData, TestAlarmData } from '../services/notificationService';
+import { doseEventService } from '../services/doseEventService';
+import { snoozeService } from '../services/snoozeService';
 
 interface NotificationManagerProps {
   visible: boolean;
@@ -40,6 +42,19 @@ const NotificationManager: React.FC<NotificationManagerProps> = ({
         return;
       }
 
+      // "Done" on a dose notification records the dose as taken
+      if (notificationData.doseKey && notificationData.scheduledDate && notificationData.scheduledTime) {
+        await doseEventService.recordTaken({
+          elderId: notificationData.elderId,
+          doseKey: notificationData.doseKey,
+          medicationName: notificationData.medicineName || notificationData.title,
+          containerId: notificationData.containerId || 1,
+          scheduledDate: notificationData.scheduledDate,
+          scheduledTime: notificationData.scheduledTime,
+          source: 'notification',
+        });
+      }
+
       // For real notifications, call the backend
       await notificationService.dismissNotification(notificationData.id);
       
@@ -59,6 +74,27 @@ const NotificationManager: React.FC<NotificationManagerProps> = ({
     }
   }, [notificationData, onClose, onNotificationDismissed]);
 
+  // Dose notifications can be put off; the alert comes back as a local reminder
+  const handleSnooze = useCallback(async (minutes: number) => {
+    if (!notificationData?.doseKey || !notificationData.scheduledDate || !notificationData.scheduledTime) return;
+    try {
+      await snoozeService.snooze({
+        reminderKey: notificationData.doseKey,
+        medicineName: notificationData.medicineName || notificationData.title,
+        containerId: notificationData.containerId || 1,
+        date: notificationData.scheduledDate,
+        time: notificationData.scheduledTime,
+        elderId: notificationData.elderId,
+      }, minutes);
+    } catch (error) {
+      console.error('Error snoozing notification:', error);
+    } finally {
+      onClose();
+    }
+  }, [notificationData, onClose]);
+
+  const canSnooze = !!notificationData?.doseKey && !!notificationData.scheduledDate && !!notificationData.scheduledTime;
+
   if (!visible) return null;
 
   return (
@@ -76,6 +112,7 @@ const NotificationManager: React.FC<NotificationManagerProps> = ({
               containerId={notificationData.containerId || 1}
               scheduledTime={notificationData.scheduledTime || '08:00 AM'}
               onDismiss={handleDismiss}
+              onSnooze={canSnooze ? handleSnooze : undefined}
             />
           ) : (
             <View style={styles.placeholder}>
@@ -0,0 +1,18 @@
+import React from 'react';
+import NotificationManager from './NotificationManager';
+import { usePushNotifications } from '../hooks/usePushNotifications';
+
+// App-wide outlet for foreground and opened push notifications
+const PushNotificationHost: React.FC = () => {
+  const { currentNotification, isModalVisible, closeNotification } = usePushNotifications();
+
+  return (
+    <NotificationManager
+      visible={isModalVisible}
+      onClose={closeNotification}
+      notificationData={currentNotification || undefined}
+    />
+  );
+};
+
+export default PushNotificationHost;
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { ScheduleFrequency } from '../services/api';
+import {
+  RecurrenceRule,
+  FREQUENCY_LABELS,
+  DAY_LABELS,
+  createRule,
+  changeFrequency,
+  describeRule,
+  validateRule,
+  combineDateTime,
+  parseDateKey,
+  toDateKey,
+  toTimeKey,
+} from '../services/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  // Offer "Once" (a single date + time chosen elsewhere)
+  allowOnce?: boolean;
+}
+
+type PickerTarget =
+  | { mode: 'time'; slotIndex: number }
+  | { mode: 'date'; field: 'startDate' | 'endDate' };
+
+const FREQUENCIES: ScheduleFrequency[] = ['daily', 'twice_daily', 'thrice_daily', 'weekly', 'custom'];
+
+// Slots can be added or removed freely only for weekly and custom rules
+const hasFlexibleSlots = (frequency: ScheduleFrequency) => frequency === 'weekly' || frequency === 'custom';
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, allowOnce = true }) => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const [picker, setPicker] = useState<PickerTarget | null>(null);
+
+  const selectFrequency = (frequency: ScheduleFrequency | null) => {
+    if (frequency === null) {
+      onChange(null);
+    } else {
+      onChange(value ? changeFrequency(value, frequency) : createRule(frequency));
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    if (!value) return;
+    const daysOfWeek = value.daysOfWeek.includes(day)
+      ? value.daysOfWeek.filter(existing => existing !== day)
+      : [...value.daysOfWeek, day].sort();
+    onChange({ ...value, daysOfWeek });
+  };
+
+  const addTimeSlot = () => {
+    if (!value) return;
+    const used = value.timeSlots.map(slot => slot.time);
+    const time = ['08:00', '12:00', '16:00', '20:00'].find(candidate => !used.includes(candidate)) ?? '09:00';
+    onChange({ ...value, timeSlots: [...value.timeSlots, { time, isActive: true }] });
+  };
+
+  const removeTimeSlot = (index: number) => {
+    if (!value) return;
+    onChange({ ...value, timeSlots: value.timeSlots.filter((_, slotIndex) => slotIndex !== index) });
+  };
+
+  const pickerValue = (): Date => {
+    if (!value || !picker) return new Date();
+    if (picker.mode === 'time') {
+      return combineDateTime(value.startDate, value.timeSlots[picker.slotIndex]?.time ?? '08:00') ?? new Date();
+    }
+    const current = value[picker.field];
+    return (current && parseDateKey(current)) || new Date();
+  };
+
+  const onPickerChange = (event: any, selected?: Date) => {
+    const target = picker;
+    setPicker(null);
+    if (!value || !target || !selected || (Platform.OS === 'android' && event?.type !== 'set')) return;
+
+    if (target.mode === 'time') {
+      const timeSlots = value.timeSlots.map((slot, index) =>
+        index === target.slotIndex ? { ...slot, time: toTimeKey(selected) } : slot
+      );
+      onChange({ ...value, timeSlots });
+    } else {
+      onChange({ ...value, [target.field]: toDateKey(selected) });
+    }
+  };
+
+  const error = value ? validateRule(value) : null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: theme.secondary }]}>Repeat</Text>
+      <View style={styles.chipRow}>
+        {allowOnce && (
+          <TouchableOpacity
+            style={[styles.chip, { borderColor: theme.primary }, !value && { backgroundColor: theme.primary }]}
+            onPress={() => selectFrequency(null)}
+          >
+            <Text style={[styles.chipText, { color: !value ? theme.card : theme.primary }]}>Once</Text>
+          </TouchableOpacity>
+        )}
+        {FREQUENCIES.map(frequency => {
+          const selected = value?.frequency === frequency;
+          return (
+            <TouchableOpacity
+              key={frequency}
+              style={[styles.chip, { borderColor: theme.primary }, selected && { backgroundColor: theme.primary }]}
+              onPress={() => selectFrequency(frequency)}
+            >
+              <Text style={[styles.chipText, { color: selected ? theme.card : theme.primary }]}>
+                {FREQUENCY_LABELS[frequency]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {value && (
+        <>
+          <Text style={[styles.label, { color: theme.secondary }]}>Times</Text>
+          <View style={styles.chipRow}>
+            {value.timeSlots.map((slot, index) => (
+              <View key={`${slot.time}_${index}`} style={[styles.timeChip, { backgroundColor: theme.background }]}>
+                <TouchableOpacity onPress={() => setPicker({ mode: 'time', slotIndex: index })}>
+                  <Text style={[styles.timeText, { color: theme.text }]}>{slot.time}</Text>
+                </TouchableOpacity>
+                {hasFlexibleSlots(value.frequency) && value.timeSlots.length > 1 && (
+                  <TouchableOpacity onPress={() => removeTimeSlot(index)} style={styles.removeTime}>
+                    <Ionicons name="close-circle" size={16} color={theme.error} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            {hasFlexibleSlots(value.frequency) && (
+              <TouchableOpacity style={[styles.timeChip, { backgroundColor: theme.background }]} onPress={addTimeSlot}>
+                <Ionicons name="add" size={16} color={theme.primary} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {hasFlexibleSlots(value.frequency) && (
+            <>
+              <Text style={[styles.label, { color: theme.secondary }]}>Days</Text>
+              <View style={styles.chipRow}>
+                {DAY_LABELS.map((label, day) => {
+                  const selected = value.daysOfWeek.includes(day);
+                  return (
+                    <TouchableOpacity
+                      key={label}
+                      style={[styles.dayChip, { borderColor: theme.primary }, selected && { backgroundColor: theme.primary }]}
+                      onPress={() => toggleDay(day)}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? theme.card : theme.primary }]}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <View style={styles.dateRow}>
+            <TouchableOpacity style={styles.dateField} onPress={() => setPicker({ mode: 'date', field: 'startDate' })}>
+              <Text style={[styles.dateLabel, { color: theme.textSecondary }]}>Starts</Text>
+              <Text style={[styles.dateValue, { color: theme.primary }]}>{value.startDate}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.dateField} onPress={() => setPicker({ mode: 'date', field: 'endDate' })}>
+              <Text style={[styles.dateLabel, { color: theme.textSecondary }]}>Ends</Text>
+              <Text style={[styles.dateValue, { color: theme.primary }]}>{value.endDate ?? 'No end date'}</Text>
+            </TouchableOpacity>
+            {value.endDate && (
+              <TouchableOpacity onPress={() => onChange({ ...value, endDate: null })}>
+                <Ionicons name="close-circle-outline" size={20} color={theme.textSecondary} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <Text style={[styles.summary, { color: error ? theme.error : theme.textSecondary }]}>
+            {error ?? describeRule(value)}
+          </Text>
+        </>
+      )}
+
+      {picker && (
+        <DateTimePicker
+          value={pickerValue()}
+          mode={picker.mode}
+          display="default"
+          onChange={onPickerChange}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 10,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  dayChip: {
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 5,
+    width: 40,
+    alignItems: 'center',
+  },
+  timeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  timeText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  removeTime: {
+    marginLeft: 6,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    gap: 15,
+  },
+  dateField: {
+    flex: 1,
+  },
+  dateLabel: {
+    fontSize: 12,
+  },
+  dateValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summary: {
+    fontSize: 12,
+    marginTop: 10,
+  },
+});
+
+export default RecurrenceEditor;
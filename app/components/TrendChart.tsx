@@ -0,0 +1,123 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { TrendPoint } from '../services/adherenceStats';
+
+interface TrendChartProps {
+  points: TrendPoint[];
+  height?: number;
+}
+
+// Show at most this many x-axis labels so long ranges stay readable
+const MAX_LABELS = 7;
+
+const TrendChart: React.FC<TrendChartProps> = ({ points, height = 140 }) => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const labelEvery = Math.max(1, Math.ceil(points.length / MAX_LABELS));
+
+  const barColor = (rate: number) => {
+    if (rate >= 80) return theme.success;
+    if (rate >= 50) return theme.warning;
+    return theme.error;
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chartRow}>
+        <View style={[styles.axis, { height }]}>
+          {['100%', '50%', '0%'].map(label => (
+            <Text key={label} style={[styles.axisText, { color: theme.textSecondary }]}>{label}</Text>
+          ))}
+        </View>
+        <View style={[styles.plot, { height, borderColor: theme.border }]}>
+          {points.map(point => (
+            <View key={point.key} style={styles.barSlot}>
+              {point.rate === null ? (
+                <View style={[styles.emptyBar, { backgroundColor: theme.border }]} />
+              ) : (
+                <View
+                  style={[
+                    styles.bar,
+                    { height: `${Math.max(point.rate, 2)}%`, backgroundColor: barColor(point.rate) },
+                  ]}
+                />
+              )}
+            </View>
+          ))}
+        </View>
+      </View>
+      <View style={styles.labelRow}>
+        {points
+          .filter((_, index) => index % labelEvery === 0)
+          .map((point, index) => (
+            <Text
+              key={point.key}
+              style={[
+                styles.labelText,
+                { color: theme.textSecondary, flex: Math.min(labelEvery, points.length - index * labelEvery) },
+              ]}
+              numberOfLines={1}
+            >
+              {point.label}
+            </Text>
+          ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  chartRow: {
+    flexDirection: 'row',
+  },
+  axis: {
+    justifyContent: 'space-between',
+    marginRight: 4,
+    width: 34,
+  },
+  axisText: {
+    fontSize: 10,
+    textAlign: 'right',
+  },
+  plot: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderLeftWidth: 1,
+    borderBottomWidth: 1,
+    paddingHorizontal: 2,
+  },
+  barSlot: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    paddingHorizontal: 1,
+  },
+  bar: {
+    width: '80%',
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  emptyBar: {
+    width: '80%',
+    height: 2,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    marginLeft: 40,
+    marginTop: 4,
+  },
+  labelText: {
+    fontSize: 9,
+    textAlign: 'left',
+  },
+});
+
+export default TrendChart;
@@ -0,0 +1,236 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext';
+import { lightTheme, darkTheme } from '../styles/theme';
+import { useUpcomingDoses } from '../hooks/useUpcomingDoses';
+import { formatCountdown, UpcomingDose } from '../services/upcomingDoses';
+
+interface UpcomingDosesProps {
+  // The elder whose doses are shown; null while unknown or none is selected
+  elderId: string | null;
+  // Shown instead of the list when there is no elder
+  noElderMessage?: string;
+  // How many doses to list
+  limit?: number;
+}
+
+// "Next doses" timeline for the coming 24 hours with quick take and skip actions
+const UpcomingDoses: React.FC<UpcomingDosesProps> = ({
+  elderId,
+  noElderMessage = 'No elder selected',
+  limit = 5,
+}) => {
+  const { isDarkMode } = useTheme();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const { doses, now, isLoading, error, busyKey, refresh, takeNow, skip } = useUpcomingDoses(elderId);
+
+  const handleAction = async (action: (dose: UpcomingDose) => Promise<void>, dose: UpcomingDose, label: string) => {
+    try {
+      await action(dose);
+    } catch (err) {
+      Alert.alert('Error', `Could not ${label} ${dose.medicationName}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const confirmSkip = (dose: UpcomingDose) => {
+    Alert.alert('Skip Dose', `Skip ${dose.medicationName} scheduled at ${dose.time}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Skip', style: 'destructive', onPress: () => handleAction(skip, dose, 'skip') },
+    ]);
+  };
+
+  const renderDose = (dose: UpcomingDose, index: number) => {
+    const isDue = dose.at.getTime() <= now.getTime();
+    const isBusy = busyKey === dose.doseKey;
+    return (
+      <View key={dose.doseKey} style={styles.doseRow}>
+        {/* Timeline rail */}
+        <View style={styles.rail}>
+          <View style={[styles.dot, { backgroundColor: isDue ? theme.warning : theme.primary }]} />
+          {index < Math.min(doses.length, limit) - 1 && <View style={[styles.line, { backgroundColor: theme.border }]} />}
+        </View>
+
+        <View style={[styles.doseCard, { backgroundColor: theme.background }]}>
+          <View style={styles.doseHeader}>
+            <Text style={[styles.time, { color: theme.text }]}>{dose.time}</Text>
+            <Text style={[styles.countdown, { color: isDue ? theme.warning : theme.textSecondary }]}>
+              {formatCountdown(dose.at, now)}
+            </Text>
+          </View>
+          <Text style={[styles.medication, { color: theme.text }]} numberOfLines={1}>
+            {dose.medicationName}{dose.dosage ? ` • ${dose.dosage}` : ''}
+          </Text>
+          <View style={styles.doseFooter}>
+            <View style={[styles.containerBadge, { borderColor: theme.primary }]}>
+              <Ionicons name="cube-outline" size={14} color={theme.primary} />
+              <Text style={[styles.containerText, { color: theme.primary }]}>Container {dose.containerId}</Text>
+            </View>
+            {isBusy ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, { borderColor: theme.textSecondary }]}
+                  onPress={() => confirmSkip(dose)}
+                >
+                  <Text style={[styles.actionText, { color: theme.textSecondary }]}>Skip</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: theme.success, borderColor: theme.success }]}
+                  onPress={() => handleAction(takeNow, dose, 'record')}
+                >
+                  <Text style={[styles.actionText, { color: theme.card }]}>Take now</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const renderBody = () => {
+    if (!elderId) {
+      return <Text style={[styles.message, { color: theme.textSecondary }]}>{noElderMessage}</Text>;
+    }
+    if (isLoading && doses.length === 0) {
+      return <ActivityIndicator style={styles.loader} color={theme.primary} />;
+    }
+    if (doses.length === 0) {
+      return (
+        <Text style={[styles.message, { color: error ? theme.error : theme.textSecondary }]}>
+          {error ?? 'No doses in the next 24 hours'}
+        </Text>
+      );
+    }
+    return doses.slice(0, limit).map(renderDose);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.card }]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.secondary }]}>NEXT DOSES</Text>
+        <TouchableOpacity onPress={refresh} disabled={!elderId || isLoading}>
+          <Ionicons name="refresh" size={20} color={theme.primary} />
+        </TouchableOpacity>
+      </View>
+      {renderBody()}
+      {doses.length > limit && (
+        <Text style={[styles.more, { color: theme.textSecondary }]}>
+          +{doses.length - limit} more in the next 24 hours
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '90%',
+    padding: 15,
+    borderRadius: 15,
+    marginVertical: 10,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  doseRow: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 14,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    marginTop: 2,
+  },
+  doseCard: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 8,
+    marginLeft: 6,
+  },
+  doseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  time: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  countdown: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  medication: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  doseFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  containerBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  containerText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 15,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  message: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginVertical: 10,
+  },
+  loader: {
+    marginVertical: 10,
+  },
+  more: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
+
+export default UpcomingDoses;
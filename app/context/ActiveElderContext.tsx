@@ -0,0 +1,139 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sessionManager } from '../services/sessionManager';
+import { connectionService } from '../services/connectionService';
+
+const ELDER_ID_KEY = 'selectedElderId';
+const ELDER_NAME_KEY = 'selectedElderName';
+
+export interface ActiveElder {
+  id: string;
+  name: string | null;
+}
+
+// An elder on the caregiver's monitoring list
+export interface ConnectedElder {
+  id: string;
+  name: string;
+  contactNumber: string;
+}
+
+interface ActiveElderContextType {
+  activeElder: ActiveElder | null;
+  // Caregivers pick the elder; elders always act for themselves
+  isCaregiver: boolean;
+  connectedElders: ConnectedElder[];
+  isLoading: boolean;
+  selectElder: (id: string, name: string) => Promise<void>;
+  clearElder: () => Promise<void>;
+  reload: () => Promise<void>;
+}
+
+const ActiveElderContext = createContext<ActiveElderContextType | undefined>(undefined);
+
+// Active connections on the server; phone-only profiles for those elders are no longer needed
+const loadConnectedElders = async (caregiverId: string): Promise<{ elders: ConnectedElder[]; renamed: Record<string, string> }> => {
+  const connections = await connectionService.getConnections('active');
+  const renamed = await connectionService.pruneConnectedProfiles(caregiverId, connections);
+  return {
+    elders: connections.map(connection => ({
+      id: connection.elderId,
+      name: connection.elderName,
+      contactNumber: connection.elderContactNumber,
+    })),
+    renamed,
+  };
+};
+
+export const ActiveElderProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [activeElder, setActiveElder] = useState<ActiveElder | null>(null);
+  const [isCaregiver, setIsCaregiver] = useState(false);
+  const [connectedElders, setConnectedElders] = useState<ConnectedElder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [role, userId] = await Promise.all([sessionManager.getRole(), sessionManager.getUserId()]);
+      const caregiver = role === 3;
+      setIsCaregiver(caregiver);
+
+      if (!caregiver || !userId) {
+        setConnectedElders([]);
+        setActiveElder(userId && !caregiver ? { id: userId, name: null } : null);
+        return;
+      }
+
+      const [{ elders, renamed }, storedId, name] = await Promise.all([
+        loadConnectedElders(userId),
+        AsyncStorage.getItem(ELDER_ID_KEY),
+        AsyncStorage.getItem(ELDER_NAME_KEY),
+      ]);
+      setConnectedElders(elders);
+      // A selected phone-only profile carries over to the elder account it was matched with
+      const id = storedId && renamed[storedId] ? renamed[storedId] : storedId;
+      if (id && id !== storedId) {
+        await AsyncStorage.setItem(ELDER_ID_KEY, id);
+      }
+      // A selection left by another account, or for an elder since disconnected, does not carry over
+      const connected = elders.find(elder => elder.id === id);
+      setActiveElder(connected ? { id: connected.id, name: connected.name || name } : null);
+    } catch (error) {
+      console.error('Error loading active elder:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return sessionManager.subscribe(event => {
+      if (event === 'started') {
+        reload();
+      } else if (event === 'signedOut' || event === 'expired') {
+        setActiveElder(null);
+        setConnectedElders([]);
+        setIsCaregiver(false);
+      }
+    });
+  }, [reload]);
+
+  const selectElder = async (id: string, name: string) => {
+    setActiveElder({ id, name });
+    try {
+      await AsyncStorage.multiSet([[ELDER_ID_KEY, id], [ELDER_NAME_KEY, name]]);
+    } catch (error) {
+      console.error('Error saving active elder:', error);
+      throw error;
+    }
+    // Pick up elders added since the last load
+    await reload();
+  };
+
+  const clearElder = async () => {
+    setActiveElder(null);
+    try {
+      await AsyncStorage.multiRemove([ELDER_ID_KEY, ELDER_NAME_KEY]);
+    } catch (error) {
+      console.error('Error clearing active elder:', error);
+    }
+  };
+
+  return (
+    <ActiveElderContext.Provider
+      value={{ activeElder, isCaregiver, connectedElders, isLoading, selectElder, clearElder, reload }}
+    >
+      {children}
+    </ActiveElderContext.Provider>
+  );
+};
+
+export const useActiveElder = () => {
+  const context = useContext(ActiveElderContext);
+  if (context === undefined) {
+    throw new Error('useActiveElder must be used within an ActiveElderProvider');
+  }
+  return context;
+};
+
+export default ActiveElderProvider;
@@ -1,12 +1,51 @@
-import { useState, useCallback } from 'react';
-import { notificationService, NotificationData, TestAlarmData } from '../services/notificationService';
+import { useState, useCallback, useRef } from 'react';
+import { notificationService, NotificationData, NotificationQuery, TestAlarmData, UpcomingReminder } from '../services/notificationService';
+import { PageResult } from '../services/api';
+import { usePagedList } from './usePagedList';
+
+const PAGE_SIZE = 20;
+
+// A page of notifications, with the unread count the server sends alongside it
+interface NotificationListPage extends PageResult<NotificationData> {
+  unreadCount: number;
+}
+
+// Later pages start after the last notification shown, so dismissing one does not skip or repeat others
+const fetchNotificationPage = async (
+  query: NotificationQuery,
+  page: number,
+  last?: NotificationData
+): Promise<NotificationListPage> => {
+  const result = await notificationService.getNotificationPage({ ...query, page, before: last?.id, limit: PAGE_SIZE });
+  return {
+    items: result.notifications,
+    page: result.page,
+    totalPages: Math.ceil(result.total / PAGE_SIZE),
+    total: result.total,
+    hasNext: result.hasMore,
+    unreadCount: result.unreadCount,
+  };
+};
+
+const notificationKey = (notification: NotificationData) => notification.id;
 
 export const useNotifications = () => {
-  const [notifications, setNotifications] = useState<NotificationData[]>([]);
   const [currentNotification, setCurrentNotification] = useState<NotificationData | null>(null);
   const [isModalVisible, setIsModalVisible] = useState(false);
+  // Loading and errors for actions outside the list itself
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  // Filters of the list; nothing is fetched until fetchNotifications sets them
+  const [query, setQuery] = useState<NotificationQuery | null>(null);
+  const list = usePagedList(fetchNotificationPage, query ?? {}, notificationKey, {
+    enabled: query !== null,
+    onPage: result => setUnreadCount(result.unreadCount),
+  });
+  const { items: notifications, updateItems, load, refresh } = list;
+  // Latest list, for actions that need to know what was shown before they change it
+  const notificationsRef = useRef(notifications);
+  notificationsRef.current = notifications;
 
   // Show a test alarm notification
   const showTestAlarm = useCallback(async (data: TestAlarmData = {}) => {
@@ -47,33 +86,66 @@ export const useNotifications = () => {
     setCurrentNotification(null);
   }, []);
 
-  // Dismiss a notification
+  // Dismiss a notification; it disappears right away and comes back if the server refuses
   const dismissNotification = useCallback(async (notificationId: string) => {
+    const removed = notificationsRef.current.find(n => n.id === notificationId);
+    updateItems(prev => prev.filter(n => n.id !== notificationId));
     try {
       await notificationService.dismissNotification(notificationId);
-      setNotifications(prev => prev.filter(n => n.id !== notificationId));
+      if (removed && !removed.isRead) setUnreadCount(count => Math.max(0, count - 1));
     } catch (error) {
       console.error('Error dismissing notification:', error);
+      setError('Failed to dismiss notification');
+      if (removed) {
+        updateItems(prev => [...prev, removed].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+      }
     }
-  }, []);
+  }, [updateItems]);
 
-  // Fetch all notifications
-  const fetchNotifications = useCallback(async (userId?: string) => {
+  // Mark a notification as read
+  const markAsRead = useCallback(async (notificationId: string) => {
+    const notification = notificationsRef.current.find(n => n.id === notificationId);
+    if (!notification || notification.isRead) return;
+
+    const readAt = new Date().toISOString();
+    updateItems(prev => prev.map(n => (n.id === notificationId ? { ...n, isRead: true, readAt } : n)));
+    setUnreadCount(count => Math.max(0, count - 1));
     try {
-      setIsLoading(true);
-      setError(null);
-      const fetchedNotifications = await notificationService.getNotifications(userId);
-      setNotifications(fetchedNotifications);
+      await notificationService.markAsRead(notificationId);
     } catch (error) {
-      console.error('Error fetching notifications:', error);
-      setError('Failed to fetch notifications');
-    } finally {
-      setIsLoading(false);
+      console.error('Error marking notification as read:', error);
     }
-  }, []);
+  }, [updateItems]);
+
+  // Mark every notification as read
+  const markAllAsRead = useCallback(async () => {
+    try {
+      await notificationService.markAllAsRead();
+      const readAt = new Date().toISOString();
+      updateItems(prev => prev.map(n => (n.isRead ? n : { ...n, isRead: true, readAt })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      setError('Failed to mark notifications as read');
+    }
+  }, [updateItems]);
+
+  // Fetch the first page of notifications; resolves once it has loaded, and asking again reloads it
+  const fetchNotifications = useCallback(async (userId?: string) => {
+    const next: NotificationQuery = { userId };
+    setError(null);
+    setQuery(next);
+    await load(next);
+  }, [load]);
+
+  // Pull-to-refresh: reload the first page with the same filters
+  const refreshNotifications = useCallback(async () => {
+    setError(null);
+    await refresh();
+  }, [refresh]);
 
   // Fetch upcoming reminders
-  const fetchUpcomingReminders = useCallback(async (userId?: string, hours: number = 24) => {
+  const fetchUpcomingReminders = useCallback(async (userId?: string, hours: number = 24): Promise<UpcomingReminder[]> => {
     try {
       setIsLoading(true);
       setError(null);
@@ -93,15 +165,23 @@ export const useNotifications = () => {
     notifications,
     currentNotification,
     isModalVisible,
-    isLoading,
-    error,
+    isLoading: isLoading || list.isLoading,
+    isRefreshing: list.isRefreshing,
+    isLoadingMore: list.isLoadingMore,
+    error: error ?? list.error,
+    hasMore: list.hasMore,
+    unreadCount,
     
     // Actions
     showTestAlarm,
     showNotification,
     closeNotification,
     dismissNotification,
+    markAsRead,
+    markAllAsRead,
     fetchNotifications,
+    refreshNotifications,
+    loadMoreNotifications: list.loadMore,
     fetchUpcomingReminders,
     
     // Computed
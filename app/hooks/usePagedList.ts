@@ -0,0 +1,123 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { PageResult } from '../services/api';
+
+export interface PagedListOptions<R> {
+  // Nothing is loaded until this is true (defaults to true)
+  enabled?: boolean;
+  // Sees every page that is shown, for extra fields such as counts
+  onPage?: (result: R) => void;
+}
+
+// Page through a server list; the first page reloads whenever the query changes
+export const usePagedList = <T, Q, R extends PageResult<T> = PageResult<T>>(
+  // `last` is the last item shown, for lists that page from it rather than by number
+  fetchPage: (query: Q, page: number, last?: T) => Promise<R>,
+  query: Q,
+  getKey: (item: T) => string,
+  { enabled = true, onPage }: PagedListOptions<R> = {}
+) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const queryKey = JSON.stringify(query);
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  // Filters the shown first page was loaded for, so a query loaded directly is not fetched twice
+  const loadedKeyRef = useRef<string | null>(null);
+  // Responses for a query that has since changed are dropped
+  const requestRef = useRef(0);
+  const onPageRef = useRef(onPage);
+  onPageRef.current = onPage;
+
+  // Load the first page, replacing whatever is shown
+  const loadFirstPage = useCallback(async (mode: 'load' | 'refresh') => {
+    const request = ++requestRef.current;
+    loadedKeyRef.current = JSON.stringify(queryRef.current);
+    setIsLoading(mode === 'load');
+    setIsRefreshing(mode === 'refresh');
+    setError(null);
+    try {
+      const result = await fetchPage(queryRef.current, 1);
+      if (request !== requestRef.current) return;
+      setItems(result.items);
+      setPage(result.page);
+      setHasMore(result.hasNext);
+      setTotal(result.total);
+      onPageRef.current?.(result);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      if (request === requestRef.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    if (enabled && loadedKeyRef.current !== queryKey) loadFirstPage('load');
+  }, [queryKey, enabled, loadFirstPage]);
+
+  // Load the first page for new filters now; resolves once it is shown or has failed
+  const load = useCallback((nextQuery: Q) => {
+    queryRef.current = nextQuery;
+    return loadFirstPage('load');
+  }, [loadFirstPage]);
+
+  // Append the next page when the list is scrolled to the end
+  const loadMore = useCallback(async () => {
+    if (!hasMore || isLoadingMore || isLoading || isRefreshing) return;
+    const request = requestRef.current;
+    try {
+      setIsLoadingMore(true);
+      const result = await fetchPage(queryRef.current, page + 1, items[items.length - 1]);
+      if (request !== requestRef.current) return;
+      // Edits shift later pages, so skip anything already shown
+      setItems(prev => {
+        const shown = new Set(prev.map(getKey));
+        return [...prev, ...result.items.filter(item => !shown.has(getKey(item)))];
+      });
+      setPage(result.page);
+      setHasMore(result.hasNext);
+      setTotal(result.total);
+      onPageRef.current?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [fetchPage, getKey, hasMore, isLoadingMore, isLoading, isRefreshing, page, items]);
+
+  // Show an item changed by an action without reloading the list
+  const replaceItem = useCallback((item: T) => {
+    setItems(prev => prev.map(existing => (getKey(existing) === getKey(item) ? item : existing)));
+  }, [getKey]);
+
+  // Apply a local change, such as an optimistic removal, without reloading the list
+  const updateItems = useCallback((update: (items: T[]) => T[]) => {
+    setItems(update);
+  }, []);
+
+  return {
+    items,
+    total,
+    hasMore,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    error,
+    load,
+    reload: useCallback(() => loadFirstPage('load'), [loadFirstPage]),
+    refresh: useCallback(() => loadFirstPage('refresh'), [loadFirstPage]),
+    loadMore,
+    replaceItem,
+    updateItems,
+  };
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { pillboxManager, PillboxState } from '../services/pillboxManager';
+import { PillboxDevice } from '../services/pillboxTransport';
+
+export const usePillbox = () => {
+  const [state, setState] = useState<PillboxState>(pillboxManager.getState());
+
+  useEffect(() => pillboxManager.subscribe(setState), []);
+
+  // Actions
+  const scan = useCallback(() => pillboxManager.scan(), []);
+  const stopScan = useCallback(() => pillboxManager.stopScan(), []);
+  const pair = useCallback((device: PillboxDevice) => pillboxManager.pair(device), []);
+  const forget = useCallback(() => pillboxManager.forget(), []);
+  const disconnect = useCallback(() => pillboxManager.disconnect(), []);
+  const reconnect = useCallback(() => pillboxManager.reconnect(), []);
+
+  return {
+    // State
+    ...state,
+
+    // Actions
+    scan,
+    stopScan,
+    pair,
+    forget,
+    disconnect,
+    reconnect,
+
+    // Computed
+    isPaired: state.device !== null,
+    isConnected: state.status === 'connected',
+    isScanning: state.status === 'scanning',
+  };
+};
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { pillboxManager } from '../services/pillboxManager';
+import {
+  compareSignal,
+  pillboxLocationService,
+  PillboxLastSeen,
+  SignalTrend,
+  smoothRssi,
+} from '../services/pillboxLocationService';
+import { usePillbox } from './usePillbox';
+
+const SAMPLE_INTERVAL_MS = 1500;
+const SMOOTHING_SAMPLES = 3;
+const BUZZ_SECONDS = 10;
+
+export const usePillboxLocator = () => {
+  const pillbox = usePillbox();
+  const [lastSeen, setLastSeen] = useState<PillboxLastSeen | null>(pillboxLocationService.getLastSeen());
+  const [signal, setSignal] = useState<number | null>(null);
+  const [trend, setTrend] = useState<SignalTrend>('steady');
+  const [isBuzzing, setIsBuzzing] = useState(false);
+  const buzzTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => pillboxLocationService.subscribe(setLastSeen), []);
+
+  // Sample signal strength while connected and compare against the last reading that moved
+  useEffect(() => {
+    if (!pillbox.isConnected) {
+      setSignal(null);
+      setTrend('steady');
+      return;
+    }
+
+    const samples: number[] = [];
+    let reference: number | null = null;
+    const timer = setInterval(async () => {
+      const rssi = await pillboxManager.readRssi();
+      if (rssi === null) return;
+
+      samples.push(rssi);
+      if (samples.length > SMOOTHING_SAMPLES) samples.shift();
+      const smoothed = smoothRssi(samples);
+      setSignal(smoothed);
+      if (samples.length < SMOOTHING_SAMPLES) return;
+
+      const next = compareSignal(reference, smoothed);
+      setTrend(next);
+      if (reference === null || next !== 'steady') reference = smoothed;
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [pillbox.isConnected]);
+
+  useEffect(() => () => {
+    if (buzzTimer.current) clearTimeout(buzzTimer.current);
+  }, []);
+
+  // Actions
+  const buzz = useCallback(async () => {
+    await pillboxManager.buzz(BUZZ_SECONDS);
+    setIsBuzzing(true);
+    if (buzzTimer.current) clearTimeout(buzzTimer.current);
+    buzzTimer.current = setTimeout(() => setIsBuzzing(false), BUZZ_SECONDS * 1000);
+  }, []);
+
+  const stopBuzz = useCallback(async () => {
+    if (buzzTimer.current) clearTimeout(buzzTimer.current);
+    setIsBuzzing(false);
+    await pillboxManager.buzz(0);
+  }, []);
+
+  const requestLocation = useCallback(() => pillboxLocationService.requestPermission(), []);
+
+  return {
+    // State
+    ...pillbox,
+    lastSeen,
+    signal,
+    trend,
+    isBuzzing,
+
+    // Actions
+    buzz,
+    stopBuzz,
+    requestLocation,
+  };
+};
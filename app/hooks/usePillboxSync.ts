@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ContainerSchedules } from '../services/monitorService';
+import { pillboxScheduleSync, ScheduleSyncStatuses } from '../services/pillboxScheduleSync';
+
+export const usePillboxSync = () => {
+  const [statuses, setStatuses] = useState<ScheduleSyncStatuses>(pillboxScheduleSync.getStatuses());
+
+  useEffect(() => pillboxScheduleSync.subscribe(setStatuses), []);
+
+  // Actions
+  const sync = useCallback(
+    (containerSchedules: ContainerSchedules) => pillboxScheduleSync.sync(containerSchedules),
+    [],
+  );
+
+  return {
+    // State
+    statuses,
+
+    // Actions
+    sync,
+
+    // Computed
+    isSyncing: Object.values(statuses).some(status => status.state === 'syncing'),
+  };
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { Alert } from 'react-native';
+import { pushService } from '../services/pushService';
+import { NotificationData } from '../services/notificationService';
+import { useNotifications } from './useNotifications';
+
+// Show incoming push notifications one at a time through the notification modal
+export const usePushNotifications = () => {
+  const { currentNotification, isModalVisible, showNotification, closeNotification } = useNotifications();
+  const [queue, setQueue] = useState<NotificationData[]>([]);
+
+  useEffect(() => {
+    return pushService.subscribe((notification) => {
+      // Connection codes are read out to the caregiver, not taken like a dose
+      if (notification.type === 'connection_request') {
+        Alert.alert(notification.title, notification.message);
+        return;
+      }
+      setQueue(prev => [...prev, notification]);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isModalVisible && queue.length > 0) {
+      showNotification(queue[0]);
+      setQueue(prev => prev.slice(1));
+    }
+  }, [queue, isModalVisible, showNotification]);
+
+  return {
+    // State
+    currentNotification,
+    isModalVisible,
+    queuedCount: queue.length,
+
+    // Actions
+    closeNotification,
+  };
+};
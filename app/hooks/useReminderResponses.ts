@@ -0,0 +1,56 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { useRouter } from 'expo-router';
+import { reminderService, isReminderPayload } from '../services/reminderService';
+import { LID_EVENT_NOTIFICATION_TYPE } from '../services/lidEventService';
+import { LOW_STOCK_NOTIFICATION_TYPE } from '../services/inventoryService';
+
+// Keep reminders scheduled and open the medication alert for the container a tapped reminder belongs to
+export const useReminderResponses = () => {
+  const router = useRouter();
+
+  useEffect(() => {
+    reminderService.configure().catch(error => {
+      console.error('Error configuring reminders:', error);
+    });
+
+    // Recurring schedules only keep a week of reminders queued; top them up on launch and resume
+    reminderService.refreshRecurring();
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') reminderService.refreshRecurring();
+    });
+
+    const openReminder = (response: Notifications.NotificationResponse | null) => {
+      const data = response?.notification.request.content.data;
+      // Pillbox and low-stock alerts are listed on the notifications screen
+      if (data?.type === LID_EVENT_NOTIFICATION_TYPE || data?.type === LOW_STOCK_NOTIFICATION_TYPE) {
+        router.push('/NotificationScreen');
+        return;
+      }
+      if (!isReminderPayload(data)) return;
+
+      router.push({
+        pathname: '/MedicationAlert',
+        params: {
+          medicineName: data.medicineName,
+          containerId: String(data.containerId),
+          scheduledTime: data.scheduledTime,
+          date: data.date,
+          reminderKey: data.reminderKey,
+        },
+      });
+    };
+
+    // The app may have been launched by tapping a reminder
+    Notifications.getLastNotificationResponseAsync()
+      .then(openReminder)
+      .catch(error => console.error('Error reading last notification response:', error));
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(openReminder);
+    return () => {
+      subscription.remove();
+      appStateSubscription.remove();
+    };
+  }, [router]);
+};
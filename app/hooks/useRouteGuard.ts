@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { useRouter, useSegments, useRootNavigationState } from 'expo-router';
+import { sessionManager } from '../services/sessionManager';
+import { getRouteRedirect } from '../services/routeAccess';
+
+interface GuardState {
+  loaded: boolean;
+  // Role of a signed-in user with a valid token; null when signed out
+  role: number | null;
+  // Set when the session just expired, so the login screen can say why
+  expired: boolean;
+}
+
+// Keep every screen behind the session: signed-out users go to login, others to screens their role may open
+export const useRouteGuard = () => {
+  const router = useRouter();
+  const segments = useSegments();
+  const navigationState = useRootNavigationState();
+  const [state, setState] = useState<GuardState>({ loaded: false, role: null, expired: false });
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [token, role] = await Promise.all([sessionManager.getToken(), sessionManager.getRole()]);
+        const isValid = !!token && !sessionManager.isExpired(token);
+        // An expiry reported while reading still needs its redirect
+        setState(prev => ({ loaded: true, role: isValid ? role : null, expired: !isValid && prev.expired }));
+      } catch (error) {
+        console.error('Error reading session for route guard:', error);
+        setState({ loaded: true, role: null, expired: false });
+      }
+    };
+
+    load();
+    return sessionManager.subscribe((event) => {
+      if (event === 'started') {
+        // Hold redirects until the new role is read, so the login screen's own navigation stands
+        setState(prev => ({ ...prev, loaded: false }));
+        load();
+      } else if (event === 'signedOut') {
+        setState({ loaded: true, role: null, expired: false });
+      } else if (event === 'expired') {
+        setState({ loaded: true, role: null, expired: true });
+      }
+    });
+  }, []);
+
+  const route: string = segments[0] ?? '';
+  const isNavigationReady = !!navigationState?.key;
+
+  useEffect(() => {
+    if (!state.loaded || !isNavigationReady) return;
+
+    if (state.expired) {
+      setState(prev => ({ ...prev, expired: false }));
+      router.replace({ pathname: '/LoginScreen', params: { sessionExpired: '1' } });
+      return;
+    }
+
+    const redirect = getRouteRedirect(route, state.role);
+    if (redirect) {
+      router.replace(redirect);
+    }
+  }, [state, route, isNavigationReady, router]);
+};
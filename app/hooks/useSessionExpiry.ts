@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { sessionManager } from '../services/sessionManager';
+
+// Keep the stored session fresh; useRouteGuard sends the user to login when it expires
+export const useSessionExpiry = () => {
+  useEffect(() => {
+    sessionManager.restore().catch(error => {
+      console.error('Error restoring session:', error);
+    });
+
+    // Timers do not run while backgrounded, so re-check on resume
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        sessionManager.restore().catch(error => {
+          console.error('Error restoring session:', error);
+        });
+      }
+    });
+
+    return () => {
+      appStateSubscription.remove();
+    };
+  }, []);
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { syncQueue, SyncConflict, OutboxEntry } from '../services/syncQueue';
+
+export const useSyncQueue = () => {
+  const [pending, setPending] = useState<OutboxEntry[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    return syncQueue.subscribe((state) => {
+      setPending(state.pending);
+      setConflicts(state.conflicts);
+      setIsSyncing(state.isSyncing);
+    });
+  }, []);
+
+  // Retry queued writes now
+  const syncNow = useCallback(() => syncQueue.flush(), []);
+
+  // Resolve a conflict by keeping the local or the server version
+  const resolveConflict = useCallback(
+    (entryId: string, resolution: 'keepLocal' | 'keepServer') => syncQueue.resolveConflict(entryId, resolution),
+    []
+  );
+
+  return {
+    pending,
+    conflicts,
+    isSyncing,
+    syncNow,
+    resolveConflict,
+    hasPending: pending.length > 0,
+    hasConflicts: conflicts.length > 0,
+  };
+};
@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { useNotifications } from './useNotifications';
+import { doseEventService, MISSED_AFTER_MS } from '../services/doseEventService';
+import { reminderService } from '../services/reminderService';
+import { mergeUpcomingDoses, UpcomingDose } from '../services/upcomingDoses';
+
+// Countdowns move on this often; the list itself is refetched less often
+const TICK_INTERVAL_MS = 15 * 1000;
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+export const useUpcomingDoses = (elderId: string | null, hours: number = 24) => {
+  const { fetchUpcomingReminders, isLoading, error } = useNotifications();
+  const [allDoses, setDoses] = useState<UpcomingDose[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!elderId) {
+      setDoses([]);
+      return;
+    }
+    const current = new Date();
+    const [reminders, history] = await Promise.all([
+      fetchUpcomingReminders(elderId, hours),
+      // Local schedules fill in when the backend has nothing or is unreachable
+      doseEventService
+        .loadHistory(elderId, current, new Date(current.getTime() + hours * 60 * 60 * 1000))
+        .catch(err => {
+          console.error('Error loading local schedules for upcoming doses:', err);
+          return null;
+        }),
+    ]);
+    setDoses(mergeUpcomingDoses(reminders, history?.rows ?? [], current, hours));
+  }, [elderId, hours, fetchUpcomingReminders]);
+
+  useEffect(() => {
+    refresh();
+    const tick = setInterval(() => setNow(new Date()), TICK_INTERVAL_MS);
+    const refetch = setInterval(refresh, REFRESH_INTERVAL_MS);
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        setNow(new Date());
+        refresh();
+      }
+    });
+    return () => {
+      clearInterval(tick);
+      clearInterval(refetch);
+      appStateSubscription.remove();
+    };
+  }, [refresh]);
+
+  // Doses taken or skipped anywhere in the app drop off the timeline straight away
+  useEffect(() => doseEventService.subscribe(event => {
+    if (event.status === 'snoozed') return;
+    setDoses(prev => prev.filter(dose => dose.doseKey !== event.doseKey));
+  }), []);
+
+  // Actions
+  const record = useCallback(async (dose: UpcomingDose, status: 'taken' | 'skipped') => {
+    if (!elderId) return;
+    try {
+      setBusyKey(dose.doseKey);
+      const input = {
+        elderId,
+        doseKey: dose.doseKey,
+        medicationName: dose.medicationName,
+        containerId: dose.containerId,
+        scheduledDate: dose.date,
+        scheduledTime: dose.time,
+        source: 'adherence' as const,
+      };
+      if (status === 'taken') {
+        await doseEventService.recordTaken(input);
+      } else {
+        await doseEventService.record({ ...input, status: 'skipped' });
+      }
+      // The reminder for it would otherwise still fire on this device
+      await reminderService.acknowledgeReminder(dose.doseKey);
+    } finally {
+      setBusyKey(null);
+    }
+  }, [elderId]);
+
+  const takeNow = useCallback((dose: UpcomingDose) => record(dose, 'taken'), [record]);
+  const skip = useCallback((dose: UpcomingDose) => record(dose, 'skipped'), [record]);
+
+  // Doses left untaken long enough count as missed and leave the timeline
+  const doses = allDoses.filter(dose => now.getTime() - dose.at.getTime() <= MISSED_AFTER_MS);
+
+  return {
+    // State
+    doses,
+    now,
+    isLoading,
+    error,
+    busyKey,
+
+    // Actions
+    refresh,
+    takeNow,
+    skip,
+
+    // Computed
+    nextDose: doses.find(dose => dose.at.getTime() >= now.getTime()) ?? null,
+  };
+};
@@ -0,0 +1,154 @@
+import { DoseRow } from './doseEventService';
+import { addDays, combineDateTime, parseDateKey, toDateKey } from './recurrence';
+
+// Pure adherence statistics over dose rows; no storage or network access
+
+export interface AdherenceSummary {
+  total: number;
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  pending: number;
+  // Share of due doses that were taken (on time or late), 0-100; null when nothing was due
+  rate: number | null;
+}
+
+export interface GroupSummary extends AdherenceSummary {
+  key: string;
+  label: string;
+}
+
+export interface TrendPoint {
+  key: string; // YYYY-MM-DD of the day or the week start
+  label: string;
+  rate: number | null;
+  due: number;
+}
+
+export interface StreakSummary {
+  // Consecutive fully-adherent days ending at the latest day with due doses
+  current: number;
+  longest: number;
+}
+
+export interface LatenessSummary {
+  // Average minutes after the scheduled time; negative means early on average
+  averageMinutes: number | null;
+  lateCount: number;
+  sampleSize: number;
+}
+
+export const isTakenStatus = (status: DoseRow['status']): boolean => status === 'taken' || status === 'late';
+
+export const summarize = (rows: DoseRow[]): AdherenceSummary => {
+  const summary = { total: rows.length, taken: 0, late: 0, skipped: 0, missed: 0, pending: 0 };
+  rows.forEach(row => {
+    summary[row.status]++;
+  });
+
+  const due = summary.total - summary.pending;
+  const rate = due > 0 ? Math.round(((summary.taken + summary.late) / due) * 100) : null;
+  return { ...summary, rate };
+};
+
+const groupBy = (rows: DoseRow[], getKey: (row: DoseRow) => string): Map<string, DoseRow[]> => {
+  const groups = new Map<string, DoseRow[]>();
+  rows.forEach(row => {
+    const key = getKey(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  return groups;
+};
+
+export const byMedication = (rows: DoseRow[]): GroupSummary[] =>
+  Array.from(groupBy(rows, row => row.medicationName))
+    .map(([key, group]) => ({ key, label: key, ...summarize(group) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+export const byContainer = (rows: DoseRow[]): GroupSummary[] =>
+  Array.from(groupBy(rows, row => String(row.containerId)))
+    .map(([key, group]) => ({ key, label: `Container ${key}`, ...summarize(group) }))
+    .sort((a, b) => Number(a.key) - Number(b.key));
+
+// Sunday that starts the week containing a date, matching the 0 = Sunday day numbering
+export const getWeekStart = (dateKey: string): string => {
+  const day = parseDateKey(dateKey);
+  if (!day) return dateKey;
+  return toDateKey(addDays(day, -day.getDay()));
+};
+
+export const byWeek = (rows: DoseRow[]): GroupSummary[] =>
+  Array.from(groupBy(rows, row => getWeekStart(row.date)))
+    .map(([key, group]) => ({ key, label: `Week of ${key}`, ...summarize(group) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+// Last `days` days ending on `end`, one point per day, including days without doses
+export const dailyTrend = (rows: DoseRow[], end: Date, days: number): TrendPoint[] => {
+  const groups = groupBy(rows, row => row.date);
+  return Array.from({ length: days }, (_, index) => {
+    const key = toDateKey(addDays(end, index - (days - 1)));
+    const summary = summarize(groups.get(key) || []);
+    return { key, label: key.slice(5), rate: summary.rate, due: summary.total - summary.pending };
+  });
+};
+
+// Weekly points covering the last `days` days ending on `end`
+export const weeklyTrend = (rows: DoseRow[], end: Date, days: number): TrendPoint[] => {
+  const groups = groupBy(rows, row => getWeekStart(row.date));
+  const first = getWeekStart(toDateKey(addDays(end, -(days - 1))));
+  const last = getWeekStart(toDateKey(end));
+  const points: TrendPoint[] = [];
+
+  for (let week = parseDateKey(first); week && toDateKey(week) <= last; week = addDays(week, 7)) {
+    const key = toDateKey(week);
+    const summary = summarize(groups.get(key) || []);
+    points.push({ key, label: key.slice(5), rate: summary.rate, due: summary.total - summary.pending });
+  }
+  return points;
+};
+
+// A day counts when it had due doses; it keeps the streak only if every due dose was taken
+export const getStreaks = (rows: DoseRow[]): StreakSummary => {
+  const days = Array.from(groupBy(rows.filter(row => row.status !== 'pending'), row => row.date))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, group]) => group.every(row => isTakenStatus(row.status)));
+
+  let longest = 0;
+  let running = 0;
+  days.forEach(adherent => {
+    running = adherent ? running + 1 : 0;
+    longest = Math.max(longest, running);
+  });
+
+  return { current: running, longest };
+};
+
+// How far taken doses were recorded from their scheduled time
+export const getLateness = (rows: DoseRow[]): LatenessSummary => {
+  const offsets = rows
+    .filter(row => isTakenStatus(row.status) && row.event)
+    .map(row => {
+      const scheduledAt = combineDateTime(row.date, row.time);
+      const takenAt = new Date(row.event!.recordedAt);
+      return scheduledAt && !Number.isNaN(takenAt.getTime())
+        ? (takenAt.getTime() - scheduledAt.getTime()) / 60000
+        : null;
+    })
+    .filter((offset): offset is number => offset !== null);
+
+  return {
+    averageMinutes: offsets.length > 0
+      ? Math.round(offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length)
+      : null,
+    lateCount: rows.filter(row => row.status === 'late').length,
+    sampleSize: offsets.length,
+  };
+};
+
+// Rows whose scheduled date falls within the last `days` days ending on `end`
+export const withinDays = (rows: DoseRow[], end: Date, days: number): DoseRow[] => {
+  const from = toDateKey(addDays(end, -(days - 1)));
+  const to = toDateKey(end);
+  return rows.filter(row => row.date >= from && row.date <= to);
+};
@@ -0,0 +1,217 @@
+import { apiClient } from './apiClient';
+import { Medication, PageResult, RoleId } from './api';
+import { ElderConnection, ConnectionStatus } from './connectionService';
+
+export type AccountStatus = 'active' | 'inactive' | 'all';
+
+export const ROLE_LABELS: Record<RoleId, string> = {
+  1: 'Admin',
+  2: 'Elder',
+  3: 'Caregiver',
+};
+
+// An account as the admin routes return it
+export interface AdminUser {
+  userId: string;
+  name: string;
+  email: string;
+  contactNumber: string;
+  role: RoleId;
+  age?: number | null;
+  isActive: boolean;
+  lastLogin?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type AdminUserUpdate = Partial<Pick<AdminUser, 'name' | 'email' | 'contactNumber' | 'role' | 'age' | 'isActive'>>;
+
+export interface UserQuery {
+  role?: RoleId;
+  search?: string;
+  status?: AccountStatus;
+  page?: number;
+  limit?: number;
+}
+
+// A connection with the caregiver's details, which connections do not store themselves
+export interface AdminConnection extends ElderConnection {
+  caregiverId: string;
+  caregiverName: string | null;
+  caregiverContactNumber: string | null;
+}
+
+export interface ConnectionQuery {
+  status?: ConnectionStatus | 'all';
+  // Connections where this user is the caregiver or the elder
+  userId?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export type MedicationInput = Partial<Pick<Medication, 'name' | 'description' | 'dosage' | 'form' | 'manufacturer' | 'isActive' | 'status'>>;
+
+interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  totalUsers?: number;
+  totalConnections?: number;
+  hasNext: boolean;
+}
+
+interface UsersResponse {
+  users: AdminUser[];
+  pagination: Pagination;
+}
+
+interface UserResponse {
+  message?: string;
+  user: AdminUser;
+}
+
+interface ConnectionsResponse {
+  connections: AdminConnection[];
+  pagination: Pagination;
+}
+
+interface MedicationResponse {
+  message?: string;
+  data: Medication;
+}
+
+const toPage = <T>(items: T[], pagination: Pagination, total: number | undefined): PageResult<T> => ({
+  items,
+  page: pagination.currentPage,
+  totalPages: pagination.totalPages,
+  total: total ?? items.length,
+  hasNext: pagination.hasNext,
+});
+
+// Admin console calls: accounts, the medications catalog and caregiver-elder connections
+class AdminService {
+  async listUsers(query: UserQuery = {}): Promise<PageResult<AdminUser>> {
+    try {
+      const data = await apiClient.get<UsersResponse>('/users', {
+        query: {
+          role: query.role,
+          search: query.search?.trim() || undefined,
+          status: query.status ?? 'active',
+          page: query.page ?? 1,
+          limit: query.limit ?? 20,
+        },
+        noCache: true,
+      });
+      return toPage(data.users ?? [], data.pagination, data.pagination.totalUsers);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      throw error;
+    }
+  }
+
+  async getUser(userId: string): Promise<AdminUser> {
+    try {
+      const data = await apiClient.get<UserResponse>(`/users/${userId}`, { noCache: true });
+      return data.user;
+    } catch (error) {
+      console.error('Error loading user:', error);
+      throw error;
+    }
+  }
+
+  async updateUser(userId: string, updates: AdminUserUpdate): Promise<AdminUser> {
+    try {
+      const data = await apiClient.put<UserResponse>(`/users/${userId}`, updates);
+      return data.user;
+    } catch (error) {
+      console.error('Error updating user:', error);
+      throw error;
+    }
+  }
+
+  // Soft delete: the account can no longer log in but keeps its data
+  async deactivateUser(userId: string): Promise<AdminUser> {
+    try {
+      const data = await apiClient.delete<UserResponse>(`/users/${userId}`);
+      return data.user;
+    } catch (error) {
+      console.error('Error deactivating user:', error);
+      throw error;
+    }
+  }
+
+  reactivateUser(userId: string): Promise<AdminUser> {
+    return this.updateUser(userId, { isActive: true });
+  }
+
+  async listConnections(query: ConnectionQuery = {}): Promise<PageResult<AdminConnection>> {
+    try {
+      const data = await apiClient.get<ConnectionsResponse>('/caregivers/admin/connections', {
+        query: {
+          status: query.status ?? 'all',
+          userId: query.userId,
+          search: query.search?.trim() || undefined,
+          page: query.page ?? 1,
+          limit: query.limit ?? 20,
+        },
+        noCache: true,
+      });
+      return toPage(data.connections ?? [], data.pagination, data.pagination.totalConnections);
+    } catch (error) {
+      console.error('Error loading connections:', error);
+      throw error;
+    }
+  }
+
+  // The whole catalog, retired entries and proposals included
+  async listMedications(): Promise<Medication[]> {
+    try {
+      const data = await apiClient.get<{ data?: Medication[] }>('/medications', {
+        query: { status: 'all' },
+        noCache: true,
+      });
+      return data.data ?? [];
+    } catch (error) {
+      console.error('Error loading medications:', error);
+      throw error;
+    }
+  }
+
+  async createMedication(input: MedicationInput): Promise<Medication> {
+    try {
+      const data = await apiClient.post<MedicationResponse>('/medications', input);
+      return data.data;
+    } catch (error) {
+      console.error('Error adding medication:', error);
+      throw error;
+    }
+  }
+
+  async updateMedication(medicationId: string, input: MedicationInput): Promise<Medication> {
+    try {
+      const data = await apiClient.put<MedicationResponse>(`/medications/${medicationId}`, input);
+      return data.data;
+    } catch (error) {
+      console.error('Error updating medication:', error);
+      throw error;
+    }
+  }
+
+  // Approving offers a caregiver's proposal to everyone; rejecting also retires it
+  reviewProposal(medicationId: string, approve: boolean): Promise<Medication> {
+    return this.updateMedication(medicationId, { status: approve ? 'approved' : 'rejected' });
+  }
+
+  // Retired medications stay on existing schedules but are no longer offered
+  async retireMedication(medicationId: string): Promise<Medication> {
+    try {
+      const data = await apiClient.delete<MedicationResponse>(`/medications/${medicationId}`);
+      return data.data;
+    } catch (error) {
+      console.error('Error retiring medication:', error);
+      throw error;
+    }
+  }
+}
+
+export const adminService = new AdminService();
@@ -0,0 +1,181 @@
+import { apiClient } from './apiClient';
+
+// Numeric role IDs used by the backend: 1=Admin, 2=Elder, 3=Caregiver
+export type RoleId = 1 | 2 | 3;
+
+export interface UserProfile {
+  _id?: string;
+  userId?: string;
+  id?: string | number;
+  name: string;
+  email: string;
+  contactNumber: string;
+  role: RoleId | number | string;
+  age?: number | null;
+  profileImage?: string | null;
+  isActive?: boolean;
+}
+
+export interface LoginResponse {
+  token?: string;
+  user?: UserProfile;
+  role?: number | string;
+  message?: string;
+}
+
+export interface RegisterPayload {
+  name: string;
+  email: string;
+  contactNumber: string;
+  password: string;
+  role: number;
+}
+
+export interface PasswordResetRequestResponse {
+  message: string;
+  // How long the code lasts and when another may be requested
+  expiresInSeconds: number;
+  resendAfterSeconds: number;
+}
+
+export interface PasswordResetConfirmPayload {
+  contactNumber: string;
+  code: string;
+  newPassword: string;
+}
+
+export interface Medication {
+  _id: string;
+  name: string;
+  description: string;
+  dosage: string;
+  form: string;
+  manufacturer: string;
+  createdAt: string;
+  updatedAt: string;
+  medId: number;
+  // False once retired from the catalog
+  isActive?: boolean;
+  // Caregiver proposals stay pending until an admin reviews them
+  status?: MedicationStatus;
+  proposedBy?: string | null;
+  __v: number;
+}
+
+export type MedicationStatus = 'approved' | 'pending' | 'rejected';
+
+export interface MedicationProposal {
+  name: string;
+  description?: string;
+  dosage?: string;
+  form?: string;
+  manufacturer?: string;
+}
+
+// Same values as the backend MedicationSchedule model
+export type ScheduleFrequency = 'daily' | 'twice_daily' | 'thrice_daily' | 'weekly' | 'custom';
+
+export interface TimeSlot {
+  time: string; // HH:MM
+  isActive?: boolean;
+}
+
+// A dose record as stored in /medication_schedules
+export interface ScheduleRecord {
+  scheduleId: number;
+  user: number;
+  medication: number;
+  container: number;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  status: string;
+  alertSent: boolean;
+  // Recurrence rule; without a frequency the record is a single dose at date + time
+  frequency?: ScheduleFrequency;
+  timeSlots?: TimeSlot[];
+  daysOfWeek?: number[]; // 0 = Sunday
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string | null; // null means ongoing
+  // Generated on the device when the record is first saved, so a replayed create can be matched
+  clientId?: string;
+}
+
+export interface MedicationSchedule extends ScheduleRecord {
+  _id: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// One page of a server list, as the paged screens show it
+export interface PageResult<T> {
+  items: T[];
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNext: boolean;
+}
+
+// Some endpoints return a bare array, others wrap it in { data }
+type ListResponse<T> = T[] | { data?: T[] };
+
+const unwrapList = <T>(response: ListResponse<T>): T[] => {
+  if (Array.isArray(response)) return response;
+  return response?.data || [];
+};
+
+export const usersApi = {
+  login(email: string, password: string): Promise<LoginResponse> {
+    return apiClient.post<LoginResponse>('/users/login', { email, password }, { auth: false });
+  },
+
+  register(payload: RegisterPayload): Promise<LoginResponse> {
+    return apiClient.post<LoginResponse>('/users/register', payload, { auth: false });
+  },
+
+  // The server texts the code; the reply is the same whether or not the number has an account
+  requestPasswordReset(contactNumber: string): Promise<PasswordResetRequestResponse> {
+    return apiClient.post<PasswordResetRequestResponse>(
+      '/users/password-reset/request',
+      { contactNumber: contactNumber.trim() },
+      { auth: false }
+    );
+  },
+
+  confirmPasswordReset(payload: PasswordResetConfirmPayload): Promise<{ message: string }> {
+    return apiClient.post<{ message: string }>('/users/password-reset/confirm', {
+      contactNumber: payload.contactNumber.trim(),
+      code: payload.code.trim(),
+      newPassword: payload.newPassword,
+    }, { auth: false });
+  },
+};
+
+export const medicationsApi = {
+  async list(): Promise<Medication[]> {
+    const response = await apiClient.get<ListResponse<Medication>>('/medications');
+    return unwrapList(response);
+  },
+
+  // Caregivers add a missing medication; a duplicate fails with 409 carrying the existing entry
+  async propose(proposal: MedicationProposal): Promise<Medication> {
+    const response = await apiClient.post<{ message?: string; data: Medication }>('/medications/proposals', proposal);
+    return response.data;
+  },
+};
+
+export const schedulesApi = {
+  async list(options: { noCache?: boolean } = {}): Promise<MedicationSchedule[]> {
+    const response = await apiClient.get<ListResponse<MedicationSchedule>>('/medication_schedules', {
+      noCache: options.noCache,
+    });
+    return unwrapList(response);
+  },
+
+  create(record: ScheduleRecord): Promise<MedicationSchedule> {
+    return apiClient.post<MedicationSchedule>('/medication_schedules', record);
+  },
+
+  update(id: string, record: ScheduleRecord): Promise<MedicationSchedule> {
+    return apiClient.put<MedicationSchedule>(`/medication_schedules/${id}`, record);
+  },
+};
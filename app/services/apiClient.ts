@@ -0,0 +1,237 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+
+const DEFAULT_API_BASE_URL = 'https://pillnow-database.onrender.com/api';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Send the stored token (default true)
+  auth?: boolean;
+  // Ask intermediaries not to serve a cached response
+  noCache?: boolean;
+}
+
+interface ApiClientOptions {
+  // Prefix placed before the token in the Authorization header
+  tokenPrefix?: string;
+}
+
+interface ApiExtraConfig {
+  apiBaseUrl?: string;
+}
+
+// Error raised for any non-2xx API response
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+}
+
+// Error raised when a 401 could not be recovered by refreshing the session
+export class SessionExpiredError extends ApiError {
+  constructor(message: string = 'Your session has expired. Please log in again.') {
+    super(message, 401);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+// Error raised when the request never reached the server
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Network request failed') {
+    super(message, 0);
+    this.name = 'NetworkError';
+  }
+}
+
+export interface AuthHandlers {
+  // Resolve the token to send with authenticated requests
+  getToken: () => Promise<string | null>;
+  // Called on a 401; resolve a fresh token to retry once, or null to give up
+  onUnauthorized: () => Promise<string | null>;
+  // Called when a retried request is still rejected
+  onSessionExpired: () => Promise<void>;
+}
+
+let authHandlers: AuthHandlers = {
+  getToken: () => AsyncStorage.getItem('token'),
+  onUnauthorized: async () => null,
+  onSessionExpired: async () => {},
+};
+
+// Let the session manager own token lookup and 401 recovery for every client
+export const setAuthHandlers = (handlers: AuthHandlers) => {
+  authHandlers = handlers;
+};
+
+// Read the API settings from app.json (expo.extra)
+const getExtraConfig = (): ApiExtraConfig => {
+  return (Constants.expoConfig?.extra as ApiExtraConfig | undefined) || {};
+};
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+export const getApiBaseUrl = (): string => {
+  return trimTrailingSlash(getExtraConfig().apiBaseUrl || DEFAULT_API_BASE_URL);
+};
+
+// Pull a readable message out of an error response body
+const extractErrorMessage = (data: any, status: number): string => {
+  if (data && typeof data === 'object') {
+    if (typeof data.message === 'string' && data.message) return data.message;
+    if (typeof data.error === 'string' && data.error) return data.error;
+  }
+  if (typeof data === 'string' && data.trim()) {
+    return `HTTP error! status: ${status} - ${data}`;
+  }
+  return `HTTP error! status: ${status}`;
+};
+
+export class ApiClient {
+  private baseUrl: string;
+  private tokenPrefix: string;
+
+  constructor(baseUrl: string, options: ApiClientOptions = {}) {
+    this.baseUrl = trimTrailingSlash(baseUrl);
+    this.tokenPrefix = options.tokenPrefix ?? 'Bearer ';
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // Build the full URL including query string
+  buildUrl(path: string, query?: Record<string, QueryValue>): string {
+    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+    let url = `${this.baseUrl}${normalizedPath}`;
+
+    if (query) {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, String(value));
+        }
+      });
+      const queryString = params.toString();
+      if (queryString) {
+        url += `${url.includes('?') ? '&' : '?'}${queryString}`;
+      }
+    }
+
+    return url;
+  }
+
+  // Build request headers, injecting the token when present
+  private buildHeaders(options: RequestOptions, token: string | null): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    };
+
+    if (options.noCache) {
+      headers['Cache-Control'] = 'no-cache';
+      headers['Pragma'] = 'no-cache';
+      headers['If-Modified-Since'] = '0';
+    }
+
+    if (token) {
+      headers['Authorization'] = `${this.tokenPrefix}${token.trim()}`;
+    }
+
+    return { ...headers, ...options.headers };
+  }
+
+  async request<T>(method: HttpMethod, path: string, options: RequestOptions = {}): Promise<T> {
+    const url = this.buildUrl(path, options.query);
+    const useAuth = options.auth !== false;
+
+    const token = useAuth ? await authHandlers.getToken() : null;
+    let response = await this.send(method, url, this.buildHeaders(options, token), options.body);
+
+    // Give the session one chance to recover (refresh) before failing
+    if (response.status === 401 && useAuth) {
+      const freshToken = await authHandlers.onUnauthorized();
+      if (!freshToken) {
+        throw new SessionExpiredError();
+      }
+      response = await this.send(method, url, this.buildHeaders(options, freshToken), options.body);
+      if (response.status === 401) {
+        await authHandlers.onSessionExpired();
+        throw new SessionExpiredError();
+      }
+    }
+
+    return this.parseResponse<T>(response);
+  }
+
+  private async send(method: HttpMethod, url: string, headers: Record<string, string>, body: unknown): Promise<Response> {
+    try {
+      return await fetch(url, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      throw new NetworkError(error instanceof Error ? error.message : undefined);
+    }
+  }
+
+  private async parseResponse<T>(response: Response): Promise<T> {
+    const text = await response.text();
+    let data: any = null;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = text;
+      }
+    }
+
+    if (!response.ok) {
+      throw new ApiError(extractErrorMessage(data, response.status), response.status, data);
+    }
+
+    return data as T;
+  }
+
+  get<T>(path: string, options?: Omit<RequestOptions, 'body'>): Promise<T> {
+    return this.request<T>('GET', path, options);
+  }
+
+  post<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('POST', path, { ...options, body });
+  }
+
+  put<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PUT', path, { ...options, body });
+  }
+
+  patch<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PATCH', path, { ...options, body });
+  }
+
+  delete<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('DELETE', path, options);
+  }
+}
+
+// Client for the PillNow API used across the app
+export const apiClient = new ApiClient(getApiBaseUrl());
+
+export default apiClient;
@@ -0,0 +1,266 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiClient, ApiError } from './apiClient';
+import { scheduleCache } from './scheduleCache';
+
+export type ConnectionStatus = 'active' | 'inactive' | 'pending';
+
+// Where a pending connection's code handshake stands; dates are ISO strings
+export interface OtpStatus {
+  expiresAt: string | null;
+  attemptsLeft: number;
+  resendAvailableAt: string | null;
+  lockedUntil: string | null;
+}
+
+// A caregiver–elder link as stored on the server
+export interface ElderConnection {
+  id: string;
+  elderId: string;
+  elderName: string;
+  elderContactNumber: string;
+  elderEmail: string;
+  elderAge?: number;
+  connectionStatus: ConnectionStatus;
+  connectedAt: string;
+  lastInteraction?: string;
+  verifiedAt?: string;
+  notes?: string;
+  // Only present while the connection waits for the elder's code
+  otp?: OtpStatus;
+}
+
+export interface ElderSearchResult {
+  elder: {
+    userId: string;
+    name: string;
+    contactNumber: string;
+    email: string;
+    age?: number;
+  };
+  alreadyConnected: boolean;
+}
+
+// Elder profile created on this phone before connections moved to the server
+export interface LocalElderProfile {
+  userId?: string;
+  _id?: string;
+  id?: string;
+  name: string;
+  email: string;
+  contactNumber: string;
+  role: number;
+}
+
+// What happened when the caregiver asked to move a phone-only profile to the server
+export type LocalProfileOutcome =
+  // Already an active connection; the local profile was removed
+  | { status: 'connected'; elderId: string }
+  // Waiting for the elder's code; sent is null when an earlier code is still valid
+  | { status: 'pending'; connection: ElderConnection; sent: CodeSentResult | null }
+  // No elder account uses the number yet
+  | { status: 'unmatched' };
+
+interface ConnectionsResponse {
+  connections: ElderConnection[];
+}
+
+interface ConnectionResponse {
+  message: string;
+  connection: ElderConnection;
+}
+
+// A code was (re)sent; delivered is false when neither push nor SMS went out
+export interface CodeSentResult {
+  message: string;
+  delivered: boolean;
+  connection: ElderConnection;
+}
+
+// A rejected code or send, with the handshake state the server reported
+export class ConnectionCodeError extends Error {
+  status: number;
+  otp?: OtpStatus;
+
+  constructor(message: string, status: number, otp?: OtpStatus) {
+    super(message);
+    this.name = 'ConnectionCodeError';
+    this.status = status;
+    this.otp = otp;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// Surface the server's code limits instead of a bare API error
+const toCodeError = (error: unknown): unknown => {
+  if (error instanceof ApiError && (error.status === 400 || error.status === 429) && error.data?.otp) {
+    return new ConnectionCodeError(error.message, error.status, error.data.otp);
+  }
+  return error;
+};
+
+const localProfilesKey = (caregiverId: string) => `caregiver_connections_${caregiverId}`;
+
+const localIdOf = (profile: LocalElderProfile) => profile.userId || profile._id || profile.id || profile.contactNumber;
+
+class ConnectionService {
+  // The caregiver's connections, served from the offline cache when the server is unreachable
+  async getConnections(status: ConnectionStatus | 'all' = 'active'): Promise<ElderConnection[]> {
+    try {
+      const fetchConnections = async () => {
+        const data = await apiClient.get<ConnectionsResponse>('/caregivers/connections', {
+          query: { status: 'all' },
+          noCache: true
+        });
+        return data.connections ?? [];
+      };
+      const { data } = await scheduleCache.fetchWithCache('connections', fetchConnections);
+      return status === 'all' ? data : data.filter(connection => connection.connectionStatus === status);
+    } catch (error) {
+      console.error('Error loading connections:', error);
+      throw error;
+    }
+  }
+
+  // Find an elder account by phone number; null when there is none
+  async searchElder(contactNumber: string): Promise<ElderSearchResult | null> {
+    try {
+      const data = await apiClient.get<ElderSearchResult>('/caregivers/search-elders', {
+        query: { contactNumber: contactNumber.trim() },
+        noCache: true
+      });
+      return { elder: data.elder, alreadyConnected: data.alreadyConnected };
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      console.error('Error searching for elder:', error);
+      throw error;
+    }
+  }
+
+  // Request a connection; it stays pending until the code sent to the elder is verified
+  async connect(contactNumber: string): Promise<CodeSentResult> {
+    try {
+      const data = await apiClient.post<CodeSentResult>('/caregivers/connect-elder', {
+        contactNumber: contactNumber.trim()
+      });
+      return { message: data.message, delivered: data.delivered, connection: data.connection };
+    } catch (error) {
+      console.error('Error connecting to elder:', error);
+      throw toCodeError(error);
+    }
+  }
+
+  async verifyCode(connectionId: string, code: string): Promise<ElderConnection> {
+    try {
+      const data = await apiClient.post<ConnectionResponse>(`/caregivers/connections/${connectionId}/verify`, {
+        code: code.trim()
+      });
+      return data.connection;
+    } catch (error) {
+      console.error('Error verifying connection code:', error);
+      throw toCodeError(error);
+    }
+  }
+
+  async resendCode(connectionId: string): Promise<CodeSentResult> {
+    try {
+      const data = await apiClient.post<CodeSentResult>(`/caregivers/connections/${connectionId}/resend-code`);
+      return { message: data.message, delivered: data.delivered, connection: data.connection };
+    } catch (error) {
+      console.error('Error resending connection code:', error);
+      throw toCodeError(error);
+    }
+  }
+
+  async updateConnection(
+    connectionId: string,
+    updates: { notes?: string; connectionStatus?: ConnectionStatus }
+  ): Promise<ElderConnection> {
+    try {
+      const data = await apiClient.put<ConnectionResponse>(`/caregivers/connections/${connectionId}`, updates);
+      return data.connection;
+    } catch (error) {
+      console.error('Error updating connection:', error);
+      throw error;
+    }
+  }
+
+  async removeConnection(connectionId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/caregivers/connections/${connectionId}`);
+    } catch (error) {
+      console.error('Error removing connection:', error);
+      throw error;
+    }
+  }
+
+  // Profiles still kept only on this phone
+  async getLocalProfiles(caregiverId: string): Promise<LocalElderProfile[]> {
+    try {
+      const stored = await AsyncStorage.getItem(localProfilesKey(caregiverId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading local elder profiles:', error);
+      return [];
+    }
+  }
+
+  async removeLocalProfile(caregiverId: string, contactNumber: string): Promise<void> {
+    const profiles = await this.getLocalProfiles(caregiverId);
+    await this.saveLocalProfiles(caregiverId, profiles.filter(profile => profile.contactNumber !== contactNumber));
+  }
+
+  // Request a connection for a phone-only profile when the caregiver asks; the profile stays on
+  // the phone until the elder's code is verified, since sending the code is not consent
+  async connectLocalProfile(caregiverId: string, profile: LocalElderProfile): Promise<LocalProfileOutcome> {
+    try {
+      const match = await this.searchElder(profile.contactNumber);
+      if (!match) return { status: 'unmatched' };
+
+      if (match.alreadyConnected) {
+        await this.removeLocalProfile(caregiverId, profile.contactNumber);
+        return { status: 'connected', elderId: match.elder.userId };
+      }
+
+      // A code already on its way is entered rather than requested again
+      const pending = (await this.getConnections('pending')).find(connection => connection.elderId === match.elder.userId);
+      const expiresAt = pending?.otp?.expiresAt;
+      if (pending && !(expiresAt && new Date(expiresAt).getTime() <= Date.now())) {
+        return { status: 'pending', connection: pending, sent: null };
+      }
+
+      const sent = await this.connect(profile.contactNumber);
+      return { status: 'pending', connection: sent.connection, sent };
+    } catch (error) {
+      console.error('Error connecting local elder profile:', error);
+      throw error;
+    }
+  }
+
+  // Drop phone-only profiles whose elder is now an active connection; returns local id -> elder id
+  async pruneConnectedProfiles(caregiverId: string, connections: ElderConnection[]): Promise<Record<string, string>> {
+    const profiles = await this.getLocalProfiles(caregiverId);
+    const connected: Record<string, string> = {};
+    const remaining = profiles.filter(profile => {
+      const connection = connections.find(
+        item => item.connectionStatus === 'active' && item.elderContactNumber === profile.contactNumber
+      );
+      if (connection) connected[localIdOf(profile)] = connection.elderId;
+      return !connection;
+    });
+
+    if (remaining.length !== profiles.length) {
+      await this.saveLocalProfiles(caregiverId, remaining);
+    }
+    return connected;
+  }
+
+  private async saveLocalProfiles(caregiverId: string, profiles: LocalElderProfile[]) {
+    if (profiles.length === 0) {
+      await AsyncStorage.removeItem(localProfilesKey(caregiverId));
+    } else {
+      await AsyncStorage.setItem(localProfilesKey(caregiverId), JSON.stringify(profiles));
+    }
+  }
+}
+
+export const connectionService = new ConnectionService();
@@ -0,0 +1,313 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiClient } from './apiClient';
+import { isOfflineError, scheduleCache } from './scheduleCache';
+import { sessionManager } from './sessionManager';
+import { Medication, MedicationSchedule, medicationsApi, schedulesApi } from './api';
+import { combineDateTime, expandSchedule, getDoseKey, toDateKey } from './recurrence';
+import { inventoryService } from './inventoryService';
+import { reminderService } from './reminderService';
+
+const OUTBOX_KEY = 'dose_event_outbox';
+
+// Taken more than this after the scheduled time counts as late
+export const LATE_AFTER_MS = 30 * 60 * 1000;
+// With no event this long after the scheduled time, a dose counts as missed
+export const MISSED_AFTER_MS = 60 * 60 * 1000;
+
+// 'snoozed' is interim: the reminder was put off and no outcome is known yet
+export type DoseStatus = 'taken' | 'skipped' | 'missed' | 'late' | 'snoozed';
+export type DoseEventSource = 'notification' | 'adherence' | 'device' | 'system';
+
+export interface DoseEventInput {
+  elderId?: string;
+  doseKey: string;
+  medicationName: string;
+  containerId: number;
+  scheduledDate: string; // YYYY-MM-DD
+  scheduledTime: string; // HH:MM
+  status: DoseStatus;
+  recordedAt?: string;
+  source?: DoseEventSource;
+  notes?: string;
+  // Sent while snoozing; the server keeps them when a later outcome is recorded
+  snoozeCount?: number;
+  escalatedAt?: string | null;
+  // The server alerts caregivers at this time if the dose is still snoozed
+  escalateAt?: string | null;
+}
+
+export interface DoseEvent extends DoseEventInput {
+  id?: string;
+  elderId: string;
+  recordedAt: string;
+  recordedBy?: string;
+  // Recorded offline and not yet accepted by the server
+  pending?: boolean;
+}
+
+type DoseEventListener = (event: DoseEvent) => void;
+
+export interface DoseHistoryResult {
+  events: DoseEvent[];
+  fromServer: boolean;
+}
+
+// One expected dose with its outcome; 'pending' means still within its window
+export interface DoseRow {
+  doseKey: string;
+  medicationName: string;
+  containerId: number;
+  date: string;
+  time: string;
+  status: Exclude<DoseStatus, 'snoozed'> | 'pending';
+  event?: DoseEvent;
+}
+
+// Everything needed to show or report an elder's doses over a period
+export interface DoseHistory {
+  rows: DoseRow[];
+  schedules: MedicationSchedule[];
+  medications: Medication[];
+  // When any of it came from the offline cache, the time it was saved
+  offlineSince: string | null;
+}
+
+// 'taken' inside the on-time window, 'late' after it
+export const classifyTaken = (scheduledDate: string, scheduledTime: string, takenAt: Date = new Date()): 'taken' | 'late' => {
+  const scheduledAt = combineDateTime(scheduledDate, scheduledTime);
+  if (!scheduledAt) return 'taken';
+  return takenAt.getTime() - scheduledAt.getTime() > LATE_AFTER_MS ? 'late' : 'taken';
+};
+
+// Merge expected doses with recorded events for a date range
+export const buildDoseRows = (
+  schedules: MedicationSchedule[],
+  events: DoseEvent[],
+  from: Date,
+  to: Date,
+  getMedicationName: (schedule: MedicationSchedule) => string,
+  now: Date = new Date()
+): DoseRow[] => {
+  const eventsByKey = new Map(events.map(event => [event.doseKey, event]));
+  const rows: DoseRow[] = [];
+
+  schedules.forEach(schedule => {
+    expandSchedule(schedule, from, to).forEach(occurrence => {
+      const doseKey = getDoseKey(schedule, occurrence);
+      const event = eventsByKey.get(doseKey);
+      eventsByKey.delete(doseKey);
+
+      const overdue = now.getTime() - occurrence.at.getTime() > MISSED_AFTER_MS;
+      const openStatus = overdue ? 'missed' : 'pending';
+      rows.push({
+        doseKey,
+        medicationName: getMedicationName(schedule),
+        containerId: schedule.container,
+        date: occurrence.date,
+        time: occurrence.time,
+        // A snoozed dose is still open until something else is recorded
+        status: !event || event.status === 'snoozed' ? openStatus : event.status,
+        event,
+      });
+    });
+  });
+
+  // Events whose schedule was since edited or removed still belong in the history
+  eventsByKey.forEach(event => {
+    rows.push({
+      doseKey: event.doseKey,
+      medicationName: event.medicationName,
+      containerId: event.containerId,
+      date: event.scheduledDate,
+      time: event.scheduledTime,
+      status: event.status === 'snoozed' ? 'missed' : event.status,
+      event,
+    });
+  });
+
+  return rows.sort((a, b) => `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`) || a.containerId - b.containerId);
+};
+
+class DoseEventService {
+  private basePath = '/dose-events';
+  private flushPromise: Promise<number> | null = null;
+  private outboxQueue: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<DoseEventListener>();
+
+  // Record the outcome of a dose; kept locally and retried when offline
+  async record(input: DoseEventInput): Promise<DoseEvent> {
+    const event: DoseEvent = {
+      ...input,
+      elderId: input.elderId ?? (await this.getCurrentUserId()),
+      recordedAt: input.recordedAt ?? new Date().toISOString(),
+      source: input.source ?? 'adherence',
+    };
+
+    this.listeners.forEach(listener => listener(event));
+
+    // A dose with an outcome is no longer waiting on its reminder, however it was recorded
+    if (event.status === 'taken' || event.status === 'late' || event.status === 'skipped') {
+      await reminderService.acknowledgeReminder(event.doseKey);
+    }
+
+    // Taking a dose uses up pills from its container
+    if (event.status === 'taken' || event.status === 'late') {
+      inventoryService.consume(event.elderId, event.containerId, event.doseKey)
+        .catch(error => console.error('Error updating pill inventory:', error));
+    }
+
+    try {
+      const result = await apiClient.post<{ event: DoseEvent }>(this.basePath, event);
+      return result.event;
+    } catch (error) {
+      if (!isOfflineError(error)) {
+        console.error('Error recording dose event:', error);
+        throw error;
+      }
+      await this.enqueue(event);
+      return { ...event, pending: true };
+    }
+  }
+
+  // Hear about every dose outcome recorded on this device
+  subscribe(listener: DoseEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Record a dose taken now, marked late when outside the on-time window
+  recordTaken(input: Omit<DoseEventInput, 'status'>): Promise<DoseEvent> {
+    return this.record({ ...input, status: classifyTaken(input.scheduledDate, input.scheduledTime) });
+  }
+
+  // Dose history for an elder; falls back to unsent local events when offline
+  async list(elderId: string, from: string, to: string): Promise<DoseHistoryResult> {
+    await this.flush();
+
+    const pending = (await this.getPending())
+      .filter(event => event.elderId === elderId && event.scheduledDate >= from && event.scheduledDate <= to)
+      .map(event => ({ ...event, pending: true }));
+
+    try {
+      const result = await apiClient.get<{ events?: DoseEvent[] }>(this.basePath, {
+        query: { elderId, from, to },
+        noCache: true,
+      });
+
+      // A local event still waiting to sync is newer than the server copy
+      const pendingKeys = new Set(pending.map(event => event.doseKey));
+      const serverEvents = (result.events || []).filter(event => !pendingKeys.has(event.doseKey));
+      return { events: [...serverEvents, ...pending], fromServer: true };
+    } catch (error) {
+      if (!isOfflineError(error)) {
+        console.error('Error fetching dose events:', error);
+        throw error;
+      }
+      console.warn('Dose history unavailable offline, showing local events:', error);
+      return { events: pending, fromServer: false };
+    }
+  }
+
+  // Expected doses for an elder between two moments, merged with their recorded outcomes
+  async loadHistory(elderId: string, from: Date, to: Date): Promise<DoseHistory> {
+    const [schedulesResult, medicationsResult, history] = await Promise.all([
+      scheduleCache.fetchWithCache('schedules', () => schedulesApi.list({ noCache: true })),
+      scheduleCache.fetchWithCache('medications', () => medicationsApi.list()),
+      this.list(elderId, toDateKey(from), toDateKey(to)),
+    ]);
+
+    const schedules = schedulesResult.data.filter(schedule => String(schedule.user) === elderId);
+    const medications = medicationsResult.data;
+    const medicationName = (schedule: MedicationSchedule) =>
+      medications.find(medication => medication.medId === schedule.medication)?.name ?? 'Medication';
+
+    return {
+      rows: buildDoseRows(schedules, history.events, from, to, medicationName),
+      schedules,
+      medications,
+      offlineSince: schedulesResult.fromCache
+        ? schedulesResult.cachedAt
+        : !history.fromServer ? new Date().toISOString() : null,
+    };
+  }
+
+  // Send events recorded offline; concurrent callers share one pass
+  flush(): Promise<number> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.performFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async performFlush(): Promise<number> {
+    const pending = await this.getPending();
+    if (pending.length === 0) return 0;
+    let sent = 0;
+    let handled = pending.length;
+
+    for (let index = 0; index < pending.length; index++) {
+      try {
+        await apiClient.post(this.basePath, pending[index]);
+        sent++;
+      } catch (error) {
+        if (isOfflineError(error)) {
+          handled = index;
+          break;
+        }
+        // The server rejected it; retrying will not help
+        console.error('Dose event rejected by server:', error);
+      }
+    }
+
+    // Drop what this pass handled; events recorded or replaced meanwhile stay queued
+    const done = new Set(pending.slice(0, handled).map(event => JSON.stringify(event)));
+    await this.updatePending(current => current.filter(event => !done.has(JSON.stringify(event))));
+    return sent;
+  }
+
+  private enqueue(event: DoseEvent) {
+    return this.updatePending(pending => {
+      const previous = pending.find(existing => existing.elderId === event.elderId && existing.doseKey === event.doseKey);
+      const others = pending.filter(existing => existing !== previous);
+      // Keep snooze details from an earlier unsent event, as the server would
+      return [...others, {
+        ...event,
+        snoozeCount: event.snoozeCount ?? previous?.snoozeCount,
+        escalatedAt: event.escalatedAt ?? previous?.escalatedAt,
+        escalateAt: event.escalateAt !== undefined ? event.escalateAt : previous?.escalateAt,
+      }];
+    });
+  }
+
+  // Read-modify-write of the outbox, one at a time
+  private updatePending(update: (pending: DoseEvent[]) => DoseEvent[]): Promise<void> {
+    const next = this.outboxQueue.then(async () => this.savePending(update(await this.getPending())));
+    this.outboxQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async getCurrentUserId(): Promise<string> {
+    const decoded = sessionManager.decode(await sessionManager.getToken());
+    return String(decoded?.userId ?? decoded?.id ?? '');
+  }
+
+  private async getPending(): Promise<DoseEvent[]> {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      return stored ? (JSON.parse(stored) as DoseEvent[]) : [];
+    } catch (error) {
+      console.error('Error reading dose event outbox:', error);
+      return [];
+    }
+  }
+
+  private async savePending(events: DoseEvent[]) {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(events));
+  }
+}
+
+export const doseEventService = new DoseEventService();
@@ -0,0 +1,211 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { MedicationSchedule, Medication } from './api';
+import { DoseHistory, DoseRow, doseEventService } from './doseEventService';
+import { combineDateTime, getRecurrenceRule, getScheduleKey, parseDateKey } from './recurrence';
+
+export type ExportFormat = 'schedules_csv' | 'doses_csv' | 'fhir';
+
+export interface ExportOptions {
+  elderId: string;
+  elderName: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const FHIR_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Quote a CSV field when needed (RFC 4180) and neutralise formula injection
+export const escapeCsvField = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+
+const findMedication = (medications: Medication[], schedule: MedicationSchedule) =>
+  medications.find(medication => medication.medId === schedule.medication);
+
+export const schedulesToCsv = (schedules: MedicationSchedule[], medications: Medication[]): string =>
+  toCsv(
+    ['schedule_id', 'container', 'medication', 'dosage', 'form', 'frequency', 'times', 'days_of_week', 'start_date', 'end_date', 'status'],
+    schedules.map(schedule => {
+      const medication = findMedication(medications, schedule);
+      const rule = getRecurrenceRule(schedule);
+      return [
+        getScheduleKey(schedule),
+        schedule.container,
+        medication?.name ?? '',
+        medication?.dosage ?? '',
+        medication?.form ?? '',
+        rule?.frequency ?? 'once',
+        rule ? rule.timeSlots.map(slot => slot.time).join(' ') : schedule.time,
+        rule ? rule.daysOfWeek.map(day => FHIR_DAYS[day]).join(' ') : '',
+        rule?.startDate ?? schedule.date,
+        rule ? rule.endDate ?? '' : schedule.date,
+        schedule.status,
+      ];
+    })
+  );
+
+export const doseRowsToCsv = (rows: DoseRow[]): string =>
+  toCsv(
+    ['dose_key', 'date', 'time', 'container', 'medication', 'status', 'recorded_at', 'source', 'notes'],
+    rows.map(row => [
+      row.doseKey,
+      row.date,
+      row.time,
+      row.containerId,
+      row.medicationName,
+      row.status,
+      row.event?.recordedAt ?? '',
+      row.event?.source ?? '',
+      row.event?.notes ?? '',
+    ])
+  );
+
+// FHIR ids allow only [A-Za-z0-9-.] up to 64 characters
+export const toFhirId = (value: string): string =>
+  value.replace(/[^A-Za-z0-9\-.]/g, '-').slice(0, 64) || 'unknown';
+
+const medicationConcept = (name: string, medication?: Medication) => ({
+  text: medication?.dosage ? `${name} ${medication.dosage}` : name,
+});
+
+const toFhirDateTime = (date: string, time: string): string | undefined =>
+  combineDateTime(date, time)?.toISOString();
+
+// A schedule that ended before the export period closed is reported as completed
+const statementFor = (schedule: MedicationSchedule, medications: Medication[], patientRef: string, asOf: string) => {
+  const medication = findMedication(medications, schedule);
+  const rule = getRecurrenceRule(schedule);
+  const start = rule?.startDate ?? schedule.date;
+  const end = rule ? rule.endDate : schedule.date;
+  const times = rule ? rule.timeSlots.filter(slot => slot.isActive !== false).map(slot => slot.time) : [schedule.time];
+
+  return {
+    resourceType: 'MedicationStatement',
+    id: toFhirId(`schedule-${getScheduleKey(schedule)}`),
+    status: end && end < asOf ? 'completed' : 'active',
+    medicationCodeableConcept: medicationConcept(medication?.name ?? 'Medication', medication),
+    subject: { reference: patientRef },
+    effectivePeriod: {
+      start,
+      ...(end ? { end } : {}),
+    },
+    dosage: [{
+      text: `Container ${schedule.container}`,
+      timing: {
+        repeat: rule
+          ? {
+              frequency: times.length,
+              period: 1,
+              periodUnit: 'd',
+              dayOfWeek: rule.daysOfWeek.map(day => FHIR_DAYS[day]),
+              timeOfDay: times.map(time => `${time}:00`),
+            }
+          : {
+              count: 1,
+              timeOfDay: [`${schedule.time}:00`],
+            },
+      },
+      ...(medication?.form ? { method: { text: medication.form } } : {}),
+    }],
+  };
+};
+
+// Only doses with an outcome become administrations; pending ones have not happened yet
+const administrationFor = (row: DoseRow, patientRef: string) => {
+  const taken = row.status === 'taken' || row.status === 'late';
+  const scheduledAt = toFhirDateTime(row.date, row.time);
+
+  return {
+    resourceType: 'MedicationAdministration',
+    id: toFhirId(`dose-${row.doseKey}`),
+    status: taken ? 'completed' : 'not-done',
+    ...(taken ? {} : { statusReason: [{ text: row.status === 'skipped' ? 'Skipped' : 'Missed' }] }),
+    medicationCodeableConcept: { text: row.medicationName },
+    subject: { reference: patientRef },
+    effectiveDateTime: taken && row.event ? row.event.recordedAt : scheduledAt,
+    note: [
+      { text: `Scheduled ${row.date} ${row.time}, container ${row.containerId}${row.status === 'late' ? ', taken late' : ''}` },
+      ...(row.event?.notes ? [{ text: row.event.notes }] : []),
+    ],
+  };
+};
+
+// HL7 FHIR R4 collection Bundle: the patient, one statement per schedule, one administration per recorded dose
+export const toFhirBundle = (options: ExportOptions, history: DoseHistory, generatedAt: Date = new Date()) => {
+  const patientId = toFhirId(`elder-${options.elderId}`);
+  const patientRef = `Patient/${patientId}`;
+
+  const resources = [
+    {
+      resourceType: 'Patient',
+      id: patientId,
+      identifier: [{ system: 'urn:pillnow:user', value: options.elderId }],
+      ...(options.elderName ? { name: [{ text: options.elderName }] } : {}),
+    },
+    ...history.schedules.map(schedule => statementFor(schedule, history.medications, patientRef, options.to)),
+    ...history.rows
+      .filter(row => row.status !== 'pending' && row.date >= options.from && row.date <= options.to)
+      .map(row => administrationFor(row, patientRef)),
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: generatedAt.toISOString(),
+    entry: resources.map(resource => ({ resource })),
+  };
+};
+
+const EXPORT_FILES: Record<ExportFormat, { suffix: string; mimeType: string; UTI: string; title: string }> = {
+  schedules_csv: { suffix: 'schedules.csv', mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', title: 'Medication schedules' },
+  doses_csv: { suffix: 'doses.csv', mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', title: 'Dose history' },
+  fhir: { suffix: 'fhir.json', mimeType: 'application/fhir+json', UTI: 'public.json', title: 'FHIR medication history' },
+};
+
+class ExportService {
+  // Write the export to a file and open the share sheet
+  async exportAndShare(format: ExportFormat, options: ExportOptions): Promise<string> {
+    try {
+      const from = parseDateKey(options.from);
+      const to = combineDateTime(options.to, '23:59');
+      if (!from || !to || from > to) {
+        throw new Error('Choose a valid date range');
+      }
+
+      const history = await doseEventService.loadHistory(options.elderId, from, to);
+      const contents = this.serialize(format, options, history);
+
+      const file = EXPORT_FILES[format];
+      const uri = `${FileSystem.cacheDirectory}pillnow_${toFhirId(options.elderId)}_${options.from}_${options.to}_${file.suffix}`;
+      await FileSystem.writeAsStringAsync(uri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+
+      await Sharing.shareAsync(uri, { mimeType: file.mimeType, dialogTitle: file.title, UTI: file.UTI });
+      return uri;
+    } catch (error) {
+      console.error('Error exporting medication history:', error);
+      throw error;
+    }
+  }
+
+  private serialize(format: ExportFormat, options: ExportOptions, history: DoseHistory): string {
+    switch (format) {
+      case 'schedules_csv':
+        return schedulesToCsv(history.schedules, history.medications);
+      case 'doses_csv':
+        return doseRowsToCsv(history.rows.filter(row => row.date >= options.from && row.date <= options.to));
+      case 'fhir':
+        return JSON.stringify(toFhirBundle(options, history), null, 2);
+    }
+  }
+}
+
+export const exportService = new ExportService();
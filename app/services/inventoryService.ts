@@ -0,0 +1,232 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { MedicationSchedule, ScheduleRecord, schedulesApi } from './api';
+import { scheduleCache } from './scheduleCache';
+import { addDays, expandSchedule } from './recurrence';
+
+const INVENTORY_KEY_PREFIX = 'container_inventory_';
+const ALERTS_KEY = 'low_stock_alerts';
+
+// Warn this many days before a container is projected to run out
+export const LOW_STOCK_DAYS = 3;
+export const LOW_STOCK_NOTIFICATION_TYPE = 'low_stock';
+
+// How far ahead doses are projected when looking for the run-out date
+const PROJECTION_DAYS = 180;
+// Dose keys kept per container to ignore a dose recorded twice
+const MAX_CONSUMED_KEYS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ContainerInventory {
+  containerId: number;
+  medicationName: string;
+  pillCount: number;
+  pillsPerDose: number;
+  updatedAt: string;
+  // Doses already deducted, so recording a dose again never double counts
+  consumedDoseKeys: string[];
+}
+
+export type InventoryState = Record<number, ContainerInventory>;
+
+export interface InventoryInput {
+  medicationName: string;
+  pillCount: number;
+  pillsPerDose: number;
+}
+
+export interface RunOutProjection {
+  containerId: number;
+  medicationName: string;
+  pillCount: number;
+  dosesLeft: number;
+  // First scheduled dose there will not be enough pills for; null when stock outlasts the schedule
+  runOutDate: Date | null;
+  daysLeft: number | null;
+  lowStock: boolean;
+}
+
+interface LowStockAlert {
+  notificationId: string | null;
+  runOutDate: string;
+  // Set once the warning has been shown, so it is not repeated for the same run-out date
+  notifiedAt: string | null;
+}
+
+// Work out when a container empties given its stock and the schedules drawing from it
+export const projectRunOut = (
+  inventory: ContainerInventory,
+  schedules: ScheduleRecord[],
+  now: Date = new Date(),
+  lowStockDays: number = LOW_STOCK_DAYS,
+): RunOutProjection => {
+  const dosesLeft = inventory.pillsPerDose > 0 ? Math.floor(inventory.pillCount / inventory.pillsPerDose) : 0;
+  const horizon = addDays(now, PROJECTION_DAYS);
+  const upcoming = schedules
+    .filter(schedule => Number(schedule.container) === inventory.containerId)
+    .flatMap(schedule => expandSchedule(schedule, now, horizon))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const runOutDate = upcoming.length > dosesLeft ? upcoming[dosesLeft].at : null;
+  const daysLeft = runOutDate ? Math.max(0, Math.ceil((runOutDate.getTime() - now.getTime()) / DAY_MS)) : null;
+
+  return {
+    containerId: inventory.containerId,
+    medicationName: inventory.medicationName,
+    pillCount: inventory.pillCount,
+    dosesLeft,
+    runOutDate,
+    daysLeft,
+    lowStock: daysLeft !== null && daysLeft <= lowStockDays,
+  };
+};
+
+// Notification text for a container running low
+export const describeLowStock = (projection: RunOutProjection): { title: string; message: string } => ({
+  title: 'MEDICINE RUNOUT',
+  message: projection.daysLeft === 0
+    ? `Container ${projection.containerId} (${projection.medicationName}) does not have enough pills for the next dose. Please refill it now.`
+    : `Container ${projection.containerId} (${projection.medicationName}) has ${projection.pillCount} pill(s) left and runs out ${projection.runOutDate!.toLocaleDateString()}. Please refill soon.`,
+});
+
+class InventoryService {
+  // One update chain per storage key, so doses recorded together never overwrite each other's deduction
+  private queues: Record<string, Promise<unknown>> = {};
+
+  // Pill stock per container for an elder
+  async getInventory(elderId: string): Promise<InventoryState> {
+    try {
+      const stored = await AsyncStorage.getItem(`${INVENTORY_KEY_PREFIX}${elderId}`);
+      return stored ? (JSON.parse(stored) as InventoryState) : {};
+    } catch (error) {
+      console.error('Error loading pill inventory:', error);
+      return {};
+    }
+  }
+
+  // Record the pills loaded into a container, e.g. after a refill
+  async setContainer(elderId: string, containerId: number, input: InventoryInput): Promise<void> {
+    await this.serialize(`${INVENTORY_KEY_PREFIX}${elderId}`, async () => {
+      const inventory = await this.getInventory(elderId);
+      inventory[containerId] = {
+        containerId,
+        medicationName: input.medicationName,
+        pillCount: Math.max(0, Math.floor(input.pillCount)),
+        pillsPerDose: Math.max(1, Math.floor(input.pillsPerDose)),
+        updatedAt: new Date().toISOString(),
+        consumedDoseKeys: [],
+      };
+      await this.save(elderId, inventory);
+    });
+    await this.refreshAlerts(elderId);
+  }
+
+  // Deduct one dose after it was taken; ignores containers nobody set a count for
+  async consume(elderId: string, containerId: number, doseKey: string): Promise<void> {
+    const consumed = await this.serialize(`${INVENTORY_KEY_PREFIX}${elderId}`, async () => {
+      const inventory = await this.getInventory(elderId);
+      const container = inventory[containerId];
+      if (!container || container.consumedDoseKeys.includes(doseKey)) return false;
+
+      inventory[containerId] = {
+        ...container,
+        pillCount: Math.max(0, container.pillCount - container.pillsPerDose),
+        updatedAt: new Date().toISOString(),
+        consumedDoseKeys: [...container.consumedDoseKeys, doseKey].slice(-MAX_CONSUMED_KEYS),
+      };
+      await this.save(elderId, inventory);
+      return true;
+    });
+    if (consumed) await this.refreshAlerts(elderId);
+  }
+
+  // Run-out projection for every container with a known count
+  async getProjections(elderId: string): Promise<RunOutProjection[]> {
+    const inventory = await this.getInventory(elderId);
+    if (Object.keys(inventory).length === 0) return [];
+
+    const schedules = await this.getSchedules(elderId);
+    const now = new Date();
+    return Object.values(inventory)
+      .map(container => projectRunOut(container, schedules, now))
+      .sort((a, b) => a.containerId - b.containerId);
+  }
+
+  // Schedule a low-stock warning N days before each container runs out, or show it now when already inside that window
+  refreshAlerts(elderId: string): Promise<void> {
+    return this.serialize(ALERTS_KEY, () => this.updateAlerts(elderId));
+  }
+
+  private async updateAlerts(elderId: string): Promise<void> {
+    try {
+      const projections = await this.getProjections(elderId);
+      const alerts = await this.getAlerts();
+      const now = Date.now();
+
+      for (let containerId = 1; containerId <= 3; containerId++) {
+        const key = `${elderId}_${containerId}`;
+        const previous = alerts[key];
+        const projection = projections.find(item => item.containerId === containerId);
+
+        if (previous?.notificationId) {
+          await Notifications.cancelScheduledNotificationAsync(previous.notificationId).catch(() => undefined);
+        }
+        if (!projection?.runOutDate) {
+          delete alerts[key];
+          continue;
+        }
+
+        const runOutDate = projection.runOutDate.toISOString();
+        const alreadyNotified = previous?.runOutDate === runOutDate && previous.notifiedAt !== null;
+        const alertAt = projection.runOutDate.getTime() - LOW_STOCK_DAYS * DAY_MS;
+        const { title, message } = describeLowStock(projection);
+        const content = { title, body: message, data: { type: LOW_STOCK_NOTIFICATION_TYPE, elderId, containerId } };
+
+        if (alertAt <= now) {
+          if (!alreadyNotified) {
+            await Notifications.scheduleNotificationAsync({ content, trigger: null });
+          }
+          const notifiedAt = alreadyNotified ? previous!.notifiedAt : new Date().toISOString();
+          alerts[key] = { notificationId: null, runOutDate, notifiedAt };
+        } else {
+          const notificationId = await Notifications.scheduleNotificationAsync({
+            content,
+            trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: new Date(alertAt) },
+          });
+          alerts[key] = { notificationId, runOutDate, notifiedAt: null };
+        }
+      }
+
+      await AsyncStorage.setItem(ALERTS_KEY, JSON.stringify(alerts));
+    } catch (error) {
+      console.error('Error refreshing low-stock alerts:', error);
+    }
+  }
+
+  private async getSchedules(elderId: string): Promise<MedicationSchedule[]> {
+    const { data } = await scheduleCache.fetchWithCache('schedules', () => schedulesApi.list());
+    return data.filter(schedule => String(schedule.user) === elderId);
+  }
+
+  private async getAlerts(): Promise<Record<string, LowStockAlert>> {
+    try {
+      const stored = await AsyncStorage.getItem(ALERTS_KEY);
+      return stored ? (JSON.parse(stored) as Record<string, LowStockAlert>) : {};
+    } catch (error) {
+      console.error('Error loading low-stock alerts:', error);
+      return {};
+    }
+  }
+
+  private serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const next = (this.queues[key] ?? Promise.resolve()).then(task);
+    this.queues[key] = next.catch(() => undefined);
+    return next;
+  }
+
+  private async save(elderId: string, inventory: InventoryState) {
+    await AsyncStorage.setItem(`${INVENTORY_KEY_PREFIX}${elderId}`, JSON.stringify(inventory));
+  }
+}
+
+export const inventoryService = new InventoryService();
@@ -0,0 +1,277 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { doseEventService, DoseRow } from './doseEventService';
+import { pillboxManager } from './pillboxManager';
+import { combineDateTime } from './recurrence';
+import { sessionManager } from './sessionManager';
+
+const LOG_KEY = 'lid_event_log';
+const SETTINGS_KEY = 'lid_event_settings';
+const MAX_LOG_ENTRIES = 50;
+
+export const LID_EVENT_NOTIFICATION_TYPE = 'lid_event';
+
+export interface LidMatchSettings {
+  // Opening the lid within this many minutes of the scheduled time counts as on time
+  windowMinutes: number;
+  // Openings further than this from any dose are not tied to one
+  maxOffsetMinutes: number;
+}
+
+export const DEFAULT_LID_MATCH_SETTINGS: LidMatchSettings = { windowMinutes: 30, maxOffsetMinutes: 180 };
+export const LID_WINDOW_OPTIONS = [15, 30, 60];
+
+export type LidEventOutcome = 'taken' | 'early' | 'late' | 'wrong_container' | 'unmatched';
+
+export interface LidMatch {
+  outcome: LidEventOutcome;
+  // The dose the opening was matched to, or the one due in another container
+  row: DoseRow | null;
+  // Minutes between the opening and the scheduled time; negative is early
+  offsetMinutes: number | null;
+}
+
+// One lid opening from the box and what it was matched to
+export interface LidEventRecord {
+  id: string;
+  elderId: string;
+  containerId: number;
+  openedAt: string;
+  outcome: LidEventOutcome;
+  doseKey: string | null;
+  medicationName: string | null;
+  scheduledDate: string | null;
+  scheduledTime: string | null;
+  // For wrong_container, where the due dose actually is
+  expectedContainerId: number | null;
+  offsetMinutes: number | null;
+  dismissed: boolean;
+}
+
+type LidEventListener = (log: LidEventRecord[]) => void;
+
+// Doses an opening may still settle: nothing recorded, a snooze, or only the automatic missed marker
+const isOpenDose = (row: DoseRow): boolean =>
+  !row.event || row.event.status === 'snoozed' || (row.event.status === 'missed' && row.event.source === 'system');
+
+const offsetFrom = (row: DoseRow, openedAt: Date): number | null => {
+  const scheduledAt = combineDateTime(row.date, row.time);
+  return scheduledAt ? Math.round((openedAt.getTime() - scheduledAt.getTime()) / 60000) : null;
+};
+
+// Match a lid opening against an elder's doses around that time
+export const matchLidEvent = (
+  containerId: number,
+  openedAt: Date,
+  rows: DoseRow[],
+  settings: LidMatchSettings = DEFAULT_LID_MATCH_SETTINGS,
+): LidMatch => {
+  const candidates = rows
+    .filter(isOpenDose)
+    .map(row => ({ row, offset: offsetFrom(row, openedAt) }))
+    .filter((candidate): candidate is { row: DoseRow; offset: number } =>
+      candidate.offset !== null && Math.abs(candidate.offset) <= settings.maxOffsetMinutes)
+    .sort((a, b) => Math.abs(a.offset) - Math.abs(b.offset));
+
+  const sameContainer = candidates.find(candidate => candidate.row.containerId === containerId);
+  if (sameContainer) {
+    const { row, offset } = sameContainer;
+    if (offset < -settings.windowMinutes) return { outcome: 'early', row, offsetMinutes: offset };
+    if (offset > settings.windowMinutes) return { outcome: 'late', row, offsetMinutes: offset };
+    return { outcome: 'taken', row, offsetMinutes: offset };
+  }
+
+  // Another container has a dose due right now, so the elder likely opened the wrong one
+  const dueElsewhere = candidates.find(candidate => Math.abs(candidate.offset) <= settings.windowMinutes);
+  if (dueElsewhere) {
+    return { outcome: 'wrong_container', row: dueElsewhere.row, offsetMinutes: dueElsewhere.offset };
+  }
+
+  return { outcome: 'unmatched', row: null, offsetMinutes: null };
+};
+
+// Title and message shown for a lid event in notifications
+export const describeLidEvent = (record: LidEventRecord): { title: string; message: string } => {
+  const medication = record.medicationName ?? 'medication';
+  const minutes = Math.abs(record.offsetMinutes ?? 0);
+  switch (record.outcome) {
+    case 'taken':
+      return { title: 'DOSE TAKEN', message: `${medication} from container ${record.containerId} was taken on time.` };
+    case 'early':
+      return {
+        title: 'DOSE TAKEN EARLY',
+        message: `Container ${record.containerId} was opened ${minutes} min before the ${record.scheduledTime} ${medication} dose.`,
+      };
+    case 'late':
+      return {
+        title: 'DOSE TAKEN LATE',
+        message: `Container ${record.containerId} was opened ${minutes} min after the ${record.scheduledTime} ${medication} dose.`,
+      };
+    case 'wrong_container':
+      return {
+        title: 'WRONG CONTAINER',
+        message: `Container ${record.containerId} was opened, but the ${record.scheduledTime} ${medication} dose is in container ${record.expectedContainerId}.`,
+      };
+    case 'unmatched':
+      return {
+        title: 'UNEXPECTED OPENING',
+        message: `Container ${record.containerId} was opened with no dose scheduled around ${new Date(record.openedAt).toLocaleTimeString()}.`,
+      };
+  }
+};
+
+class LidEventService {
+  private log: LidEventRecord[] = [];
+  private listeners = new Set<LidEventListener>();
+  private loaded: Promise<void> | null = null;
+  // Serializes ingestion so two quick openings never match the same dose
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Consume lid-open events from the pillbox; returns a cleanup function
+  start(): () => void {
+    this.load();
+    return pillboxManager.onMessage(message => {
+      if (message.type !== 'lidOpen') return;
+      this.ingest(message.containerId, new Date(message.openedAt)).catch(error =>
+        console.error('Error handling lid-open event:', error));
+    });
+  }
+
+  // Match one opening to a dose and record the outcome
+  ingest(containerId: number, openedAt: Date): Promise<LidEventRecord | null> {
+    const next = this.queue.then(() => this.process(containerId, openedAt));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  getLog(): LidEventRecord[] {
+    return this.log;
+  }
+
+  subscribe(listener: LidEventListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener(this.log));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Hide an event from the notification list
+  async dismiss(id: string): Promise<void> {
+    await this.load();
+    this.log = this.log.map(record => (record.id === id ? { ...record, dismissed: true } : record));
+    await this.save();
+  }
+
+  async getSettings(): Promise<LidMatchSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      return stored ? { ...DEFAULT_LID_MATCH_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LID_MATCH_SETTINGS;
+    } catch (error) {
+      console.error('Error loading lid event settings:', error);
+      return DEFAULT_LID_MATCH_SETTINGS;
+    }
+  }
+
+  async setSettings(update: Partial<LidMatchSettings>): Promise<LidMatchSettings> {
+    const settings = { ...(await this.getSettings()), ...update };
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    return settings;
+  }
+
+  private async process(containerId: number, openedAt: Date): Promise<LidEventRecord | null> {
+    await this.load();
+
+    // The box resends events it could not deliver, so the same opening may arrive twice
+    const id = `${containerId}-${openedAt.getTime()}`;
+    if (this.log.some(record => record.id === id)) return null;
+
+    const elderId = await sessionManager.getActiveElderId();
+    if (!elderId) {
+      console.warn('Ignoring lid-open event: no elder to record it for');
+      return null;
+    }
+
+    const settings = await this.getSettings();
+    const spanMs = settings.maxOffsetMinutes * 60000;
+    const history = await doseEventService.loadHistory(
+      elderId,
+      new Date(openedAt.getTime() - spanMs),
+      new Date(openedAt.getTime() + spanMs),
+    );
+    const match = matchLidEvent(containerId, openedAt, history.rows, settings);
+
+    if (match.row && match.outcome !== 'wrong_container' && match.outcome !== 'unmatched') {
+      await doseEventService.record({
+        elderId,
+        doseKey: match.row.doseKey,
+        medicationName: match.row.medicationName,
+        containerId: match.row.containerId,
+        scheduledDate: match.row.date,
+        scheduledTime: match.row.time,
+        status: match.outcome === 'late' ? 'late' : 'taken',
+        recordedAt: openedAt.toISOString(),
+        source: 'device',
+        notes: match.outcome === 'early' ? `Lid opened ${Math.abs(match.offsetMinutes!)} min early` : '',
+      });
+    }
+
+    const record: LidEventRecord = {
+      id,
+      elderId,
+      containerId,
+      openedAt: openedAt.toISOString(),
+      outcome: match.outcome,
+      doseKey: match.row?.doseKey ?? null,
+      medicationName: match.row?.medicationName ?? null,
+      scheduledDate: match.row?.date ?? null,
+      scheduledTime: match.row?.time ?? null,
+      expectedContainerId: match.outcome === 'wrong_container' ? match.row!.containerId : null,
+      offsetMinutes: match.offsetMinutes,
+      dismissed: false,
+    };
+
+    this.log = [record, ...this.log].slice(0, MAX_LOG_ENTRIES);
+    await this.save();
+
+    if (record.outcome === 'wrong_container') {
+      await this.alert(record);
+    }
+    return record;
+  }
+
+  // Tell the elder straight away so they can put the pills back
+  private async alert(record: LidEventRecord) {
+    try {
+      const { title, message } = describeLidEvent(record);
+      await Notifications.scheduleNotificationAsync({
+        content: { title, body: message, data: { type: LID_EVENT_NOTIFICATION_TYPE, id: record.id } },
+        trigger: null,
+      });
+    } catch (error) {
+      console.error('Error showing lid event alert:', error);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(LOG_KEY)
+        .then(stored => {
+          if (stored) this.log = JSON.parse(stored) as LidEventRecord[];
+        })
+        .catch(error => console.error('Error loading lid event log:', error));
+    }
+    return this.loaded;
+  }
+
+  private async save() {
+    this.listeners.forEach(listener => listener(this.log));
+    try {
+      await AsyncStorage.setItem(LOG_KEY, JSON.stringify(this.log));
+    } catch (error) {
+      console.error('Error saving lid event log:', error);
+    }
+  }
+}
+
+export const lidEventService = new LidEventService();
@@ -0,0 +1,153 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Medication } from './api';
+import { sessionManager } from './sessionManager';
+
+const RECENTS_KEY_PREFIX = 'recent_medications_';
+const MAX_RECENTS = 8;
+
+// How much a match in each field counts towards the ranking
+const FIELD_WEIGHTS = {
+  name: 3,
+  dosage: 1.5,
+  form: 1.5,
+  manufacturer: 1.5,
+  description: 0.5,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+export interface MedicationMatch {
+  medication: Medication;
+  score: number;
+}
+
+// Lowercase, drop accents and punctuation so "Co-Amoxiclav" matches "co amoxiclav"
+const normalize = (text: string | undefined | null): string =>
+  (text ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Edit distance, giving up once it exceeds max
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Whether the token's letters appear in order, e.g. "amxcln" in "amoxicillin"
+const isSubsequence = (token: string, text: string): boolean => {
+  let index = 0;
+  for (const char of text) {
+    if (char === token[index]) index++;
+    if (index === token.length) return true;
+  }
+  return false;
+};
+
+// How well one query token matches one field, 0 for no match
+const matchToken = (token: string, field: string, fuzzy: boolean): number => {
+  if (!field) return 0;
+  const words = field.split(' ');
+  if (words.includes(token)) return 4;
+  if (words.some(word => word.startsWith(token))) return 3;
+  if (field.includes(token)) return 2;
+  if (!fuzzy) return 0;
+
+  // Tolerate typos, more of them in longer words; compare prefixes so half-typed words still match
+  const maxTypos = token.length >= 7 ? 2 : token.length >= 4 ? 1 : 0;
+  if (maxTypos && words.some(word =>
+    editDistance(token, word, maxTypos) <= maxTypos ||
+    editDistance(token, word.slice(0, token.length), maxTypos) <= maxTypos
+  )) {
+    return 1.5;
+  }
+  if (token.length >= 3 && isSubsequence(token, field.replace(/ /g, ''))) return 1;
+  return 0;
+};
+
+// Dosage, form and manufacturer on one line, skipping blanks
+export const describeMedication = (medication: Medication): string =>
+  [medication.dosage, medication.form, medication.manufacturer].filter(Boolean).join(' · ');
+
+// Rank medications against a free-text query; every word of the query has to match somewhere.
+// Recently used medications (most recent first) win ties and surface first when the query is empty
+export const searchMedications = (
+  medications: Medication[],
+  query: string,
+  recentIds: number[] = [],
+): MedicationMatch[] => {
+  const tokens = normalize(query).split(' ').filter(Boolean);
+  const phrase = tokens.join(' ');
+  const recency = (medId: number) => {
+    const index = recentIds.indexOf(medId);
+    return index === -1 ? 0 : (recentIds.length - index) / recentIds.length;
+  };
+
+  const matches: MedicationMatch[] = [];
+  medications.forEach(medication => {
+    const fields = Object.fromEntries(
+      (Object.keys(FIELD_WEIGHTS) as SearchField[]).map(key => [key, normalize(medication[key])])
+    ) as Record<SearchField, string>;
+
+    let score = 0;
+    for (const token of tokens) {
+      const best = Math.max(...(Object.keys(FIELD_WEIGHTS) as SearchField[]).map(key =>
+        FIELD_WEIGHTS[key] * matchToken(token, fields[key], key !== 'description')
+      ));
+      if (best === 0) return;
+      score += best;
+    }
+
+    if (phrase && fields.name.startsWith(phrase)) score += 5;
+    matches.push({ medication, score: score + recency(medication.medId) });
+  });
+
+  return matches.sort((a, b) => b.score - a.score || a.medication.name.localeCompare(b.medication.name));
+};
+
+// Medications the signed-in user picked recently, kept per user on the device
+class RecentMedications {
+  private async storageKey(): Promise<string> {
+    const userId = await sessionManager.getUserId();
+    return `${RECENTS_KEY_PREFIX}${userId ?? 'anonymous'}`;
+  }
+
+  // medIds, most recent first
+  async list(): Promise<number[]> {
+    try {
+      const stored = await AsyncStorage.getItem(await this.storageKey());
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed.filter((id): id is number => typeof id === 'number') : [];
+    } catch (error) {
+      console.error('Error loading recent medications:', error);
+      return [];
+    }
+  }
+
+  async record(medId: number): Promise<number[]> {
+    try {
+      const recent = [medId, ...(await this.list()).filter(id => id !== medId)].slice(0, MAX_RECENTS);
+      await AsyncStorage.setItem(await this.storageKey(), JSON.stringify(recent));
+      return recent;
+    } catch (error) {
+      console.error('Error saving recent medication:', error);
+      return [];
+    }
+  }
+}
+
+export const recentMedications = new RecentMedications();
@@ -0,0 +1,200 @@
+import { PillboxDevice, PillboxTransport } from './pillboxTransport';
+import {
+  CONTAINER_COUNT,
+  ContainerProgram,
+  PillboxFrame,
+  PillboxMessage,
+  decodeFrame,
+  encodeFrame,
+} from './pillboxProtocol';
+
+interface MockContainer {
+  lidOpen: boolean;
+  pillCount: number;
+}
+
+export interface MockPillboxOptions {
+  devices?: PillboxDevice[];
+  // Delay before the simulated box answers, in ms
+  latencyMs?: number;
+  battery?: { level: number; charging: boolean };
+}
+
+const DEFAULT_DEVICE: PillboxDevice = { id: 'mock-pillbox-1', name: 'PillNow Box (Simulated)', rssi: -60 };
+
+// In-memory pillbox for development and tests; speaks the real protocol without hardware
+export class MockPillboxTransport implements PillboxTransport {
+  // Every frame the app wrote, decoded, oldest first
+  readonly written: PillboxFrame[] = [];
+
+  private devices: PillboxDevice[];
+  private latencyMs: number;
+  private battery: { level: number; charging: boolean };
+  private containers: Record<number, MockContainer> = {};
+  private programs: Record<number, ContainerProgram> = {};
+  private connectedId: string | null = null;
+  private rssi: number | null = null;
+  private buzzingUntil = 0;
+  private scanning = false;
+  private failingConnects = 0;
+  private deviceSeq = 0;
+  private dataListeners = new Set<(bytes: Uint8Array) => void>();
+  private disconnectListeners = new Set<(error?: Error) => void>();
+
+  constructor(options: MockPillboxOptions = {}) {
+    this.devices = options.devices ?? [DEFAULT_DEVICE];
+    this.latencyMs = options.latencyMs ?? 0;
+    this.battery = options.battery ?? { level: 85, charging: false };
+    for (let containerId = 1; containerId <= CONTAINER_COUNT; containerId++) {
+      this.containers[containerId] = { lidOpen: false, pillCount: 0 };
+      this.programs[containerId] = { containerId, pillName: '', alarms: [] };
+    }
+  }
+
+  get isConnected(): boolean {
+    return this.connectedId !== null;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async startScan(onDevice: (device: PillboxDevice) => void): Promise<void> {
+    this.scanning = true;
+    this.devices.forEach(device => {
+      this.later(() => {
+        if (this.scanning) onDevice(device);
+      });
+    });
+  }
+
+  stopScan(): void {
+    this.scanning = false;
+  }
+
+  async connect(deviceId: string): Promise<void> {
+    await this.wait();
+    if (this.failingConnects > 0) {
+      this.failingConnects--;
+      throw new Error('Simulated connection failure');
+    }
+    if (!this.devices.some(device => device.id === deviceId)) {
+      throw new Error(`Unknown device ${deviceId}`);
+    }
+    this.connectedId = deviceId;
+    this.rssi = this.devices.find(device => device.id === deviceId)?.rssi ?? null;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connectedId = null;
+  }
+
+  async write(bytes: Uint8Array): Promise<void> {
+    if (!this.connectedId) throw new Error('Pillbox is not connected');
+    const frame = decodeFrame(bytes);
+    this.written.push(frame);
+    this.later(() => this.respond(frame));
+  }
+
+  async readRssi(): Promise<number | null> {
+    return this.connectedId ? this.rssi : null;
+  }
+
+  onData(listener: (bytes: Uint8Array) => void): () => void {
+    this.dataListeners.add(listener);
+    return () => {
+      this.dataListeners.delete(listener);
+    };
+  }
+
+  onDisconnect(listener: (error?: Error) => void): () => void {
+    this.disconnectListeners.add(listener);
+    return () => {
+      this.disconnectListeners.delete(listener);
+    };
+  }
+
+  // Simulation controls
+
+  // Send a message from the box as if it happened on the hardware
+  emit(message: PillboxMessage) {
+    if (message.type === 'containerState') {
+      this.containers[message.containerId] = { lidOpen: message.lidOpen, pillCount: message.pillCount };
+    }
+    if (message.type === 'battery') {
+      this.battery = { level: message.level, charging: message.charging };
+    }
+    if (!this.connectedId) return;
+    const bytes = encodeFrame({ seq: this.nextSeq(), message });
+    this.dataListeners.forEach(listener => listener(bytes));
+  }
+
+  // Simulate the box going out of range or powering off
+  dropConnection(error: Error = new Error('Simulated connection loss')) {
+    if (!this.connectedId) return;
+    this.connectedId = null;
+    this.disconnectListeners.forEach(listener => listener(error));
+  }
+
+  // Simulate walking towards (higher) or away from (lower) the box
+  setRssi(rssi: number | null) {
+    this.rssi = rssi;
+  }
+
+  // True while a buzz command is sounding
+  get isBuzzing(): boolean {
+    return Date.now() < this.buzzingUntil;
+  }
+
+  // What the box currently has stored for a container
+  getProgram(containerId: number): ContainerProgram {
+    return this.programs[containerId];
+  }
+
+  // Make the next `count` connection attempts fail
+  failConnects(count: number) {
+    this.failingConnects = count;
+  }
+
+  private respond({ seq, message }: PillboxFrame) {
+    this.emit({ type: 'ack', ackSeq: seq, ok: true });
+
+    if (message.type === 'requestState') {
+      const ids = message.containerId === null
+        ? Object.keys(this.containers).map(Number)
+        : [message.containerId];
+      ids.forEach(containerId => this.emit({ type: 'containerState', containerId, ...this.containers[containerId] }));
+    }
+    if (message.type === 'requestBattery') {
+      this.emit({ type: 'battery', ...this.battery });
+    }
+    if (message.type === 'setSchedule') {
+      const { containerId, pillName, alarms } = message;
+      // The box stores alarms at minute precision, like the real firmware
+      this.programs[containerId] = {
+        containerId,
+        pillName,
+        alarms: alarms.map(alarm => Math.floor(alarm / 60000) * 60000),
+      };
+    }
+    if (message.type === 'buzz') {
+      this.buzzingUntil = Date.now() + message.seconds * 1000;
+    }
+    if (message.type === 'getSchedule') {
+      this.emit({ type: 'schedule', ...this.programs[message.containerId] });
+    }
+  }
+
+  private nextSeq(): number {
+    this.deviceSeq = (this.deviceSeq + 1) % 256;
+    return this.deviceSeq;
+  }
+
+  private later(action: () => void) {
+    setTimeout(action, this.latencyMs);
+  }
+
+  private wait(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+  }
+}
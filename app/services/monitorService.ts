@@ -1,6 +1,4 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-const API_BASE_URL = 'https://pillnow-database.onrender.com/api';
+import { apiClient } from './apiClient';
 
 // Interface for API responses
 interface CurrentUserResponse {
@@ -9,17 +7,16 @@ interface CurrentUserResponse {
   message: string;
 }
 
-interface SelectedElderResponse {
-  selectedElderId: string | null;
-}
-
 interface LatestScheduleIdResponse {
   latestScheduleId: number;
 }
 
+// Pill and alarm times per container (1-3); alarms arrive as ISO strings over the API
+export type ContainerSchedules = Record<number, { pill: string | null, alarms: Date[] }>;
+
 interface ScheduleDataResponse {
   schedules: any[];
-  containerSchedules: Record<number, { pill: string | null, alarms: Date[] }>;
+  containerSchedules: ContainerSchedules;
 }
 
 interface RefreshResponse {
@@ -28,33 +25,10 @@ interface RefreshResponse {
 }
 
 class MonitorService {
-  // Get authorization header with token
-  private async getAuthHeaders(): Promise<HeadersInit> {
-    const token = await AsyncStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-      'Cache-Control': 'no-cache',
-      'Pragma': 'no-cache',
-      'If-Modified-Since': '0'
-    };
-  }
-
   // Get current user ID and validate Elder role
   async getCurrentUserId(): Promise<number> {
     try {
-      const headers = await this.getAuthHeaders();
-      const response = await fetch(`${API_BASE_URL}/monitor/current-user`, {
-        method: 'GET',
-        headers
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to get current user');
-      }
-
-      const data: CurrentUserResponse = await response.json();
+      const data = await apiClient.get<CurrentUserResponse>('/monitor/current-user', { noCache: true });
       return parseInt(data.userId);
     } catch (error) {
       console.error('Error getting current user ID:', error);
@@ -62,43 +36,10 @@ class MonitorService {
     }
   }
 
-  // Get selected elder ID for caregivers
-  async getSelectedElderId(caregiverId: string): Promise<string | null> {
-    try {
-      const headers = await this.getAuthHeaders();
-      const response = await fetch(`${API_BASE_URL}/monitor/selected-elder/${caregiverId}`, {
-        method: 'GET',
-        headers
-      });
-
-      if (!response.ok) {
-        console.error('Error getting selected elder ID:', response.statusText);
-        return null;
-      }
-
-      const data: SelectedElderResponse = await response.json();
-      return data.selectedElderId;
-    } catch (error) {
-      console.error('Error getting selected elder ID:', error);
-      return null;
-    }
-  }
-
   // Get latest schedule ID
   async getLatestScheduleId(): Promise<number> {
     try {
-      const headers = await this.getAuthHeaders();
-      const response = await fetch(`${API_BASE_URL}/monitor/latest-schedule-id`, {
-        method: 'GET',
-        headers
-      });
-
-      if (!response.ok) {
-        console.error('Error getting latest schedule ID:', response.statusText);
-        return 0;
-      }
-
-      const data: LatestScheduleIdResponse = await response.json();
+      const data = await apiClient.get<LatestScheduleIdResponse>('/monitor/latest-schedule-id', { noCache: true });
       return data.latestScheduleId;
     } catch (error) {
       console.error('Error getting latest schedule ID:', error);
@@ -109,23 +50,13 @@ class MonitorService {
   // Load schedule data with processing
   async loadScheduleData(userId: number, selectedElderId?: string): Promise<{
     schedules: any[];
-    containerSchedules: Record<number, { pill: string | null, alarms: Date[] }>;
+    containerSchedules: ContainerSchedules;
   }> {
     try {
-      const headers = await this.getAuthHeaders();
-      const queryParams = selectedElderId ? `?selectedElderId=${selectedElderId}` : '';
-      
-      const response = await fetch(`${API_BASE_URL}/monitor/schedule-data/${userId}${queryParams}`, {
-        method: 'GET',
-        headers
+      const data = await apiClient.get<ScheduleDataResponse>(`/monitor/schedule-data/${userId}`, {
+        query: { selectedElderId },
+        noCache: true
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to load schedule data');
-      }
-
-      const data: ScheduleDataResponse = await response.json();
       return {
         schedules: data.schedules,
         containerSchedules: data.containerSchedules
@@ -139,22 +70,10 @@ class MonitorService {
   // Refresh schedule data
   async refreshScheduleData(userId: number, selectedElderId?: string): Promise<RefreshResponse> {
     try {
-      const headers = await this.getAuthHeaders();
       const body = selectedElderId ? { selectedElderId } : {};
-      
-      const response = await fetch(`${API_BASE_URL}/monitor/refresh-schedule-data/${userId}`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(body)
+      return await apiClient.post<RefreshResponse>(`/monitor/refresh-schedule-data/${userId}`, body, {
+        noCache: true
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to refresh schedule data');
-      }
-
-      const data: RefreshResponse = await response.json();
-      return data;
     } catch (error) {
       console.error('Error refreshing schedule data:', error);
       throw error;
@@ -1,52 +1,91 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiClient } from './apiClient';
+
+export type NotificationType = 'medication' | 'test_alarm' | 'reminder' | 'missed_dose' | 'escalation' | 'connection_request';
 
 export interface NotificationData {
   id: string;
-  type: 'medication' | 'test_alarm' | 'reminder';
+  type: NotificationType;
   title: string;
   message: string;
   medicineName?: string;
   containerId?: number;
   scheduledTime?: string;
+  scheduledDate?: string;
+  // Set when the notification is about a specific dose that can be recorded as taken
+  doseKey?: string;
+  elderId?: string;
+  elderName?: string;
   isTest?: boolean;
+  isRead?: boolean;
+  readAt?: string | null;
   createdAt: string;
 }
 
+// One dose due soon, as listed by the backend
+export interface UpcomingReminder {
+  id: string;
+  medicationName: string;
+  dosage?: string;
+  scheduledTime: string; // HH:MM
+  reminderDateTime: string;
+  containerId: number;
+  scheduleId: string;
+}
+
+export interface EscalationReport extends MissedDoseReport {
+  snoozeCount: number;
+  minutesLate: number;
+}
+
+export interface NotificationQuery {
+  userId?: string;
+  type?: NotificationType | 'all';
+  page?: number;
+  // Id of the last notification shown; the page starts after it, whatever was dismissed meanwhile
+  before?: string;
+  limit?: number;
+}
+
+export interface NotificationPage {
+  notifications: NotificationData[];
+  page: number;
+  hasMore: boolean;
+  total: number;
+  unreadCount: number;
+}
+
+interface NotificationPageResponse {
+  notifications?: NotificationData[];
+  pagination?: { page: number; limit: number; total: number; hasMore: boolean };
+  unreadCount?: number;
+}
+
 export interface TestAlarmData {
   medicationName?: string;
   containerId?: number;
   scheduledTime?: string;
 }
 
-class NotificationService {
-  private baseUrl = 'https://pillnow-database.onrender.com/api/notifications';
+export interface MissedDoseReport {
+  // Defaults to the signed-in user; caregivers report for a connected elder
+  elderId?: string;
+  medicationName: string;
+  containerId: number;
+  scheduledTime: string;
+  date?: string;
+}
 
-  private async getAuthHeaders() {
-    const token = await AsyncStorage.getItem('token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
+class NotificationService {
+  private basePath = '/notifications';
 
   // Create a test alarm notification
   async createTestAlarm(data: TestAlarmData = {}): Promise<NotificationData> {
     try {
-      const response = await fetch(`${this.baseUrl}/test-alarm`, {
-        method: 'POST',
-        headers: await this.getAuthHeaders(),
-        body: JSON.stringify({
-          medicationName: data.medicationName || 'Losartan',
-          containerId: data.containerId || 1,
-          scheduledTime: data.scheduledTime || '08:00 AM'
-        }),
+      const result = await apiClient.post<{ notification: NotificationData }>(`${this.basePath}/test-alarm`, {
+        medicationName: data.medicationName || 'Losartan',
+        containerId: data.containerId || 1,
+        scheduledTime: data.scheduledTime || '08:00 AM'
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result = await response.json();
       return result.notification;
     } catch (error) {
       console.error('Error creating test alarm:', error);
@@ -57,17 +96,9 @@ class NotificationService {
   // Get all notifications for current user
   async getNotifications(userId?: string): Promise<NotificationData[]> {
     try {
-      const url = userId ? `${this.baseUrl}?userId=${userId}` : this.baseUrl;
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: await this.getAuthHeaders(),
+      const result = await apiClient.get<{ notifications?: NotificationData[] }>(this.basePath, {
+        query: { userId }
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result = await response.json();
       return result.notifications || [];
     } catch (error) {
       console.error('Error fetching notifications:', error);
@@ -75,20 +106,50 @@ class NotificationService {
     }
   }
 
-  // Dismiss a notification
-  async dismissNotification(notificationId: string): Promise<void> {
+  // Get one page of notifications, newest first
+  async getNotificationPage({ userId, type, page = 1, before, limit }: NotificationQuery = {}): Promise<NotificationPage> {
     try {
-      const response = await fetch(`${this.baseUrl}/${notificationId}/dismiss`, {
-        method: 'PUT',
-        headers: await this.getAuthHeaders(),
+      const result = await apiClient.get<NotificationPageResponse>(this.basePath, {
+        query: before ? { userId, type, before, limit } : { userId, type, page, limit }
       });
+      const notifications = result.notifications || [];
+      return {
+        notifications,
+        page: result.pagination?.page ?? page,
+        hasMore: result.pagination?.hasMore ?? false,
+        total: result.pagination?.total ?? notifications.length,
+        unreadCount: result.unreadCount ?? notifications.filter(n => !n.isRead).length,
+      };
+    } catch (error) {
+      console.error('Error fetching notification page:', error);
+      throw error;
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  // Mark a notification as read
+  async markAsRead(notificationId: string): Promise<void> {
+    try {
+      await apiClient.put(`${this.basePath}/${notificationId}/read`);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      throw error;
+    }
+  }
 
-      const result = await response.json();
-      return result;
+  // Mark every notification as read
+  async markAllAsRead(): Promise<void> {
+    try {
+      await apiClient.put(`${this.basePath}/read-all`);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      throw error;
+    }
+  }
+
+  // Dismiss a notification
+  async dismissNotification(notificationId: string): Promise<void> {
+    try {
+      await apiClient.put(`${this.basePath}/${notificationId}/dismiss`);
     } catch (error) {
       console.error('Error dismissing notification:', error);
       throw error;
@@ -96,22 +157,11 @@ class NotificationService {
   }
 
   // Get upcoming medication reminders
-  async getUpcomingReminders(userId?: string, hours: number = 24): Promise<any[]> {
+  async getUpcomingReminders(userId?: string, hours: number = 24): Promise<UpcomingReminder[]> {
     try {
-      const params = new URLSearchParams();
-      if (userId) params.append('userId', userId);
-      params.append('hours', hours.toString());
-
-      const response = await fetch(`${this.baseUrl}/upcoming?${params}`, {
-        method: 'GET',
-        headers: await this.getAuthHeaders(),
+      const result = await apiClient.get<{ upcomingReminders?: UpcomingReminder[] }>(`${this.basePath}/upcoming`, {
+        query: { userId, hours }
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result = await response.json();
       return result.upcomingReminders || [];
     } catch (error) {
       console.error('Error fetching upcoming reminders:', error);
@@ -119,6 +169,48 @@ class NotificationService {
     }
   }
 
+  // Register this device's push token for the logged-in user
+  async registerDevice(token: string, platform: string): Promise<void> {
+    try {
+      await apiClient.post(`${this.basePath}/devices`, { token, platform });
+    } catch (error) {
+      console.error('Error registering device:', error);
+      throw error;
+    }
+  }
+
+  // Stop push notifications to this device
+  async unregisterDevice(token: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath}/devices/${encodeURIComponent(token)}`);
+    } catch (error) {
+      console.error('Error unregistering device:', error);
+      throw error;
+    }
+  }
+
+  // Tell the backend a dose was missed so caregivers get pushed
+  async reportMissedDose(report: MissedDoseReport): Promise<number> {
+    try {
+      const result = await apiClient.post<{ notified?: number }>(`${this.basePath}/missed-dose`, report);
+      return result.notified || 0;
+    } catch (error) {
+      console.error('Error reporting missed dose:', error);
+      throw error;
+    }
+  }
+
+  // Tell the backend a snoozed dose is still not taken so caregivers get pushed
+  async reportEscalation(report: EscalationReport): Promise<number> {
+    try {
+      const result = await apiClient.post<{ notified?: number }>(`${this.basePath}/escalation`, report);
+      return result.notified || 0;
+    } catch (error) {
+      console.error('Error reporting dose escalation:', error);
+      throw error;
+    }
+  }
+
   // Create a local test notification (fallback when backend is not available)
   createLocalTestNotification(data: TestAlarmData = {}): NotificationData {
     return {
@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { pillboxManager, PillboxState } from './pillboxManager';
+
+const LAST_SEEN_KEY = 'pillbox_last_seen';
+
+// Signal changes smaller than this are radio noise, not movement
+const TREND_THRESHOLD_DB = 3;
+
+// Where the phone was the last time it was connected to the box
+export interface PillboxLastSeen {
+  seenAt: string;
+  latitude: number | null;
+  longitude: number | null;
+  // Human-readable address, when the phone could resolve one
+  place: string | null;
+}
+
+export type SignalTrend = 'warmer' | 'colder' | 'steady';
+
+type LastSeenListener = (lastSeen: PillboxLastSeen | null) => void;
+
+// Average a few readings; single RSSI samples jump by several dB
+export const smoothRssi = (samples: number[]): number | null =>
+  samples.length === 0 ? null : Math.round(samples.reduce((sum, sample) => sum + sample, 0) / samples.length);
+
+// Whether the user moved towards or away from the box between two smoothed readings
+export const compareSignal = (previous: number | null, current: number | null): SignalTrend => {
+  if (previous === null || current === null) return 'steady';
+  if (current - previous >= TREND_THRESHOLD_DB) return 'warmer';
+  if (previous - current >= TREND_THRESHOLD_DB) return 'colder';
+  return 'steady';
+};
+
+// Rough distance band for a signal strength
+export const describeProximity = (rssi: number | null): string => {
+  if (rssi === null) return 'Signal unknown';
+  if (rssi >= -55) return 'Right next to you';
+  if (rssi >= -70) return 'Very close';
+  if (rssi >= -85) return 'Nearby';
+  return 'Far away';
+};
+
+const formatPlace = (address: Location.LocationGeocodedAddress | undefined): string | null => {
+  if (!address) return null;
+  const parts = [address.name, address.street, address.city].filter((part, index, all): part is string =>
+    !!part && all.indexOf(part) === index);
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+class PillboxLocationService {
+  private lastSeen: PillboxLastSeen | null = null;
+  private listeners = new Set<LastSeenListener>();
+  private loaded: Promise<void> | null = null;
+
+  // Record where the box was on every connect and when it was last connected; returns a cleanup function
+  start(): () => void {
+    let wasConnected = false;
+    this.load();
+    return pillboxManager.subscribe((state: PillboxState) => {
+      const isConnected = state.status === 'connected';
+      if (isConnected && !wasConnected) {
+        this.capture();
+      } else if (!isConnected && wasConnected) {
+        this.touch();
+      }
+      wasConnected = isConnected;
+    });
+  }
+
+  getLastSeen(): PillboxLastSeen | null {
+    return this.lastSeen;
+  }
+
+  subscribe(listener: LastSeenListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener(this.lastSeen));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Ask for location access; only done from the tracking screen so it never pops up unprompted
+  async requestPermission(): Promise<boolean> {
+    try {
+      const { granted } = await Location.requestForegroundPermissionsAsync();
+      if (granted && pillboxManager.getState().status === 'connected') {
+        await this.capture();
+      }
+      return granted;
+    } catch (error) {
+      console.error('Error requesting location permission:', error);
+      return false;
+    }
+  }
+
+  // Forget the stored place, e.g. after unpairing
+  async clear(): Promise<void> {
+    this.lastSeen = null;
+    await AsyncStorage.removeItem(LAST_SEEN_KEY);
+    this.listeners.forEach(listener => listener(null));
+  }
+
+  private async capture(): Promise<void> {
+    await this.load();
+    const seenAt = new Date().toISOString();
+    try {
+      const { granted } = await Location.getForegroundPermissionsAsync();
+      if (!granted) {
+        // Still worth keeping the time, and any place from earlier
+        await this.save({ latitude: null, longitude: null, place: null, ...this.lastSeen, seenAt });
+        return;
+      }
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      const { latitude, longitude } = position.coords;
+      const place = await Location.reverseGeocodeAsync({ latitude, longitude })
+        .then(addresses => formatPlace(addresses[0]))
+        .catch(() => null);
+      await this.save({ seenAt, latitude, longitude, place });
+    } catch (error) {
+      console.error('Error recording pillbox location:', error);
+      await this.save({ latitude: null, longitude: null, place: null, ...this.lastSeen, seenAt });
+    }
+  }
+
+  // The box was connected up to now; the place has not changed
+  private async touch(): Promise<void> {
+    await this.load();
+    await this.save({ latitude: null, longitude: null, place: null, ...this.lastSeen, seenAt: new Date().toISOString() });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(LAST_SEEN_KEY)
+        .then(stored => {
+          if (stored) this.lastSeen = JSON.parse(stored) as PillboxLastSeen;
+        })
+        .catch(error => console.error('Error loading pillbox location:', error));
+    }
+    return this.loaded;
+  }
+
+  private async save(lastSeen: PillboxLastSeen) {
+    this.lastSeen = lastSeen;
+    this.listeners.forEach(listener => listener(lastSeen));
+    try {
+      await AsyncStorage.setItem(LAST_SEEN_KEY, JSON.stringify(lastSeen));
+    } catch (error) {
+      console.error('Error saving pillbox location:', error);
+    }
+  }
+}
+
+export const pillboxLocationService = new PillboxLocationService();
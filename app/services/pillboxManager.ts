@@ -0,0 +1,435 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import Constants from 'expo-constants';
+import { BlePillboxTransport, PillboxDevice, PillboxTransport } from './pillboxTransport';
+import { MockPillboxTransport } from './mockPillboxTransport';
+import { AckMessage, PillboxFrame, PillboxMessage, ProtocolError, decodeFrame, encodeFrame } from './pillboxProtocol';
+
+const PAIRED_KEY = 'paired_pillbox';
+
+const SCAN_DURATION_MS = 10000;
+// Reconnect backoff: 1s, 2s, 4s ... capped at 30s
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// How long to wait for the box to answer a request
+const REQUEST_TIMEOUT_MS = 5000;
+const BUZZ_SECONDS = 10;
+
+export type PillboxStatus =
+  | 'unpaired'
+  | 'scanning'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected'
+  | 'unavailable';
+
+export interface ContainerState {
+  containerId: number;
+  lidOpen: boolean;
+  pillCount: number;
+  updatedAt: string;
+}
+
+export interface PillboxState {
+  status: PillboxStatus;
+  // The paired box, or null before pairing
+  device: PillboxDevice | null;
+  // Boxes found by the current or last scan
+  discovered: PillboxDevice[];
+  battery: { level: number; charging: boolean; updatedAt: string } | null;
+  containers: Record<number, ContainerState>;
+  // Last time any frame arrived from the box
+  lastSeenAt: string | null;
+  // Latest signal strength reading in dBm, while connected
+  rssi: number | null;
+  error: string | null;
+}
+
+type PillboxListener = (state: PillboxState) => void;
+type MessageListener = (message: PillboxMessage, frame: PillboxFrame) => void;
+
+interface PillboxExtraConfig {
+  // Use the in-memory simulated box instead of Bluetooth
+  mockPillbox?: boolean;
+}
+
+const createDefaultTransport = (): PillboxTransport => {
+  const extra = (Constants.expoConfig?.extra ?? {}) as PillboxExtraConfig;
+  return extra.mockPillbox ? new MockPillboxTransport({ latencyMs: 300 }) : new BlePillboxTransport();
+};
+
+const initialState = (): PillboxState => ({
+  status: 'unpaired',
+  device: null,
+  discovered: [],
+  battery: null,
+  containers: {},
+  lastSeenAt: null,
+  rssi: null,
+  error: null,
+});
+
+class PillboxManager {
+  private transport: PillboxTransport | null = null;
+  private transportSubscriptions: (() => void)[] = [];
+  private state: PillboxState = initialState();
+  private listeners = new Set<PillboxListener>();
+  private messageListeners = new Set<MessageListener>();
+  private seq = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+  private scanTimer: ReturnType<typeof setTimeout> | null = null;
+  // Set by an explicit disconnect so the drop is not treated as signal loss
+  private manualDisconnect = false;
+  private loaded: Promise<void> | null = null;
+
+  constructor(private createTransport: () => PillboxTransport = createDefaultTransport) {}
+
+  // Swap the link, e.g. for MockPillboxTransport in tests
+  setTransport(transport: PillboxTransport) {
+    this.teardownTransport();
+    this.transport = transport;
+    this.wireTransport(transport);
+  }
+
+  getState(): PillboxState {
+    return this.state;
+  }
+
+  // Restore the paired box and keep it connected; returns a cleanup function
+  start(): () => void {
+    this.loadPaired().then(() => {
+      if (this.state.device) this.connect();
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active' && this.state.device && this.shouldReconnect()) {
+        this.reconnect();
+      }
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      this.clearReconnect();
+    };
+  }
+
+  // Look for nearby boxes; resolves with everything found when the scan ends
+  async scan(durationMs: number = SCAN_DURATION_MS): Promise<PillboxDevice[]> {
+    const transport = this.getTransport();
+    this.stopScan();
+
+    if (!(await transport.isAvailable())) {
+      this.setState({ status: 'unavailable', error: 'Turn on Bluetooth and allow access to nearby devices' });
+      return [];
+    }
+
+    const previousStatus = this.state.status;
+    this.setState({ status: 'scanning', discovered: [], error: null });
+
+    return new Promise(resolve => {
+      transport.startScan(device => {
+        if (this.state.discovered.some(existing => existing.id === device.id)) return;
+        this.setState({ discovered: [...this.state.discovered, device] });
+      }).catch(error => {
+        console.error('Error starting pillbox scan:', error);
+        this.setState({ error: 'Could not scan for devices' });
+      });
+
+      this.scanTimer = setTimeout(() => {
+        // stopScan leaves 'scanning', so check first whether this scan still owns the status
+        const stillScanning = this.state.status === 'scanning';
+        this.stopScan();
+        if (stillScanning && previousStatus !== 'scanning') {
+          this.setState({ status: previousStatus });
+        }
+        resolve(this.state.discovered);
+      }, durationMs);
+    });
+  }
+
+  stopScan() {
+    if (this.scanTimer) {
+      clearTimeout(this.scanTimer);
+      this.scanTimer = null;
+    }
+    this.transport?.stopScan();
+    if (this.state.status === 'scanning') {
+      this.setState({ status: this.idleStatus() });
+    }
+  }
+
+  // Connect to a box and remember it for automatic reconnection
+  async pair(device: PillboxDevice): Promise<void> {
+    this.stopScan();
+    const previous = this.state.device;
+    if (previous && previous.id !== device.id) {
+      await this.disconnect();
+    }
+
+    this.setState({ device, containers: {}, battery: null, lastSeenAt: null });
+    this.reconnectAttempt = 0;
+    await this.connect();
+    if (this.state.status !== 'connected') {
+      // Do not keep retrying a box the user never managed to pair
+      const message = this.state.error ?? 'Could not connect to the pillbox';
+      this.clearReconnect();
+      this.setState({ device: previous, status: previous ? 'disconnected' : 'unpaired' });
+      throw new Error(message);
+    }
+    await AsyncStorage.setItem(PAIRED_KEY, JSON.stringify(device));
+  }
+
+  // Disconnect and forget the paired box
+  async forget(): Promise<void> {
+    await this.disconnect();
+    await AsyncStorage.removeItem(PAIRED_KEY);
+    this.setState({ ...initialState(), discovered: this.state.discovered });
+  }
+
+  // Drop the link on purpose; no automatic reconnection until reconnect()
+  async disconnect(): Promise<void> {
+    this.clearReconnect();
+    this.manualDisconnect = true;
+    try {
+      await this.transport?.disconnect();
+    } finally {
+      if (this.state.device) this.setState({ status: 'disconnected', rssi: null });
+    }
+  }
+
+  // Try the paired box again now, resetting the backoff
+  async reconnect(): Promise<void> {
+    this.clearReconnect();
+    this.reconnectAttempt = 0;
+    await this.connect();
+  }
+
+  // Send a command; resolves with the frame sequence number once written
+  async send(message: PillboxMessage): Promise<number> {
+    if (this.state.status !== 'connected') {
+      throw new Error('Pillbox is not connected');
+    }
+    this.seq = (this.seq + 1) % 256;
+    const seq = this.seq;
+    await this.getTransport().write(encodeFrame({ seq, message }));
+    return seq;
+  }
+
+  // Make the box beep so it can be found; 0 seconds stops it
+  async buzz(seconds: number = BUZZ_SECONDS): Promise<void> {
+    await this.request(
+      { type: 'buzz', seconds },
+      (reply: PillboxMessage, seq: number): reply is AckMessage => reply.type === 'ack' && reply.ackSeq === seq && reply.ok,
+    );
+  }
+
+  // Sample the signal strength of the connection, e.g. to guide the user towards the box
+  async readRssi(): Promise<number | null> {
+    if (this.state.status !== 'connected') return null;
+    try {
+      const rssi = await this.getTransport().readRssi();
+      this.setState({ rssi });
+      return rssi;
+    } catch (error) {
+      console.warn('Could not read pillbox signal strength:', error);
+      return null;
+    }
+  }
+
+  // Send a command and wait for the matching reply; rejects on a negative ack or timeout
+  request<T extends PillboxMessage>(
+    message: PillboxMessage,
+    isReply: (reply: PillboxMessage, seq: number) => reply is T,
+    timeoutMs: number = REQUEST_TIMEOUT_MS,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      let seq: number | null = null;
+      // Replies that arrive before the write resolves are held until the seq is known
+      const early: PillboxMessage[] = [];
+
+      const finish = (error: Error | null, reply?: T) => {
+        clearTimeout(timer);
+        unsubscribe();
+        if (error) reject(error);
+        else resolve(reply!);
+      };
+
+      const check = (reply: PillboxMessage) => {
+        if (seq === null) {
+          early.push(reply);
+        } else if (reply.type === 'ack' && reply.ackSeq === seq && !reply.ok) {
+          finish(new Error('Pillbox rejected the command'));
+        } else if (isReply(reply, seq)) {
+          finish(null, reply);
+        }
+      };
+
+      const unsubscribe = this.onMessage(check);
+      const timer = setTimeout(() => finish(new Error('Pillbox did not respond')), timeoutMs);
+
+      this.send(message)
+        .then(sent => {
+          seq = sent;
+          early.splice(0).forEach(check);
+        })
+        .catch(error => finish(error instanceof Error ? error : new Error(String(error))));
+    });
+  }
+
+  subscribe(listener: PillboxListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Every decoded message from the box, e.g. lid-open events
+  onMessage(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  private async connect(): Promise<void> {
+    await this.loadPaired();
+    const device = this.state.device;
+    if (!device) return;
+
+    const transport = this.getTransport();
+    this.manualDisconnect = false;
+    this.setState({ status: this.reconnectAttempt > 0 ? 'reconnecting' : 'connecting', error: null });
+
+    try {
+      if (!(await transport.isAvailable())) {
+        this.setState({ status: 'unavailable', error: 'Turn on Bluetooth and allow access to nearby devices' });
+        this.scheduleReconnect();
+        return;
+      }
+
+      await transport.connect(device.id);
+      this.reconnectAttempt = 0;
+      this.setState({ status: 'connected', error: null });
+
+      // Ask for a fresh picture of the box after every (re)connect
+      await this.send({ type: 'requestState', containerId: null });
+      await this.send({ type: 'requestBattery' });
+    } catch (error) {
+      console.error('Error connecting to pillbox:', error);
+      this.setState({
+        status: 'disconnected',
+        error: error instanceof Error ? error.message : 'Could not connect to the pillbox',
+      });
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.manualDisconnect || !this.state.device || this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_MS);
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private shouldReconnect(): boolean {
+    return ['disconnected', 'reconnecting', 'unavailable'].includes(this.state.status) && !this.manualDisconnect;
+  }
+
+  private idleStatus(): PillboxStatus {
+    if (!this.state.device) return 'unpaired';
+    return this.state.status === 'connected' ? 'connected' : 'disconnected';
+  }
+
+  private handleData(bytes: Uint8Array) {
+    let frame: PillboxFrame;
+    try {
+      frame = decodeFrame(bytes);
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        console.warn('Ignoring malformed pillbox frame:', error.message);
+        return;
+      }
+      throw error;
+    }
+
+    const now = new Date().toISOString();
+    const { message } = frame;
+    if (message.type === 'containerState') {
+      const { containerId, lidOpen, pillCount } = message;
+      this.setState({
+        lastSeenAt: now,
+        containers: { ...this.state.containers, [containerId]: { containerId, lidOpen, pillCount, updatedAt: now } },
+      });
+    } else if (message.type === 'battery') {
+      this.setState({ lastSeenAt: now, battery: { level: message.level, charging: message.charging, updatedAt: now } });
+    } else {
+      this.setState({ lastSeenAt: now });
+    }
+
+    this.messageListeners.forEach(listener => listener(message, frame));
+  }
+
+  private handleDisconnect(error?: Error) {
+    if (this.manualDisconnect || !this.state.device) return;
+    console.warn('Pillbox connection lost:', error?.message);
+    this.setState({ status: 'reconnecting', rssi: null, error: null });
+    this.scheduleReconnect();
+  }
+
+  private getTransport(): PillboxTransport {
+    if (!this.transport) {
+      this.setTransport(this.createTransport());
+    }
+    return this.transport!;
+  }
+
+  private wireTransport(transport: PillboxTransport) {
+    this.transportSubscriptions = [
+      transport.onData(bytes => this.handleData(bytes)),
+      transport.onDisconnect(error => this.handleDisconnect(error)),
+    ];
+  }
+
+  private teardownTransport() {
+    this.clearReconnect();
+    this.transportSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.transportSubscriptions = [];
+    this.transport?.stopScan();
+    this.transport?.disconnect().catch(() => undefined);
+    this.transport = null;
+  }
+
+  private loadPaired(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(PAIRED_KEY)
+        .then(stored => {
+          if (stored && !this.state.device) {
+            this.setState({ device: JSON.parse(stored) as PillboxDevice, status: 'disconnected' });
+          }
+        })
+        .catch(error => console.error('Error loading paired pillbox:', error));
+    }
+    return this.loaded;
+  }
+
+  private setState(update: Partial<PillboxState>) {
+    this.state = { ...this.state, ...update };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export const pillboxManager = new PillboxManager();
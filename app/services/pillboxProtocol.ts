@@ -0,0 +1,372 @@
+// Binary message protocol spoken with the PillNow pillbox over BLE.
+//
+// Every message is one frame:
+//   [version][type][seq][length][payload ...][checksum]
+// seq lets acks refer back to a command; checksum is the XOR of all preceding bytes.
+
+export const PROTOCOL_VERSION = 1;
+export const CONTAINER_COUNT = 3;
+
+// GATT layout of the pillbox: commands are written to RX, events arrive as notifications on TX
+export const PILLBOX_SERVICE_UUID = '6e400001-b5a3-f393-e0a9-e50e24dcca9e';
+export const PILLBOX_RX_UUID = '6e400002-b5a3-f393-e0a9-e50e24dcca9e';
+export const PILLBOX_TX_UUID = '6e400003-b5a3-f393-e0a9-e50e24dcca9e';
+// Advertised name prefix used to pick the box out of a scan
+export const PILLBOX_NAME_PREFIX = 'PillNow';
+
+const HEADER_LENGTH = 4;
+const MAX_PAYLOAD = 255;
+
+// Limits of the box's schedule memory, per container
+export const MAX_PILL_NAME_BYTES = 20;
+export const MAX_ALARMS_PER_CONTAINER = 21;
+
+export const MESSAGE_TYPES = {
+  // Device -> app
+  containerState: 0x01,
+  alarmTrigger: 0x02,
+  lidOpen: 0x03,
+  battery: 0x04,
+  schedule: 0x05,
+  // App -> device
+  requestState: 0x10,
+  requestBattery: 0x11,
+  setSchedule: 0x12,
+  getSchedule: 0x13,
+  buzz: 0x14,
+  // Both directions
+  ack: 0x7f,
+} as const;
+
+export type MessageType = keyof typeof MESSAGE_TYPES;
+
+export interface ContainerStateMessage {
+  type: 'containerState';
+  containerId: number;
+  lidOpen: boolean;
+  pillCount: number;
+}
+
+export interface AlarmTriggerMessage {
+  type: 'alarmTrigger';
+  containerId: number;
+  time: string; // HH:MM on the box clock
+}
+
+export interface LidOpenMessage {
+  type: 'lidOpen';
+  containerId: number;
+  openedAt: number; // ms since epoch, second precision on the wire
+}
+
+export interface BatteryMessage {
+  type: 'battery';
+  level: number; // 0-100
+  charging: boolean;
+}
+
+// What one container should dispense and when; sent with setSchedule, read back as schedule
+export interface ContainerProgram {
+  containerId: number;
+  pillName: string;
+  alarms: number[]; // ms since epoch, minute precision on the wire
+}
+
+export interface ScheduleMessage extends ContainerProgram {
+  type: 'schedule';
+}
+
+export interface SetScheduleMessage extends ContainerProgram {
+  type: 'setSchedule';
+}
+
+export interface GetScheduleMessage {
+  type: 'getSchedule';
+  containerId: number;
+}
+
+export interface BuzzMessage {
+  type: 'buzz';
+  // How long the box should sound; 0 stops it
+  seconds: number;
+}
+
+export interface RequestStateMessage {
+  type: 'requestState';
+  // null asks for every container
+  containerId: number | null;
+}
+
+export interface RequestBatteryMessage {
+  type: 'requestBattery';
+}
+
+export interface AckMessage {
+  type: 'ack';
+  ackSeq: number;
+  ok: boolean;
+}
+
+export type PillboxMessage =
+  | ContainerStateMessage
+  | AlarmTriggerMessage
+  | LidOpenMessage
+  | BatteryMessage
+  | ScheduleMessage
+  | RequestStateMessage
+  | RequestBatteryMessage
+  | SetScheduleMessage
+  | GetScheduleMessage
+  | BuzzMessage
+  | AckMessage;
+
+export interface PillboxFrame {
+  seq: number; // 0-255, wraps
+  message: PillboxMessage;
+}
+
+// Raised for bytes that are not a valid frame
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+const checksum = (bytes: ArrayLike<number>, length: number): number => {
+  let value = 0;
+  for (let index = 0; index < length; index++) value ^= bytes[index];
+  return value;
+};
+
+const assertContainer = (containerId: number) => {
+  if (!Number.isInteger(containerId) || containerId < 1 || containerId > CONTAINER_COUNT) {
+    throw new ProtocolError(`Invalid container ${containerId}`);
+  }
+};
+
+const assertByte = (value: number, label: string) => {
+  if (!Number.isInteger(value) || value < 0 || value > 255) {
+    throw new ProtocolError(`${label} must be 0-255`);
+  }
+};
+
+const parseTime = (time: string): [number, number] => {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time);
+  if (!match) throw new ProtocolError(`Invalid time ${time}`);
+  return [Number(match[1]), Number(match[2])];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const writeUint32 = (value: number): number[] =>
+  [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+
+// UTF-8 encode without relying on TextEncoder, which older Hermes builds lack
+const utf8Encode = (text: string): number[] => {
+  const bytes: number[] = [];
+  for (const character of text) {
+    const code = character.codePointAt(0)!;
+    if (code < 0x80) bytes.push(code);
+    else if (code < 0x800) bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    else if (code < 0x10000) bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    else bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 63), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+  }
+  return bytes;
+};
+
+const utf8Decode = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let index = 0; index < bytes.length;) {
+    const first = bytes[index];
+    const extra = first >= 0xf0 ? 3 : first >= 0xe0 ? 2 : first >= 0xc0 ? 1 : 0;
+    let code = extra === 0 ? first : first & (0x3f >> extra);
+    for (let offset = 1; offset <= extra; offset++) code = (code << 6) | (bytes[index + offset] & 63);
+    text += String.fromCodePoint(code);
+    index += extra + 1;
+  }
+  return text;
+};
+
+// Trim a pill name to what the box can store without splitting a character
+export const fitPillName = (name: string): string => {
+  let fitted = '';
+  for (const character of name) {
+    if (utf8Encode(fitted + character).length > MAX_PILL_NAME_BYTES) break;
+    fitted += character;
+  }
+  return fitted;
+};
+
+const encodeProgram = (program: ContainerProgram): number[] => {
+  assertContainer(program.containerId);
+  const name = utf8Encode(program.pillName);
+  if (name.length > MAX_PILL_NAME_BYTES) throw new ProtocolError('Pill name too long');
+  if (program.alarms.length > MAX_ALARMS_PER_CONTAINER) throw new ProtocolError('Too many alarms');
+  const alarms = program.alarms.flatMap(alarm => writeUint32(Math.floor(alarm / 60000)));
+  return [program.containerId, name.length, ...name, program.alarms.length, ...alarms];
+};
+
+const decodeProgram = (payload: Uint8Array): ContainerProgram => {
+  if (payload.length < 3) throw new ProtocolError('Schedule payload too short');
+  assertContainer(payload[0]);
+  const nameLength = payload[1];
+  const countOffset = 2 + nameLength;
+  const count = payload[countOffset];
+  if (nameLength > MAX_PILL_NAME_BYTES || payload.length !== countOffset + 1 + count * 4) {
+    throw new ProtocolError('Schedule payload length mismatch');
+  }
+
+  const alarms: number[] = [];
+  for (let index = 0; index < count; index++) {
+    alarms.push(readUint32(payload, countOffset + 1 + index * 4) * 60000);
+  }
+  return { containerId: payload[0], pillName: utf8Decode(payload.subarray(2, countOffset)), alarms };
+};
+
+const encodePayload = (message: PillboxMessage): number[] => {
+  switch (message.type) {
+    case 'containerState':
+      assertContainer(message.containerId);
+      assertByte(message.pillCount, 'Pill count');
+      return [message.containerId, message.lidOpen ? 1 : 0, message.pillCount];
+    case 'alarmTrigger':
+      assertContainer(message.containerId);
+      return [message.containerId, ...parseTime(message.time)];
+    case 'lidOpen': {
+      assertContainer(message.containerId);
+      return [message.containerId, ...writeUint32(Math.floor(message.openedAt / 1000))];
+    }
+    case 'battery':
+      if (!Number.isInteger(message.level) || message.level < 0 || message.level > 100) {
+        throw new ProtocolError('Battery level must be 0-100');
+      }
+      return [message.level, message.charging ? 1 : 0];
+    case 'schedule':
+    case 'setSchedule':
+      return encodeProgram(message);
+    case 'getSchedule':
+      assertContainer(message.containerId);
+      return [message.containerId];
+    case 'buzz':
+      assertByte(message.seconds, 'Buzz duration');
+      return [message.seconds];
+    case 'requestState':
+      if (message.containerId !== null) assertContainer(message.containerId);
+      return [message.containerId ?? 0];
+    case 'requestBattery':
+      return [];
+    case 'ack':
+      assertByte(message.ackSeq, 'Ack sequence');
+      return [message.ackSeq, message.ok ? 0 : 1];
+  }
+};
+
+const expectLength = (payload: Uint8Array, length: number, type: MessageType) => {
+  if (payload.length !== length) {
+    throw new ProtocolError(`${type} payload must be ${length} bytes, got ${payload.length}`);
+  }
+};
+
+const decodePayload = (type: MessageType, payload: Uint8Array): PillboxMessage => {
+  switch (type) {
+    case 'containerState':
+      expectLength(payload, 3, type);
+      assertContainer(payload[0]);
+      return { type, containerId: payload[0], lidOpen: payload[1] === 1, pillCount: payload[2] };
+    case 'alarmTrigger':
+      expectLength(payload, 3, type);
+      assertContainer(payload[0]);
+      if (payload[1] > 23 || payload[2] > 59) throw new ProtocolError('Invalid alarm time');
+      return { type, containerId: payload[0], time: `${pad(payload[1])}:${pad(payload[2])}` };
+    case 'lidOpen': {
+      expectLength(payload, 5, type);
+      assertContainer(payload[0]);
+      return { type, containerId: payload[0], openedAt: readUint32(payload, 1) * 1000 };
+    }
+    case 'battery':
+      expectLength(payload, 2, type);
+      if (payload[0] > 100) throw new ProtocolError('Battery level must be 0-100');
+      return { type, level: payload[0], charging: payload[1] === 1 };
+    case 'schedule':
+    case 'setSchedule':
+      return { type, ...decodeProgram(payload) };
+    case 'getSchedule':
+      expectLength(payload, 1, type);
+      assertContainer(payload[0]);
+      return { type, containerId: payload[0] };
+    case 'buzz':
+      expectLength(payload, 1, type);
+      return { type, seconds: payload[0] };
+    case 'requestState':
+      expectLength(payload, 1, type);
+      if (payload[0] !== 0) assertContainer(payload[0]);
+      return { type, containerId: payload[0] === 0 ? null : payload[0] };
+    case 'requestBattery':
+      expectLength(payload, 0, type);
+      return { type };
+    case 'ack':
+      expectLength(payload, 2, type);
+      return { type, ackSeq: payload[0], ok: payload[1] === 0 };
+  }
+};
+
+export const encodeFrame = ({ seq, message }: PillboxFrame): Uint8Array => {
+  assertByte(seq, 'Sequence');
+  const payload = encodePayload(message);
+  if (payload.length > MAX_PAYLOAD) throw new ProtocolError('Payload too large');
+
+  const bytes = new Uint8Array(HEADER_LENGTH + payload.length + 1);
+  bytes.set([PROTOCOL_VERSION, MESSAGE_TYPES[message.type], seq, payload.length], 0);
+  bytes.set(payload, HEADER_LENGTH);
+  bytes[bytes.length - 1] = checksum(bytes, bytes.length - 1);
+  return bytes;
+};
+
+export const decodeFrame = (bytes: Uint8Array): PillboxFrame => {
+  if (bytes.length < HEADER_LENGTH + 1) throw new ProtocolError('Frame too short');
+  if (bytes[0] !== PROTOCOL_VERSION) throw new ProtocolError(`Unsupported protocol version ${bytes[0]}`);
+
+  const length = bytes[3];
+  if (bytes.length !== HEADER_LENGTH + length + 1) throw new ProtocolError('Frame length mismatch');
+  if (checksum(bytes, bytes.length - 1) !== bytes[bytes.length - 1]) throw new ProtocolError('Checksum mismatch');
+
+  const type = (Object.keys(MESSAGE_TYPES) as MessageType[]).find(key => MESSAGE_TYPES[key] === bytes[1]);
+  if (!type) throw new ProtocolError(`Unknown message type 0x${bytes[1].toString(16)}`);
+
+  return { seq: bytes[2], message: decodePayload(type, bytes.subarray(HEADER_LENGTH, HEADER_LENGTH + length)) };
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// BLE libraries exchange characteristic values as base64
+export const toBase64 = (bytes: Uint8Array): string => {
+  let output = '';
+  for (let index = 0; index < bytes.length; index += 3) {
+    const chunk = (bytes[index] << 16) | ((bytes[index + 1] ?? 0) << 8) | (bytes[index + 2] ?? 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    output += index + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    output += index + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return output;
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const clean = value.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes: number[] = [];
+  for (let index = 0; index < clean.length; index += 4) {
+    const chunk = [0, 1, 2, 3].map(offset => {
+      const position = BASE64_ALPHABET.indexOf(clean[index + offset] ?? 'A');
+      return position < 0 ? 0 : position;
+    });
+    const bits = (chunk[0] << 18) | (chunk[1] << 12) | (chunk[2] << 6) | chunk[3];
+    bytes.push((bits >> 16) & 0xff);
+    if (index + 2 < clean.length) bytes.push((bits >> 8) & 0xff);
+    if (index + 3 < clean.length) bytes.push(bits & 0xff);
+  }
+  return new Uint8Array(bytes);
+};
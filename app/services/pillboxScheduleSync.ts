@@ -0,0 +1,250 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ScheduleRecord } from './api';
+import { ContainerSchedules } from './monitorService';
+import { pillboxManager, PillboxState } from './pillboxManager';
+import {
+  AckMessage,
+  CONTAINER_COUNT,
+  ContainerProgram,
+  MAX_ALARMS_PER_CONTAINER,
+  PillboxMessage,
+  ScheduleMessage,
+  fitPillName,
+} from './pillboxProtocol';
+import { addDays, expandSchedule } from './recurrence';
+
+const SYNC_KEY = 'pillbox_schedule_sync';
+
+// How far ahead recurring schedules are expanded into alarms for the box
+const SYNC_HORIZON_DAYS = 7;
+
+export type ContainerSyncState = 'synced' | 'syncing' | 'pending' | 'failed';
+
+export interface ContainerSyncStatus {
+  containerId: number;
+  state: ContainerSyncState;
+  pillName: string;
+  alarmCount: number;
+  syncedAt: string | null;
+  error: string | null;
+}
+
+export type ScheduleSyncStatuses = Record<number, ContainerSyncStatus>;
+
+interface StoredSync {
+  statuses: ScheduleSyncStatuses;
+  // Programs still to be written, pushed automatically once the box connects
+  pending: ContainerProgram[];
+}
+
+type SyncListener = (statuses: ScheduleSyncStatuses) => void;
+
+const toMinute = (value: number) => Math.floor(value / 60000) * 60000;
+
+// Group saved schedules by container, expanding recurrence into concrete alarm times
+export const buildContainerSchedules = (
+  schedules: ScheduleRecord[],
+  getPillName: (schedule: ScheduleRecord) => string | null,
+  now: Date = new Date(),
+): ContainerSchedules => {
+  const horizon = addDays(now, SYNC_HORIZON_DAYS);
+  const result: ContainerSchedules = {};
+
+  for (let containerId = 1; containerId <= CONTAINER_COUNT; containerId++) {
+    const inContainer = schedules
+      .filter(schedule => Number(schedule.container) === containerId)
+      .sort((a, b) => b.scheduleId - a.scheduleId);
+
+    result[containerId] = {
+      pill: inContainer.length > 0 ? getPillName(inContainer[0]) : null,
+      alarms: inContainer.flatMap(schedule =>
+        expandSchedule(schedule, now, horizon, MAX_ALARMS_PER_CONTAINER).map(occurrence => occurrence.at)),
+    };
+  }
+  return result;
+};
+
+// Serialize containerSchedules into what the box stores: future alarms only, sorted, within its limits
+export const toContainerPrograms = (containerSchedules: ContainerSchedules, now: Date = new Date()): ContainerProgram[] => {
+  const programs: ContainerProgram[] = [];
+  for (let containerId = 1; containerId <= CONTAINER_COUNT; containerId++) {
+    const schedule = containerSchedules[containerId];
+    const alarms = Array.from(new Set(
+      (schedule?.alarms ?? [])
+        .map(alarm => new Date(alarm).getTime())
+        .filter(time => !Number.isNaN(time) && time >= now.getTime())
+        .map(toMinute),
+    ))
+      .sort((a, b) => a - b)
+      .slice(0, MAX_ALARMS_PER_CONTAINER);
+
+    programs.push({ containerId, pillName: fitPillName(schedule?.pill ?? ''), alarms });
+  }
+  return programs;
+};
+
+// True when the box read back exactly what was written
+export const programsMatch = (sent: ContainerProgram, received: ContainerProgram): boolean =>
+  sent.containerId === received.containerId &&
+  sent.pillName === received.pillName &&
+  sent.alarms.length === received.alarms.length &&
+  sent.alarms.every((alarm, index) => toMinute(alarm) === toMinute(received.alarms[index]));
+
+const statusFor = (
+  program: ContainerProgram,
+  state: ContainerSyncState,
+  syncedAt: string | null,
+  error: string | null = null,
+): ContainerSyncStatus => ({
+  containerId: program.containerId,
+  state,
+  pillName: program.pillName,
+  alarmCount: program.alarms.length,
+  syncedAt,
+  error,
+});
+
+class PillboxScheduleSync {
+  private statuses: ScheduleSyncStatuses = {};
+  private pending: ContainerProgram[] = [];
+  private listeners = new Set<SyncListener>();
+  private loaded: Promise<void> | null = null;
+  // Serializes pushes so two saves never interleave writes to the box
+  private running: Promise<void> = Promise.resolve();
+
+  getStatuses(): ScheduleSyncStatuses {
+    return this.statuses;
+  }
+
+  // Push anything left pending whenever the box (re)connects; returns a cleanup function
+  start(): () => void {
+    let wasConnected = false;
+    const unsubscribe = pillboxManager.subscribe((state: PillboxState) => {
+      const isConnected = state.status === 'connected';
+      if (isConnected && !wasConnected) {
+        this.load().then(() => {
+          if (this.pending.length > 0) this.enqueue(this.pending);
+        });
+      }
+      wasConnected = isConnected;
+    });
+    this.load();
+    return unsubscribe;
+  }
+
+  // Write container schedules to the box and read them back; queued until connected otherwise
+  async sync(containerSchedules: ContainerSchedules): Promise<ScheduleSyncStatuses> {
+    await this.load();
+    const programs = toContainerPrograms(containerSchedules);
+    await this.enqueue(programs);
+    return this.statuses;
+  }
+
+  // Convenience for screens that just saved schedule records
+  async syncSchedules(
+    schedules: ScheduleRecord[],
+    getPillName: (schedule: ScheduleRecord) => string | null,
+  ): Promise<ScheduleSyncStatuses> {
+    return this.sync(buildContainerSchedules(schedules, getPillName));
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    listener(this.statuses);
+    this.load();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private enqueue(programs: ContainerProgram[]): Promise<void> {
+    this.running = this.running
+      .then(() => this.push(programs))
+      .catch(error => console.error('Error syncing schedules to pillbox:', error));
+    return this.running;
+  }
+
+  private async push(programs: ContainerProgram[]): Promise<void> {
+    const connected = pillboxManager.getState().status === 'connected';
+    const remaining: ContainerProgram[] = [];
+
+    for (const program of programs) {
+      if (!connected) {
+        remaining.push(program);
+        this.setStatus(statusFor(program, 'pending', this.statuses[program.containerId]?.syncedAt ?? null,
+          'Waiting for the pillbox to connect'));
+        continue;
+      }
+
+      this.setStatus(statusFor(program, 'syncing', this.statuses[program.containerId]?.syncedAt ?? null));
+      try {
+        await this.writeProgram(program);
+        this.setStatus(statusFor(program, 'synced', new Date().toISOString()));
+      } catch (error) {
+        console.error(`Error syncing container ${program.containerId}:`, error);
+        remaining.push(program);
+        this.setStatus(statusFor(program, 'failed', this.statuses[program.containerId]?.syncedAt ?? null,
+          error instanceof Error ? error.message : 'Sync failed'));
+      }
+    }
+
+    // Newer programs replace older pending ones for the same container
+    const pushedIds = new Set(programs.map(program => program.containerId));
+    this.pending = [...this.pending.filter(program => !pushedIds.has(program.containerId)), ...remaining];
+    await this.persist();
+  }
+
+  private async writeProgram(program: ContainerProgram): Promise<void> {
+    await pillboxManager.request(
+      { type: 'setSchedule', ...program },
+      (reply: PillboxMessage, seq: number): reply is AckMessage =>
+        reply.type === 'ack' && reply.ackSeq === seq && reply.ok,
+    );
+
+    const readBack = await pillboxManager.request(
+      { type: 'getSchedule', containerId: program.containerId },
+      (reply: PillboxMessage): reply is ScheduleMessage =>
+        reply.type === 'schedule' && reply.containerId === program.containerId,
+    );
+
+    if (!programsMatch(program, readBack)) {
+      throw new Error('Pillbox stored a different schedule than was sent');
+    }
+  }
+
+  private setStatus(status: ContainerSyncStatus) {
+    this.statuses = { ...this.statuses, [status.containerId]: status };
+    this.listeners.forEach(listener => listener(this.statuses));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(SYNC_KEY)
+        .then(stored => {
+          if (!stored) return;
+          const parsed = JSON.parse(stored) as StoredSync;
+          this.statuses = { ...parsed.statuses, ...this.statuses };
+          this.pending = parsed.pending ?? [];
+          this.listeners.forEach(listener => listener(this.statuses));
+        })
+        .catch(error => console.error('Error loading pillbox sync state:', error));
+    }
+    return this.loaded;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      // A status caught mid-sync is not meaningful after a restart
+      const statuses = Object.fromEntries(Object.entries(this.statuses).map(([id, status]) => [
+        id,
+        status.state === 'syncing' ? { ...status, state: 'pending' as const } : status,
+      ]));
+      const stored: StoredSync = { statuses, pending: this.pending };
+      await AsyncStorage.setItem(SYNC_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving pillbox sync state:', error);
+    }
+  }
+}
+
+export const pillboxScheduleSync = new PillboxScheduleSync();
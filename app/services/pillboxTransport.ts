@@ -0,0 +1,161 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import { BleManager, Device, State, Subscription } from 'react-native-ble-plx';
+import {
+  PILLBOX_NAME_PREFIX,
+  PILLBOX_RX_UUID,
+  PILLBOX_SERVICE_UUID,
+  PILLBOX_TX_UUID,
+  fromBase64,
+  toBase64,
+} from './pillboxProtocol';
+
+// A pillbox seen during a scan or remembered after pairing
+export interface PillboxDevice {
+  id: string;
+  name: string;
+  rssi: number | null;
+}
+
+// Raw byte link to one pillbox; the device manager owns framing and state
+export interface PillboxTransport {
+  // False when Bluetooth is off or permission was denied
+  isAvailable(): Promise<boolean>;
+  startScan(onDevice: (device: PillboxDevice) => void): Promise<void>;
+  stopScan(): void;
+  connect(deviceId: string): Promise<void>;
+  disconnect(): Promise<void>;
+  write(bytes: Uint8Array): Promise<void>;
+  // Signal strength of the live connection in dBm, null when unknown
+  readRssi(): Promise<number | null>;
+  // Each callback receives one complete frame
+  onData(listener: (bytes: Uint8Array) => void): () => void;
+  onDisconnect(listener: (error?: Error) => void): () => void;
+}
+
+const CONNECT_TIMEOUT_MS = 10000;
+// Schedule frames exceed the default 23-byte MTU; iOS negotiates this on its own
+const REQUESTED_MTU = 185;
+
+// Transport over react-native-ble-plx using the pillbox's UART-style service
+export class BlePillboxTransport implements PillboxTransport {
+  private manager: BleManager | null = null;
+  private deviceId: string | null = null;
+  private dataListeners = new Set<(bytes: Uint8Array) => void>();
+  private disconnectListeners = new Set<(error?: Error) => void>();
+  private subscriptions: Subscription[] = [];
+
+  // Created on first use so screens that never touch Bluetooth do not start the native module
+  private getManager(): BleManager {
+    if (!this.manager) this.manager = new BleManager();
+    return this.manager;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!(await this.requestPermissions())) return false;
+    return (await this.getManager().state()) === State.PoweredOn;
+  }
+
+  async startScan(onDevice: (device: PillboxDevice) => void): Promise<void> {
+    await this.getManager().startDeviceScan(null, { allowDuplicates: false }, (error, device) => {
+      if (error) {
+        console.error('Error scanning for pillboxes:', error);
+        return;
+      }
+      // Not every box advertises the service UUID, so match on the name as well
+      const name = device?.localName || device?.name || '';
+      const advertisesService = device?.serviceUUIDs?.some(uuid => uuid.toLowerCase() === PILLBOX_SERVICE_UUID);
+      if (device && (advertisesService || name.startsWith(PILLBOX_NAME_PREFIX))) {
+        onDevice({ id: device.id, name: name || 'PillNow Box', rssi: device.rssi ?? null });
+      }
+    });
+  }
+
+  stopScan(): void {
+    this.manager?.stopDeviceScan();
+  }
+
+  async connect(deviceId: string): Promise<void> {
+    const manager = this.getManager();
+    this.clearSubscriptions();
+
+    const device: Device = await manager.connectToDevice(deviceId, {
+      timeout: CONNECT_TIMEOUT_MS,
+      requestMTU: Platform.OS === 'android' ? REQUESTED_MTU : undefined,
+    });
+    await device.discoverAllServicesAndCharacteristics();
+    this.deviceId = deviceId;
+
+    this.subscriptions.push(
+      manager.monitorCharacteristicForDevice(deviceId, PILLBOX_SERVICE_UUID, PILLBOX_TX_UUID, (error, characteristic) => {
+        if (error || !characteristic?.value) return;
+        const bytes = fromBase64(characteristic.value);
+        this.dataListeners.forEach(listener => listener(bytes));
+      }),
+      manager.onDeviceDisconnected(deviceId, error => {
+        this.deviceId = null;
+        this.clearSubscriptions();
+        this.disconnectListeners.forEach(listener => listener(error ?? undefined));
+      })
+    );
+  }
+
+  async disconnect(): Promise<void> {
+    const deviceId = this.deviceId;
+    this.deviceId = null;
+    this.clearSubscriptions();
+    if (deviceId) {
+      await this.getManager().cancelDeviceConnection(deviceId).catch(() => undefined);
+    }
+  }
+
+  async write(bytes: Uint8Array): Promise<void> {
+    if (!this.deviceId) throw new Error('Pillbox is not connected');
+    await this.getManager().writeCharacteristicWithResponseForDevice(
+      this.deviceId,
+      PILLBOX_SERVICE_UUID,
+      PILLBOX_RX_UUID,
+      toBase64(bytes)
+    );
+  }
+
+  async readRssi(): Promise<number | null> {
+    if (!this.deviceId) return null;
+    const device = await this.getManager().readRSSIForDevice(this.deviceId);
+    return device.rssi ?? null;
+  }
+
+  onData(listener: (bytes: Uint8Array) => void): () => void {
+    this.dataListeners.add(listener);
+    return () => {
+      this.dataListeners.delete(listener);
+    };
+  }
+
+  onDisconnect(listener: (error?: Error) => void): () => void {
+    this.disconnectListeners.add(listener);
+    return () => {
+      this.disconnectListeners.delete(listener);
+    };
+  }
+
+  private clearSubscriptions() {
+    this.subscriptions.forEach(subscription => subscription.remove());
+    this.subscriptions = [];
+  }
+
+  // Android 12+ needs the nearby-devices permissions, older versions need location
+  private async requestPermissions(): Promise<boolean> {
+    if (Platform.OS !== 'android') return true;
+
+    if (Platform.Version >= 31) {
+      const result = await PermissionsAndroid.requestMultiple([
+        PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+        PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+      ]);
+      return Object.values(result).every(status => status === PermissionsAndroid.RESULTS.GRANTED);
+    }
+
+    const status = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION);
+    return status === PermissionsAndroid.RESULTS.GRANTED;
+  }
+}
@@ -0,0 +1,260 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, Platform } from 'react-native';
+import messaging, { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
+import { notificationService, NotificationData } from './notificationService';
+import { sessionManager } from './sessionManager';
+import { reminderService } from './reminderService';
+import { doseEventService, MISSED_AFTER_MS } from './doseEventService';
+
+// Notifications received while the app was in the background
+const INBOX_KEY = 'push_inbox';
+const DEVICE_TOKEN_KEY = 'push_device_token';
+// Remember this many delivered ids so a tapped background push is not shown twice
+const MAX_SEEN_IDS = 50;
+
+export type RemoteMessage = Pick<FirebaseMessagingTypes.RemoteMessage, 'messageId' | 'data' | 'notification' | 'sentTime'>;
+
+// The slice of @react-native-firebase/messaging this pipeline uses; tests can supply a stub
+export interface PushMessagingModule {
+  requestPermission(): Promise<number>;
+  getToken(): Promise<string>;
+  deleteToken(): Promise<void>;
+  onMessage(listener: (message: RemoteMessage) => any): () => void;
+  onNotificationOpenedApp(listener: (message: RemoteMessage) => any): () => void;
+  onTokenRefresh(listener: (token: string) => any): () => void;
+  getInitialNotification(): Promise<RemoteMessage | null>;
+  setBackgroundMessageHandler(handler: (message: RemoteMessage) => Promise<any>): void;
+}
+
+type PushListener = (notification: NotificationData) => void;
+
+const NOTIFICATION_TYPES: NotificationData['type'][] = [
+  'medication', 'test_alarm', 'reminder', 'missed_dose', 'escalation', 'connection_request'
+];
+
+// Convert an FCM payload into the app's notification shape
+export const toNotificationData = (message: RemoteMessage): NotificationData => {
+  const data = message.data || {};
+  const read = (key: string): string | undefined => {
+    const value = data[key];
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  };
+
+  const containerId = Number(read('containerId'));
+
+  return {
+    id: read('id') ?? message.messageId ?? `push_${Date.now()}`,
+    type: NOTIFICATION_TYPES.find(type => type === read('type')) ?? 'medication',
+    title: read('title') ?? message.notification?.title ?? 'PillNow',
+    message: read('message') ?? message.notification?.body ?? '',
+    medicineName: read('medicineName'),
+    containerId: Number.isInteger(containerId) && containerId > 0 ? containerId : undefined,
+    scheduledTime: read('scheduledTime'),
+    scheduledDate: read('date'),
+    doseKey: read('doseKey'),
+    elderId: read('elderId'),
+    elderName: read('elderName'),
+    createdAt: read('createdAt') ?? new Date(message.sentTime ?? Date.now()).toISOString(),
+  };
+};
+
+class PushService {
+  private listeners = new Set<PushListener>();
+  private undelivered: NotificationData[] = [];
+  private seenIds: string[] = [];
+  private module: PushMessagingModule | null = null;
+
+  constructor(private createModule: () => PushMessagingModule = () => messaging()) {}
+
+  // Replace the native messaging module, e.g. with a stub in tests
+  setMessagingModule(module: PushMessagingModule) {
+    this.module = module;
+  }
+
+  private get messaging(): PushMessagingModule {
+    if (!this.module) {
+      this.module = this.createModule();
+    }
+    return this.module;
+  }
+
+  // Must be called at module load so FCM can wake the app in the background
+  registerBackgroundHandler(): void {
+    try {
+      this.messaging.setBackgroundMessageHandler(async (message) => {
+        await this.saveToInbox(toNotificationData(message));
+      });
+    } catch (error) {
+      console.error('Error registering background push handler:', error);
+    }
+  }
+
+  // Ask for permission and register this device's token with the backend
+  async registerDevice(): Promise<string | null> {
+    try {
+      const status = await this.messaging.requestPermission();
+      if (status !== messaging.AuthorizationStatus.AUTHORIZED && status !== messaging.AuthorizationStatus.PROVISIONAL) {
+        console.warn('Push notification permission denied');
+        return null;
+      }
+
+      const token = await this.messaging.getToken();
+      await notificationService.registerDevice(token, Platform.OS);
+      await AsyncStorage.setItem(DEVICE_TOKEN_KEY, token);
+      return token;
+    } catch (error) {
+      console.error('Error registering for push notifications:', error);
+      return null;
+    }
+  }
+
+  // Rotate the device token so a signed-out phone stops receiving alerts
+  async unregisterDevice(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(DEVICE_TOKEN_KEY);
+      await this.messaging.deleteToken();
+    } catch (error) {
+      console.error('Error unregistering push token:', error);
+    }
+  }
+
+  // Wire session and messaging events; returns an unsubscribe function
+  start(): () => void {
+    const unsubscribers: (() => void)[] = [];
+
+    unsubscribers.push(sessionManager.subscribe((event) => {
+      if (event === 'started') {
+        this.registerDevice();
+      } else if (event === 'signedOut' || event === 'expired') {
+        this.unregisterDevice();
+      }
+    }));
+
+    // Already logged in from a previous launch
+    sessionManager.getToken().then(token => {
+      if (token && !sessionManager.isExpired(token)) {
+        this.registerDevice();
+      }
+    }).catch(error => console.error('Error reading session for push registration:', error));
+
+    try {
+      const fcm = this.messaging;
+      unsubscribers.push(fcm.onMessage(message => this.deliver(toNotificationData(message))));
+      unsubscribers.push(fcm.onNotificationOpenedApp(message => this.deliver(toNotificationData(message))));
+      unsubscribers.push(fcm.onTokenRefresh(token => this.handleTokenRefresh(token)));
+
+      // The app may have been launched by tapping a push
+      fcm.getInitialNotification().then(message => {
+        if (message) this.deliver(toNotificationData(message));
+      }).catch(error => console.error('Error reading initial push notification:', error));
+    } catch (error) {
+      console.error('Error starting push notifications:', error);
+    }
+
+    this.drainInbox();
+    this.reportMissedDoses();
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        this.drainInbox();
+        this.reportMissedDoses();
+      }
+    });
+    unsubscribers.push(() => appStateSubscription.remove());
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  // Receive notifications as they arrive; anything that arrived earlier is replayed
+  subscribe(listener: PushListener): () => void {
+    this.listeners.add(listener);
+    const backlog = this.undelivered;
+    this.undelivered = [];
+    backlog.forEach(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Report reminders never confirmed so caregivers get pushed, against the elder each was set for
+  async reportMissedDoses(): Promise<number> {
+    try {
+      const session = await sessionManager.getToken();
+      if (!session || sessionManager.isExpired(session)) return 0;
+
+      const missed = await reminderService.collectMissed(MISSED_AFTER_MS);
+      let notified = 0;
+      for (const dose of missed) {
+        await doseEventService.record({
+          elderId: dose.elderId,
+          doseKey: dose.reminderKey,
+          medicationName: dose.medicineName,
+          containerId: dose.container,
+          scheduledDate: dose.date,
+          scheduledTime: dose.time,
+          status: 'missed',
+          source: 'system',
+        });
+        notified += await notificationService.reportMissedDose({
+          elderId: dose.elderId,
+          medicationName: dose.medicineName,
+          containerId: dose.container,
+          scheduledTime: dose.time,
+          date: dose.date,
+        });
+      }
+      return notified;
+    } catch (error) {
+      console.error('Error reporting missed doses:', error);
+      return 0;
+    }
+  }
+
+  private deliver(notification: NotificationData) {
+    if (this.seenIds.includes(notification.id)) return;
+    this.seenIds = [...this.seenIds, notification.id].slice(-MAX_SEEN_IDS);
+
+    if (this.listeners.size === 0) {
+      this.undelivered.push(notification);
+      return;
+    }
+    this.listeners.forEach(listener => listener(notification));
+  }
+
+  private async handleTokenRefresh(token: string) {
+    try {
+      const session = await sessionManager.getToken();
+      if (!session || sessionManager.isExpired(session)) return;
+      await notificationService.registerDevice(token, Platform.OS);
+      await AsyncStorage.setItem(DEVICE_TOKEN_KEY, token);
+    } catch (error) {
+      console.error('Error updating refreshed push token:', error);
+    }
+  }
+
+  private async saveToInbox(notification: NotificationData) {
+    try {
+      const inbox = await this.readInbox();
+      await AsyncStorage.setItem(INBOX_KEY, JSON.stringify([...inbox, notification]));
+    } catch (error) {
+      console.error('Error saving background push:', error);
+    }
+  }
+
+  private async drainInbox() {
+    try {
+      const inbox = await this.readInbox();
+      if (inbox.length === 0) return;
+      await AsyncStorage.removeItem(INBOX_KEY);
+      inbox.forEach(notification => this.deliver(notification));
+    } catch (error) {
+      console.error('Error reading background pushes:', error);
+    }
+  }
+
+  private async readInbox(): Promise<NotificationData[]> {
+    const stored = await AsyncStorage.getItem(INBOX_KEY);
+    return stored ? (JSON.parse(stored) as NotificationData[]) : [];
+  }
+}
+
+export const pushService = new PushService();
@@ -0,0 +1,225 @@
+import { MedicationSchedule, ScheduleFrequency, ScheduleRecord, TimeSlot } from './api';
+
+export interface RecurrenceRule {
+  frequency: ScheduleFrequency;
+  timeSlots: TimeSlot[];
+  daysOfWeek: number[]; // 0 = Sunday
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null;
+}
+
+// One concrete dose produced by expanding a schedule
+export interface DoseOccurrence {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  at: Date;
+}
+
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  daily: 'Once a day',
+  twice_daily: 'Twice a day',
+  thrice_daily: '3 times a day',
+  weekly: 'Weekly',
+  custom: 'Custom',
+};
+
+// Number of time slots each N-times-a-day frequency expects
+const SLOTS_PER_DAY: Partial<Record<ScheduleFrequency, number>> = {
+  daily: 1,
+  twice_daily: 2,
+  thrice_daily: 3,
+};
+
+const DEFAULT_SLOT_TIMES: Record<number, string[]> = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+};
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+// Safety cap so an open-ended rule can never produce an unbounded list
+const MAX_OCCURRENCES = 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Device-local YYYY-MM-DD (toISOString would shift the day across UTC midnight)
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const toTimeKey = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Local midnight of a YYYY-MM-DD string; ISO datetimes from the server keep only their date part
+export const parseDateKey = (dateKey: string): Date | null => {
+  const [year, month, day] = dateKey.slice(0, 10).split('-').map(Number);
+  if ([year, month, day].some(value => !Number.isInteger(value))) return null;
+  return new Date(year, month - 1, day);
+};
+
+// YYYY-MM-DD for a date key or server datetime; anything unreadable is kept so validation can flag it
+const normalizeDateKey = (value: string): string => {
+  const day = parseDateKey(value);
+  return day ? toDateKey(day) : value;
+};
+
+export const combineDateTime = (dateKey: string, time: string): Date | null => {
+  const day = parseDateKey(dateKey);
+  const [hours, minutes] = time.split(':').map(Number);
+  if (!day || Number.isNaN(hours) || Number.isNaN(minutes)) return null;
+  day.setHours(hours, minutes, 0, 0);
+  return day;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+export const isRecurring = (record: Partial<ScheduleRecord>): boolean =>
+  !!record.frequency && !!record.timeSlots && record.timeSlots.length > 0;
+
+// Read the rule stored on a schedule record, or null for single doses
+export const getRecurrenceRule = (record: Partial<ScheduleRecord>): RecurrenceRule | null => {
+  if (!isRecurring(record)) return null;
+  return {
+    frequency: record.frequency!,
+    timeSlots: record.timeSlots!,
+    daysOfWeek: record.daysOfWeek && record.daysOfWeek.length > 0 ? record.daysOfWeek : ALL_DAYS,
+    // Server copies carry full datetimes; compare and show the dates alone
+    startDate: normalizeDateKey(record.startDate || record.date || toDateKey(new Date())),
+    endDate: record.endDate ? normalizeDateKey(record.endDate) : null,
+  };
+};
+
+// A sensible starting rule when the user picks a frequency
+export const createRule = (frequency: ScheduleFrequency, startDate: Date = new Date()): RecurrenceRule => {
+  const slotCount = SLOTS_PER_DAY[frequency] ?? 1;
+  return {
+    frequency,
+    timeSlots: DEFAULT_SLOT_TIMES[slotCount].map(time => ({ time, isActive: true })),
+    daysOfWeek: frequency === 'weekly' ? [startDate.getDay()] : ALL_DAYS,
+    startDate: toDateKey(startDate),
+    endDate: null,
+  };
+};
+
+// Switch frequency while keeping the user's times where possible
+export const changeFrequency = (rule: RecurrenceRule, frequency: ScheduleFrequency): RecurrenceRule => {
+  const slotCount = SLOTS_PER_DAY[frequency];
+  const times = rule.timeSlots.map(slot => slot.time);
+  const timeSlots = slotCount
+    ? DEFAULT_SLOT_TIMES[slotCount].map((fallback, index) => ({ time: times[index] ?? fallback, isActive: true }))
+    : rule.timeSlots;
+
+  const startDay = parseDateKey(rule.startDate)?.getDay() ?? new Date().getDay();
+  const daysOfWeek = frequency === 'weekly' || frequency === 'custom'
+    ? (rule.daysOfWeek.length === ALL_DAYS.length ? [startDay] : rule.daysOfWeek)
+    : ALL_DAYS;
+
+  return { ...rule, frequency, timeSlots, daysOfWeek };
+};
+
+// Days the rule fires on; daily variants ignore daysOfWeek
+const activeDays = (rule: RecurrenceRule): number[] =>
+  SLOTS_PER_DAY[rule.frequency] ? ALL_DAYS : rule.daysOfWeek;
+
+const activeTimes = (rule: RecurrenceRule): string[] =>
+  rule.timeSlots
+    .filter(slot => slot.isActive !== false && TIME_PATTERN.test(slot.time))
+    .map(slot => slot.time)
+    .sort();
+
+// Returns an error message, or null when the rule can be saved
+export const validateRule = (rule: RecurrenceRule): string | null => {
+  const times = rule.timeSlots.map(slot => slot.time);
+  if (times.length === 0) return 'Add at least one time';
+  if (times.some(time => !TIME_PATTERN.test(time))) return 'Times must be in HH:MM format';
+  if (new Set(times).size !== times.length) return 'Each time can only be added once';
+  const slotCount = SLOTS_PER_DAY[rule.frequency];
+  if (slotCount && times.length !== slotCount) return `${FREQUENCY_LABELS[rule.frequency]} needs ${slotCount} time(s)`;
+  if (activeDays(rule).length === 0) return 'Pick at least one day';
+  if (!parseDateKey(rule.startDate)) return 'Pick a start date';
+  if (rule.endDate && rule.endDate < rule.startDate) return 'End date must be after the start date';
+  return null;
+};
+
+// Expand a rule into concrete doses between from and to (inclusive)
+export const expandRule = (rule: RecurrenceRule, from: Date, to: Date, limit: number = MAX_OCCURRENCES): DoseOccurrence[] => {
+  const start = parseDateKey(rule.startDate);
+  if (!start) return [];
+
+  const end = rule.endDate ? parseDateKey(rule.endDate) : null;
+  const days = activeDays(rule);
+  const times = activeTimes(rule);
+  const occurrences: DoseOccurrence[] = [];
+
+  const firstDay = new Date(Math.max(start.getTime(), new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime()));
+  for (let day = firstDay; day <= to && (!end || day <= end); day = addDays(day, 1)) {
+    if (!days.includes(day.getDay())) continue;
+
+    const dateKey = toDateKey(day);
+    for (const time of times) {
+      const at = combineDateTime(dateKey, time);
+      if (!at || at < from || at > to) continue;
+      occurrences.push({ date: dateKey, time, at });
+      if (occurrences.length >= limit) return occurrences;
+    }
+  }
+
+  return occurrences;
+};
+
+// Expand any schedule record: recurring rules or a single dated dose
+export const expandSchedule = (record: ScheduleRecord, from: Date, to: Date, limit?: number): DoseOccurrence[] => {
+  const rule = getRecurrenceRule(record);
+  if (rule) return expandRule(rule, from, to, limit);
+
+  const at = combineDateTime(record.date, record.time);
+  return at && at >= from && at <= to ? [{ date: record.date, time: record.time, at }] : [];
+};
+
+type KeyedSchedule = ScheduleRecord & Partial<Pick<MedicationSchedule, '_id'>>;
+
+// Server _id when known, otherwise the dose itself identifies the schedule
+export const getScheduleKey = (record: KeyedSchedule): string =>
+  record._id || `${record.user}_${record.container}_${record.date}_${record.time}`;
+
+// Stable id for one dose; reminders and dose events share it
+export const getDoseKey = (record: KeyedSchedule, occurrence: Pick<DoseOccurrence, 'date' | 'time'>): string =>
+  isRecurring(record)
+    ? `${getScheduleKey(record)}@${occurrence.date}T${occurrence.time}`
+    : getScheduleKey(record);
+
+// Next dose on or after a moment, looking up to a year ahead
+export const getNextOccurrence = (rule: RecurrenceRule, after: Date = new Date()): DoseOccurrence | null =>
+  expandRule(rule, after, addDays(after, 366), 1)[0] ?? null;
+
+// Fields to merge into a ScheduleRecord; date/time mirror the first dose for older screens
+export const toRecordFields = (rule: RecurrenceRule): Pick<ScheduleRecord, 'date' | 'time' | 'frequency' | 'timeSlots' | 'daysOfWeek' | 'startDate' | 'endDate'> => {
+  const start = parseDateKey(rule.startDate) ?? new Date();
+  const first = getNextOccurrence(rule, start);
+  return {
+    date: first?.date ?? rule.startDate,
+    time: first?.time ?? activeTimes(rule)[0] ?? '08:00',
+    frequency: rule.frequency,
+    timeSlots: rule.timeSlots.map(slot => ({ time: slot.time, isActive: slot.isActive !== false })),
+    daysOfWeek: activeDays(rule),
+    startDate: rule.startDate,
+    endDate: rule.endDate,
+  };
+};
+
+// Short human description, e.g. "Mon, Wed at 08:00 from 2025-01-01"
+export const describeRule = (rule: RecurrenceRule): string => {
+  const times = activeTimes(rule).join(', ');
+  const days = activeDays(rule);
+  const dayText = days.length === ALL_DAYS.length
+    ? 'Every day'
+    : days.slice().sort().map(day => DAY_LABELS[day]).join(', ');
+  const range = rule.endDate ? `${rule.startDate} to ${rule.endDate}` : `from ${rule.startDate}`;
+  return `${dayText} at ${times} (${range})`;
+};
@@ -0,0 +1,395 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { MedicationSchedule, ScheduleRecord } from './api';
+import { addDays, combineDateTime, expandSchedule, getDoseKey, getRecurrenceRule, getScheduleKey, DoseOccurrence } from './recurrence';
+
+const REMINDERS_KEY = 'medication_reminders';
+const RULES_KEY = 'medication_reminder_rules';
+const CHANNEL_ID = 'medication-reminders';
+// Recurring schedules are kept topped up this far ahead (iOS allows 64 pending notifications)
+const REMINDER_HORIZON_DAYS = 7;
+const MAX_REMINDERS_PER_SCHEDULE = 21;
+
+export const REMINDER_NOTIFICATION_TYPE = 'medication_reminder';
+
+// Payload attached to each local notification, read back when it is tapped
+export interface ReminderPayload {
+  type: typeof REMINDER_NOTIFICATION_TYPE;
+  reminderKey: string;
+  medicineName: string;
+  containerId: number;
+  scheduledTime: string;
+  date: string;
+}
+
+interface StoredReminder {
+  notificationId: string;
+  // The elder the dose belongs to (schedule.user), not whoever is signed in on this phone
+  elderId: string;
+  medicineName: string;
+  container: number;
+  date: string;
+  time: string;
+}
+
+// A reminder that fired but was never confirmed with "Done"
+export interface MissedReminder {
+  reminderKey: string;
+  // Missing on reminders stored before elders were tracked
+  elderId?: string;
+  medicineName: string;
+  container: number;
+  date: string;
+  time: string;
+}
+
+type ReminderMap = Record<string, StoredReminder>;
+
+type ReminderSchedule = ScheduleRecord & Partial<Pick<MedicationSchedule, '_id'>>;
+
+// Recurring schedules, kept so future occurrences can be scheduled later
+interface StoredRule {
+  schedule: ReminderSchedule;
+  medicineName: string;
+}
+
+type RuleMap = Record<string, StoredRule>;
+
+export const isReminderPayload = (data: unknown): data is ReminderPayload =>
+  !!data && typeof data === 'object' && (data as { type?: unknown }).type === REMINDER_NOTIFICATION_TYPE;
+
+class ReminderService {
+  private configured = false;
+  // Reminders and rules are read, changed and written back one change at a time, so none is lost
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Show reminders while the app is open and register the Android channel
+  async configure(): Promise<void> {
+    if (this.configured) return;
+    this.configured = true;
+
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Medication reminders',
+        importance: Notifications.AndroidImportance.MAX,
+        vibrationPattern: [0, 250, 250, 250],
+        sound: 'default',
+      });
+    }
+  }
+
+  // Ask for notification permission once; later calls reuse the answer
+  async ensurePermission(): Promise<boolean> {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  }
+
+  // Reminders are stored under the schedule's key (one-off doses) or per-occurrence dose keys
+  getReminderKey(schedule: ReminderSchedule): string {
+    return getScheduleKey(schedule);
+  }
+
+  // Schedule local notifications for a dose or the upcoming doses of a rule; past doses are skipped
+  async scheduleReminder(schedule: ReminderSchedule, medicineName: string): Promise<number> {
+    try {
+      return await this.serialize(() => this.storeReminder(schedule, medicineName));
+    } catch (error) {
+      console.error('Error scheduling reminder:', error);
+      return 0;
+    }
+  }
+
+  private async storeReminder(schedule: ReminderSchedule, medicineName: string): Promise<number> {
+    const baseKey = this.getReminderKey(schedule);
+    await this.removeReminders(schedule);
+
+    const rule = getRecurrenceRule(schedule);
+    if (rule) {
+      const rules = await this.getRules();
+      rules[baseKey] = { schedule, medicineName };
+      await this.saveRules(rules);
+    }
+
+    const now = new Date();
+    const occurrences = expandSchedule(schedule, now, addDays(now, REMINDER_HORIZON_DAYS), MAX_REMINDERS_PER_SCHEDULE);
+    if (occurrences.length === 0) return 0;
+
+    await this.configure();
+    if (!(await this.ensurePermission())) {
+      console.warn('Notification permission denied, reminder not scheduled');
+      return 0;
+    }
+
+    const reminders = await this.getReminders();
+    let scheduled = 0;
+    for (const occurrence of occurrences) {
+      const reminderKey = getDoseKey(schedule, occurrence);
+      reminders[reminderKey] = await this.scheduleOccurrence(reminderKey, occurrence, schedule, medicineName);
+      scheduled++;
+    }
+    await this.saveReminders(reminders);
+
+    return scheduled;
+  }
+
+  private async scheduleOccurrence(
+    reminderKey: string,
+    occurrence: DoseOccurrence,
+    schedule: ReminderSchedule,
+    medicineName: string
+  ): Promise<StoredReminder> {
+    const notificationId = await this.notify({
+      type: REMINDER_NOTIFICATION_TYPE,
+      reminderKey,
+      medicineName,
+      containerId: schedule.container,
+      scheduledTime: occurrence.time,
+      date: occurrence.date,
+    }, occurrence.at);
+
+    return {
+      notificationId,
+      elderId: String(schedule.user),
+      medicineName,
+      container: schedule.container,
+      date: occurrence.date,
+      time: occurrence.time,
+    };
+  }
+
+  // Remind again about a snoozed dose; the caller tracks it, so it is not counted towards missed doses
+  async scheduleSnoozedReminder(payload: Omit<ReminderPayload, 'type'>, at: Date): Promise<string | null> {
+    try {
+      await this.configure();
+      if (!(await this.ensurePermission())) {
+        console.warn('Notification permission denied, snoozed reminder not scheduled');
+        return null;
+      }
+      return await this.notify({ ...payload, type: REMINDER_NOTIFICATION_TYPE }, at);
+    } catch (error) {
+      console.error('Error scheduling snoozed reminder:', error);
+      return null;
+    }
+  }
+
+  private notify(payload: ReminderPayload, at: Date): Promise<string> {
+    return Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Time to take your medicine!',
+        body: `${payload.medicineName} • Container ${payload.containerId} • ${payload.scheduledTime}`,
+        data: { ...payload },
+        sound: 'default',
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: at,
+        channelId: CHANNEL_ID,
+      },
+    });
+  }
+
+  // Schedule occurrences of recurring schedules that have come into the horizon
+  async refreshRecurring(): Promise<number> {
+    try {
+      return await this.serialize(() => this.extendRecurring());
+    } catch (error) {
+      console.error('Error refreshing recurring reminders:', error);
+      return 0;
+    }
+  }
+
+  private async extendRecurring(): Promise<number> {
+    const rules = await this.getRules();
+    const entries = Object.entries(rules);
+    if (entries.length === 0) return 0;
+
+    const reminders = await this.getReminders();
+    const now = new Date();
+    const horizon = addDays(now, REMINDER_HORIZON_DAYS);
+    let scheduled = 0;
+
+    for (const [baseKey, { schedule, medicineName }] of entries) {
+      const rule = getRecurrenceRule(schedule);
+      if (!rule || (rule.endDate && combineDateTime(rule.endDate, '23:59')! < now)) {
+        delete rules[baseKey];
+        continue;
+      }
+
+      const occurrences = expandSchedule(schedule, now, horizon, MAX_REMINDERS_PER_SCHEDULE);
+      for (const occurrence of occurrences) {
+        const reminderKey = getDoseKey(schedule, occurrence);
+        if (reminders[reminderKey]) continue;
+        reminders[reminderKey] = await this.scheduleOccurrence(reminderKey, occurrence, schedule, medicineName);
+        scheduled++;
+      }
+    }
+
+    await this.saveRules(rules);
+    if (scheduled > 0) await this.saveReminders(reminders);
+    return scheduled;
+  }
+
+  // Schedule reminders for a batch of doses, resolving names via the lookup
+  async scheduleReminders(
+    schedules: ReminderSchedule[],
+    getMedicineName: (schedule: ReminderSchedule) => string
+  ): Promise<number> {
+    let scheduled = 0;
+    for (const schedule of schedules) {
+      scheduled += await this.scheduleReminder(schedule, getMedicineName(schedule));
+    }
+    return scheduled;
+  }
+
+  // Replace the reminder of an edited dose; the previous version may have a different key
+  async rescheduleReminder(
+    previous: ReminderSchedule | null,
+    updated: ReminderSchedule,
+    medicineName: string
+  ): Promise<number> {
+    try {
+      return await this.serialize(async () => {
+        if (previous) await this.removeReminders(previous);
+        return this.storeReminder(updated, medicineName);
+      });
+    } catch (error) {
+      console.error('Error scheduling reminder:', error);
+      return 0;
+    }
+  }
+
+  // Cancel a dose's reminders (all occurrences for a rule), whether stored under its _id or dose key
+  async cancelReminder(schedule: ReminderSchedule | string): Promise<void> {
+    try {
+      await this.serialize(() => this.removeReminders(schedule));
+    } catch (error) {
+      console.error('Error cancelling reminder:', error);
+    }
+  }
+
+  private async removeReminders(schedule: ReminderSchedule | string): Promise<void> {
+    const [reminders, rules] = await Promise.all([this.getReminders(), this.getRules()]);
+    const baseKeys = typeof schedule === 'string'
+      ? [schedule]
+      : [this.getReminderKey(schedule), this.getReminderKey({ ...schedule, _id: undefined })];
+    const matches = (key: string) => baseKeys.some(base => key === base || key.startsWith(`${base}@`));
+
+    let changed = false;
+    for (const key of Object.keys(reminders).filter(matches)) {
+      await Notifications.cancelScheduledNotificationAsync(reminders[key].notificationId);
+      delete reminders[key];
+      changed = true;
+    }
+    if (changed) await this.saveReminders(reminders);
+
+    const ruleKeys = baseKeys.filter(key => rules[key]);
+    if (ruleKeys.length > 0) {
+      ruleKeys.forEach(key => delete rules[key]);
+      await this.saveRules(rules);
+    }
+  }
+
+  // The user confirmed the dose; it no longer counts towards missed doses
+  async acknowledgeReminder(reminderKey: string): Promise<void> {
+    try {
+      await this.serialize(async () => {
+        const reminders = await this.getReminders();
+        const reminder = reminders[reminderKey];
+        if (!reminder) return;
+        await Notifications.cancelScheduledNotificationAsync(reminder.notificationId);
+        delete reminders[reminderKey];
+        await this.saveReminders(reminders);
+      });
+    } catch (error) {
+      console.error('Error acknowledging reminder:', error);
+    }
+  }
+
+  // Remove and return reminders left unconfirmed longer than the grace period
+  collectMissed(graceMs: number, now: number = Date.now()): Promise<MissedReminder[]> {
+    return this.serialize(() => this.takeMissed(graceMs, now));
+  }
+
+  private async takeMissed(graceMs: number, now: number): Promise<MissedReminder[]> {
+    const reminders = await this.getReminders();
+    const missed: MissedReminder[] = [];
+
+    Object.entries(reminders).forEach(([reminderKey, reminder]) => {
+      const dueAt = combineDateTime(reminder.date, reminder.time)?.getTime();
+      if (dueAt === undefined || dueAt + graceMs > now) return;
+      missed.push({
+        reminderKey,
+        elderId: reminder.elderId,
+        medicineName: reminder.medicineName,
+        container: reminder.container,
+        date: reminder.date,
+        time: reminder.time,
+      });
+      delete reminders[reminderKey];
+    });
+
+    if (missed.length > 0) await this.saveReminders(reminders);
+    return missed;
+  }
+
+  // Cancel every reminder this app scheduled
+  async cancelAll(): Promise<void> {
+    try {
+      await this.serialize(async () => {
+        await Notifications.cancelAllScheduledNotificationsAsync();
+        await AsyncStorage.multiRemove([REMINDERS_KEY, RULES_KEY]);
+      });
+    } catch (error) {
+      console.error('Error cancelling reminders:', error);
+    }
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async getReminders(): Promise<ReminderMap> {
+    try {
+      const stored = await AsyncStorage.getItem(REMINDERS_KEY);
+      return stored ? (JSON.parse(stored) as ReminderMap) : {};
+    } catch (error) {
+      console.error('Error reading reminders:', error);
+      return {};
+    }
+  }
+
+  private async saveReminders(reminders: ReminderMap) {
+    await AsyncStorage.setItem(REMINDERS_KEY, JSON.stringify(reminders));
+  }
+
+  private async getRules(): Promise<RuleMap> {
+    try {
+      const stored = await AsyncStorage.getItem(RULES_KEY);
+      return stored ? (JSON.parse(stored) as RuleMap) : {};
+    } catch (error) {
+      console.error('Error reading reminder rules:', error);
+      return {};
+    }
+  }
+
+  private async saveRules(rules: RuleMap) {
+    await AsyncStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  }
+}
+
+export const reminderService = new ReminderService();
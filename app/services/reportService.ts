@@ -0,0 +1,347 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { DoseHistory, DoseRow, doseEventService } from './doseEventService';
+import {
+  AdherenceSummary,
+  TrendPoint,
+  byMedication,
+  dailyTrend,
+  getLateness,
+  getStreaks,
+  summarize,
+  weeklyTrend,
+} from './adherenceStats';
+import { combineDateTime, describeRule, getRecurrenceRule, parseDateKey } from './recurrence';
+
+const HISTORY_KEY = 'report_history';
+const REPORTS_DIR = 'reports/';
+const MAX_HISTORY = 20;
+
+export type ReportSection = 'patient' | 'medications' | 'summary' | 'missed' | 'charts';
+
+export const REPORT_SECTIONS: { key: ReportSection; label: string }[] = [
+  { key: 'patient', label: 'Patient header' },
+  { key: 'medications', label: 'Medication list' },
+  { key: 'summary', label: 'Adherence summary' },
+  { key: 'missed', label: 'Missed-dose log' },
+  { key: 'charts', label: 'Charts' },
+];
+
+export interface ReportOptions {
+  elderId: string;
+  elderName: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  sections: ReportSection[];
+}
+
+// A generated PDF kept on the device so it can be shared again later
+export interface ReportRecord extends ReportOptions {
+  id: string;
+  title: string;
+  uri: string;
+  createdAt: string;
+}
+
+const STATUS_LABELS: Record<DoseRow['status'], string> = {
+  taken: 'Taken',
+  late: 'Taken late',
+  skipped: 'Skipped',
+  missed: 'Missed',
+  pending: 'Pending',
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Every value from the server or the user goes through this before entering the template
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? '').replace(/[&<>"']/g, character => HTML_ESCAPES[character]);
+
+const formatRate = (rate: number | null) => (rate === null ? '-' : `${rate}%`);
+
+const REPORT_STYLES = `
+  body { font-family: Arial, sans-serif; padding: 20px; color: #333333; }
+  h1 { color: #D14A99; text-align: center; margin-bottom: 4px; }
+  h2 { color: #4A90E2; border-bottom: 2px solid #4A90E2; padding-bottom: 4px; margin-top: 28px; }
+  .subtitle { text-align: center; color: #666666; margin-top: 0; }
+  .patient { display: flex; justify-content: space-between; border: 1px solid #dddddd; border-radius: 5px; padding: 12px 15px; }
+  .patient p { margin: 4px 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 10px; font-size: 12px; }
+  th, td { border: 1px solid #dddddd; padding: 6px 8px; text-align: left; }
+  th { background: #F3F4F6; }
+  .total td { font-weight: bold; }
+  .taken { color: #4CAF50; }
+  .late { color: #FFA500; }
+  .missed { color: #E53935; }
+  .skipped, .pending { color: #666666; }
+  .chart { display: flex; align-items: flex-end; height: 140px; border-left: 1px solid #999999; border-bottom: 1px solid #999999; padding: 0 4px; margin-top: 10px; }
+  .bar-slot { flex: 1; height: 100%; display: flex; flex-direction: column; justify-content: flex-end; align-items: center; }
+  .bar { width: 70%; background: #4A90E2; border-radius: 2px 2px 0 0; }
+  .bar.empty { height: 2px; background: #dddddd; }
+  .chart-labels { display: flex; padding: 0 4px; font-size: 9px; color: #666666; }
+  .chart-labels span { flex: 1; text-align: center; overflow: hidden; }
+  .hbar-row { display: flex; align-items: center; margin: 6px 0; font-size: 12px; }
+  .hbar-label { width: 30%; }
+  .hbar-track { flex: 1; height: 10px; background: #F3F4F6; border-radius: 5px; margin: 0 8px; }
+  .hbar-fill { height: 100%; background: #4A90E2; border-radius: 5px; }
+  .empty-note { color: #666666; font-style: italic; }
+  .footer { margin-top: 30px; font-size: 10px; color: #999999; text-align: center; }
+`;
+
+const daysBetween = (from: string, to: string): number => {
+  const start = parseDateKey(from);
+  const end = parseDateKey(to);
+  if (!start || !end) return 1;
+  return Math.max(1, Math.round((end.getTime() - start.getTime()) / 86400000) + 1);
+};
+
+const renderPatient = (options: ReportOptions, summary: AdherenceSummary, generatedAt: Date) => `
+  <div class="patient">
+    <div>
+      <p><strong>Patient:</strong> ${escapeHtml(options.elderName || 'Unknown')}</p>
+      <p><strong>Patient ID:</strong> ${escapeHtml(options.elderId)}</p>
+    </div>
+    <div>
+      <p><strong>Period:</strong> ${escapeHtml(options.from)} to ${escapeHtml(options.to)}</p>
+      <p><strong>Overall adherence:</strong> ${escapeHtml(formatRate(summary.rate))}</p>
+      <p><strong>Generated:</strong> ${escapeHtml(generatedAt.toLocaleString())}</p>
+    </div>
+  </div>`;
+
+const renderMedications = (history: DoseHistory) => {
+  if (history.schedules.length === 0) {
+    return '<h2>Medications</h2><p class="empty-note">No medications scheduled.</p>';
+  }
+
+  const rows = history.schedules
+    .slice()
+    .sort((a, b) => a.container - b.container)
+    .map(schedule => {
+      const medication = history.medications.find(candidate => candidate.medId === schedule.medication);
+      const rule = getRecurrenceRule(schedule);
+      return `
+        <tr>
+          <td>${escapeHtml(schedule.container)}</td>
+          <td>${escapeHtml(medication?.name ?? 'Medication')}</td>
+          <td>${escapeHtml(medication?.dosage ?? '-')}</td>
+          <td>${escapeHtml(medication?.form ?? '-')}</td>
+          <td>${escapeHtml(medication?.manufacturer ?? '-')}</td>
+          <td>${escapeHtml(rule ? describeRule(rule) : `${schedule.date} at ${schedule.time}`)}</td>
+        </tr>`;
+    })
+    .join('');
+
+  return `
+    <h2>Medications</h2>
+    <table>
+      <tr><th>Container</th><th>Medication</th><th>Dosage</th><th>Form</th><th>Manufacturer</th><th>Schedule</th></tr>
+      ${rows}
+    </table>`;
+};
+
+const renderSummary = (rows: DoseRow[], summary: AdherenceSummary) => {
+  const streaks = getStreaks(rows);
+  const lateness = getLateness(rows);
+  const summaryRow = (label: string, group: AdherenceSummary, className = '') => `
+    <tr class="${className}">
+      <td>${escapeHtml(label)}</td>
+      <td>${group.total}</td>
+      <td>${group.taken}</td>
+      <td>${group.late}</td>
+      <td>${group.missed}</td>
+      <td>${group.skipped}</td>
+      <td>${escapeHtml(formatRate(group.rate))}</td>
+    </tr>`;
+
+  return `
+    <h2>Adherence Summary</h2>
+    <table>
+      <tr><th>Medication</th><th>Scheduled</th><th>On time</th><th>Late</th><th>Missed</th><th>Skipped</th><th>Adherence</th></tr>
+      ${byMedication(rows).map(group => summaryRow(group.label, group)).join('')}
+      ${summaryRow('All medications', summary, 'total')}
+    </table>
+    <p>
+      <strong>Current streak:</strong> ${streaks.current} day(s) &nbsp;
+      <strong>Longest streak:</strong> ${streaks.longest} day(s) &nbsp;
+      <strong>Average delay:</strong> ${lateness.averageMinutes === null ? '-' : `${lateness.averageMinutes} min`}
+    </p>`;
+};
+
+const renderMissed = (rows: DoseRow[]) => {
+  const missed = rows.filter(row => row.status === 'missed' || row.status === 'skipped');
+  if (missed.length === 0) {
+    return '<h2>Missed-Dose Log</h2><p class="empty-note">No missed or skipped doses in this period.</p>';
+  }
+
+  return `
+    <h2>Missed-Dose Log</h2>
+    <table>
+      <tr><th>Date</th><th>Time</th><th>Container</th><th>Medication</th><th>Status</th><th>Notes</th></tr>
+      ${missed.map(row => `
+        <tr>
+          <td>${escapeHtml(row.date)}</td>
+          <td>${escapeHtml(row.time)}</td>
+          <td>${escapeHtml(row.containerId)}</td>
+          <td>${escapeHtml(row.medicationName)}</td>
+          <td class="${row.status}">${escapeHtml(STATUS_LABELS[row.status])}</td>
+          <td>${escapeHtml(row.event?.notes ?? '')}</td>
+        </tr>`).join('')}
+    </table>`;
+};
+
+const renderTrend = (points: TrendPoint[]) => {
+  const labelEvery = Math.max(1, Math.ceil(points.length / 10));
+  return `
+    <div class="chart">
+      ${points.map(point => `
+        <div class="bar-slot">
+          ${point.rate === null
+            ? '<div class="bar empty"></div>'
+            : `<div class="bar" style="height: ${Math.max(point.rate, 2)}%"></div>`}
+        </div>`).join('')}
+    </div>
+    <div class="chart-labels">
+      ${points.map((point, index) => `<span>${index % labelEvery === 0 ? escapeHtml(point.label) : ''}</span>`).join('')}
+    </div>`;
+};
+
+const renderCharts = (rows: DoseRow[], options: ReportOptions) => {
+  const end = parseDateKey(options.to) ?? new Date();
+  const days = daysBetween(options.from, options.to);
+  // Daily bars get too thin past a month, so longer periods are shown per week
+  const trend = days > 31 ? weeklyTrend(rows, end, days) : dailyTrend(rows, end, days);
+
+  return `
+    <h2>Charts</h2>
+    <h3>${days > 31 ? 'Weekly' : 'Daily'} adherence</h3>
+    ${renderTrend(trend)}
+    <h3>Adherence by medication</h3>
+    ${byMedication(rows).map(group => `
+      <div class="hbar-row">
+        <span class="hbar-label">${escapeHtml(group.label)}</span>
+        <div class="hbar-track"><div class="hbar-fill" style="width: ${group.rate ?? 0}%"></div></div>
+        <span>${escapeHtml(formatRate(group.rate))}</span>
+      </div>`).join('')}`;
+};
+
+// Build the report document; only the selected sections are included, in a fixed order
+export const renderReportHtml = (options: ReportOptions, history: DoseHistory, generatedAt: Date = new Date()): string => {
+  const rows = history.rows.filter(row => row.date >= options.from && row.date <= options.to);
+  const summary = summarize(rows);
+  const include = (section: ReportSection) => options.sections.includes(section);
+
+  return `
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <style>${REPORT_STYLES}</style>
+      </head>
+      <body>
+        <h1>Medication Adherence Report</h1>
+        <p class="subtitle">${escapeHtml(options.elderName || 'Patient')} &middot; ${escapeHtml(options.from)} to ${escapeHtml(options.to)}</p>
+        ${include('patient') ? renderPatient(options, summary, generatedAt) : ''}
+        ${include('medications') ? renderMedications(history) : ''}
+        ${include('summary') ? renderSummary(rows, summary) : ''}
+        ${include('missed') ? renderMissed(rows) : ''}
+        ${include('charts') ? renderCharts(rows, options) : ''}
+        <p class="footer">Generated by PillNow on ${escapeHtml(generatedAt.toLocaleString())}</p>
+      </body>
+    </html>`;
+};
+
+class ReportService {
+  // Render the report to a PDF, keep it in the app's documents and add it to the history
+  async generate(options: ReportOptions): Promise<ReportRecord> {
+    try {
+      const from = parseDateKey(options.from);
+      const to = combineDateTime(options.to, '23:59');
+      if (!from || !to || from > to) {
+        throw new Error('Choose a valid date range');
+      }
+      if (options.sections.length === 0) {
+        throw new Error('Choose at least one section');
+      }
+
+      const history = await doseEventService.loadHistory(options.elderId, from, to);
+      const createdAt = new Date();
+      const { uri: tempUri } = await Print.printToFileAsync({ html: renderReportHtml(options, history, createdAt) });
+
+      const id = String(createdAt.getTime());
+      const uri = await this.keepFile(tempUri, `adherence_${id}.pdf`);
+      const record: ReportRecord = {
+        ...options,
+        id,
+        title: `${options.elderName || 'Adherence'} report (${options.from} to ${options.to})`,
+        uri,
+        createdAt: createdAt.toISOString(),
+      };
+
+      await this.addToHistory(record);
+      return record;
+    } catch (error) {
+      console.error('Error generating report:', error);
+      throw error;
+    }
+  }
+
+  async share(record: ReportRecord): Promise<void> {
+    const info = await FileSystem.getInfoAsync(record.uri);
+    if (!info.exists) {
+      throw new Error('This report is no longer on the device. Generate it again.');
+    }
+    await Sharing.shareAsync(record.uri, {
+      mimeType: 'application/pdf',
+      dialogTitle: record.title,
+      UTI: 'com.adobe.pdf',
+    });
+  }
+
+  async getHistory(): Promise<ReportRecord[]> {
+    try {
+      const stored = await AsyncStorage.getItem(HISTORY_KEY);
+      return stored ? (JSON.parse(stored) as ReportRecord[]) : [];
+    } catch (error) {
+      console.error('Error reading report history:', error);
+      return [];
+    }
+  }
+
+  async remove(id: string): Promise<ReportRecord[]> {
+    const history = await this.getHistory();
+    const removed = history.find(record => record.id === id);
+    if (removed) {
+      await FileSystem.deleteAsync(removed.uri, { idempotent: true });
+    }
+    const remaining = history.filter(record => record.id !== id);
+    await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(remaining));
+    return remaining;
+  }
+
+  // printToFileAsync writes to the cache, which the OS may clear
+  private async keepFile(tempUri: string, fileName: string): Promise<string> {
+    if (!FileSystem.documentDirectory) return tempUri;
+
+    const directory = `${FileSystem.documentDirectory}${REPORTS_DIR}`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    const uri = `${directory}${fileName}`;
+    await FileSystem.moveAsync({ from: tempUri, to: uri });
+    return uri;
+  }
+
+  private async addToHistory(record: ReportRecord) {
+    const history = [record, ...(await this.getHistory())];
+    const dropped = history.slice(MAX_HISTORY);
+    await Promise.all(dropped.map(old => FileSystem.deleteAsync(old.uri, { idempotent: true })));
+    await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(0, MAX_HISTORY)));
+  }
+}
+
+export const reportService = new ReportService();
@@ -0,0 +1,53 @@
+import type { Href } from 'expo-router';
+import { RoleId } from './api';
+
+// Screens anyone can open, signed in or not; '' is the index route
+const PUBLIC_ROUTES = ['', 'index', 'FlashScreen', 'LoginScreen', 'Create', 'ResetPasswordScreen'];
+
+// Public screens that only make sense signed out; a signed-in user goes to their dashboard instead
+const SIGNED_OUT_ROUTES = ['LoginScreen', 'Create', 'ResetPasswordScreen'];
+
+const ELDER_OR_CAREGIVER: RoleId[] = [2, 3];
+
+// Roles allowed on each screen (1=Admin, 2=Elder, 3=Caregiver); screens missing here are closed to everyone
+const ROUTE_ROLES: Record<string, RoleId[]> = {
+  Crud: [1],
+  Getone: [1],
+  ElderDashboard: [2],
+  MedicationAlert: ELDER_OR_CAREGIVER,
+  CaregiverDashboard: [3],
+  EldersProf: [3],
+  MonitorManageScreen: ELDER_OR_CAREGIVER,
+  ModifySchedule: ELDER_OR_CAREGIVER,
+  ModifyButton: ELDER_OR_CAREGIVER,
+  SetScreen: ELDER_OR_CAREGIVER,
+  Adherence: ELDER_OR_CAREGIVER,
+  Generate: ELDER_OR_CAREGIVER,
+  NotificationScreen: ELDER_OR_CAREGIVER,
+  BluetoothScreen: ELDER_OR_CAREGIVER,
+  LocationScreen: ELDER_OR_CAREGIVER,
+};
+
+const HOME_ROUTES: Record<RoleId, Href> = {
+  1: '/Crud',
+  2: '/ElderDashboard',
+  3: '/CaregiverDashboard',
+};
+
+export const isRoleId = (role: number | null | undefined): role is RoleId => role === 1 || role === 2 || role === 3;
+
+// Where a user with this role lands after login, or null for an unknown role
+export const getHomeRoute = (role: number | null | undefined): Href | null => (isRoleId(role) ? HOME_ROUTES[role] : null);
+
+// Where to send a user who opens this route; null when they may stay. role is null when signed out
+export const getRouteRedirect = (route: string, role: number | null): Href | null => {
+  const home = getHomeRoute(role);
+
+  if (PUBLIC_ROUTES.includes(route)) {
+    return home && SIGNED_OUT_ROUTES.includes(route) ? home : null;
+  }
+
+  if (!isRoleId(role)) return '/LoginScreen';
+
+  return ROUTE_ROLES[route]?.includes(role) ? null : HOME_ROUTES[role];
+};
@@ -0,0 +1,71 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError, NetworkError } from './apiClient';
+import { sessionManager } from './sessionManager';
+
+// Monitor data is cached per elder a caregiver looks after (monitor_<elderId>)
+export type CacheKey = 'medications' | 'schedules' | 'connections' | 'monitor' | `monitor_${string}`;
+
+interface CacheEntry<T> {
+  data: T;
+  cachedAt: string;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  fromCache: boolean;
+  cachedAt: string;
+}
+
+// Failures that mean "server unreachable" rather than "request rejected"
+export const isOfflineError = (error: unknown): boolean => {
+  if (error instanceof NetworkError) return true;
+  return error instanceof ApiError && error.status >= 500;
+};
+
+class ScheduleCache {
+  // Scope cached data to the logged-in user so a shared phone never mixes accounts
+  private async storageKey(key: CacheKey): Promise<string> {
+    const decoded = sessionManager.decode(await sessionManager.getToken());
+    const owner = decoded?.userId ?? decoded?.id ?? 'anonymous';
+    return `schedule_cache_${owner}_${key}`;
+  }
+
+  async get<T>(key: CacheKey): Promise<CacheEntry<T> | null> {
+    try {
+      const stored = await AsyncStorage.getItem(await this.storageKey(key));
+      return stored ? (JSON.parse(stored) as CacheEntry<T>) : null;
+    } catch (error) {
+      console.error(`Error reading ${key} cache:`, error);
+      return null;
+    }
+  }
+
+  async set<T>(key: CacheKey, data: T): Promise<void> {
+    try {
+      const entry: CacheEntry<T> = { data, cachedAt: new Date().toISOString() };
+      await AsyncStorage.setItem(await this.storageKey(key), JSON.stringify(entry));
+    } catch (error) {
+      console.error(`Error writing ${key} cache:`, error);
+    }
+  }
+
+  // Run the fetcher and cache its result; fall back to the cache when offline
+  async fetchWithCache<T>(key: CacheKey, fetcher: () => Promise<T>): Promise<CachedResult<T>> {
+    try {
+      const data = await fetcher();
+      await this.set(key, data);
+      return { data, fromCache: false, cachedAt: new Date().toISOString() };
+    } catch (error) {
+      if (isOfflineError(error)) {
+        const cached = await this.get<T>(key);
+        if (cached) {
+          console.warn(`Using cached ${key} from ${cached.cachedAt}:`, error);
+          return { data: cached.data, fromCache: true, cachedAt: cached.cachedAt };
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+export const scheduleCache = new ScheduleCache();
@@ -0,0 +1,238 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { jwtDecode } from 'jwt-decode';
+import { apiClient, setAuthHandlers } from './apiClient';
+
+const TOKEN_KEY = 'token';
+// The backend token only carries userId, so the role from the login response is kept alongside it
+const ROLE_KEY = 'userRole';
+
+// Refresh this long before the token's exp claim
+const REFRESH_LEAD_MS = 5 * 60 * 1000;
+// Treat tokens this close to expiry as already expired (clock skew)
+const EXPIRY_SKEW_MS = 30 * 1000;
+// setTimeout overflows past ~24.8 days; re-check at least daily
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+
+// Interface for decoded JWT token
+export interface SessionToken {
+  id?: string;
+  userId?: string;
+  role?: string | number;
+  exp?: number; // seconds since epoch
+  iat?: number;
+}
+
+export type SessionEvent = 'started' | 'refreshed' | 'expired' | 'signedOut';
+
+type SessionListener = (event: SessionEvent) => void;
+
+interface RefreshResponse {
+  token?: string;
+}
+
+class SessionManager {
+  private listeners = new Set<SessionListener>();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
+  private expired = false;
+
+  constructor() {
+    setAuthHandlers({
+      getToken: () => this.getValidToken(),
+      onUnauthorized: () => this.handleUnauthorized(),
+      onSessionExpired: () => this.expireSession(),
+    });
+  }
+
+  // Decode a token, returning null when it is malformed
+  decode(token: string | null): SessionToken | null {
+    if (!token) return null;
+    try {
+      return jwtDecode<SessionToken>(token.trim());
+    } catch (error) {
+      console.error('Error decoding session token:', error);
+      return null;
+    }
+  }
+
+  // Expiry time in ms, or null when the token has no exp claim
+  getExpiry(token: string | null): number | null {
+    const decoded = this.decode(token);
+    return decoded?.exp ? decoded.exp * 1000 : null;
+  }
+
+  isExpired(token: string | null, now: number = Date.now()): boolean {
+    if (!token || !this.decode(token)) return true;
+    const expiry = this.getExpiry(token);
+    return expiry !== null && expiry - EXPIRY_SKEW_MS <= now;
+  }
+
+  private needsRefresh(token: string, now: number = Date.now()): boolean {
+    const expiry = this.getExpiry(token);
+    return expiry !== null && expiry - REFRESH_LEAD_MS <= now;
+  }
+
+  async getToken(): Promise<string | null> {
+    return AsyncStorage.getItem(TOKEN_KEY);
+  }
+
+  // Role of the logged-in user (1=Admin, 2=Elder, 3=Caregiver), or null when unknown
+  async getRole(): Promise<number | null> {
+    const stored = await AsyncStorage.getItem(ROLE_KEY);
+    const role = stored ? parseInt(stored) : NaN;
+    return Number.isNaN(role) ? null : role;
+  }
+
+  // Id of the logged-in user from the token
+  async getUserId(): Promise<string | null> {
+    const decoded = this.decode(await this.getToken());
+    const id = decoded?.userId ?? decoded?.id;
+    return id ? String(id) : null;
+  }
+
+  // The elder the app acts for: caregivers pick one in Elder Profile, elders act for themselves
+  async getActiveElderId(): Promise<string | null> {
+    if ((await this.getRole()) === 3) {
+      return AsyncStorage.getItem('selectedElderId');
+    }
+    return this.getUserId();
+  }
+
+  // Start a session after login
+  async startSession(token: string, role?: number): Promise<void> {
+    await AsyncStorage.setItem(TOKEN_KEY, token);
+    if (role !== undefined && !Number.isNaN(role)) {
+      await AsyncStorage.setItem(ROLE_KEY, String(role));
+    } else {
+      await AsyncStorage.removeItem(ROLE_KEY);
+    }
+    this.expired = false;
+    this.scheduleRefresh(token);
+    this.emit('started');
+  }
+
+  // Resume the stored session on app start or foreground
+  async restore(): Promise<string | null> {
+    const token = await this.getValidToken();
+    if (token) {
+      this.scheduleRefresh(token);
+    }
+    return token;
+  }
+
+  // Return a token that is safe to send, refreshing it when close to expiry
+  async getValidToken(): Promise<string | null> {
+    const token = await this.getToken();
+    if (!token) return null;
+
+    if (this.isExpired(token)) {
+      await this.expireSession();
+      return null;
+    }
+
+    if (this.needsRefresh(token)) {
+      const refreshed = await this.refresh();
+      return refreshed || token;
+    }
+
+    return token;
+  }
+
+  // Exchange the current token for a new one; concurrent callers share one request
+  refresh(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<string | null> {
+    const token = await this.getToken();
+    if (!token || this.isExpired(token)) return null;
+
+    try {
+      const data = await apiClient.post<RefreshResponse>('/users/refresh-token', {}, {
+        auth: false,
+        headers: { Authorization: `Bearer ${token.trim()}` },
+      });
+
+      if (!data?.token) return null;
+
+      await AsyncStorage.setItem(TOKEN_KEY, data.token);
+      this.scheduleRefresh(data.token);
+      this.emit('refreshed');
+      return data.token;
+    } catch (error) {
+      console.error('Error refreshing session:', error);
+      return null;
+    }
+  }
+
+  // A request came back 401: try one refresh, otherwise end the session
+  private async handleUnauthorized(): Promise<string | null> {
+    const refreshed = await this.refresh();
+    if (refreshed) return refreshed;
+
+    await this.expireSession();
+    return null;
+  }
+
+  // Drop the token and tell listeners to send the user back to login
+  async expireSession(): Promise<void> {
+    this.clearTimer();
+    await AsyncStorage.multiRemove([TOKEN_KEY, ROLE_KEY]);
+    if (!this.expired) {
+      this.expired = true;
+      this.emit('expired');
+    }
+  }
+
+  // Explicit logout
+  async endSession(): Promise<void> {
+    this.clearTimer();
+    await AsyncStorage.multiRemove([TOKEN_KEY, ROLE_KEY]);
+    this.expired = false;
+    this.emit('signedOut');
+  }
+
+  private scheduleRefresh(token: string) {
+    this.clearTimer();
+    const expiry = this.getExpiry(token);
+    if (expiry === null) return;
+
+    const delay = Math.min(Math.max(expiry - REFRESH_LEAD_MS - Date.now(), 0), MAX_TIMER_MS);
+    this.refreshTimer = setTimeout(() => {
+      this.getValidToken().catch(error => {
+        console.error('Error in scheduled session refresh:', error);
+      });
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: SessionEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in session listener:', error);
+      }
+    });
+  }
+}
+
+export const sessionManager = new SessionManager();
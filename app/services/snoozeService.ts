@@ -0,0 +1,237 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { doseEventService } from './doseEventService';
+import { notificationService } from './notificationService';
+import { combineDateTime } from './recurrence';
+import { reminderService } from './reminderService';
+
+const SNOOZES_KEY = 'dose_snoozes';
+const POLICY_KEY = 'escalation_policy';
+
+export const SNOOZE_OPTIONS = [5, 10, 30];
+
+// Snoozes for doses due longer ago than this are dropped
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export interface EscalationPolicy {
+  // Caregivers are alerted once the reminder has been snoozed this many times
+  maxSnoozes: number;
+  // ...or once the dose is this many minutes past its scheduled time
+  maxDelayMinutes: number;
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = { maxSnoozes: 3, maxDelayMinutes: 60 };
+
+// The dose a reminder was about
+export interface SnoozedDose {
+  reminderKey: string;
+  medicineName: string;
+  containerId: number;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  elderId?: string;
+}
+
+export interface SnoozeState extends SnoozedDose {
+  snoozeCount: number;
+  snoozedUntil: string;
+  notificationId: string | null;
+  escalatedAt: string | null;
+}
+
+type SnoozeMap = Record<string, SnoozeState>;
+
+// Minutes between the scheduled time and now
+export const minutesLate = (dose: Pick<SnoozedDose, 'date' | 'time'>, now: Date = new Date()): number => {
+  const scheduledAt = combineDateTime(dose.date, dose.time);
+  return scheduledAt ? Math.max(0, Math.floor((now.getTime() - scheduledAt.getTime()) / 60000)) : 0;
+};
+
+// When caregivers should hear about a dose that is still snoozed
+export const escalationTime = (
+  dose: Pick<SnoozedDose, 'date' | 'time'>,
+  policy: EscalationPolicy = DEFAULT_ESCALATION_POLICY,
+): Date | null => {
+  const scheduledAt = combineDateTime(dose.date, dose.time);
+  return scheduledAt ? new Date(scheduledAt.getTime() + policy.maxDelayMinutes * 60000) : null;
+};
+
+// Whether a snoozed dose should now be raised with caregivers
+export const shouldEscalate = (
+  state: SnoozeState,
+  policy: EscalationPolicy = DEFAULT_ESCALATION_POLICY,
+  now: Date = new Date(),
+): boolean =>
+  !state.escalatedAt &&
+  (state.snoozeCount >= policy.maxSnoozes || minutesLate(state, now) >= policy.maxDelayMinutes);
+
+class SnoozeService {
+  // Serializes updates so a snooze and a background check never overwrite each other
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Forget doses once taken; returns a cleanup function. Escalating by delay is left to the
+  // server, which alerts caregivers at escalateAt even while this app is closed
+  start(): () => void {
+    const unsubscribe = doseEventService.subscribe(event => {
+      if (event.status !== 'snoozed') this.resolve(event.doseKey);
+    });
+
+    this.pruneStale();
+
+    return unsubscribe;
+  }
+
+  // Put a reminder off for a few minutes; caregivers are alerted once the policy is exceeded
+  snooze(dose: SnoozedDose, minutes: number): Promise<SnoozeState> {
+    return this.serialize(async () => {
+      const snoozes = await this.getSnoozes();
+      const previous = snoozes[dose.reminderKey];
+      if (previous?.notificationId) {
+        await Notifications.cancelScheduledNotificationAsync(previous.notificationId).catch(() => undefined);
+      }
+      // The snooze takes over from the original reminder, so it is not reported as missed as well
+      await reminderService.acknowledgeReminder(dose.reminderKey);
+
+      const snoozedUntil = new Date(Date.now() + minutes * 60000);
+      const notificationId = await reminderService.scheduleSnoozedReminder({
+        reminderKey: dose.reminderKey,
+        medicineName: dose.medicineName,
+        containerId: dose.containerId,
+        scheduledTime: dose.time,
+        date: dose.date,
+      }, snoozedUntil);
+
+      const snoozed: SnoozeState = {
+        ...dose,
+        snoozeCount: (previous?.snoozeCount ?? 0) + 1,
+        snoozedUntil: snoozedUntil.toISOString(),
+        notificationId,
+        escalatedAt: previous?.escalatedAt ?? null,
+      };
+
+      // Escalate before recording, so the server is never handed a due escalation to send as well
+      const policy = await this.getPolicy();
+      const state = shouldEscalate(snoozed, policy) ? await this.escalate(snoozed) : snoozed;
+      // escalate() records the dose itself when it gets through
+      if (state === snoozed) {
+        await this.recordEvent(state, `Snoozed ${minutes} min`, state.escalatedAt ? null : escalationTime(state, policy));
+      }
+
+      snoozes[dose.reminderKey] = state;
+      await this.saveSnoozes(snoozes);
+      return state;
+    });
+  }
+
+  // Stop tracking a dose, e.g. once it has been taken
+  resolve(reminderKey: string): Promise<void> {
+    return this.serialize(async () => {
+      const snoozes = await this.getSnoozes();
+      const state = snoozes[reminderKey];
+      if (!state) return;
+      if (state.notificationId) {
+        await Notifications.cancelScheduledNotificationAsync(state.notificationId).catch(() => undefined);
+      }
+      delete snoozes[reminderKey];
+      await this.saveSnoozes(snoozes);
+    });
+  }
+
+  // Forget snoozes for doses due too long ago to matter
+  pruneStale(): Promise<void> {
+    return this.serialize(async () => {
+      const snoozes = await this.getSnoozes();
+      const keys = Object.keys(snoozes);
+      if (keys.length === 0) return;
+
+      const now = Date.now();
+      for (const key of keys) {
+        const dueAt = combineDateTime(snoozes[key].date, snoozes[key].time);
+        if (!dueAt || now - dueAt.getTime() > STALE_AFTER_MS) delete snoozes[key];
+      }
+      await this.saveSnoozes(snoozes);
+    }).catch(error => console.error('Error pruning snoozed doses:', error));
+  }
+
+  async getSnoozes(): Promise<SnoozeMap> {
+    try {
+      const stored = await AsyncStorage.getItem(SNOOZES_KEY);
+      return stored ? (JSON.parse(stored) as SnoozeMap) : {};
+    } catch (error) {
+      console.error('Error loading snoozed doses:', error);
+      return {};
+    }
+  }
+
+  async getPolicy(): Promise<EscalationPolicy> {
+    try {
+      const stored = await AsyncStorage.getItem(POLICY_KEY);
+      return stored ? { ...DEFAULT_ESCALATION_POLICY, ...JSON.parse(stored) } : DEFAULT_ESCALATION_POLICY;
+    } catch (error) {
+      console.error('Error loading escalation policy:', error);
+      return DEFAULT_ESCALATION_POLICY;
+    }
+  }
+
+  async setPolicy(update: Partial<EscalationPolicy>): Promise<EscalationPolicy> {
+    const policy = { ...(await this.getPolicy()), ...update };
+    await AsyncStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+    return policy;
+  }
+
+  // Push the dose to caregivers; left unescalated for the server to retry if that fails
+  private async escalate(state: SnoozeState): Promise<SnoozeState> {
+    try {
+      const late = minutesLate(state);
+      await notificationService.reportEscalation({
+        elderId: state.elderId,
+        medicationName: state.medicineName,
+        containerId: state.containerId,
+        scheduledTime: state.time,
+        date: state.date,
+        snoozeCount: state.snoozeCount,
+        minutesLate: late,
+      });
+      const escalated = { ...state, escalatedAt: new Date().toISOString() };
+      await this.recordEvent(escalated, `Caregivers alerted after ${state.snoozeCount} snooze(s), ${late} min late`);
+      return escalated;
+    } catch (error) {
+      console.error('Error escalating snoozed dose:', error);
+      return state;
+    }
+  }
+
+  // Snoozes and escalations show up in the dose history
+  private async recordEvent(state: SnoozeState, notes: string, escalateAt: Date | null = null) {
+    try {
+      await doseEventService.record({
+        elderId: state.elderId,
+        doseKey: state.reminderKey,
+        medicationName: state.medicineName,
+        containerId: state.containerId,
+        scheduledDate: state.date,
+        scheduledTime: state.time,
+        status: 'snoozed',
+        source: 'notification',
+        notes,
+        snoozeCount: state.snoozeCount,
+        escalatedAt: state.escalatedAt,
+        escalateAt: escalateAt?.toISOString() ?? null,
+      });
+    } catch (error) {
+      console.error('Error recording snoozed dose:', error);
+    }
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async saveSnoozes(snoozes: SnoozeMap) {
+    await AsyncStorage.setItem(SNOOZES_KEY, JSON.stringify(snoozes));
+  }
+}
+
+export const snoozeService = new SnoozeService();
@@ -0,0 +1,377 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { schedulesApi, MedicationSchedule, ScheduleRecord } from './api';
+import { ApiError } from './apiClient';
+import { isOfflineError } from './scheduleCache';
+import { sessionManager } from './sessionManager';
+
+const OUTBOX_KEY_PREFIX = 'schedule_outbox_';
+const CONFLICTS_KEY_PREFIX = 'schedule_outbox_conflicts_';
+
+// 4xx replies worth retrying: expired session, timeout, rate limit
+const RETRYABLE_STATUSES = [401, 408, 429];
+
+export type OutboxOperation = 'create' | 'update';
+
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  record: ScheduleRecord;
+  // MongoDB _id of the schedule being updated
+  targetId?: string;
+  // updatedAt of the server copy the edit was based on
+  baseUpdatedAt?: string;
+  // Skip conflict checks (user chose to keep their version)
+  force?: boolean;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+// 'rejected' means the server refused the write (validation, permissions); it waits for the user instead of retrying
+export type ConflictReason = 'modified' | 'deleted' | 'duplicate' | 'rejected';
+
+export interface SyncConflict {
+  entry: OutboxEntry;
+  reason: ConflictReason;
+  serverRecord: MedicationSchedule | null;
+  detectedAt: string;
+}
+
+export interface SubmitResult {
+  queued: boolean;
+  schedule?: MedicationSchedule;
+}
+
+export interface FlushResult {
+  synced: number;
+  remaining: number;
+  conflicts: number;
+}
+
+export interface SyncQueueState {
+  pending: OutboxEntry[];
+  conflicts: SyncConflict[];
+  isSyncing: boolean;
+}
+
+type SyncQueueListener = (state: SyncQueueState) => void;
+
+interface StorageKeys {
+  outbox: string;
+  conflicts: string;
+}
+
+const sameDose = (a: ScheduleRecord, b: ScheduleRecord) =>
+  a.user === b.user &&
+  a.container === b.container &&
+  a.medication === b.medication &&
+  a.date === b.date &&
+  a.time === b.time;
+
+const createClientId = () => `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+const isRejection = (error: unknown): error is ApiError =>
+  error instanceof ApiError &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  !RETRYABLE_STATUSES.includes(error.status);
+
+class SyncQueue {
+  private listeners = new Set<SyncQueueListener>();
+  private flushPromise: Promise<FlushResult> | null = null;
+  private isSyncing = false;
+  // Serializes outbox and conflict writes so an enqueue during a flush is never overwritten
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Write-through helpers used by the screens: try the API, queue when offline.
+  // Every new record gets a clientId so a replayed create can be recognised on the server
+  async submitCreate(record: ScheduleRecord): Promise<SubmitResult> {
+    const withClientId = { ...record, clientId: record.clientId ?? createClientId() };
+    try {
+      const schedule = await schedulesApi.create(withClientId);
+      return { queued: false, schedule };
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+      await this.enqueue({ operation: 'create', record: withClientId });
+      return { queued: true };
+    }
+  }
+
+  async submitUpdate(targetId: string, record: ScheduleRecord, baseUpdatedAt?: string): Promise<SubmitResult> {
+    try {
+      const schedule = await schedulesApi.update(targetId, record);
+      return { queued: false, schedule };
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+      await this.enqueue({ operation: 'update', record, targetId, baseUpdatedAt });
+      return { queued: true };
+    }
+  }
+
+  async enqueue(entry: Pick<OutboxEntry, 'operation' | 'record' | 'targetId' | 'baseUpdatedAt' | 'force'>): Promise<void> {
+    const keys = await this.storageKeys();
+    await this.serialize(async () => {
+      const pending = await this.read<OutboxEntry>(keys.outbox);
+
+      // A newer edit of the same schedule supersedes the queued one
+      const withoutSuperseded = entry.targetId
+        ? pending.filter(existing => existing.targetId !== entry.targetId)
+        : pending;
+
+      withoutSuperseded.push({
+        ...entry,
+        record: entry.operation === 'create' && !entry.record.clientId
+          ? { ...entry.record, clientId: createClientId() }
+          : entry.record,
+        id: `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+      });
+
+      await this.write(keys.outbox, withoutSuperseded);
+    });
+  }
+
+  async getPending(): Promise<OutboxEntry[]> {
+    return this.read<OutboxEntry>((await this.storageKeys()).outbox);
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    return this.read<SyncConflict>((await this.storageKeys()).conflicts);
+  }
+
+  // Replay queued writes in order; concurrent callers share one pass
+  flush(): Promise<FlushResult> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.performFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async performFlush(): Promise<FlushResult> {
+    // Pin the keys so a sign-out mid-flush cannot hand this user's queue to the next one
+    const keys = await this.storageKeys();
+    const pending = await this.read<OutboxEntry>(keys.outbox);
+    if (pending.length === 0) {
+      return { synced: 0, remaining: 0, conflicts: 0 };
+    }
+
+    this.isSyncing = true;
+    await this.notify();
+
+    let serverSchedules: MedicationSchedule[];
+    try {
+      serverSchedules = await schedulesApi.list({ noCache: true });
+    } catch (error) {
+      console.warn('Outbox flush skipped, server unreachable:', error);
+      this.isSyncing = false;
+      await this.notify();
+      return { synced: 0, remaining: pending.length, conflicts: 0 };
+    }
+
+    const remaining: OutboxEntry[] = [];
+    const newConflicts: SyncConflict[] = [];
+    let synced = 0;
+
+    for (let index = 0; index < pending.length; index++) {
+      const entry = pending[index];
+
+      const conflict = entry.force ? null : this.detectConflict(entry, serverSchedules);
+      if (conflict === 'already-applied') {
+        synced++;
+        continue;
+      }
+      if (conflict) {
+        newConflicts.push(conflict);
+        continue;
+      }
+
+      try {
+        if (entry.operation === 'update' && entry.targetId) {
+          await schedulesApi.update(entry.targetId, entry.record);
+        } else {
+          await schedulesApi.create(entry.record);
+        }
+        synced++;
+      } catch (error) {
+        const failed = {
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: error instanceof Error ? error.message : String(error),
+        };
+        if (isOfflineError(error)) {
+          // Keep order: stop here and retry the rest on the next pass
+          remaining.push(failed, ...pending.slice(index + 1));
+          break;
+        }
+        if (isRejection(error)) {
+          // Park it for the user to retry or discard instead of replaying it forever
+          console.error('Outbox entry rejected by server:', error);
+          newConflicts.push({ entry: failed, reason: 'rejected', serverRecord: null, detectedAt: new Date().toISOString() });
+          continue;
+        }
+        remaining.push(failed);
+      }
+    }
+
+    // Entries queued or superseded while the requests ran were not part of this pass; keep them as they are now
+    const remainingById = new Map(remaining.map(entry => [entry.id, entry]));
+    const handled = new Set(pending.filter(entry => !remainingById.has(entry.id)).map(entry => entry.id));
+    await this.serialize(async () => {
+      const current = await this.read<OutboxEntry>(keys.outbox);
+      await this.write(keys.outbox, current
+        .filter(entry => !handled.has(entry.id))
+        .map(entry => remainingById.get(entry.id) ?? entry));
+      if (newConflicts.length > 0) {
+        const conflicts = await this.read<SyncConflict>(keys.conflicts);
+        await this.write(keys.conflicts, [...conflicts, ...newConflicts]);
+      }
+    });
+
+    this.isSyncing = false;
+    await this.notify();
+
+    return { synced, remaining: remaining.length, conflicts: newConflicts.length };
+  }
+
+  // Compare a queued write with the current server state
+  private detectConflict(
+    entry: OutboxEntry,
+    serverSchedules: MedicationSchedule[]
+  ): SyncConflict | 'already-applied' | null {
+    const detectedAt = new Date().toISOString();
+
+    if (entry.operation === 'update') {
+      const serverRecord = serverSchedules.find(schedule => schedule._id === entry.targetId) || null;
+      if (!serverRecord) {
+        return { entry, reason: 'deleted', serverRecord: null, detectedAt };
+      }
+      if (sameDose(serverRecord, entry.record) && serverRecord.scheduleId === entry.record.scheduleId) {
+        return 'already-applied';
+      }
+      const changedSinceEdit =
+        serverRecord.scheduleId !== entry.record.scheduleId ||
+        (!!entry.baseUpdatedAt && !!serverRecord.updatedAt && serverRecord.updatedAt !== entry.baseUpdatedAt);
+      return changedSinceEdit ? { entry, reason: 'modified', serverRecord, detectedAt } : null;
+    }
+
+    // Creates: our own clientId on the server means an earlier attempt went through
+    if (entry.record.clientId && serverSchedules.some(schedule => schedule.clientId === entry.record.clientId)) {
+      return 'already-applied';
+    }
+
+    // The same dose created elsewhere (another device, or before clientIds existed)
+    const clash = serverSchedules.find(schedule => sameDose(schedule, entry.record));
+    return clash ? { entry, reason: 'duplicate', serverRecord: clash, detectedAt } : null;
+  }
+
+  // Keep the local version (re-queued without checks) or accept the server's
+  async resolveConflict(entryId: string, resolution: 'keepLocal' | 'keepServer'): Promise<void> {
+    const keys = await this.storageKeys();
+    const conflict = await this.serialize(async () => {
+      const conflicts = await this.read<SyncConflict>(keys.conflicts);
+      const found = conflicts.find(item => item.entry.id === entryId);
+      if (found) await this.write(keys.conflicts, conflicts.filter(item => item.entry.id !== entryId));
+      return found;
+    });
+    if (!conflict) return;
+
+    if (resolution === 'keepLocal') {
+      const { operation, record, targetId } = conflict.entry;
+      // A deleted schedule can only be restored by creating it again
+      const recreate = conflict.reason === 'deleted';
+      await this.enqueue({
+        operation: recreate ? 'create' : operation,
+        record,
+        targetId: recreate ? undefined : targetId,
+        force: true,
+      });
+      // A pass already running started before this entry was queued, so run another after it
+      await this.flushPromise?.catch(() => undefined);
+      await this.flush();
+    } else {
+      await this.notify();
+    }
+  }
+
+  // Flush whenever connectivity comes back or a user signs in; returns an unsubscribe function
+  start(): () => void {
+    let wasOnline = true;
+    const unsubscribeNetInfo = NetInfo.addEventListener((state: NetInfoState) => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      if (online && !wasOnline) {
+        this.flush().catch(error => console.error('Error flushing outbox:', error));
+      }
+      wasOnline = online;
+    });
+
+    // The queue is per user, so show the new user's queue after a sign-in or sign-out
+    const unsubscribeSession = sessionManager.subscribe(event => {
+      if (event === 'started') {
+        this.flush().catch(error => console.error('Error flushing outbox:', error));
+      } else if (event === 'signedOut' || event === 'expired') {
+        this.notify().catch(error => console.error('Error reading outbox state:', error));
+      }
+    });
+
+    this.flush().catch(error => console.error('Error flushing outbox:', error));
+    return () => {
+      unsubscribeNetInfo();
+      unsubscribeSession();
+    };
+  }
+
+  subscribe(listener: SyncQueueListener): () => void {
+    this.listeners.add(listener);
+    this.getState().then(listener).catch(error => console.error('Error reading outbox state:', error));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async getState(): Promise<SyncQueueState> {
+    const [pending, conflicts] = await Promise.all([this.getPending(), this.getConflicts()]);
+    return { pending, conflicts, isSyncing: this.isSyncing };
+  }
+
+  private async notify() {
+    if (this.listeners.size === 0) return;
+    const state = await this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  // Scope the queue to the signed-in user so a shared phone never replays another account's edits
+  private async storageKeys(): Promise<StorageKeys> {
+    const owner = (await sessionManager.getUserId()) ?? 'anonymous';
+    return {
+      outbox: `${OUTBOX_KEY_PREFIX}${owner}`,
+      conflicts: `${CONFLICTS_KEY_PREFIX}${owner}`,
+    };
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async read<T>(key: string): Promise<T[]> {
+    try {
+      const stored = await AsyncStorage.getItem(key);
+      return stored ? (JSON.parse(stored) as T[]) : [];
+    } catch (error) {
+      console.error(`Error reading ${key}:`, error);
+      return [];
+    }
+  }
+
+  private async write<T>(key: string, items: T[]) {
+    await AsyncStorage.setItem(key, JSON.stringify(items));
+    await this.notify();
+  }
+}
+
+export const syncQueue = new SyncQueue();
@@ -0,0 +1,70 @@
+import { DoseRow, MISSED_AFTER_MS } from './doseEventService';
+import { UpcomingReminder } from './notificationService';
+import { combineDateTime, toDateKey, toTimeKey } from './recurrence';
+
+// Pure helpers for the dashboards' next-doses timeline; no storage or network access
+
+export interface UpcomingDose {
+  doseKey: string;
+  medicationName: string;
+  dosage?: string;
+  containerId: number;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  at: Date;
+}
+
+// Backend reminders repeat daily per time slot, so they key like a recurring schedule occurrence
+const fromReminder = (reminder: UpcomingReminder): UpcomingDose | null => {
+  const at = new Date(reminder.reminderDateTime);
+  if (Number.isNaN(at.getTime())) return null;
+  const date = toDateKey(at);
+  const time = reminder.scheduledTime || toTimeKey(at);
+  return {
+    doseKey: `${reminder.scheduleId}@${date}T${time}`,
+    medicationName: reminder.medicationName,
+    dosage: reminder.dosage,
+    containerId: reminder.containerId || 1,
+    date,
+    time,
+    at,
+  };
+};
+
+const fromRow = (row: DoseRow): UpcomingDose | null => {
+  const at = combineDateTime(row.date, row.time);
+  return at ? { doseKey: row.doseKey, medicationName: row.medicationName, containerId: row.containerId, date: row.date, time: row.time, at } : null;
+};
+
+// Doses still to take: the backend's reminders plus locally known schedules, minus anything already recorded
+export const mergeUpcomingDoses = (
+  reminders: UpcomingReminder[],
+  rows: DoseRow[],
+  now: Date = new Date(),
+  hours: number = 24,
+): UpcomingDose[] => {
+  const from = now.getTime() - MISSED_AFTER_MS;
+  const to = now.getTime() + hours * 60 * 60 * 1000;
+  const recorded = new Set(rows.filter(row => row.status !== 'pending' && row.status !== 'missed').map(row => row.doseKey));
+
+  const doses = new Map<string, UpcomingDose>();
+  [
+    ...reminders.map(fromReminder),
+    ...rows.filter(row => row.status === 'pending').map(fromRow),
+  ].forEach(dose => {
+    if (!dose || recorded.has(dose.doseKey) || doses.has(dose.doseKey)) return;
+    if (dose.at.getTime() < from || dose.at.getTime() > to) return;
+    doses.set(dose.doseKey, dose);
+  });
+
+  return Array.from(doses.values()).sort((a, b) => a.at.getTime() - b.at.getTime() || a.containerId - b.containerId);
+};
+
+// Short countdown label, e.g. "in 45 min" or "in 3h 05m"
+export const formatCountdown = (at: Date, now: Date = new Date()): string => {
+  const minutes = Math.ceil((at.getTime() - now.getTime()) / 60000);
+  if (minutes <= 0) return minutes > -1 ? 'Due now' : `${-minutes} min overdue`;
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `in ${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
@@ -0,0 +1,126 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const request = require('supertest');
+const User = require('../../models/User');
+const CaregiverConnection = require('../../models/CaregiverConnection');
+const ConnectionThrottle = require('../../models/ConnectionThrottle');
+const Notification = require('../../models/Notification');
+
+jest.mock('../../services/pushNotifications', () => ({ sendToUsers: jest.fn(async () => ({ sent: 1, failed: 0 })) }));
+jest.mock('../../services/sms', () => ({ sendSms: jest.fn(async () => true) }));
+
+const caregiverRoutes = require('../../routes/caregivers');
+
+const CAREGIVER = { userId: 'caregiver-1', role: 3, name: 'Carla', isActive: true };
+const ELDER = { userId: 'elder-1', role: 2, name: 'Rosa', contactNumber: '09171234567', email: 'rosa@example.com', isActive: true };
+
+const app = express();
+app.use(express.json());
+app.use('/api/caregivers', caregiverRoutes);
+
+const token = jwt.sign({ userId: CAREGIVER.userId }, process.env.JWT_SECRET || 'your-secret-key');
+
+// In-memory stand-ins for the collections the routes touch
+let connections;
+let throttles;
+
+const matches = (doc, query) => Object.entries(query).every(([key, value]) => String(doc[key]) === String(value));
+// Mongoose queries are awaited directly or after select()
+const result = (value) => Object.assign(Promise.resolve(value), { select: () => Promise.resolve(value) });
+
+beforeEach(() => {
+  connections = [];
+  throttles = [];
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  jest.spyOn(User, 'findOne').mockImplementation(query =>
+    result([CAREGIVER, ELDER].find(user => matches(user, query)) || null));
+  jest.spyOn(Notification, 'create').mockResolvedValue({});
+
+  jest.spyOn(CaregiverConnection, 'findOne').mockImplementation(query =>
+    result(connections.find(connection => matches(connection, query)) || null));
+  jest.spyOn(CaregiverConnection, 'findOneAndDelete').mockImplementation(query => {
+    const connection = connections.find(existing => matches(existing, query)) || null;
+    connections = connections.filter(existing => existing !== connection);
+    return result(connection);
+  });
+  jest.spyOn(CaregiverConnection.prototype, 'save').mockImplementation(async function() {
+    if (!connections.includes(this)) connections.push(this);
+    return this;
+  });
+
+  jest.spyOn(ConnectionThrottle, 'findOneAndDelete').mockImplementation(query => {
+    const throttle = throttles.find(existing => matches(existing, query)) || null;
+    throttles = throttles.filter(existing => existing !== throttle);
+    return result(throttle);
+  });
+  jest.spyOn(ConnectionThrottle, 'findOneAndUpdate').mockImplementation((query, update) => {
+    const throttle = throttles.find(existing => matches(existing, query));
+    if (throttle) Object.assign(throttle, update);
+    else throttles.push({ ...query, ...update });
+    return result(throttle || null);
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const connect = () => request(app)
+  .post('/api/caregivers/connect-elder')
+  .set('Authorization', `Bearer ${token}`)
+  .send({ contactNumber: ELDER.contactNumber });
+
+const remove = (connectionId) => request(app)
+  .delete(`/api/caregivers/connections/${connectionId}`)
+  .set('Authorization', `Bearer ${token}`);
+
+// Move the last send back past the resend cooldown
+const waitOutCooldown = () => {
+  [...connections, ...throttles].forEach(record => {
+    if (record.otpLastSentAt) record.otpLastSentAt = new Date(record.otpLastSentAt.getTime() - 61 * 1000);
+  });
+};
+
+describe('delete then reconnect', () => {
+  it('keeps the resend cooldown', async () => {
+    const first = await connect();
+    expect(first.status).toBe(201);
+
+    expect((await remove(first.body.connection.id)).status).toBe(200);
+    expect(connections).toHaveLength(0);
+
+    const again = await connect();
+    expect(again.status).toBe(429);
+    expect(again.body.message).toBe('Please wait before requesting another code.');
+    expect(connections).toHaveLength(0);
+  });
+
+  it('keeps the send count and lock', async () => {
+    for (let send = 0; send < 5; send++) {
+      const response = await connect();
+      expect(response.status).toBe(201);
+      await remove(response.body.connection.id);
+      waitOutCooldown();
+    }
+
+    const locked = await connect();
+    expect(locked.status).toBe(429);
+    expect(locked.body.message).toBe('Too many codes requested. Please try again later.');
+    expect(locked.body.otp.lockedUntil).toBeTruthy();
+
+    waitOutCooldown();
+    const stillLocked = await connect();
+    expect(stillLocked.status).toBe(429);
+    expect(stillLocked.body.message).toBe('Too many attempts. Please try again later.');
+  });
+
+  it('starts afresh once the kept limits have expired', async () => {
+    const first = await connect();
+    await remove(first.body.connection.id);
+    // The TTL index drops them after a day
+    throttles = [];
+
+    expect((await connect()).status).toBe(201);
+  });
+});
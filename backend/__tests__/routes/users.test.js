@@ -0,0 +1,98 @@
+const express = require('express');
+const request = require('supertest');
+const User = require('../../models/User');
+const PasswordReset = require('../../models/PasswordReset');
+const { sendSms } = require('../../services/sms');
+
+jest.mock('../../services/sms', () => ({ sendSms: jest.fn(async () => true) }));
+jest.mock('../../services/otp', () => ({
+  ...jest.requireActual('../../services/otp'),
+  hashCode: jest.fn(async code => `hashed-${code}`)
+}));
+
+const userRoutes = require('../../routes/users');
+
+const USER = { userId: 'elder-1', role: 2, contactNumber: '09171234567', isActive: true };
+
+const app = express();
+app.set('trust proxy', 1);
+app.use(express.json());
+app.use('/api/users', userRoutes);
+
+// In-memory stand-in for the resets collection
+let resets;
+
+const matches = (doc, query) => Object.entries(query).every(([key, value]) => String(doc[key]) === String(value));
+
+// The code is sent after the response, so let that work finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+beforeEach(() => {
+  resets = [];
+  jest.clearAllMocks();
+  jest.spyOn(User, 'findOne').mockImplementation(async query => (matches(USER, query) ? USER : null));
+  jest.spyOn(PasswordReset, 'findOne').mockImplementation(async query =>
+    resets.find(reset => matches(reset, query)) || null);
+  jest.spyOn(PasswordReset.prototype, 'save').mockImplementation(async function() {
+    if (!resets.includes(this)) resets.push(this);
+    return this;
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Each request comes from its own address so the per-IP limiter stays out of the way
+let address = 0;
+const requestReset = () => request(app)
+  .post('/api/users/password-reset/request')
+  .set('X-Forwarded-For', `10.0.0.${++address}`)
+  .send({ contactNumber: USER.contactNumber });
+
+// Move every stored time back, as if that much time had passed
+const travel = (ms) => {
+  resets.forEach(reset => {
+    ['lastSentAt', 'sendWindowStartedAt'].forEach(field => {
+      if (reset[field]) reset[field] = new Date(reset[field].getTime() - ms);
+    });
+  });
+};
+
+describe('POST /password-reset/request', () => {
+  it('answers before looking the number up', async () => {
+    User.findOne.mockImplementation(() => new Promise(() => {}));
+
+    const response = await requestReset();
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+  });
+
+  it('counts sends per hour so occasional requests do not lock the reset', async () => {
+    for (let send = 0; send < 5; send++) {
+      await requestReset();
+      await settle();
+      travel(61 * 1000);
+    }
+    travel(60 * 60 * 1000);
+
+    await requestReset();
+    await settle();
+
+    expect(sendSms).toHaveBeenCalledTimes(6);
+    expect(resets[0].lockedUntil).toBeNull();
+    expect(resets[0].sentCount).toBe(1);
+  });
+
+  it('locks after too many sends within an hour', async () => {
+    for (let send = 0; send < 6; send++) {
+      await requestReset();
+      await settle();
+      travel(61 * 1000);
+    }
+
+    expect(sendSms).toHaveBeenCalledTimes(5);
+    expect(resets[0].lockedUntil).not.toBeNull();
+  });
+});
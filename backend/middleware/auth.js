@@ -31,6 +31,13 @@ const auth = async (req, res, next) => {
     req.user = user;
     next();
   } catch (error) {
+    if (error.name === 'TokenExpiredError') {
+      return res.status(401).json({
+        success: false,
+        message: 'Token expired'
+      });
+    }
+
     console.error('Auth middleware error:', error);
     return res.status(403).json({
       success: false,
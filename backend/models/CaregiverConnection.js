@@ -51,6 +51,35 @@ const caregiverConnectionSchema = new mongoose.Schema({
     type: String,
     maxlength: 500,
     default: ''
+  },
+  // One-time code sent to the elder; a pending connection becomes active once it is confirmed
+  otpHash: {
+    type: String,
+    select: false
+  },
+  otpExpiresAt: {
+    type: Date,
+    default: null
+  },
+  otpAttempts: {
+    type: Number,
+    default: 0
+  },
+  otpSentCount: {
+    type: Number,
+    default: 0
+  },
+  otpLastSentAt: {
+    type: Date,
+    default: null
+  },
+  otpLockedUntil: {
+    type: Date,
+    default: null
+  },
+  verifiedAt: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: true
@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+
+// Code limits for a caregiver-elder pair, kept after the connection is deleted so
+// removing and re-adding it does not reset the cooldown, send count or lock
+const connectionThrottleSchema = new mongoose.Schema({
+  caregiverId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  elderId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  otpAttempts: {
+    type: Number,
+    default: 0
+  },
+  otpSentCount: {
+    type: Number,
+    default: 0
+  },
+  otpLastSentAt: {
+    type: Date,
+    default: null
+  },
+  otpLockedUntil: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+connectionThrottleSchema.index({ caregiverId: 1, elderId: 1 }, { unique: true });
+
+// Forget limits nobody has touched for a day
+connectionThrottleSchema.index({ updatedAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+module.exports = mongoose.model('ConnectionThrottle', connectionThrottleSchema);
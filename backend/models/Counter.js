@@ -0,0 +1,34 @@
+const mongoose = require('mongoose');
+
+// Named sequence, incremented atomically so concurrent requests never get the same number
+const counterSchema = new mongoose.Schema({
+  _id: {
+    type: String,
+    required: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+});
+
+// Static method to take the next number; `seed` gives the starting point when the counter does not exist yet
+counterSchema.statics.next = async function(name, seed) {
+  if (!(await this.exists({ _id: name }))) {
+    try {
+      await this.create({ _id: name, seq: await seed() });
+    } catch (error) {
+      // Another request created it first
+      if (error.code !== 11000) throw error;
+    }
+  }
+
+  const counter = await this.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true }
+  );
+  return counter.seq;
+};
+
+module.exports = mongoose.model('Counter', counterSchema);
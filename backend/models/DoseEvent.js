@@ -0,0 +1,98 @@
+const mongoose = require('mongoose');
+
+const doseEventSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  // Client-side id of the dose (schedule id, plus date and time for recurring rules)
+  doseKey: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  medicationName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  containerId: {
+    type: Number,
+    min: 1,
+    max: 3,
+    default: 1
+  },
+  scheduledDate: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}-\d{2}$/ // YYYY-MM-DD
+  },
+  scheduledTime: {
+    type: String,
+    required: true,
+    match: /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/ // HH:MM format
+  },
+  status: {
+    type: String,
+    required: true,
+    // snoozed: the elder put the reminder off and has not taken it yet
+    enum: ['taken', 'skipped', 'missed', 'late', 'snoozed']
+  },
+  recordedAt: {
+    type: Date,
+    default: Date.now
+  },
+  recordedBy: {
+    type: String,
+    ref: 'User',
+    required: true
+  },
+  source: {
+    type: String,
+    enum: ['notification', 'adherence', 'device', 'system'],
+    default: 'adherence'
+  },
+  notes: {
+    type: String,
+    maxlength: 500,
+    default: ''
+  },
+  // Times the reminder was snoozed; kept when the dose is later taken
+  snoozeCount: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // When the elder's caregivers were alerted that the dose was still not taken
+  escalatedAt: {
+    type: Date,
+    default: null
+  },
+  // When caregivers should be alerted if the dose is still snoozed; the server sends it
+  escalateAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// One outcome per dose; recording again replaces it
+doseEventSchema.index({ userId: 1, doseKey: 1 }, { unique: true });
+doseEventSchema.index({ userId: 1, scheduledDate: 1 });
+doseEventSchema.index({ status: 1, escalateAt: 1 });
+
+// Static method to get a user's events within a date range (inclusive YYYY-MM-DD)
+doseEventSchema.statics.getForRange = function(userId, from, to) {
+  const query = { userId };
+  if (from || to) {
+    query.scheduledDate = {};
+    if (from) query.scheduledDate.$gte = from;
+    if (to) query.scheduledDate.$lte = to;
+  }
+  return this.find(query).sort({ scheduledDate: 1, scheduledTime: 1 });
+};
+
+module.exports = mongoose.model('DoseEvent', doseEventSchema);
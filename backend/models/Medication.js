@@ -0,0 +1,69 @@
+const mongoose = require('mongoose');
+const Counter = require('./Counter');
+
+// Catalog entry that schedules pick medications from
+const medicationSchema = new mongoose.Schema({
+  // Numeric id the app and pillbox use to refer to the medication
+  medId: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  dosage: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  form: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  manufacturer: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // Retired medications stay for existing schedules but are no longer offered
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  // Entries proposed by caregivers stay pending until an admin reviews them
+  status: {
+    type: String,
+    enum: ['approved', 'pending', 'rejected'],
+    default: 'approved'
+  },
+  // userId of the caregiver who proposed the entry
+  proposedBy: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+medicationSchema.index({ name: 1 });
+medicationSchema.index({ status: 1, proposedBy: 1 });
+
+// Next free medId, taken from a counter so two medications added at once never share one
+medicationSchema.statics.nextMedId = function() {
+  return Counter.next('medId', async () => {
+    // Carry on from the catalog as it was before the counter existed
+    const last = await this.findOne().sort({ medId: -1 }).select('medId');
+    return last ? last.medId : 0;
+  });
+};
+
+module.exports = mongoose.model('Medication', medicationSchema);
@@ -66,6 +66,11 @@ const medicationScheduleSchema = new mongoose.Schema({
     type: String,
     ref: 'User',
     default: null
+  },
+  // Id the app generated when creating the schedule offline; lets a replayed create be recognised
+  clientId: {
+    type: String,
+    default: null
   }
 }, {
   timestamps: true
@@ -75,6 +80,10 @@ const medicationScheduleSchema = new mongoose.Schema({
 medicationScheduleSchema.index({ userId: 1, isActive: 1 });
 medicationScheduleSchema.index({ createdBy: 1 });
 medicationScheduleSchema.index({ startDate: 1, endDate: 1 });
+medicationScheduleSchema.index(
+  { userId: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+);
 
 // Virtual for schedule status
 medicationScheduleSchema.virtual('status').get(function() {
@@ -0,0 +1,95 @@
+const mongoose = require('mongoose');
+
+const notificationSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  // Stable id shared with the app, e.g. schedule_<id>, test_<timestamp> or missed_<elder>_<timestamp>
+  notificationId: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: ['medication', 'reminder', 'test_alarm', 'missed_dose', 'escalation', 'connection_request']
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  message: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  medicineName: {
+    type: String,
+    trim: true
+  },
+  containerId: {
+    type: Number,
+    min: 1,
+    max: 3
+  },
+  scheduledTime: {
+    type: String
+  },
+  scheduledDate: {
+    type: String
+  },
+  elderId: {
+    type: String,
+    ref: 'User'
+  },
+  elderName: {
+    type: String,
+    trim: true
+  },
+  isTest: {
+    type: Boolean,
+    default: false
+  },
+  readAt: {
+    type: Date,
+    default: null
+  },
+  dismissedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// One copy of each notification per user
+notificationSchema.index({ userId: 1, notificationId: 1 }, { unique: true });
+notificationSchema.index({ userId: 1, dismissedAt: 1, createdAt: -1 });
+
+// Static method to fetch one page of a user's notifications, newest first, and whether more follow.
+// With a cursor (a notification already shown) the page starts right after it instead of at an offset
+notificationSchema.statics.getPage = async function(query, { page = 1, limit, cursor = null }) {
+  const filter = cursor
+    ? {
+      $and: [query, {
+        $or: [
+          { createdAt: { $lt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, _id: { $lt: cursor._id } }
+        ]
+      }]
+    }
+    : query;
+  // One extra tells whether another page follows
+  const found = await this.find(filter)
+    .sort({ createdAt: -1, _id: -1 })
+    .skip(cursor ? 0 : (page - 1) * limit)
+    .limit(limit + 1);
+  return { notifications: found.slice(0, limit), hasMore: found.length > limit };
+};
+
+module.exports = mongoose.model('Notification', notificationSchema);
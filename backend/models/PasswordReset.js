@@ -0,0 +1,47 @@
+const mongoose = require('mongoose');
+
+// One outstanding password reset per user; the code is stored hashed
+const passwordResetSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User',
+    unique: true
+  },
+  codeHash: {
+    type: String,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  sentCount: {
+    type: Number,
+    default: 0
+  },
+  // Start of the window sentCount counts sends in
+  sendWindowStartedAt: {
+    type: Date,
+    default: null
+  },
+  lastSentAt: {
+    type: Date,
+    default: null
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Forget resets nobody has touched for a day
+passwordResetSchema.index({ updatedAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+module.exports = mongoose.model('PasswordReset', passwordResetSchema);
@@ -53,7 +53,22 @@ const userSchema = new mongoose.Schema({
   lastLogin: {
     type: Date,
     default: null
-  }
+  },
+  pushTokens: [{
+    token: {
+      type: String,
+      required: true
+    },
+    platform: {
+      type: String,
+      enum: ['ios', 'android', 'web'],
+      default: 'android'
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
 }, {
   timestamps: true
 });
@@ -80,6 +95,7 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
 userSchema.methods.getPublicProfile = function() {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.pushTokens;
   return userObject;
 };
 
@@ -88,6 +104,7 @@ userSchema.index({ email: 1 });
 userSchema.index({ contactNumber: 1 });
 userSchema.index({ role: 1 });
 userSchema.index({ userId: 1 });
+userSchema.index({ 'pushTokens.token': 1 });
 
 module.exports = mongoose.model('User', userSchema);
 
@@ -1,11 +1,139 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const CaregiverConnection = require('../models/CaregiverConnection');
+const ConnectionThrottle = require('../models/ConnectionThrottle');
 const User = require('../models/User');
-const { auth, requireCaregiver } = require('../middleware/auth');
+const Notification = require('../models/Notification');
+const { auth, requireCaregiver, requireAdmin } = require('../middleware/auth');
+const { sendToUsers } = require('../services/pushNotifications');
+const { sendSms } = require('../services/sms');
+const { CODE_LENGTH, generateCode, hashCode, verifyCode } = require('../services/otp');
 
 const router = express.Router();
 
+// Connection codes expire after 10 minutes
+const OTP_TTL_MS = 10 * 60 * 1000;
+// Wrong codes allowed before the connection is locked
+const OTP_MAX_ATTEMPTS = 5;
+// Codes that can be sent before the connection is locked
+const OTP_MAX_SENDS = 5;
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000;
+const OTP_LOCK_MS = 30 * 60 * 1000;
+
+const isLocked = (connection) => !!connection.otpLockedUntil && connection.otpLockedUntil > new Date();
+
+// Where the code handshake stands, so the app can show countdowns and limits
+const formatOtpStatus = (connection) => ({
+  expiresAt: connection.otpExpiresAt,
+  attemptsLeft: Math.max(0, OTP_MAX_ATTEMPTS - connection.otpAttempts),
+  resendAvailableAt: connection.otpLastSentAt
+    ? new Date(connection.otpLastSentAt.getTime() + OTP_RESEND_COOLDOWN_MS)
+    : null,
+  lockedUntil: isLocked(connection) ? connection.otpLockedUntil : null
+});
+
+const formatConnection = (connection) => ({
+  id: connection._id,
+  elderId: connection.elderId,
+  elderName: connection.elderName,
+  elderContactNumber: connection.elderContactNumber,
+  elderEmail: connection.elderEmail,
+  elderAge: connection.elderAge,
+  connectionStatus: connection.connectionStatus,
+  connectedAt: connection.connectedAt,
+  lastInteraction: connection.lastInteraction,
+  verifiedAt: connection.verifiedAt,
+  notes: connection.notes,
+  ...(connection.connectionStatus === 'pending' ? { otp: formatOtpStatus(connection) } : {})
+});
+
+// Apply the lockout and resend limits; returns an error body or null when a code may be sent.
+// A new lock is set on the connection, and the caller saves it
+const checkSendLimits = (connection) => {
+  const now = new Date();
+
+  // A lock that has run out starts the counts afresh
+  if (connection.otpLockedUntil && connection.otpLockedUntil <= now) {
+    connection.otpLockedUntil = null;
+    connection.otpSentCount = 0;
+    connection.otpAttempts = 0;
+  }
+
+  if (isLocked(connection)) {
+    return { message: 'Too many attempts. Please try again later.', otp: formatOtpStatus(connection) };
+  }
+
+  if (connection.otpLastSentAt && now - connection.otpLastSentAt < OTP_RESEND_COOLDOWN_MS) {
+    return { message: 'Please wait before requesting another code.', otp: formatOtpStatus(connection) };
+  }
+
+  if (connection.otpSentCount >= OTP_MAX_SENDS) {
+    connection.otpLockedUntil = new Date(now.getTime() + OTP_LOCK_MS);
+    return { message: 'Too many codes requested. Please try again later.', otp: formatOtpStatus(connection) };
+  }
+
+  return null;
+};
+
+const THROTTLE_FIELDS = ['otpAttempts', 'otpSentCount', 'otpLastSentAt', 'otpLockedUntil'];
+
+// Carry the code limits of a deleted connection over to a new one for the same pair
+const restoreThrottle = async (connection) => {
+  const throttle = await ConnectionThrottle.findOneAndDelete({
+    caregiverId: connection.caregiverId,
+    elderId: connection.elderId
+  });
+  if (throttle) {
+    THROTTLE_FIELDS.forEach(field => { connection[field] = throttle[field]; });
+  }
+};
+
+// Keep the code limits of a connection that is being deleted
+const saveThrottle = async (connection) => {
+  if (!connection.otpSentCount && !connection.otpAttempts && !isLocked(connection)) return;
+
+  const limits = {};
+  THROTTLE_FIELDS.forEach(field => { limits[field] = connection[field]; });
+  await ConnectionThrottle.findOneAndUpdate(
+    { caregiverId: connection.caregiverId, elderId: connection.elderId },
+    limits,
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Store a fresh code and send it to the elder's devices and phone
+const sendConnectionCode = async (connection, elder, caregiver) => {
+  const code = generateCode();
+  connection.otpHash = await hashCode(code);
+  connection.otpExpiresAt = new Date(Date.now() + OTP_TTL_MS);
+  connection.otpAttempts = 0;
+  connection.otpSentCount += 1;
+  connection.otpLastSentAt = new Date();
+  await connection.save();
+
+  const notificationId = `connection_${connection._id}_${Date.now()}`;
+  const title = 'PillNow Connection Request';
+  const message = `${caregiver.name} wants to help manage your medication. ` +
+    `Share code ${code} with them only if you know them. It expires in ${OTP_TTL_MS / 60000} minutes.`;
+
+  try {
+    await Notification.create({ userId: elder.userId, notificationId, type: 'connection_request', title, message });
+  } catch (error) {
+    console.error('Error saving connection request notification:', error);
+  }
+
+  const [push, sms] = await Promise.all([
+    sendToUsers([elder.userId], { title, message, data: { type: 'connection_request', id: notificationId } })
+      .catch(error => {
+        console.error('Error pushing connection code:', error);
+        return { sent: 0, failed: 0 };
+      }),
+    sendSms(elder.contactNumber, message)
+  ]);
+
+  return push.sent > 0 || sms;
+};
+
 // Connect to elder by phone number
 router.post('/connect-elder', auth, requireCaregiver, [
   body('contactNumber').trim().isLength({ min: 10 }).withMessage('Valid contact number is required')
@@ -39,43 +167,61 @@ router.post('/connect-elder', auth, requireCaregiver, [
     }
 
     // Check if already connected
-    const existingConnection = await CaregiverConnection.findOne({
+    let connection = await CaregiverConnection.findOne({
       caregiverId,
-      elderId: elder.userId,
-      connectionStatus: 'active'
+      elderId: elder.userId
     });
 
-    if (existingConnection) {
+    if (connection && connection.connectionStatus === 'active') {
       return res.status(400).json({
         success: false,
         message: 'Already connected to this elder'
       });
     }
 
-    // Create connection
-    const connection = new CaregiverConnection({
-      caregiverId,
-      elderId: elder.userId,
-      elderName: elder.name,
-      elderContactNumber: elder.contactNumber,
-      elderEmail: elder.email,
-      elderAge: elder.age
-    });
-
-    await connection.save();
+    if (connection) {
+      const limitError = checkSendLimits(connection);
+      if (limitError) {
+        await connection.save();
+        return res.status(429).json({ success: false, ...limitError });
+      }
 
-    res.status(201).json({
-      success: true,
-      message: 'Successfully connected to elder',
-      connection: {
-        id: connection._id,
+      // Reuse a paused or pending connection rather than adding a duplicate pair
+      connection.connectionStatus = 'pending';
+      connection.elderName = elder.name;
+      connection.elderContactNumber = elder.contactNumber;
+      connection.elderEmail = elder.email;
+      connection.elderAge = elder.age;
+    } else {
+      // Create connection; it stays pending until the elder's code is confirmed
+      connection = new CaregiverConnection({
+        caregiverId,
         elderId: elder.userId,
         elderName: elder.name,
         elderContactNumber: elder.contactNumber,
         elderEmail: elder.email,
         elderAge: elder.age,
-        connectedAt: connection.connectedAt
+        connectionStatus: 'pending'
+      });
+
+      // Limits from a deleted connection to the same elder still apply
+      await restoreThrottle(connection);
+      const limitError = checkSendLimits(connection);
+      if (limitError) {
+        await saveThrottle(connection);
+        return res.status(429).json({ success: false, ...limitError });
       }
+    }
+
+    const delivered = await sendConnectionCode(connection, elder, req.user);
+
+    res.status(201).json({
+      success: true,
+      message: delivered
+        ? 'Verification code sent to the elder'
+        : 'Connection created, but the code could not be delivered. Try resending it.',
+      delivered,
+      connection: formatConnection(connection)
     });
 
   } catch (error) {
@@ -103,18 +249,7 @@ router.get('/connections', auth, requireCaregiver, async (req, res) => {
 
     res.json({
       success: true,
-      connections: connections.map(conn => ({
-        id: conn._id,
-        elderId: conn.elderId,
-        elderName: conn.elderName,
-        elderContactNumber: conn.elderContactNumber,
-        elderEmail: conn.elderEmail,
-        elderAge: conn.elderAge,
-        connectionStatus: conn.connectionStatus,
-        connectedAt: conn.connectedAt,
-        lastInteraction: conn.lastInteraction,
-        notes: conn.notes
-      }))
+      connections: connections.map(formatConnection)
     });
 
   } catch (error) {
@@ -126,6 +261,77 @@ router.get('/connections', auth, requireCaregiver, async (req, res) => {
   }
 });
 
+// All caregiver-elder connections (admin only)
+router.get('/admin/connections', auth, requireAdmin, async (req, res) => {
+  try {
+    const { status = 'all', userId, search, page = 1, limit = 20 } = req.query;
+
+    let query = {};
+    if (status !== 'all') {
+      query.connectionStatus = status;
+    }
+
+    // Connections where the user is either side
+    if (userId) {
+      query.$or = [{ caregiverId: userId }, { elderId: userId }];
+    }
+
+    if (search) {
+      const pattern = String(search).trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const caregivers = await User.find({ role: 3, name: { $regex: pattern, $options: 'i' } }).select('userId');
+      query.$and = [{
+        $or: [
+          { elderName: { $regex: pattern, $options: 'i' } },
+          { elderContactNumber: { $regex: pattern, $options: 'i' } },
+          { caregiverId: { $in: caregivers.map(caregiver => caregiver.userId) } }
+        ]
+      }];
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [connections, total] = await Promise.all([
+      CaregiverConnection.find(query)
+        .sort({ connectedAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit)),
+      CaregiverConnection.countDocuments(query)
+    ]);
+
+    // Connections only store the elder's details; look up the caregivers
+    const caregiverIds = [...new Set(connections.map(connection => connection.caregiverId))];
+    const caregivers = await User.find({ userId: { $in: caregiverIds } }).select('userId name contactNumber isActive');
+    const caregiversById = new Map(caregivers.map(caregiver => [caregiver.userId, caregiver]));
+
+    res.json({
+      success: true,
+      connections: connections.map(connection => {
+        const caregiver = caregiversById.get(connection.caregiverId);
+        return {
+          ...formatConnection(connection),
+          caregiverId: connection.caregiverId,
+          caregiverName: caregiver ? caregiver.name : null,
+          caregiverContactNumber: caregiver ? caregiver.contactNumber : null
+        };
+      }),
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages: Math.ceil(total / limit),
+        totalConnections: total,
+        hasNext: skip + connections.length < total,
+        hasPrev: page > 1
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching all connections:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching connections'
+    });
+  }
+});
+
 // Get specific connection details
 router.get('/connections/:connectionId', auth, requireCaregiver, async (req, res) => {
   try {
@@ -146,18 +352,7 @@ router.get('/connections/:connectionId', auth, requireCaregiver, async (req, res
 
     res.json({
       success: true,
-      connection: {
-        id: connection._id,
-        elderId: connection.elderId,
-        elderName: connection.elderName,
-        elderContactNumber: connection.elderContactNumber,
-        elderEmail: connection.elderEmail,
-        elderAge: connection.elderAge,
-        connectionStatus: connection.connectionStatus,
-        connectedAt: connection.connectedAt,
-        lastInteraction: connection.lastInteraction,
-        notes: connection.notes
-      }
+      connection: formatConnection(connection)
     });
 
   } catch (error) {
@@ -189,15 +384,7 @@ router.put('/connections/:connectionId', auth, requireCaregiver, [
     const caregiverId = req.user.userId;
     const { notes, connectionStatus } = req.body;
 
-    const updates = {};
-    if (notes !== undefined) updates.notes = notes;
-    if (connectionStatus !== undefined) updates.connectionStatus = connectionStatus;
-
-    const connection = await CaregiverConnection.findOneAndUpdate(
-      { _id: connectionId, caregiverId },
-      updates,
-      { new: true, runValidators: true }
-    );
+    const connection = await CaregiverConnection.findOne({ _id: connectionId, caregiverId });
 
     if (!connection) {
       return res.status(404).json({
@@ -206,21 +393,23 @@ router.put('/connections/:connectionId', auth, requireCaregiver, [
       });
     }
 
+    // Only the elder's code can activate a pending connection
+    if (connectionStatus !== undefined && connectionStatus !== connection.connectionStatus &&
+        (connection.connectionStatus === 'pending' || connectionStatus === 'pending')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Pending connections are activated by verifying the elder\'s code'
+      });
+    }
+
+    if (notes !== undefined) connection.notes = notes;
+    if (connectionStatus !== undefined) connection.connectionStatus = connectionStatus;
+    await connection.save();
+
     res.json({
       success: true,
       message: 'Connection updated successfully',
-      connection: {
-        id: connection._id,
-        elderId: connection.elderId,
-        elderName: connection.elderName,
-        elderContactNumber: connection.elderContactNumber,
-        elderEmail: connection.elderEmail,
-        elderAge: connection.elderAge,
-        connectionStatus: connection.connectionStatus,
-        connectedAt: connection.connectedAt,
-        lastInteraction: connection.lastInteraction,
-        notes: connection.notes
-      }
+      connection: formatConnection(connection)
     });
 
   } catch (error) {
@@ -232,6 +421,159 @@ router.put('/connections/:connectionId', auth, requireCaregiver, [
   }
 });
 
+// Confirm a pending connection with the code sent to the elder
+router.post('/connections/:connectionId/verify', auth, requireCaregiver, [
+  body('code').trim().isLength({ min: CODE_LENGTH, max: CODE_LENGTH }).isNumeric()
+    .withMessage(`Enter the ${CODE_LENGTH}-digit code`)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { connectionId } = req.params;
+    const caregiverId = req.user.userId;
+
+    const connection = await CaregiverConnection.findOne({ _id: connectionId, caregiverId }).select('+otpHash');
+
+    if (!connection) {
+      return res.status(404).json({
+        success: false,
+        message: 'Connection not found'
+      });
+    }
+
+    if (connection.connectionStatus !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        message: 'This connection is not waiting for a code'
+      });
+    }
+
+    if (isLocked(connection)) {
+      return res.status(429).json({
+        success: false,
+        message: 'Too many attempts. Please try again later.',
+        otp: formatOtpStatus(connection)
+      });
+    }
+
+    if (!connection.otpHash || !connection.otpExpiresAt || connection.otpExpiresAt <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'This code has expired. Request a new one.',
+        otp: formatOtpStatus(connection)
+      });
+    }
+
+    const isValid = await verifyCode(req.body.code, connection.otpHash);
+    if (!isValid) {
+      connection.otpAttempts += 1;
+      if (connection.otpAttempts >= OTP_MAX_ATTEMPTS) {
+        // Burn the code so a locked connection needs a new one
+        connection.otpLockedUntil = new Date(Date.now() + OTP_LOCK_MS);
+        connection.otpHash = undefined;
+        connection.otpExpiresAt = null;
+      }
+      await connection.save();
+
+      const locked = isLocked(connection);
+      const attemptsLeft = OTP_MAX_ATTEMPTS - connection.otpAttempts;
+      return res.status(locked ? 429 : 400).json({
+        success: false,
+        message: locked
+          ? 'Too many incorrect codes. Please try again later.'
+          : `Incorrect code. ${attemptsLeft} attempt(s) left.`,
+        otp: formatOtpStatus(connection)
+      });
+    }
+
+    connection.connectionStatus = 'active';
+    connection.verifiedAt = new Date();
+    connection.connectedAt = new Date();
+    connection.otpHash = undefined;
+    connection.otpExpiresAt = null;
+    connection.otpAttempts = 0;
+    connection.otpSentCount = 0;
+    connection.otpLastSentAt = null;
+    connection.otpLockedUntil = null;
+    await connection.save();
+
+    res.json({
+      success: true,
+      message: 'Connection verified successfully',
+      connection: formatConnection(connection)
+    });
+
+  } catch (error) {
+    console.error('Error verifying connection code:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error verifying connection code'
+    });
+  }
+});
+
+// Send a new code for a pending connection
+router.post('/connections/:connectionId/resend-code', auth, requireCaregiver, async (req, res) => {
+  try {
+    const { connectionId } = req.params;
+    const caregiverId = req.user.userId;
+
+    const connection = await CaregiverConnection.findOne({ _id: connectionId, caregiverId });
+
+    if (!connection) {
+      return res.status(404).json({
+        success: false,
+        message: 'Connection not found'
+      });
+    }
+
+    if (connection.connectionStatus !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        message: 'This connection is not waiting for a code'
+      });
+    }
+
+    const elder = await User.findOne({ userId: connection.elderId, role: 2, isActive: true });
+    if (!elder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Elder account not found'
+      });
+    }
+
+    const limitError = checkSendLimits(connection);
+    if (limitError) {
+      await connection.save();
+      return res.status(429).json({ success: false, ...limitError });
+    }
+
+    const delivered = await sendConnectionCode(connection, elder, req.user);
+
+    res.json({
+      success: true,
+      message: delivered ? 'A new code was sent to the elder' : 'The code could not be delivered. Please try again.',
+      delivered,
+      connection: formatConnection(connection)
+    });
+
+  } catch (error) {
+    console.error('Error resending connection code:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error resending connection code'
+    });
+  }
+});
+
 // Remove connection
 router.delete('/connections/:connectionId', auth, requireCaregiver, async (req, res) => {
   try {
@@ -250,6 +592,8 @@ router.delete('/connections/:connectionId', auth, requireCaregiver, async (req,
       });
     }
 
+    await saveThrottle(connection);
+
     res.json({
       success: true,
       message: 'Connection removed successfully'
@@ -266,18 +610,21 @@ router.delete('/connections/:connectionId', auth, requireCaregiver, async (req,
 
 // Search for elders by contact number (for connection)
 router.get('/search-elders', auth, requireCaregiver, [
-  body('contactNumber').trim().isLength({ min: 10 }).withMessage('Valid contact number is required')
+  query('contactNumber').trim().isLength({ min: 10 }).withMessage('Valid contact number is required')
 ], async (req, res) => {
   try {
-    const { contactNumber } = req.query;
-
-    if (!contactNumber) {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
       return res.status(400).json({
         success: false,
-        message: 'Contact number is required'
+        message: 'Validation failed',
+        errors: errors.array()
       });
     }
 
+    const { contactNumber } = req.query;
+
     const elder = await User.findOne({
       contactNumber: contactNumber.trim(),
       role: 2,
@@ -0,0 +1,170 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const DoseEvent = require('../models/DoseEvent');
+const CaregiverConnection = require('../models/CaregiverConnection');
+const { auth } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Elders see their own history, caregivers their connected elders, admins everyone
+const canAccessElder = async (user, elderId) => {
+  if (user.role === 1 || user.userId === elderId) return true;
+  if (user.role !== 3) return false;
+
+  const connection = await CaregiverConnection.findOne({
+    caregiverId: user.userId,
+    elderId,
+    connectionStatus: 'active'
+  });
+  return !!connection;
+};
+
+const formatEvent = (event) => ({
+  id: event._id,
+  elderId: event.userId,
+  doseKey: event.doseKey,
+  medicationName: event.medicationName,
+  containerId: event.containerId,
+  scheduledDate: event.scheduledDate,
+  scheduledTime: event.scheduledTime,
+  status: event.status,
+  recordedAt: event.recordedAt,
+  recordedBy: event.recordedBy,
+  source: event.source,
+  notes: event.notes,
+  snoozeCount: event.snoozeCount,
+  escalatedAt: event.escalatedAt,
+  escalateAt: event.escalateAt
+});
+
+// Record (or replace) the outcome of a dose
+router.post('/', auth, [
+  body('elderId').optional().trim().isLength({ min: 1 }).withMessage('Elder ID is required'),
+  body('doseKey').trim().isLength({ min: 1 }).withMessage('Dose key is required'),
+  body('medicationName').trim().isLength({ min: 1 }).withMessage('Medication name is required'),
+  body('containerId').optional().isInt({ min: 1, max: 3 }).withMessage('Container ID must be 1, 2, or 3'),
+  body('scheduledDate').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Valid date (YYYY-MM-DD) is required'),
+  body('scheduledTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).withMessage('Valid time format (HH:MM) is required'),
+  body('status').isIn(['taken', 'skipped', 'missed', 'late', 'snoozed']).withMessage('Status must be taken, skipped, missed, late or snoozed'),
+  body('recordedAt').optional().isISO8601().withMessage('Valid recordedAt timestamp is required'),
+  body('source').optional().isIn(['notification', 'adherence', 'device', 'system']).withMessage('Invalid source'),
+  body('notes').optional().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters'),
+  body('snoozeCount').optional().isInt({ min: 0 }).withMessage('Snooze count must be a non-negative number'),
+  body('escalatedAt').optional({ nullable: true }).isISO8601().withMessage('Valid escalatedAt timestamp is required'),
+  body('escalateAt').optional({ nullable: true }).isISO8601().withMessage('Valid escalateAt timestamp is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const elderId = req.body.elderId || req.user.userId;
+    if (!(await canAccessElder(req.user, elderId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not allowed to record doses for this elder'
+      });
+    }
+
+    const {
+      doseKey,
+      medicationName,
+      containerId = 1,
+      scheduledDate,
+      scheduledTime,
+      status,
+      recordedAt,
+      source = 'adherence',
+      notes = '',
+      snoozeCount,
+      escalatedAt,
+      escalateAt
+    } = req.body;
+
+    // Snooze details are only sent while snoozing, so a later outcome keeps them
+    const snoozeFields = {};
+    if (snoozeCount !== undefined) snoozeFields.snoozeCount = parseInt(snoozeCount);
+    if (escalatedAt) snoozeFields.escalatedAt = new Date(escalatedAt);
+    if (escalateAt !== undefined) snoozeFields.escalateAt = escalateAt ? new Date(escalateAt) : null;
+
+    const event = await DoseEvent.findOneAndUpdate(
+      { userId: elderId, doseKey },
+      {
+        ...snoozeFields,
+        userId: elderId,
+        doseKey,
+        medicationName,
+        containerId: parseInt(containerId),
+        scheduledDate,
+        scheduledTime,
+        status,
+        recordedAt: recordedAt ? new Date(recordedAt) : new Date(),
+        recordedBy: req.user.userId,
+        source,
+        notes
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Dose recorded',
+      event: formatEvent(event)
+    });
+
+  } catch (error) {
+    console.error('Error recording dose event:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error recording dose event'
+    });
+  }
+});
+
+// Get dose history for an elder within a date range
+router.get('/', auth, [
+  query('from').optional().matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('from must be YYYY-MM-DD'),
+  query('to').optional().matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('to must be YYYY-MM-DD')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const elderId = req.query.elderId || req.user.userId;
+    if (!(await canAccessElder(req.user, elderId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not allowed to view doses for this elder'
+      });
+    }
+
+    const events = await DoseEvent.getForRange(elderId, req.query.from, req.query.to);
+
+    res.json({
+      success: true,
+      events: events.map(formatEvent)
+    });
+
+  } catch (error) {
+    console.error('Error fetching dose events:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching dose events'
+    });
+  }
+});
+
+module.exports = router;
@@ -1 +1,236 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const { body, validationResult } = require('express-validator');
+const Medication = require('../models/Medication');
+const { auth, requireAdmin, requireCaregiver } = require('../middleware/auth');
 
+const router = express.Router();
+
+const medicationValidators = (optional) => {
+  const field = (name) => (optional ? body(name).optional() : body(name));
+  return [
+    field('name').trim().isLength({ min: 2 }).withMessage('Name must be at least 2 characters'),
+    body('description').optional().trim().isLength({ max: 500 }).withMessage('Description is too long'),
+    body('dosage').optional().trim().isLength({ max: 100 }).withMessage('Dosage is too long'),
+    body('form').optional().trim().isLength({ max: 50 }).withMessage('Form is too long'),
+    body('manufacturer').optional().trim().isLength({ max: 100 }).withMessage('Manufacturer is too long'),
+    body('isActive').optional().isBoolean().withMessage('isActive must be boolean'),
+    body('status').optional().isIn(['approved', 'pending', 'rejected']).withMessage('Valid status is required')
+  ];
+};
+
+const CATALOG_FIELDS = ['name', 'description', 'dosage', 'form', 'manufacturer', 'isActive', 'status'];
+const PROPOSAL_FIELDS = ['name', 'description', 'dosage', 'form', 'manufacturer'];
+
+// Match user input literally inside a regex
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const pickFields = (source, fields) => {
+  const picked = {};
+  fields.forEach(field => {
+    if (source[field] !== undefined) picked[field] = source[field];
+  });
+  return picked;
+};
+
+const pickCatalogFields = (source) => pickFields(source, CATALOG_FIELDS);
+
+// Get the medications catalog; admins can include retired and rejected entries with status=all
+router.get('/', auth, async (req, res) => {
+  try {
+    const { status = 'active' } = req.query;
+    // Pending proposals are only offered to the caregiver who made them
+    const query = req.user.role === 1 && status === 'all'
+      ? {}
+      : { isActive: true, $or: [{ status: { $ne: 'pending' } }, { proposedBy: req.user.userId }] };
+
+    const medications = await Medication.find(query).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: medications
+    });
+
+  } catch (error) {
+    console.error('Error fetching medications:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching medications'
+    });
+  }
+});
+
+// Add a medication to the catalog (admin only)
+router.post('/', auth, requireAdmin, medicationValidators(false), async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const medication = new Medication({
+      ...pickCatalogFields(req.body),
+      medId: await Medication.nextMedId()
+    });
+    await medication.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Medication added successfully',
+      data: medication
+    });
+
+  } catch (error) {
+    console.error('Error adding medication:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error adding medication'
+    });
+  }
+});
+
+// Propose a medication missing from the catalog (caregiver only)
+// The entry can be scheduled by its proposer right away and is offered to everyone once an admin approves it
+router.post('/proposals', auth, requireCaregiver, medicationValidators(false), async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const fields = pickFields(req.body, PROPOSAL_FIELDS);
+
+    // Point at the existing entry rather than adding a duplicate
+    const existing = await Medication.findOne({
+      name: new RegExp(`^${escapeRegex(fields.name)}$`, 'i'),
+      dosage: new RegExp(`^${escapeRegex(fields.dosage || '')}$`, 'i'),
+      isActive: true,
+      $or: [{ status: { $ne: 'pending' } }, { proposedBy: req.user.userId }]
+    });
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'This medication is already in the catalog',
+        data: existing
+      });
+    }
+
+    const medication = new Medication({
+      ...fields,
+      medId: await Medication.nextMedId(),
+      status: 'pending',
+      proposedBy: req.user.userId
+    });
+    await medication.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Medication proposed successfully. An admin will review it.',
+      data: medication
+    });
+
+  } catch (error) {
+    console.error('Error proposing medication:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error proposing medication'
+    });
+  }
+});
+
+// Update a catalog entry or review a proposal (admin only)
+router.put('/:medicationId', auth, requireAdmin, medicationValidators(true), async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { medicationId } = req.params;
+    if (!mongoose.isValidObjectId(medicationId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Medication not found'
+      });
+    }
+
+    const updates = pickCatalogFields(req.body);
+    // A rejected proposal is no longer offered, even to its proposer
+    if (updates.status === 'rejected') {
+      updates.isActive = false;
+    }
+
+    const medication = await Medication.findByIdAndUpdate(
+      medicationId,
+      updates,
+      { new: true, runValidators: true }
+    );
+
+    if (!medication) {
+      return res.status(404).json({
+        success: false,
+        message: 'Medication not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Medication updated successfully',
+      data: medication
+    });
+
+  } catch (error) {
+    console.error('Error updating medication:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error updating medication'
+    });
+  }
+});
+
+// Retire a medication (admin only) - soft delete, existing schedules keep their medId
+router.delete('/:medicationId', auth, requireAdmin, async (req, res) => {
+  try {
+    const { medicationId } = req.params;
+    const medication = mongoose.isValidObjectId(medicationId)
+      ? await Medication.findByIdAndUpdate(medicationId, { isActive: false }, { new: true })
+      : null;
+
+    if (!medication) {
+      return res.status(404).json({
+        success: false,
+        message: 'Medication not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Medication retired successfully',
+      data: medication
+    });
+
+  } catch (error) {
+    console.error('Error retiring medication:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retiring medication'
+    });
+  }
+});
+
+module.exports = router;
@@ -15,6 +15,9 @@ const authenticateToken = (req, res, next) => {
   }
 
   jwt.verify(token, process.env.JWT_SECRET, (err, user) => {
+    if (err && err.name === 'TokenExpiredError') {
+      return res.status(401).json({ error: 'Token expired' });
+    }
     if (err) {
       return res.status(403).json({ error: 'Invalid or expired token' });
     }
@@ -1,64 +1,142 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const { auth, requireAdminOrCaregiver } = require('../middleware/auth');
 const MedicationSchedule = require('../models/MedicationSchedule');
 const User = require('../models/User');
+const CaregiverConnection = require('../models/CaregiverConnection');
+const Notification = require('../models/Notification');
+const { alertCaregivers, alertEscalation } = require('../services/doseAlerts');
 
 const router = express.Router();
 
-// Get all notifications for a user (caregiver can see elder's notifications)
-router.get('/', auth, async (req, res) => {
+const NOTIFICATION_TYPES = ['medication', 'reminder', 'test_alarm', 'missed_dose', 'escalation', 'connection_request'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Admins and actively connected caregivers may act on an elder's notifications by passing userId
+const getTargetUserId = async (req, userId = req.query.userId) => {
+  if (!userId || userId === req.user.userId) return req.user.userId;
+  if (req.user.role === 1) return userId;
+  if (req.user.role !== 3) return null;
+
+  const connection = await CaregiverConnection.findOne({
+    caregiverId: req.user.userId,
+    elderId: userId,
+    connectionStatus: 'active'
+  });
+  return connection ? userId : null;
+};
+
+const denyElderAccess = (res) => res.status(403).json({
+  success: false,
+  message: 'Not allowed to access notifications for this elder'
+});
+
+// The elder a dose alert is about: the sender, or an elder they may act for
+const getAlertElder = async (req) => {
+  const { elderId } = req.body;
+  if (!elderId || elderId === req.user.userId) return req.user;
+  if (!(await getTargetUserId(req, elderId))) return null;
+  return User.findOne({ userId: elderId, isActive: true });
+};
+
+const denyAlertAccess = (res) => res.status(403).json({
+  success: false,
+  message: 'Not allowed to send alerts for this elder'
+});
+
+const formatNotification = (notification) => ({
+  id: notification.notificationId,
+  type: notification.type,
+  title: notification.title,
+  message: notification.message,
+  medicineName: notification.medicineName,
+  containerId: notification.containerId,
+  scheduledTime: notification.scheduledTime,
+  scheduledDate: notification.scheduledDate,
+  elderId: notification.elderId,
+  elderName: notification.elderName,
+  isTest: notification.isTest,
+  isRead: !!notification.readAt,
+  readAt: notification.readAt,
+  createdAt: notification.createdAt
+});
+
+// Get a page of notifications for a user (caregiver can see elder's notifications).
+// Pass the id of the last notification shown as `before` to get the ones after it, unaffected by dismissals
+router.get('/', auth, [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive number'),
+  query('before').optional().trim().isLength({ min: 1 }).withMessage('Before must be a notification id'),
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+  query('type').optional().isIn(['all', ...NOTIFICATION_TYPES]).withMessage('Invalid notification type'),
+  query('status').optional().isIn(['active', 'dismissed', 'all']).withMessage('Status must be active, dismissed or all')
+], async (req, res) => {
   try {
-    const { userId, type = 'all', status = 'active' } = req.query;
-    
-    // Determine target user
-    let targetUserId = req.user.userId;
-    if (userId && (req.user.role === 1 || req.user.role === 3)) {
-      targetUserId = userId;
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
     }
-    
-    let query = { userId: targetUserId };
-    
+
+    const { type = 'all', status = 'active', before } = req.query;
+    const page = before ? 1 : parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || DEFAULT_PAGE_SIZE;
+    const targetUserId = await getTargetUserId(req);
+    if (!targetUserId) return denyElderAccess(res);
+
+    // Connection codes are only shown to the elder they were sent to
+    const visible = { userId: targetUserId };
+    if (targetUserId !== req.user.userId) {
+      visible.type = { $ne: 'connection_request' };
+    }
+
+    const query = { ...visible };
+
     // Filter by type
-    if (type === 'medication') {
-      query.medicationName = { $exists: true };
-    } else if (type === 'reminder') {
-      query.type = 'reminder';
+    if (type !== 'all') {
+      query.type = { ...visible.type, $eq: type };
     }
-    
+
     // Filter by status
     if (status === 'active') {
-      query.isActive = true;
-      query.$or = [
-        { endDate: null },
-        { endDate: { $gt: new Date() } }
-      ];
-    } else if (status === 'inactive') {
-      query.isActive = false;
+      query.dismissedAt = null;
+    } else if (status === 'dismissed') {
+      query.dismissedAt = { $ne: null };
     }
-    
-    const schedules = await MedicationSchedule.find(query)
-      .sort({ createdAt: -1 });
-    
-    // Convert schedules to notifications
-    const notifications = schedules.map(schedule => ({
-      id: schedule._id,
-      type: 'medication',
-      title: `Medication Reminder: ${schedule.medicationName}`,
-      message: `Time to take ${schedule.dosage} of ${schedule.medicationName}`,
-      scheduledTime: schedule.timeSlots[0]?.time || '08:00',
-      medicationName: schedule.medicationName,
-      dosage: schedule.dosage,
-      containerId: schedule.container || 1,
-      isActive: schedule.isActive,
-      createdAt: schedule.createdAt
-    }));
-    
+
+    let cursor = null;
+    if (before) {
+      cursor = await Notification.findOne({ userId: targetUserId, notificationId: before });
+      if (!cursor) {
+        return res.status(400).json({
+          success: false,
+          message: 'Unknown notification to page from'
+        });
+      }
+    }
+
+    const [{ notifications, hasMore }, total, unreadCount] = await Promise.all([
+      Notification.getPage(query, { page, limit, cursor }),
+      Notification.countDocuments(query),
+      Notification.countDocuments({ ...visible, dismissedAt: null, readAt: null })
+    ]);
+
     res.json({
       success: true,
-      notifications
+      notifications: notifications.map(formatNotification),
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore
+      },
+      unreadCount
     });
-    
+
   } catch (error) {
     console.error('Error fetching notifications:', error);
     res.status(500).json({
@@ -88,22 +166,22 @@ router.post('/test-alarm', auth, requireAdminOrCaregiver, [
     const { medicationName = 'Losartan', containerId = 1, scheduledTime = '08:00 AM' } = req.body;
     
     // Create a test notification
-    const testNotification = {
-      id: `test_${Date.now()}`,
+    const testNotification = await Notification.create({
+      userId: req.user.userId,
+      notificationId: `test_${Date.now()}`,
       type: 'test_alarm',
       title: `Test Alarm: ${medicationName}`,
       message: `Test notification for ${medicationName} in container ${containerId}`,
       medicineName: medicationName,
       containerId: parseInt(containerId),
       scheduledTime,
-      isTest: true,
-      createdAt: new Date()
-    };
+      isTest: true
+    });
     
     res.json({
       success: true,
       message: 'Test alarm created successfully',
-      notification: testNotification
+      notification: formatNotification(testNotification)
     });
     
   } catch (error) {
@@ -115,21 +193,96 @@ router.post('/test-alarm', auth, requireAdminOrCaregiver, [
   }
 });
 
-// Mark notification as read/dismissed
+// Mark every active notification as read
+router.put('/read-all', auth, async (req, res) => {
+  try {
+    const targetUserId = await getTargetUserId(req);
+    if (!targetUserId) return denyElderAccess(res);
+
+    // Caregivers do not see an elder's connection codes, so they do not mark them read either
+    const filter = { userId: targetUserId, dismissedAt: null, readAt: null };
+    if (targetUserId !== req.user.userId) {
+      filter.type = { $ne: 'connection_request' };
+    }
+
+    const result = await Notification.updateMany(
+      filter,
+      { $set: { readAt: new Date() } }
+    );
+
+    res.json({
+      success: true,
+      message: 'Notifications marked as read',
+      updated: result.modifiedCount
+    });
+
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error marking notifications as read'
+    });
+  }
+});
+
+// Mark notification as read
+router.put('/:notificationId/read', auth, async (req, res) => {
+  try {
+    const targetUserId = await getTargetUserId(req);
+    if (!targetUserId) return denyElderAccess(res);
+
+    const notification = await Notification.findOne({
+      userId: targetUserId,
+      notificationId: req.params.notificationId
+    });
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    // Keep the time it was first read
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read',
+      notification: formatNotification(notification)
+    });
+
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error marking notification as read'
+    });
+  }
+});
+
+// Dismiss a notification; dismissed ones are no longer listed
 router.put('/:notificationId/dismiss', auth, async (req, res) => {
   try {
-    const { notificationId } = req.params;
-    
-    // For test notifications, just return success
-    if (notificationId.startsWith('test_')) {
-      return res.json({
-        success: true,
-        message: 'Test notification dismissed'
+    const targetUserId = await getTargetUserId(req);
+    if (!targetUserId) return denyElderAccess(res);
+
+    const notification = await Notification.findOneAndUpdate(
+      { userId: targetUserId, notificationId: req.params.notificationId },
+      { $set: { dismissedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
       });
     }
-    
-    // For real medication schedules, you could add a dismissed field
-    // For now, we'll just return success
+
     res.json({
       success: true,
       message: 'Notification dismissed'
@@ -147,13 +300,11 @@ router.put('/:notificationId/dismiss', auth, async (req, res) => {
 // Get upcoming medication reminders
 router.get('/upcoming', auth, async (req, res) => {
   try {
-    const { userId, hours = 24 } = req.query;
+    const { hours = 24 } = req.query;
     
     // Determine target user
-    let targetUserId = req.user.userId;
-    if (userId && (req.user.role === 1 || req.user.role === 3)) {
-      targetUserId = userId;
-    }
+    const targetUserId = await getTargetUserId(req);
+    if (!targetUserId) return denyElderAccess(res);
     
     const now = new Date();
     const futureTime = new Date(now.getTime() + (parseInt(hours) * 60 * 60 * 1000));
@@ -213,4 +364,179 @@ router.get('/upcoming', auth, async (req, res) => {
   }
 });
 
+// Register this device's FCM token for the logged-in user
+router.post('/devices', auth, [
+  body('token').trim().isLength({ min: 1 }).withMessage('Device token is required'),
+  body('platform').optional().isIn(['ios', 'android', 'web']).withMessage('Platform must be ios, android or web')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { token, platform = 'android' } = req.body;
+
+    // A token belongs to one device; move it if another account used this phone
+    await User.updateMany(
+      { 'pushTokens.token': token },
+      { $pull: { pushTokens: { token } } }
+    );
+    await User.updateOne(
+      { userId: req.user.userId },
+      { $push: { pushTokens: { token, platform, updatedAt: new Date() } } }
+    );
+
+    res.json({
+      success: true,
+      message: 'Device registered for push notifications'
+    });
+
+  } catch (error) {
+    console.error('Error registering device:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error registering device'
+    });
+  }
+});
+
+// Stop sending push notifications to a device
+router.delete('/devices/:token', auth, async (req, res) => {
+  try {
+    await User.updateOne(
+      { userId: req.user.userId },
+      { $pull: { pushTokens: { token: req.params.token } } }
+    );
+
+    res.json({
+      success: true,
+      message: 'Device unregistered'
+    });
+
+  } catch (error) {
+    console.error('Error unregistering device:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error unregistering device'
+    });
+  }
+});
+
+const doseAlertValidators = [
+  body('elderId').optional().isString().withMessage('Elder ID must be a string'),
+  body('medicationName').trim().isLength({ min: 1 }).withMessage('Medication name is required'),
+  body('containerId').optional().isInt({ min: 1, max: 3 }).withMessage('Container ID must be 1, 2, or 3'),
+  body('scheduledTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).withMessage('Valid time format (HH:MM) is required'),
+  body('date').optional().isISO8601().withMessage('Valid date is required')
+];
+
+// Alert an elder's caregivers that a dose was missed; caregivers may report for a connected elder
+router.post('/missed-dose', auth, doseAlertValidators, async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { medicationName, containerId = 1, scheduledTime, date } = req.body;
+    const elder = await getAlertElder(req);
+    if (!elder) return denyAlertAccess(res);
+
+    const notified = await alertCaregivers(elder, {
+      type: 'missed_dose',
+      title: `Missed dose: ${medicationName}`,
+      message: `${elder.name} missed ${medicationName} (container ${containerId}) scheduled at ${scheduledTime}`,
+      medicationName,
+      containerId: parseInt(containerId),
+      scheduledTime,
+      date
+    });
+
+    if (notified === null) {
+      return res.json({
+        success: true,
+        message: 'No caregivers connected',
+        notified: 0
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Caregivers notified',
+      notified
+    });
+
+  } catch (error) {
+    console.error('Error sending missed dose alert:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error sending missed dose alert'
+    });
+  }
+});
+
+// Alert an elder's caregivers that a snoozed dose is still not taken
+router.post('/escalation', auth, [
+  ...doseAlertValidators,
+  body('snoozeCount').optional().isInt({ min: 0 }).withMessage('Snooze count must be a non-negative number'),
+  body('minutesLate').optional().isInt({ min: 0 }).withMessage('Minutes late must be a non-negative number')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { medicationName, containerId = 1, scheduledTime, date, snoozeCount = 0, minutesLate = 0 } = req.body;
+    const elder = await getAlertElder(req);
+    if (!elder) return denyAlertAccess(res);
+
+    const notified = await alertEscalation(elder, {
+      medicationName,
+      containerId: parseInt(containerId),
+      scheduledTime,
+      date,
+      snoozeCount,
+      minutesLate
+    });
+
+    if (notified === null) {
+      return res.json({
+        success: true,
+        message: 'No caregivers connected',
+        notified: 0
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Caregivers notified',
+      notified
+    });
+
+  } catch (error) {
+    console.error('Error sending escalation alert:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error sending escalation alert'
+    });
+  }
+});
+
 module.exports = router;
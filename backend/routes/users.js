@@ -1,11 +1,99 @@
 const express = require('express');
 const jwt = require('jsonwebtoken');
+const rateLimit = require('express-rate-limit');
 const { body, validationResult } = require('express-validator');
 const User = require('../models/User');
+const PasswordReset = require('../models/PasswordReset');
 const { auth, requireAdmin, requireAdminOrCaregiver } = require('../middleware/auth');
+const { sendSms } = require('../services/sms');
+const { CODE_LENGTH, generateCode, hashCode, verifyCode } = require('../services/otp');
 
 const router = express.Router();
 
+// Reset codes expire after 10 minutes
+const RESET_TTL_MS = 10 * 60 * 1000;
+// Wrong codes allowed before the reset is locked
+const RESET_MAX_ATTEMPTS = 5;
+// Codes that can be sent within one window before the reset is locked
+const RESET_MAX_SENDS = 5;
+const RESET_SEND_WINDOW_MS = 60 * 60 * 1000;
+const RESET_RESEND_COOLDOWN_MS = 60 * 1000;
+const RESET_LOCK_MS = 30 * 60 * 1000;
+
+// Per-IP limits on top of the per-account ones, so numbers cannot be probed in bulk
+const resetRequestLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { success: false, message: 'Too many reset requests. Please try again later.' }
+});
+
+const resetConfirmLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { success: false, message: 'Too many reset attempts. Please try again later.' }
+});
+
+const isResetLocked = (reset) => !!reset.lockedUntil && reset.lockedUntil > new Date();
+
+// Send a reset code to the account using this number, if any and if its limits allow
+const sendResetCode = async (contactNumber) => {
+  const user = await User.findOne({ contactNumber, isActive: true });
+  if (!user) return;
+
+  const now = new Date();
+  const reset = await PasswordReset.findOne({ userId: user.userId }) ||
+    new PasswordReset({ userId: user.userId });
+
+  // A lock that has run out starts the counts afresh
+  if (reset.lockedUntil && reset.lockedUntil <= now) {
+    reset.lockedUntil = null;
+    reset.sentCount = 0;
+    reset.sendWindowStartedAt = null;
+    reset.attempts = 0;
+  }
+
+  if (isResetLocked(reset) ||
+      (reset.lastSentAt && now - reset.lastSentAt < RESET_RESEND_COOLDOWN_MS)) {
+    return;
+  }
+
+  // Sends are counted per window, so occasional requests never add up to a lock
+  if (!reset.sendWindowStartedAt || now - reset.sendWindowStartedAt >= RESET_SEND_WINDOW_MS) {
+    reset.sendWindowStartedAt = now;
+    reset.sentCount = 0;
+  }
+
+  if (reset.sentCount >= RESET_MAX_SENDS) {
+    reset.lockedUntil = new Date(now.getTime() + RESET_LOCK_MS);
+    await reset.save();
+    return;
+  }
+
+  const code = generateCode();
+  reset.codeHash = await hashCode(code);
+  reset.expiresAt = new Date(now.getTime() + RESET_TTL_MS);
+  reset.attempts = 0;
+  reset.sentCount += 1;
+  reset.lastSentAt = now;
+  await reset.save();
+
+  await sendSms(
+    user.contactNumber,
+    `Your PillNow password reset code is ${code}. It expires in ${RESET_TTL_MS / 60000} minutes. ` +
+      'If you did not ask for it, ignore this message.'
+  );
+};
+
+// Fields an admin may change on an account
+const ADMIN_EDITABLE_FIELDS = ['name', 'email', 'contactNumber', 'role', 'age', 'isActive'];
+
+// Match user input literally inside a regex
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 // Generate JWT token
 const generateToken = (userId) => {
   return jwt.sign(
@@ -143,12 +231,155 @@ router.post('/login', [
   }
 });
 
+// Refresh token (issues a new token for a still-valid session)
+router.post('/refresh-token', auth, async (req, res) => {
+  try {
+    const token = generateToken(req.user.userId);
+
+    res.json({
+      success: true,
+      message: 'Token refreshed successfully',
+      token,
+      user: req.user.getPublicProfile()
+    });
+
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error refreshing token'
+    });
+  }
+});
+
+// Send a password reset code to the account's phone number
+router.post('/password-reset/request', resetRequestLimiter, [
+  body('contactNumber').trim().isLength({ min: 10 }).withMessage('Valid contact number is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    // The same answer whether or not the number has an account, so it cannot be used to find users
+    const response = {
+      success: true,
+      message: 'If an account uses this number, a reset code has been sent to it.',
+      expiresInSeconds: RESET_TTL_MS / 1000,
+      resendAfterSeconds: RESET_RESEND_COOLDOWN_MS / 1000
+    };
+
+    // Answer before looking anything up, so the response time does not tell whether the number has an account
+    res.json(response);
+
+    sendResetCode(req.body.contactNumber)
+      .catch(error => console.error('Password reset request error:', error));
+
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error requesting password reset'
+    });
+  }
+});
+
+// Set a new password with the code sent by SMS
+router.post('/password-reset/confirm', resetConfirmLimiter, [
+  body('contactNumber').trim().isLength({ min: 10 }).withMessage('Valid contact number is required'),
+  body('code').trim().isLength({ min: CODE_LENGTH, max: CODE_LENGTH }).isNumeric()
+    .withMessage(`Enter the ${CODE_LENGTH}-digit code`),
+  body('newPassword').isLength({ min: 6 }).withMessage('Password must be at least 6 characters')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { contactNumber, code, newPassword } = req.body;
+    const invalidCode = {
+      success: false,
+      message: 'Invalid or expired code. Request a new one.'
+    };
+
+    const user = await User.findOne({ contactNumber, isActive: true });
+    const reset = user && await PasswordReset.findOne({ userId: user.userId });
+    if (!reset) {
+      return res.status(400).json(invalidCode);
+    }
+
+    if (isResetLocked(reset)) {
+      return res.status(429).json({
+        success: false,
+        message: 'Too many attempts. Please try again later.'
+      });
+    }
+
+    if (!reset.codeHash || !reset.expiresAt || reset.expiresAt <= new Date()) {
+      return res.status(400).json(invalidCode);
+    }
+
+    const isValid = await verifyCode(code, reset.codeHash);
+    if (!isValid) {
+      reset.attempts += 1;
+      if (reset.attempts >= RESET_MAX_ATTEMPTS) {
+        // Burn the code so a locked reset needs a new one
+        reset.lockedUntil = new Date(Date.now() + RESET_LOCK_MS);
+        reset.codeHash = null;
+        reset.expiresAt = null;
+      }
+      await reset.save();
+
+      const locked = isResetLocked(reset);
+      return res.status(locked ? 429 : 400).json({
+        success: false,
+        message: locked
+          ? 'Too many incorrect codes. Please try again later.'
+          : `Incorrect code. ${RESET_MAX_ATTEMPTS - reset.attempts} attempt(s) left.`,
+        attemptsLeft: RESET_MAX_ATTEMPTS - reset.attempts
+      });
+    }
+
+    // Hashed by the User pre-save hook
+    user.password = newPassword;
+    await user.save();
+    await PasswordReset.deleteOne({ _id: reset._id });
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. You can now log in.'
+    });
+
+  } catch (error) {
+    console.error('Password reset confirm error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error resetting password'
+    });
+  }
+});
+
 // Get all users (admin only)
 router.get('/', auth, requireAdmin, async (req, res) => {
   try {
-    const { role, page = 1, limit = 10, search } = req.query;
+    const { role, page = 1, limit = 10, search, status = 'active' } = req.query;
     
-    let query = { isActive: true };
+    // Deactivated accounts are listed only when asked for
+    let query = {};
+    if (status === 'active') query.isActive = true;
+    if (status === 'inactive') query.isActive = false;
     
     // Filter by role if specified
     if (role) {
@@ -157,17 +388,18 @@ router.get('/', auth, requireAdmin, async (req, res) => {
     
     // Search functionality
     if (search) {
+      const pattern = escapeRegex(String(search).trim());
       query.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { email: { $regex: search, $options: 'i' } },
-        { contactNumber: { $regex: search, $options: 'i' } }
+        { name: { $regex: pattern, $options: 'i' } },
+        { email: { $regex: pattern, $options: 'i' } },
+        { contactNumber: { $regex: pattern, $options: 'i' } }
       ];
     }
     
     const skip = (page - 1) * limit;
     
     const users = await User.find(query)
-      .select('-password')
+      .select('-password -pushTokens')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(parseInt(limit));
@@ -200,8 +432,10 @@ router.get('/:userId', auth, requireAdminOrCaregiver, async (req, res) => {
   try {
     const { userId } = req.params;
     
-    const user = await User.findOne({ userId, isActive: true })
-      .select('-password');
+    // Admins can open deactivated accounts to restore them
+    const query = req.user.role === 1 ? { userId } : { userId, isActive: true };
+    const user = await User.findOne(query)
+      .select('-password -pushTokens');
     
     if (!user) {
       return res.status(404).json({
@@ -375,16 +609,27 @@ router.put('/:userId', auth, requireAdmin, [
     }
     
     const { userId } = req.params;
-    const updates = req.body;
     
-    // Remove password from updates if present
-    delete updates.password;
+    // Only profile fields; passwords, ids and device tokens are never set here
+    const updates = {};
+    ADMIN_EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) updates[field] = req.body[field];
+    });
+    
+    // An admin cannot lock themselves out
+    if (userId === req.user.userId &&
+        ((updates.role !== undefined && Number(updates.role) !== 1) || updates.isActive === false)) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot remove your own admin access'
+      });
+    }
     
     const user = await User.findOneAndUpdate(
       { userId },
       updates,
       { new: true, runValidators: true }
-    ).select('-password');
+    ).select('-password -pushTokens');
     
     if (!user) {
       return res.status(404).json({
@@ -400,6 +645,12 @@ router.put('/:userId', auth, requireAdmin, [
     });
     
   } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Another account already uses this email or contact number'
+      });
+    }
     console.error('Error updating user:', error);
     res.status(500).json({
       success: false,
@@ -413,11 +664,18 @@ router.delete('/:userId', auth, requireAdmin, async (req, res) => {
   try {
     const { userId } = req.params;
     
+    if (userId === req.user.userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot deactivate your own account'
+      });
+    }
+    
     const user = await User.findOneAndUpdate(
       { userId },
       { isActive: false },
       { new: true }
-    ).select('-password');
+    ).select('-password -pushTokens');
     
     if (!user) {
       return res.status(404).json({
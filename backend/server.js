@@ -15,6 +15,9 @@ const medicationRoutes = require('./routes/medications');
 const caregiverRoutes = require('./routes/caregivers');
 const monitorRoutes = require('./routes/monitor');
 const notificationRoutes = require('./routes/notifications');
+const doseEventRoutes = require('./routes/doseEvents');
+const { startEscalationSweep } = require('./services/escalations');
+const { startScheduleNotificationSweep } = require('./services/scheduleNotifications');
 
 // Security middleware
 app.use(helmet());
@@ -41,7 +44,12 @@ mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/pillnow',
   useNewUrlParser: true,
   useUnifiedTopology: true,
 })
-.then(() => console.log('Connected to MongoDB'))
+.then(() => {
+  console.log('Connected to MongoDB');
+  // Alert caregivers about snoozed doses even while the elder's app is closed
+  startEscalationSweep();
+  startScheduleNotificationSweep();
+})
 .catch(err => console.error('MongoDB connection error:', err));
 
 // API Routes
@@ -51,6 +59,7 @@ app.use('/api/medications', medicationRoutes);
 app.use('/api/caregivers', caregiverRoutes);
 app.use('/api/monitor', monitorRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/dose-events', doseEventRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
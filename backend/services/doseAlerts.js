@@ -0,0 +1,62 @@
+const CaregiverConnection = require('../models/CaregiverConnection');
+const Notification = require('../models/Notification');
+const { sendToUsers } = require('./pushNotifications');
+
+// Store a dose alert for each of the elder's caregivers and push it; returns how many devices were reached
+const alertCaregivers = async (elder, { type, title, message, medicationName, containerId, scheduledTime, date }) => {
+  const connections = await CaregiverConnection.getElderConnections(elder.userId);
+  const caregiverIds = connections.map(connection => connection.caregiverId);
+  if (caregiverIds.length === 0) return null;
+
+  const notificationId = `${type === 'escalation' ? 'escalation' : 'missed'}_${elder.userId}_${Date.now()}`;
+
+  // Keep a copy in each caregiver's notification list, even when push is unavailable
+  await Notification.insertMany(caregiverIds.map(caregiverId => ({
+    userId: caregiverId,
+    notificationId,
+    type,
+    title,
+    message,
+    medicineName: medicationName,
+    containerId,
+    scheduledTime,
+    scheduledDate: date,
+    elderId: elder.userId,
+    elderName: elder.name
+  })));
+
+  const result = await sendToUsers(caregiverIds, {
+    title,
+    message,
+    data: {
+      id: notificationId,
+      type,
+      medicineName: medicationName,
+      containerId,
+      scheduledTime,
+      date,
+      elderId: elder.userId,
+      elderName: elder.name,
+      createdAt: new Date().toISOString()
+    }
+  });
+  return result.sent;
+};
+
+// Tell an elder's caregivers that a snoozed dose is still not taken; lateness is left out when unknown
+const alertEscalation = (elder, { medicationName, containerId, scheduledTime, date, snoozeCount = 0, minutesLate }) =>
+  alertCaregivers(elder, {
+    type: 'escalation',
+    title: `Dose not taken: ${medicationName}`,
+    message: `${elder.name} has not taken ${medicationName} (container ${containerId}) scheduled at ${scheduledTime}. ` +
+      `Snoozed ${snoozeCount} time(s)${minutesLate === undefined ? '' : `, now ${minutesLate} min late`}.`,
+    medicationName,
+    containerId,
+    scheduledTime,
+    date
+  });
+
+module.exports = {
+  alertCaregivers,
+  alertEscalation
+};
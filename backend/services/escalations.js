@@ -0,0 +1,57 @@
+const DoseEvent = require('../models/DoseEvent');
+const User = require('../models/User');
+const { alertEscalation } = require('./doseAlerts');
+
+// Look for snoozed doses past their escalation time this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+// Escalations overdue by longer than this (e.g. after downtime) are dropped
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Alert caregivers about each dose still snoozed past its escalation time; returns how many were sent
+const sweepEscalations = async (now = new Date()) => {
+  const due = await DoseEvent.find({
+    status: 'snoozed',
+    escalatedAt: null,
+    escalateAt: { $lte: now, $gt: new Date(now.getTime() - STALE_AFTER_MS) }
+  });
+
+  let escalated = 0;
+  for (const candidate of due) {
+    // Claim the dose first so an outcome recorded meanwhile, or another sweep, wins
+    const event = await DoseEvent.findOneAndUpdate(
+      { _id: candidate._id, status: 'snoozed', escalatedAt: null },
+      { escalatedAt: now },
+      { new: true }
+    );
+    if (!event) continue;
+
+    try {
+      const elder = await User.findOne({ userId: event.userId, isActive: true });
+      if (elder) {
+        await alertEscalation(elder, {
+          medicationName: event.medicationName,
+          containerId: event.containerId,
+          scheduledTime: event.scheduledTime,
+          date: event.scheduledDate,
+          snoozeCount: event.snoozeCount
+        });
+      }
+      escalated++;
+    } catch (error) {
+      // Release the claim so the next sweep tries again
+      console.error('Error escalating snoozed dose:', error);
+      await DoseEvent.updateOne({ _id: event._id, escalatedAt: now }, { escalatedAt: null });
+    }
+  }
+  return escalated;
+};
+
+// Run the sweep in the background; returns the timer so tests or shutdown can clear it
+const startEscalationSweep = () => setInterval(() => {
+  sweepEscalations().catch(error => console.error('Error sweeping escalations:', error));
+}, SWEEP_INTERVAL_MS);
+
+module.exports = {
+  sweepEscalations,
+  startEscalationSweep
+};
@@ -0,0 +1,25 @@
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+
+const CODE_LENGTH = 6;
+
+// Random numeric code, zero-padded
+const generateCode = () => crypto.randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+
+// Codes are stored hashed, like passwords
+const hashCode = async (code) => {
+  const salt = await bcrypt.genSalt(10);
+  return bcrypt.hash(code, salt);
+};
+
+const verifyCode = (code, codeHash) => {
+  if (!code || !codeHash) return Promise.resolve(false);
+  return bcrypt.compare(String(code), codeHash);
+};
+
+module.exports = {
+  CODE_LENGTH,
+  generateCode,
+  hashCode,
+  verifyCode
+};
@@ -0,0 +1,83 @@
+const admin = require('firebase-admin');
+const User = require('../models/User');
+
+// FCM error codes that mean the device token will never work again
+const INVALID_TOKEN_CODES = [
+  'messaging/invalid-registration-token',
+  'messaging/registration-token-not-registered'
+];
+
+let messaging = null;
+
+// Lazily initialise firebase-admin; returns null when push is not configured
+const getMessaging = () => {
+  if (messaging) return messaging;
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (!serviceAccount) return null;
+
+  try {
+    if (admin.apps.length === 0) {
+      admin.initializeApp({
+        credential: admin.credential.cert(JSON.parse(serviceAccount))
+      });
+    }
+    messaging = admin.messaging();
+    return messaging;
+  } catch (error) {
+    console.error('Error initialising Firebase messaging:', error);
+    return null;
+  }
+};
+
+// FCM data payloads only accept string values
+const toDataPayload = (data) => {
+  const payload = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      payload[key] = String(value);
+    }
+  });
+  return payload;
+};
+
+// Send a notification to every registered device of the given users
+const sendToUsers = async (userIds, { title, message, data = {} }) => {
+  const fcm = getMessaging();
+  if (!fcm) {
+    console.warn('Push notifications not configured, skipping send');
+    return { sent: 0, failed: 0 };
+  }
+
+  const users = await User.find({ userId: { $in: userIds }, isActive: true });
+  const tokens = users.flatMap(user => (user.pushTokens || []).map(entry => entry.token));
+  if (tokens.length === 0) {
+    return { sent: 0, failed: 0 };
+  }
+
+  const response = await fcm.sendEachForMulticast({
+    tokens,
+    notification: { title, body: message },
+    data: toDataPayload({ ...data, title, message }),
+    android: { priority: 'high' },
+    apns: { payload: { aps: { sound: 'default' } } }
+  });
+
+  // Drop tokens FCM reports as dead so they are not retried forever
+  const invalidTokens = response.responses
+    .map((result, index) => (!result.success && INVALID_TOKEN_CODES.includes(result.error?.code) ? tokens[index] : null))
+    .filter(Boolean);
+
+  if (invalidTokens.length > 0) {
+    await User.updateMany(
+      { 'pushTokens.token': { $in: invalidTokens } },
+      { $pull: { pushTokens: { token: { $in: invalidTokens } } } }
+    );
+  }
+
+  return { sent: response.successCount, failed: response.failureCount };
+};
+
+module.exports = {
+  sendToUsers
+};
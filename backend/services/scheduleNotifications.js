@@ -0,0 +1,55 @@
+const MedicationSchedule = require('../models/MedicationSchedule');
+const Notification = require('../models/Notification');
+
+// Look for new or changed schedules this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Schedules changed before this were already handled; the first sweep after a start covers them all
+let sweptUntil = null;
+
+// Add a notification for each active schedule whose user has not been told about it yet; returns how many were added
+const sweepScheduleNotifications = async (now = new Date()) => {
+  const query = {
+    isActive: true,
+    $or: [
+      { endDate: null },
+      { endDate: { $gt: now } }
+    ]
+  };
+  if (sweptUntil) query.updatedAt = { $gte: sweptUntil };
+
+  const schedules = await MedicationSchedule.find(query);
+  let added = 0;
+  if (schedules.length > 0) {
+    const result = await Notification.bulkWrite(schedules.map(schedule => ({
+      updateOne: {
+        filter: { userId: schedule.userId, notificationId: `schedule_${schedule._id}` },
+        update: {
+          $setOnInsert: {
+            type: 'medication',
+            title: `Medication Reminder: ${schedule.medicationName}`,
+            message: `Time to take ${schedule.dosage} of ${schedule.medicationName}`,
+            medicineName: schedule.medicationName,
+            containerId: schedule.container || 1,
+            scheduledTime: schedule.timeSlots[0]?.time || '08:00'
+          }
+        },
+        upsert: true
+      }
+    })));
+    added = result.upsertedCount;
+  }
+
+  sweptUntil = now;
+  return added;
+};
+
+// Run the sweep in the background; returns the timer so tests or shutdown can clear it
+const startScheduleNotificationSweep = () => setInterval(() => {
+  sweepScheduleNotifications().catch(error => console.error('Error sweeping schedule notifications:', error));
+}, SWEEP_INTERVAL_MS);
+
+module.exports = {
+  sweepScheduleNotifications,
+  startScheduleNotificationSweep
+};
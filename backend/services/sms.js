@@ -0,0 +1,47 @@
+// Send text messages through an HTTP SMS gateway configured in the environment
+const getGateway = () => {
+  const url = process.env.SMS_API_URL;
+  if (!url) return null;
+  return {
+    url,
+    apiKey: process.env.SMS_API_KEY,
+    sender: process.env.SMS_SENDER || 'PillNow'
+  };
+};
+
+// Returns true when the gateway accepted the message
+const sendSms = async (to, message) => {
+  const gateway = getGateway();
+  if (!gateway) {
+    console.warn('SMS not configured, skipping send');
+    // Let developers see one-time codes without a gateway, only when asked for explicitly
+    if (process.env.SMS_DEBUG === '1') {
+      console.log(`SMS to ${to}: ${message}`);
+    }
+    return false;
+  }
+
+  try {
+    const response = await fetch(gateway.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(gateway.apiKey ? { Authorization: `Bearer ${gateway.apiKey}` } : {})
+      },
+      body: JSON.stringify({ to, message, sender: gateway.sender })
+    });
+
+    if (!response.ok) {
+      console.error('SMS gateway rejected message:', response.status, await response.text());
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error sending SMS:', error);
+    return false;
+  }
+};
+
+module.exports = {
+  sendSms
+};